@@ -30,9 +30,26 @@ import {
     NeuronNLPPanel, 
     QASwarmPanel,
     StatsDashboard, 
+    CostAnalyticsPanel,
+    ModelRoutingPanel,
+    SemanticLinkingPanel,
+    AnchorDiversityPanel,
+    PromptTemplatePanel,
+    BrandVoicePanel,
+    WorkspaceSwitcher,
+    WorkspaceDashboard,
+    LinkGraphPanel,
+    VaultPanel,
+    VaultLockButton,
     PageQueueList, 
     EntityGapPanel, 
     ContentPreview,
+    LiveSectionPreview,
+    RevisionHistoryPanel,
+    ContentDiffView,
+    ApprovalQueuePanel,
+    InboundLinkPanel,
+    InternalLinkReportPanel,
     ProgressIndicator, 
     Badge as BadgeComponent, 
     Card as CardComponent, 
@@ -55,7 +72,20 @@ import {
     BulkJob,
     BulkProcessingState,
     BulkResult,
-    PostPreservationData
+    PostPreservationData,
+    PostRevisionSnapshot,
+    EntityGapAnalysis,
+    ApprovalQueueItem,
+    PublishMode,
+    ApprovalPublishStatus,
+    PipelineCheckpoint,
+    TokenUsageTotals,
+    BudgetViolation,
+    AIProvider,
+    CancellationToken,
+    SectionStreamUpdate,
+    InboundLinkProposal,
+    PageEmbeddingIndex
 } from './types';
 import { 
     extractSlugFromUrl, 
@@ -73,31 +103,47 @@ import {
 import { 
     titanFetch, 
     wpResolvePostIdEnhanced, 
-    wpUpdatePost, 
-    wpCreatePost, 
     wpGetPost, 
     wpTestConnection, 
     performEntityGapAnalysis,
     discoverAndValidateReferences, 
-    wpUpdatePostMeta,
-    wpGetPostWithImages, 
     wpGetFeaturedImage, 
     extractImagesFromContent,
     wpUpdateMediaAltText, 
     wpGetMediaIdFromUrl, 
     wpGetPostFullUrl,
-    discoverInternalLinkTargets
+    discoverInternalLinkTargets,
+    wpCapturePostSnapshot,
+    wpRestorePostSnapshot,
+    wpGetPublishedPostContents,
+    setSerperQueryHook
 } from './fetch-service';
 import { 
     orchestrator, 
     VALID_GEMINI_MODELS, 
     OPENROUTER_MODELS,
+    discoverLocalModels,
     searchYouTubeVideo,
     createYouTubeEmbed,
     discoverReferences,
     createReferencesSection
 } from './lib/ai-orchestrator';
 import { getNeuronWriterAnalysis, listNeuronProjects } from './neuronwriter';
+import { crawlSitemap } from './lib/sitemap-crawler';
+import { createAutonomousScheduler, AutonomousScheduler } from './lib/autonomous-scheduler';
+import { calculateCost, addUsage, formatCost } from './lib/usage-accounting';
+import { getProviderModels, getModelSpec, validateModelSelection, formatTokenCount } from './lib/model-registry';
+import { hasProviderCredentials } from './lib/llm-router';
+import { BudgetExceededError, checkSpendBudget, checkSerperBudget, describeBudgetViolation, isBudgetExceededError } from './lib/budget-guard';
+import { isGenerationCancelledError, throwIfCancelled } from './lib/llm-stream';
+import { resolvePromptTemplateSet } from './lib/prompt-templates';
+import { resolveBrandVoice } from './lib/brand-voice';
+import { startInactivityTimer } from './lib/credential-vault';
+import { crawlLinkGraph, prioritizeLinkTargets } from './lib/link-graph';
+import { applyInboundLinkProposal, findInboundLinkOpportunities } from './lib/inbound-links';
+import { updatePageEmbeddings } from './lib/embeddings';
+import { AnchorGuard, anchorUsageEntry, anchorUsageFromLinkGraph, extractAnchorUsage } from './lib/anchor-diversity';
+import { loadExistingPost, publishToWordPress, removeDuplicateFAQSections, removeH1TagsFromContent, synthesizeContent } from './lib/god-mode';
 
 function extractTopicFromUrl(url: string): string {
     try {
@@ -127,10 +173,37 @@ const QA_PASS_THRESHOLD = 65;
 const MIN_WORD_COUNT = 3000;
 const TARGET_WORD_COUNT = 4000;
 const TITLE_MIN_LENGTH = 45;
-const TITLE_MAX_LENGTH = 65;
 const META_MIN_LENGTH = 145;
-const META_MAX_LENGTH = 160;
 const JOB_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes (reduced from 25)
+const LOCAL_JOB_TIMEOUT_MS = 45 * 60 * 1000; // self-hosted models generate far slower
+const CHECKPOINT_MAX_AGE_MS = 24 * 60 * 60 * 1000; // older checkpoints are discarded, not resumed
+
+const jobTimeoutFor = (provider: AIProvider) => provider === 'local' ? LOCAL_JOB_TIMEOUT_MS : JOB_TIMEOUT_MS;
+
+/**
+ * Runs one bulk/autonomous job with its own cancellation token. On timeout the
+ * job is cancelled and awaited, so it can't keep calling LLMs or publish after
+ * the queue has moved on.
+ */
+async function runJobWithTimeout(
+    run: (cancellation: CancellationToken) => Promise<GodModeResult>,
+    timeoutMs: number
+): Promise<GodModeResult> {
+    const cancellation: CancellationToken = { cancelled: false, cancelledSections: [] };
+    const job = run(cancellation);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = await Promise.race([
+        job.then(() => false, () => false),
+        new Promise<boolean>(resolve => { timer = setTimeout(() => resolve(true), timeoutMs); })
+    ]);
+    clearTimeout(timer);
+    
+    if (timedOut) {
+        cancellation.cancelled = true;
+        cancellation.reason = 'Job timeout';
+    }
+    return job;
+}
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🎯 ENTERPRISE PROGRESS TRACKING — PHASE CONFIGURATION
@@ -160,6 +233,7 @@ const PHASE_CONFIG: Record<string, ProgressPhaseConfig> = {
     'qa_validation': { label: 'QA Check', icon: '✅', color: '#06b6d4', step: 12, description: 'Running quality validation...' },
     'final_polish': { label: 'Polishing', icon: '✨', color: '#0ea5e9', step: 13, description: 'Final optimizations...' },
     'publishing': { label: 'Publishing', icon: '📤', color: '#3b82f6', step: 14, description: 'Pushing to WordPress...' },
+    'awaiting_approval': { label: 'In Review', icon: '👀', color: '#a855f7', step: 14, description: 'Waiting in the approval queue...' },
     'completed': { label: 'Complete!', icon: '🎉', color: '#10b981', step: 15, description: 'Optimization successful!' },
     'failed': { label: 'Failed', icon: '❌', color: '#ef4444', step: 0, description: 'Optimization failed' },
 };
@@ -376,79 +450,6 @@ function deepClone<T>(obj: T): T {
     return JSON.parse(JSON.stringify(obj));
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// 🔥 FAQ DEDUPLICATION — MODULE LEVEL
-// ═══════════════════════════════════════════════════════════════════════════════
-
-function removeDuplicateFAQSections(html: string, log?: (msg: string) => void): string {
-    if (!html) return html;
-    
-    const faqSectionPattern = /<section[^>]*(?:class|id)="[^"]*(?:faq|wp-opt-faq)[^"]*"[^>]*>[\s\S]*?<\/section>/gi;
-    const allFaqSections = [...html.matchAll(faqSectionPattern)];
-    
-    if (allFaqSections.length <= 1) {
-        log?.(`   ✓ FAQ sections: ${allFaqSections.length} (no duplicates)`);
-        return html;
-    }
-    
-    log?.(`   ⚠️ Found ${allFaqSections.length} FAQ sections — removing ${allFaqSections.length - 1} duplicate(s)...`);
-    
-    let cleaned = html;
-    for (let i = 0; i < allFaqSections.length - 1; i++) {
-        cleaned = cleaned.replace(allFaqSections[i][0], '<!-- DUPLICATE_FAQ_REMOVED -->');
-    }
-    
-    cleaned = cleaned.replace(/<!-- DUPLICATE_FAQ_REMOVED -->\s*/g, '');
-    cleaned = cleaned.replace(/\n{3,}/g, '\n\n').trim();
-    
-    log?.(`   ✓ Removed ${allFaqSections.length - 1} duplicate FAQ section(s)`);
-    return cleaned;
-}
-
-// ═══════════════════════════════════════════════════════════════════════════════
-// 🔥 H1 REMOVAL FUNCTION — ALWAYS APPLIED
-// ═══════════════════════════════════════════════════════════════════════════════
-
-function removeH1TagsFromContent(html: string, log?: (msg: string) => void): string {
-    if (!html) return html;
-    
-    const h1CountBefore = (html.match(/<h1/gi) || []).length;
-    
-    if (h1CountBefore === 0) {
-        log?.(`   ✓ No H1 tags found — content is clean`);
-        return html;
-    }
-    
-    log?.(`   ⚠️ Found ${h1CountBefore} H1 tag(s) — removing (WordPress provides H1)...`);
-    
-    let cleaned = html;
-    const patterns = [
-        /<h1[^>]*>[\s\S]*?<\/h1>/gi,
-        /<h1[^>]*\/>/gi,
-    ];
-    
-    for (let pass = 0; pass < 3; pass++) {
-        for (const pattern of patterns) {
-            cleaned = cleaned.replace(pattern, '');
-        }
-    }
-    
-    cleaned = cleaned.replace(/<h1\b[^>]*>/gi, '');
-    cleaned = cleaned.replace(/<\/h1>/gi, '');
-    cleaned = cleaned.replace(/\n{3,}/g, '\n\n').trim();
-    
-    const h1CountAfter = (cleaned.match(/<h1/gi) || []).length;
-    
-    if (h1CountAfter > 0) {
-        log?.(`   ❌ WARNING: ${h1CountAfter} H1 tag(s) still present — forcing removal!`);
-        cleaned = cleaned.replace(/h1/gi, 'h2');
-    } else {
-        log?.(`   ✓ Successfully removed ${h1CountBefore} H1 tag(s)`);
-    }
-    
-    return cleaned;
-}
-
 function validateContentNoH1(html: string): { valid: boolean; count: number } {
     const h1Count = (html.match(/<h1[^>]*>/gi) || []).length;
     return { valid: h1Count === 0, count: h1Count };
@@ -478,19 +479,7 @@ function countWords(text: string): number {
 // 🎛️ OPENROUTER MODEL SELECTOR COMPONENT
 // ═══════════════════════════════════════════════════════════════════════════════
 
-const OPENROUTER_PRESET_MODELS = [
-    'google/gemini-2.5-flash-preview',
-    'google/gemini-2.5-pro-preview',
-    'anthropic/claude-sonnet-4',
-    'anthropic/claude-opus-4',
-    'openai/gpt-4o',
-    'openai/gpt-4o-mini',
-    'meta-llama/llama-3.3-70b-instruct',
-    'deepseek/deepseek-chat',
-    'deepseek/deepseek-r1',
-    'mistralai/mistral-large',
-    'qwen/qwen-2.5-72b-instruct',
-];
+const OPENROUTER_PRESET_MODELS = getProviderModels('openrouter').map(m => m.id);
 
 interface OpenRouterModelSelectorProps {
     value: string;
@@ -592,13 +581,7 @@ const OpenRouterModelSelector: React.FC<OpenRouterModelSelectorProps> = ({ value
 // 🎛️ GROQ MODEL SELECTOR COMPONENT
 // ═══════════════════════════════════════════════════════════════════════════════
 
-const GROQ_PRESET_MODELS = [
-    'llama-3.3-70b-versatile',
-    'llama-3.1-70b-versatile',
-    'llama-3.1-8b-instant',
-    'mixtral-8x7b-32768',
-    'gemma2-9b-it',
-];
+const GROQ_PRESET_MODELS = getProviderModels('groq').map(m => m.id);
 
 interface GroqModelSelectorProps {
     value: string;
@@ -672,6 +655,200 @@ const GroqModelSelector: React.FC<GroqModelSelectorProps> = ({ value, onChange }
     );
 };
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎛️ REGISTRY MODEL SELECTOR (OPENAI / ANTHROPIC) & MODEL SPEC NOTE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface RegistryModelSelectorProps {
+    provider: 'openai' | 'anthropic';
+    value: string;
+    onChange: (value: string) => void;
+}
+
+const RegistryModelSelector: React.FC<RegistryModelSelectorProps> = ({ provider, value, onChange }) => {
+    const models = getProviderModels(provider);
+    
+    return (
+        <div>
+            <label className="text-[11px] font-semibold text-white/50 uppercase tracking-wider mb-2 block">
+                {provider === 'openai' ? 'OpenAI' : 'Anthropic'} Model
+            </label>
+            <select
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-4 py-3 text-[14px] focus:border-blue-500 outline-none"
+            >
+                {!getModelSpec(provider, value) && <option value={value}>{value || '— Select a model —'}</option>}
+                {models.map(m => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+interface ModelSpecNoteProps {
+    provider: AIProvider;
+    model: string;
+}
+
+// Validation result plus context / output / price for the selected model
+const ModelSpecNote: React.FC<ModelSpecNoteProps> = ({ provider, model }) => {
+    const validation = validateModelSelection(provider, model);
+    const spec = getModelSpec(provider, model);
+    
+    return (
+        <div className="space-y-1 px-3 py-2 bg-white/[0.02] rounded-lg border border-white/[0.04] text-[11px]">
+            {spec && (
+                <div className="text-white/50 tabular-nums">
+                    Context {formatTokenCount(spec.contextWindow)} · Max output {formatTokenCount(spec.maxOutputTokens)} · 
+                    ${spec.price.inputPerMillion.toFixed(2)} / ${spec.price.outputPerMillion.toFixed(2)} per 1M tokens
+                </div>
+            )}
+            {validation.message && (
+                <div className={validation.valid ? 'text-yellow-400/80' : 'text-red-400'}>
+                    {validation.valid ? '⚠️' : '❌'} {validation.message}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🖥️ LOCAL PROVIDER SETTINGS — BASE URL + MODEL DISCOVERY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface LocalProviderSettingsProps {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    onBaseUrlChange: (value: string) => void;
+    onModelChange: (value: string) => void;
+}
+
+const LocalProviderSettings: React.FC<LocalProviderSettingsProps> = ({ baseUrl, apiKey, model, onBaseUrlChange, onModelChange }) => {
+    const [models, setModels] = useState<string[]>([]);
+    const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+    const [error, setError] = useState('');
+    
+    const discover = async () => {
+        setStatus('loading');
+        setError('');
+        try {
+            const found = await discoverLocalModels(baseUrl, apiKey);
+            setModels(found);
+            setStatus('idle');
+            if (found.length > 0 && !found.includes(model)) onModelChange(found[0]);
+        } catch (e: any) {
+            setStatus('error');
+            setError(e.message || 'Model discovery failed');
+        }
+    };
+    
+    return (
+        <div className="space-y-3">
+            <AdvancedInputComponent
+                label="Server Base URL"
+                value={baseUrl}
+                onChange={onBaseUrlChange}
+                placeholder="http://localhost:11434/v1"
+                icon="🖥️"
+                helpText="Any OpenAI-compatible server (Ollama, llama.cpp, vLLM). The server must allow this page's origin (CORS)."
+                required
+            />
+            
+            <div className="flex items-end gap-2">
+                <div className="flex-1">
+                    <label className="text-[11px] font-semibold text-white/50 uppercase tracking-wider mb-2 block">
+                        Local Model
+                    </label>
+                    {models.length > 0 ? (
+                        <select
+                            value={model}
+                            onChange={e => onModelChange(e.target.value)}
+                            className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-4 py-3 text-[14px] focus:border-blue-500 outline-none"
+                        >
+                            {!models.includes(model) && <option value={model}>{model || '— Select a model —'}</option>}
+                            {models.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                    ) : (
+                        <input
+                            type="text"
+                            value={model}
+                            onChange={e => onModelChange(e.target.value.trim())}
+                            placeholder="e.g., llama3.1:8b"
+                            className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-4 py-3 text-[14px] focus:border-blue-500 outline-none font-mono"
+                        />
+                    )}
+                </div>
+                <button
+                    type="button"
+                    onClick={discover}
+                    disabled={!baseUrl || status === 'loading'}
+                    className="py-3 px-4 rounded-xl text-[11px] font-semibold uppercase tracking-wider border bg-blue-500/10 border-blue-500/30 text-blue-400 disabled:opacity-30"
+                >
+                    {status === 'loading' ? '🔄 Loading...' : '🔎 Discover'}
+                </button>
+            </div>
+            
+            {status === 'error' && (
+                <div className="text-[11px] text-red-400">❌ {error}</div>
+            )}
+        </div>
+    );
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📤 PUBLISH INPUT — SHARED BY GOD MODE AND THE APPROVAL QUEUE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface PublishContractInput {
+    targetId: string;
+    contract: ContentContract;
+    topic: string;
+    postId: number | null;
+    preservation: PostPreservationData;
+    revisionSnapshot: PostRevisionSnapshot | null;
+    entityGapData?: EntityGapAnalysis;
+    status: 'publish' | 'draft';
+    startTime: number;
+    log: (msg: string) => void;
+}
+
+interface PublishContractResult {
+    postId: number;
+    link: string;
+    score: number;
+    wordCount: number;
+    processingTime: number;
+    usage?: TokenUsageTotals;
+}
+
+interface GodModeResult {
+    success: boolean;
+    score: number;
+    wordCount: number;
+    error?: string;
+    pendingApproval?: boolean;
+    // LLM usage incurred by this call only
+    usage?: TokenUsageTotals;
+    // Set when a spend budget stopped the job
+    budgetExceeded?: BudgetViolation;
+}
+
+interface GodModeOptions {
+    // Overrides store.publishMode for this run (e.g. regenerations from the approval queue)
+    publishMode?: PublishMode;
+    // Per-job token for bulk/autonomous runs — the shared UI token is used otherwise
+    cancellation?: CancellationToken;
+    // Status a review-mode item is queued with (defaults to store.approvalPublishStatus)
+    approvalStatus?: ApprovalPublishStatus;
+    // Reviewer feedback to address in the next generation
+    feedback?: string[];
+    // globalStats cost when the enclosing bulk/autonomous run started (enables the run budget)
+    runStartCostUsd?: number;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🚀 MAIN APP COMPONENT
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -687,7 +864,10 @@ const App: React.FC = () => {
     const [manualUrl, setManualUrl] = useState('');
     const [targetKeywordOverride, setTargetKeywordOverride] = useState('');
     const [activePageId, setActivePageId] = useState<string | null>(null);
-    const [reviewTab, setReviewTab] = useState<'content' | 'qa' | 'entity'>('content');
+    const [reviewTab, setReviewTab] = useState<'content' | 'diff' | 'qa' | 'links' | 'entity' | 'revisions'>('content');
+    const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+    const [busyApprovalId, setBusyApprovalId] = useState<string | null>(null);
+    const [showCrawlOptions, setShowCrawlOptions] = useState(false);
     const [wpTestStatus, setWpTestStatus] = useState<'idle' | 'testing' | 'success' | 'failed'>('idle');
     const [crawlProgress, setCrawlProgress] = useState<{ current: number; total: number } | null>(null);
     const [neuronProjects, setNeuronProjects] = useState<Array<{ project: string; name: string }>>([]);
@@ -699,6 +879,8 @@ const App: React.FC = () => {
     const [preserveFeaturedImage, setPreserveFeaturedImage] = useState(true);
     const [preserveCategories, setPreserveCategories] = useState(true);
     const [preserveTags, setPreserveTags] = useState(true);
+    const [backfillInboundLinks, setBackfillInboundLinks] = useState(true);
+    const [busyInboundId, setBusyInboundId] = useState<string | null>(null);
     
     const [geoConfig, setGeoConfig] = useState<GeoTargetConfig>({
         enabled: false,
@@ -740,23 +922,61 @@ const App: React.FC = () => {
     });
     const bulkAbortRef = useRef(false);
     
-    // Cancellation system
-    const cancellationTokenRef = useRef<{ cancelled: boolean; reason?: string }>({ cancelled: false });
+    // Cancellation system — the running generation holds this object, so it is mutated in place
+    const cancellationTokenRef = useRef<CancellationToken>({ cancelled: false });
     
     const cancelCurrentJob = useCallback((reason: string = 'User cancelled') => {
-        cancellationTokenRef.current = { cancelled: true, reason };
+        cancellationTokenRef.current.cancelled = true;
+        cancellationTokenRef.current.reason = reason;
         store.addGodLog(`⛔ CANCELLATION REQUESTED: ${reason}`);
-        store.addToast('Cancellation requested — will stop after current phase', 'warning');
+        store.addToast('Cancellation requested — stopping generation', 'warning');
+    }, [store]);
+    
+    const cancelSection = useCallback((index: number) => {
+        const token = cancellationTokenRef.current;
+        token.cancelledSections = [...(token.cancelledSections || []), index];
+        store.addGodLog(`⏭️ Skipping section ${index + 1}`);
     }, [store]);
     
     const resetCancellationToken = useCallback(() => {
-        cancellationTokenRef.current = { cancelled: false, reason: undefined };
+        cancellationTokenRef.current = { cancelled: false, cancelledSections: [] };
+    }, []);
+    
+    // Section HTML streamed by the running generation
+    const [liveSections, setLiveSections] = useState<SectionStreamUpdate[]>([]);
+    
+    const handleSectionStream = useCallback((update: SectionStreamUpdate) => {
+        setLiveSections(prev => {
+            const next = prev.filter(s => s.index !== update.index);
+            next.push(update);
+            return next.sort((a, b) => a.index - b.index);
+        });
     }, []);
 
     const activePage = useMemo(() => 
         store.pages.find(p => p.id === activePageId), 
         [store.pages, activePageId]
     );
+    
+    // Auto-lock the vault after inactivity — postponed while jobs are running
+    useEffect(() => {
+        if (store.vaultStatus !== 'unlocked') return;
+        return startInactivityTimer(store.vaultAutoLockMs, () => {
+            const state = useAppStore.getState();
+            if (state.isProcessing || state.autonomousRun.status === 'running') return false;
+            state.lockVault();
+            state.addToast('🔒 Vault locked after inactivity', 'info');
+            return true;
+        });
+    }, [store.vaultStatus, store.vaultAutoLockMs]);
+    
+    // Page selections and Neuron projects belong to the previous site
+    useEffect(() => {
+        setActivePageId(null);
+        setLiveSections([]);
+        setNeuronProjects([]);
+        setWpTestStatus('idle');
+    }, [store.activeWorkspaceId]);
 
     // ═══════════════════════════════════════════════════════════════════════════
     // HELPERS
@@ -769,7 +989,8 @@ const App: React.FC = () => {
         logoUrl: store.wpConfig.logoUrl,
         authorPageUrl: store.wpConfig.authorPageUrl,
         industry: store.wpConfig.industry,
-        targetAudience: store.wpConfig.targetAudience
+        targetAudience: store.wpConfig.targetAudience,
+        brandVoice: store.wpConfig.brandVoice
     }), [store.wpConfig]);
 
     const getAuth = useCallback(() => ({
@@ -777,9 +998,17 @@ const App: React.FC = () => {
         p: store.wpConfig.password || ''
     }), [store.wpConfig.username, store.wpConfig.password]);
 
+    // Site-wide anchor history for the link injectors, or undefined when the guard is off
+    const getAnchorGuard = useCallback((): AnchorGuard | undefined => {
+        const { anchorDiversitySettings, anchorUsage, wpConfig } = useAppStore.getState();
+        if (!anchorDiversitySettings.enabled) return undefined;
+        return { settings: anchorDiversitySettings, usage: anchorUsage, brand: wpConfig.orgName || '' };
+    }, []);
+
 const hasRequiredKeys = useCallback(() => {
     return !!(store.apiKeys.google || store.apiKeys.openrouter || 
-              store.apiKeys.openai || store.apiKeys.anthropic || store.apiKeys.groq);
+              store.apiKeys.openai || store.apiKeys.anthropic || store.apiKeys.groq ||
+              store.apiKeys.localBaseUrl);
 }, [store.apiKeys]);
 
 // 🔥 IMPROVED: Validates Serper API key format properly
@@ -811,38 +1040,15 @@ const hasValidSerperKey = useCallback(() => {
             case 'groq':
                 return store.apiKeys.groqModel || 'llama-3.3-70b-versatile';
             case 'openai':
-                return 'gpt-4o';
+                return store.apiKeys.openaiModel || 'gpt-4o';
             case 'anthropic':
-                return 'claude-sonnet-4';
+                return store.apiKeys.anthropicModel || 'claude-sonnet-4-20250514';
+            case 'local':
+                return store.apiKeys.localModel;
             default:
                 return store.selectedModel;
         }
-    }, [store.selectedProvider, store.apiKeys.openrouterModel, store.apiKeys.groqModel, store.selectedModel]);
-
-    const enforceTitle = useCallback((title: string, log: (msg: string) => void): string => {
-        if (!title) return title;
-        if (title.length <= TITLE_MAX_LENGTH) return title;
-        
-        let truncated = title.substring(0, 60);
-        const lastSpace = truncated.lastIndexOf(' ');
-        if (lastSpace > 40) truncated = truncated.substring(0, lastSpace);
-        
-        log(`   ⚠️ Title truncated: ${title.length} → ${truncated.length} chars`);
-        return truncated.trim();
-    }, []);
-
-    const enforceMeta = useCallback((meta: string, log: (msg: string) => void): string => {
-        if (!meta) return meta;
-        if (meta.length <= META_MAX_LENGTH) return meta;
-        
-        let truncated = meta.substring(0, 157);
-        const lastPeriod = truncated.lastIndexOf('. ');
-        if (lastPeriod > 100) truncated = truncated.substring(0, lastPeriod + 1);
-        else truncated = truncated.trim() + '...';
-        
-        log(`   ⚠️ Meta truncated: ${meta.length} → ${truncated.length} chars`);
-        return truncated;
-    }, []);
+    }, [store.selectedProvider, store.apiKeys.openrouterModel, store.apiKeys.groqModel, store.apiKeys.openaiModel, store.apiKeys.anthropicModel, store.apiKeys.localModel, store.selectedModel]);
 
     // ═══════════════════════════════════════════════════════════════════════════
     // WORDPRESS CONNECTION TEST
@@ -871,6 +1077,24 @@ const hasValidSerperKey = useCallback(() => {
         }
     }, [store, getAuth]);
 
+    // Persisted opportunity scores age with the pages — rescore once state is loaded
+    useEffect(() => {
+        const rescore = () => useAppStore.getState().rescoreOpportunities();
+        if (useAppStore.persist.hasHydrated()) rescore();
+        return useAppStore.persist.onFinishHydration(rescore);
+    }, []);
+
+    // Every Serper request counts toward the daily query budget
+    useEffect(() => {
+        setSerperQueryHook(() => {
+            const { spendBudget, dailySpend, recordSerperQuery } = useAppStore.getState();
+            const violation = checkSerperBudget(spendBudget, dailySpend);
+            if (violation) throw new BudgetExceededError(violation);
+            recordSerperQuery();
+        });
+        return () => setSerperQueryHook(null);
+    }, []);
+
     // ═══════════════════════════════════════════════════════════════════════════
     // SITEMAP CRAWLER
     // ═══════════════════════════════════════════════════════════════════════════
@@ -888,58 +1112,44 @@ const hasValidSerperKey = useCallback(() => {
         const startTime = Date.now();
         
         try {
-            let text = '';
-            let fetchSucceeded = false;
-            
-            // Try direct fetch first
-            try {
-                const directRes = await fetch(sitemapUrl, {
-                    method: 'GET',
-                    headers: { 'Accept': 'application/xml, text/xml, */*' }
-                });
-                if (directRes.ok) {
-                    text = await directRes.text();
-                    fetchSucceeded = true;
-                    store.addGodLog(`   ✅ Direct fetch succeeded`);
-                }
-            } catch {}
-            
-            // Fallback to CORS proxy
-            if (!fetchSucceeded) {
-                try {
-                    const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(sitemapUrl)}`;
-                    const proxyRes = await fetch(proxyUrl);
-                    if (proxyRes.ok) {
-                        text = await proxyRes.text();
-                        fetchSucceeded = true;
-                        store.addGodLog(`   ✅ CORS proxy succeeded`);
-                    }
-                } catch {}
-            }
+            const result = await crawlSitemap(
+                sitemapUrl.trim(),
+                store.sitemapCrawlConfig,
+                msg => store.addGodLog(msg)
+            );
             
-            if (!fetchSucceeded || !text) {
+            if (result.entries.length === 0 && result.failedSitemaps.includes(sitemapUrl.trim())) {
                 throw new Error('All fetch strategies failed');
             }
             
-            const xml = new DOMParser().parseFromString(text, 'application/xml');
-            let allUrls: string[] = Array.from(xml.querySelectorAll('url loc, loc'))
-                .map(el => el.textContent || '')
-                .filter(Boolean);
-            
-            const uniqueUrls = [...new Set(allUrls)].filter(url => {
-                if (!url || !url.startsWith('http')) return false;
-                const lower = url.toLowerCase();
-                const exclude = ['?', '.xml', '/wp-admin', '/wp-content', '/wp-json', '/feed/', '.pdf', '.jpg', '.png'];
-                return !exclude.some(p => lower.includes(p));
-            }).slice(0, 300);
+            store.addGodLog(`🔍 Found ${result.entries.length} valid URLs across ${result.sitemapsVisited} sitemap(s)` + 
+                (result.sitemapsSkipped ? ` | ${result.sitemapsSkipped} skipped by filters` : '') +
+                (result.truncated ? ` | limit reached` : ''));
+            if (result.failedSitemaps.length > 0) {
+                store.addGodLog(`   ⚠️ ${result.failedSitemaps.length} sitemap(s) could not be fetched`);
+            }
             
-            store.addGodLog(`🔍 Found ${uniqueUrls.length} valid URLs`);
+            const existingIds = new Set(store.pages.map(p => p.id));
+            const discovered: SitemapPage[] = [];
+            const refreshedIds: string[] = [];
             
-            const discovered: SitemapPage[] = uniqueUrls.map(url => {
-                const slug = sanitizeSlug(extractSlugFromUrl(url));
+            for (const entry of result.entries) {
+                // Refresh sitemap metadata on pages we already know about
+                if (existingIds.has(entry.url)) {
+                    store.updatePage(entry.url, {
+                        lastMod: entry.lastMod,
+                        priority: entry.priority,
+                        changeFreq: entry.changeFreq,
+                        postType: entry.postType
+                    });
+                    refreshedIds.push(entry.url);
+                    continue;
+                }
+                
+                const slug = sanitizeSlug(extractSlugFromUrl(entry.url));
                 let title = '';
                 try {
-                    const pathParts = new URL(url).pathname.split('/').filter(Boolean);
+                    const pathParts = new URL(entry.url).pathname.split('/').filter(Boolean);
                     if (pathParts.length > 0) {
                         title = pathParts[pathParts.length - 1]
                             .replace(/-/g, ' ')
@@ -947,24 +1157,28 @@ const hasValidSerperKey = useCallback(() => {
                     }
                 } catch {}
                 
-                return {
-                    id: url,
+                discovered.push({
+                    id: entry.url,
                     title: title || 'Page',
                     slug,
-                    lastMod: null,
+                    lastMod: entry.lastMod,
+                    priority: entry.priority,
+                    changeFreq: entry.changeFreq,
+                    postType: entry.postType,
                     wordCount: null,
                     crawledContent: null,
                     healthScore: null,
                     status: 'idle' as const,
-                    opportunity: calculateOpportunityScore(title, null),
+                    opportunity: calculateOpportunityScore(title, null, entry.lastMod),
                     improvementHistory: []
-                };
-            });
+                });
+            }
 
             store.addPages(discovered);
+            if (refreshedIds.length > 0) store.rescoreOpportunities(refreshedIds);
             
             const elapsed = Date.now() - startTime;
-            store.addGodLog(`🎉 CRAWL COMPLETE: ${discovered.length} pages in ${formatDuration(elapsed)}`);
+            store.addGodLog(`🎉 CRAWL COMPLETE: ${discovered.length} new pages${refreshedIds.length ? `, ${refreshedIds.length} refreshed` : ''} in ${formatDuration(elapsed)}`);
             store.addToast(`Discovered ${discovered.length} pages`, 'success');
             setSitemapUrl('');
         } catch (e: any) {
@@ -976,19 +1190,182 @@ const hasValidSerperKey = useCallback(() => {
         }
     }, [sitemapUrl, store]);
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // 🕸️ LINK GRAPH
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    const handleBuildLinkGraph = useCallback(async () => {
+        const homeUrl = store.wpConfig.url || (store.pages[0] ? new URL(store.pages[0].id).origin : '');
+        if (!homeUrl) {
+            store.addToast('Crawl a sitemap or set the WordPress URL first', 'warning');
+            return;
+        }
+        
+        store.setProcessing(true, 'Building link graph...');
+        store.addGodLog(`🕸️ LINK GRAPH: crawling ${homeUrl}`);
+        
+        try {
+            const graph = await crawlLinkGraph(
+                store.pages.map(p => p.id),
+                homeUrl,
+                {},
+                msg => store.addGodLog(msg)
+            );
+            store.setLinkGraph(graph);
+            store.recordAnchorUsage(anchorUsageFromLinkGraph(graph, store.wpConfig.orgName || ''), { origin: 'crawl' });
+            store.addToast(`Link graph built: ${graph.nodes.length} pages, ${graph.edges.length} links`, 'success');
+        } catch (e: any) {
+            store.addGodLog(`❌ Link graph failed: ${e.message}`);
+            store.addToast(`Link graph failed: ${e.message}`, 'error');
+        } finally {
+            store.setProcessing(false);
+        }
+    }, [store]);
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // 📤 PUBLISH CONTRACT — PHASES 6 & 7, SHARED WITH THE APPROVAL QUEUE
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    const publishContract = useCallback(async (input: PublishContractInput): Promise<PublishContractResult> => {
+        const { targetId, contract: bestContract, topic, postId, preservation, entityGapData, status, startTime, log } = input;
+        let revisionSnapshot = input.revisionSnapshot;
+        const auth = getAuth();
+        const getPage = () => useAppStore.getState().pages.find(p => p.id === targetId);
+
+        // ═══════════════════════════════════════════════════════════════
+        // PHASE 6: PUBLISH TO WORDPRESS
+        // ═══════════════════════════════════════════════════════════════
+
+        store.updateJobState(targetId, { phase: 'publishing' });
+        log(`📤 PHASE 6: Publishing to WordPress...`);
+
+        const published = await publishToWordPress({
+            wpUrl: store.wpConfig.url,
+            auth,
+            contract: bestContract,
+            status,
+            postId,
+            preservation,
+            preserve: {
+                featuredImage: preserveFeaturedImage,
+                contentImages: preserveImages,
+                categories: preserveCategories,
+                tags: preserveTags
+            },
+            focusKeyword: topic,
+            revisionSnapshot,
+            pageId: targetId,
+            log,
+            onSnapshot: (snapshot) => store.addRevision(targetId, snapshot)
+        });
+        const { postId: finalPostId, link: finalPostLink } = published;
+        revisionSnapshot = published.revisionSnapshot;
+
+        store.updateJobState(targetId, { postId: finalPostId });
+
+        // Remember the anchors this article links with, so later ones vary theirs
+        if (status === 'publish' && finalPostLink) {
+            const targets = store.pages.map(p => ({ url: p.id, title: p.title, slug: p.slug }));
+            store.recordAnchorUsage(
+                extractAnchorUsage(bestContract.htmlContent, finalPostLink, store.wpConfig.url, targets, store.wpConfig.orgName || '', 'published'),
+                { sourceUrl: finalPostLink }
+            );
+        }
+
+        // Links from existing posts back to this one — proposed here, written after review
+        if (backfillInboundLinks && status === 'publish' && finalPostLink) {
+            try {
+                log(`   ↩️ Looking for posts that should link here...`);
+                const sources = await wpGetPublishedPostContents(store.wpConfig.url, auth, { excludePostId: finalPostId, maxPosts: 100 });
+                const proposals = findInboundLinkOpportunities(
+                    { url: finalPostLink, title: bestContract.title, keyword: topic, html: bestContract.htmlContent },
+                    sources,
+                    {},
+                    getAnchorGuard()
+                );
+                if (proposals.length > 0) store.addInboundLinkProposals(proposals);
+                log(`   ↩️ ${proposals.length} inbound link proposal(s) from ${sources.length} posts queued for review`);
+            } catch (e: any) {
+                log(`   ⚠️ Inbound link search failed: ${e.message}`);
+            }
+        }
+
+        // ═══════════════════════════════════════════════════════════════
+        // PHASE 7: COMPLETION
+        // ═══════════════════════════════════════════════════════════════
+        
+        store.updateJobState(targetId, { phase: 'completed' });
+        
+        const metrics = calculateSeoMetrics(
+            bestContract.htmlContent, 
+            bestContract.title || topic, 
+            bestContract.slug || ''
+        );
+        
+        const finalQA = runQASwarm(bestContract, entityGapData, store.neuronTerms, resolveBrandVoice(store.wpConfig.brandVoice));
+        const finalScore = Math.round(
+            (metrics.aeoScore * 0.25) + 
+            (finalQA.score * 0.45) + 
+            (metrics.contentDepth * 0.15) +
+            (metrics.headingStructure * 0.15)
+        );
+
+        const processingTime = Date.now() - startTime;
+        const usage = getPage()?.jobState?.usage;
+
+        // Usage is attributed to the rewrite it produced, then starts over for the next one
+        store.updateJobState(targetId, { status: 'completed', processingTime, allFeedback: [], usage: undefined });
+        
+        store.updatePage(targetId, { 
+            status: 'analyzed', 
+            healthScore: finalScore, 
+            wordCount: metrics.wordCount, 
+            seoMetrics: metrics,
+            improvementHistory: [
+                ...(getPage()?.improvementHistory || []), 
+                { 
+                    timestamp: Date.now(), 
+                    score: finalScore, 
+                    action: `v${APP_VERSION}`, 
+                    wordCount: metrics.wordCount, 
+                    qaScore: finalQA.score, 
+                    version: APP_VERSION,
+                    revisionId: revisionSnapshot?.id,
+                    usage
+                }
+            ],
+            wpPostId: finalPostId, 
+            lastPublishedAt: Date.now()
+        });
+        store.rescoreOpportunities([targetId]);
+
+        store.updateGlobalStats({
+            totalProcessed: (store.globalStats.totalProcessed || 0) + 1,
+            totalWordsGenerated: (store.globalStats.totalWordsGenerated || 0) + metrics.wordCount,
+            lastRunTime: processingTime,
+            totalImproved: (store.globalStats.totalImproved || 0) + (finalScore >= 70 ? 1 : 0)
+        });
+
+        return { postId: finalPostId, link: finalPostLink, score: finalScore, wordCount: metrics.wordCount, processingTime, usage };
+    }, [store, getAuth, getAnchorGuard, preserveFeaturedImage, preserveImages, preserveCategories, preserveTags, backfillInboundLinks]);
+
     // ═══════════════════════════════════════════════════════════════════════════
     // 🔥🔥🔥 GOD MODE ENGINE — WITH STAGED PIPELINE INTEGRATION
     // ═══════════════════════════════════════════════════════════════════════════
 
     const executeGodMode = useCallback(async (
         targetOverride?: string, 
-        silentMode = false
-    ): Promise<{ success: boolean; score: number; wordCount: number; error?: string }> => {
+        silentMode = false,
+        options: GodModeOptions = {}
+    ): Promise<GodModeResult> => {
         const startTime = Date.now();
         let targetId = targetOverride;
+        let runUsage: TokenUsageTotals | undefined;
         
-        resetCancellationToken();
+        if (!options.cancellation) resetCancellationToken();
+        const cancellation = options.cancellation || cancellationTokenRef.current;
         setStageProgress(null);
+        if (!silentMode) setLiveSections([]);
         
         const log = (msg: string, _progress?: number) => { 
             if (targetId) store.addJobLog(targetId, msg);
@@ -1012,6 +1389,21 @@ const hasValidSerperKey = useCallback(() => {
         });
 
 
+        // Checked at phase boundaries and before every LLM call — stops cancelled
+        // (or timed-out) jobs as well as over-budget ones
+        const enforceBudget = () => {
+            throwIfCancelled(cancellation);
+            const { spendBudget, dailySpend, globalStats } = useAppStore.getState();
+            const violation = checkSpendBudget(spendBudget, {
+                articleCostUsd: runUsage?.costUsd ?? 0,
+                runCostUsd: options.runStartCostUsd !== undefined
+                    ? (globalStats.usage?.costUsd ?? 0) - options.runStartCostUsd
+                    : null,
+                daily: dailySpend
+            });
+            if (violation) throw new BudgetExceededError(violation);
+        };
+
         const failWith = (error: string): { success: false; score: 0; wordCount: 0; error: string } => {
             log(`❌ ${error}`, 0);
             return { success: false, score: 0, wordCount: 0, error };
@@ -1050,14 +1442,19 @@ const hasValidSerperKey = useCallback(() => {
         }
         
         if (!targetId) {
-            const candidates = store.pages
-                .filter(p => p.jobState?.status !== 'running')
-                .sort((a, b) => (a.healthScore || 0) - (b.healthScore || 0));
+            // Stalest, thinnest pages first
+            store.rescoreOpportunities();
+            const candidates = useAppStore.getState().pages
+                .filter(p => p.jobState?.status !== 'running' && p.status !== 'awaiting_approval')
+                .sort((a, b) => (b.opportunity?.total ?? 0) - (a.opportunity?.total ?? 0));
             targetId = candidates[0]?.id;
         }
 
         if (!targetId) return failWith('No pages to optimize');
+        if (store.vaultStatus === 'locked') return failWith('Credential vault is locked');
         if (!hasRequiredKeys()) return failWith('No AI API key configured');
+        const modelCheck = validateModelSelection(store.selectedProvider, getActualModel());
+        if (!modelCheck.valid) return failWith(modelCheck.message || 'Invalid model selection');
         if (!store.wpConfig.url) return failWith('WordPress URL not configured');
         if (!store.wpConfig.username || !store.wpConfig.password) return failWith('WordPress credentials not configured');
 
@@ -1080,7 +1477,7 @@ if (!existingPage) {
         crawledContent: null,
         healthScore: null,
         status: 'idle',
-        opportunity: 50,
+        opportunity: calculateOpportunityScore(inferredTitle, null),
         improvementHistory: []
     };
     store.addPages([newPage]);
@@ -1094,15 +1491,22 @@ store.updateJobState(targetId, {
     status: 'running', 
     phase: 'initializing', 
     error: undefined, 
+    budgetExceeded: undefined,
     attempts: (getPage()?.jobState?.attempts || 0) + 1,
     startTime
 });
 store.updatePage(targetId, { status: 'analyzing' });
 
+if (options.feedback) {
+    store.updateJobState(targetId, { allFeedback: options.feedback });
+}
+
 const siteContext = getSiteContext();
 const auth = getAuth();
 
         
+        let revisionSnapshot: PostRevisionSnapshot | null = null;
+        
         let preservation: PostPreservationData = {
             originalSlug: null,
             originalLink: null,
@@ -1112,6 +1516,30 @@ const auth = getAuth();
             contentImages: []
         };
         
+        // ═══════════════════════════════════════════════════════════════
+        // RESUME CHECKPOINT — skip phases completed by a previous failed run
+        // ═══════════════════════════════════════════════════════════════
+        
+        let checkpoint: PipelineCheckpoint | null = useAppStore.getState().checkpoints[targetId] || null;
+        
+        if (checkpoint && Date.now() - checkpoint.updatedAt > CHECKPOINT_MAX_AGE_MS) {
+            store.clearCheckpoint(targetId);
+            checkpoint = null;
+        }
+        
+        if (checkpoint && options.feedback) {
+            // Reviewer feedback invalidates generated content, but not the analysis
+            const completedPhases = checkpoint.completedPhases.filter(p => p !== 'content_synthesis');
+            store.saveCheckpoint(targetId, { generation: undefined, contract: undefined, completedPhases });
+            checkpoint = { ...checkpoint, generation: undefined, contract: undefined, completedPhases };
+        }
+        
+        if (checkpoint) {
+            log(`♻️ Resuming from checkpoint: ${checkpoint.completedPhases.join(' → ') || 'partial generation'}`);
+        }
+        
+        const isCheckpointed = (phase: GodModePhase) => !!checkpoint?.completedPhases.includes(phase);
+        
         try {
             // ═══════════════════════════════════════════════════════════════
             // PHASE 1: RESOLVE WORDPRESS POST
@@ -1129,43 +1557,43 @@ const auth = getAuth();
 
             let postId: number | null = null;
 
-            postId = await wpResolvePostIdEnhanced(store.wpConfig.url, targetId, auth, log);
-
-            if (!postId) {
-                log(`   ⚠️ Could not find existing post — will create new`);
+            if (isCheckpointed('resolving_post')) {
+                postId = checkpoint.postId ?? null;
+                originalContent = checkpoint.originalContent || '';
+                topic = checkpoint.topic || topic;
+                if (checkpoint.preservation) preservation = deepClone(checkpoint.preservation);
+                if (originalContent) store.updateJobState(targetId, { originalHtml: originalContent });
+                log(`   ♻️ Post restored from checkpoint: ${postId ? `ID ${postId}` : 'new post'}`);
             } else {
-                log(`   ✅ Found existing post ID: ${postId}`);
+                postId = await wpResolvePostIdEnhanced(store.wpConfig.url, targetId, auth, log);
+
+                if (!postId) {
+                    log(`   ⚠️ Could not find existing post — will create new`);
+                } else {
+                    log(`   ✅ Found existing post ID: ${postId}`);
                 
-                try {
-                    const postData = await wpGetPostWithImages(store.wpConfig.url, postId, auth);
-                    preservation.originalSlug = postData.originalSlug;
-                    preservation.originalLink = postData.post.link || null;
-                    preservation.originalCategories = postData.originalCategories;
-                    preservation.originalTags = postData.originalTags;
+                    try {
+                        const existing = await loadExistingPost(store.wpConfig.url, postId, auth, targetId, {
+                            featuredImage: preserveFeaturedImage,
+                            contentImages: preserveImages,
+                            categories: preserveCategories,
+                            tags: preserveTags
+                        });
+                        preservation = existing.preservation;
                     
-                    if (postData.featuredImage && preserveFeaturedImage) {
-                        preservation.featuredImageId = postData.featuredImage.id;
-                    }
+                        if (existing.title) {
+                            topic = existing.title;
+                            store.updatePage(targetId, { title: topic });
+                        }
                     
-                    if (preserveImages) {
-                        preservation.contentImages = postData.contentImages.map(img => ({
-                            src: img.src,
-                            alt: img.alt,
-                            mediaId: img.id ? parseInt(img.id) : undefined
-                        }));
-                    }
+                        originalContent = existing.originalContent;
+                        store.updateJobState(targetId, { originalHtml: originalContent });
                     
-                    const wpTitle = postData.post.title?.rendered || postData.post.title?.raw || '';
-                    if (wpTitle && wpTitle.length > 3) {
-                        const tempDiv = document.createElement('div');
-                        tempDiv.innerHTML = wpTitle;
-                        topic = tempDiv.textContent || wpTitle;
-                        store.updatePage(targetId, { title: topic });
+                        revisionSnapshot = existing.revisionSnapshot;
+                        log(`   ⏪ Snapshot captured: ${revisionSnapshot.wordCount} words`);
+                    } catch (e: any) {
+                        log(`   ⚠️ Could not fetch existing content: ${e.message}`);
                     }
-                    
-                    originalContent = postData.post.content?.rendered || '';
-                } catch (e: any) {
-                    log(`   ⚠️ Could not fetch existing content: ${e.message}`);
                 }
             }
 
@@ -1174,6 +1602,15 @@ const auth = getAuth();
                 store.updatePage(targetId, { title: topic, targetKeyword: topic });
                 if (!silentMode) setTargetKeywordOverride('');
             }
+            
+            if (checkpoint && checkpoint.topic && checkpoint.topic !== topic) {
+                log(`   ♻️ Topic changed since checkpoint — re-running analysis`);
+                store.clearCheckpoint(targetId);
+                checkpoint = null;
+            }
+            if (!isCheckpointed('resolving_post')) {
+                store.saveCheckpoint(targetId, { topic, postId, originalContent, preservation: deepClone(preservation) }, 'resolving_post');
+            }
 
             const actualModel = getActualModel();
             
@@ -1183,7 +1620,7 @@ log(`🚀 Provider: ${store.selectedProvider} | Model: ${actualModel}`);
 log(`🚀 ═══════════════════════════════════════════════════════════`);
 
 log(`🔧 API Keys Status:`);
-log(`   → Primary AI: ${store.apiKeys[store.selectedProvider] ? '✅ SET' : '❌ MISSING'}`);
+log(`   → Primary AI: ${hasProviderCredentials(store.selectedProvider, store.apiKeys) ? '✅ SET' : '❌ MISSING'}`);
 log(`   → Serper: ${store.apiKeys.serper ? '✅ SET (' + store.apiKeys.serper.length + ' chars)' : '❌ MISSING — YouTube & References DISABLED'}`);
 // No internalLinks log here - it's not declared yet!
 
@@ -1193,9 +1630,15 @@ log(`   → Serper: ${store.apiKeys.serper ? '✅ SET (' + store.apiKeys.serper.
             // PHASE 2: ENTITY GAP ANALYSIS
             // ═══════════════════════════════════════════════════════════════
             
+            enforceBudget();
+            
             let entityGapData = undefined;
 
-            if (store.apiKeys.serper) {
+            if (isCheckpointed('entity_gap_analysis')) {
+                entityGapData = checkpoint.entityGapData;
+                store.updateJobState(targetId, { entityGapData });
+                log(`♻️ PHASE 2: Entity gap data restored from checkpoint`);
+            } else if (store.apiKeys.serper) {
                 store.updateJobState(targetId, { phase: 'entity_gap_analysis' });
                 log(`🔬 PHASE 2: Entity Gap Analysis...`);
 				
@@ -1211,6 +1654,7 @@ log(`   → Serper: ${store.apiKeys.serper ? '✅ SET (' + store.apiKeys.serper.
                     );
                     
                     store.updateJobState(targetId, { entityGapData });
+                    store.saveCheckpoint(targetId, { entityGapData: deepClone(entityGapData) }, 'entity_gap_analysis');
                     log(`   ✓ Entities: ${entityGapData.missingEntities?.length || 0} | PAA: ${entityGapData.paaQuestions?.length || 0}`);
                 } catch (e: any) {
                     log(`   ⚠️ Entity analysis failed: ${e.message}`);
@@ -1223,7 +1667,12 @@ log(`   → Serper: ${store.apiKeys.serper ? '✅ SET (' + store.apiKeys.serper.
             
             let neuronData = undefined;
 
-            if (hasNeuronConfig()) {
+            if (isCheckpointed('neuron_analysis')) {
+                neuronData = checkpoint.neuronData;
+                store.updateJobState(targetId, { neuronData });
+                store.setNeuronTerms(neuronData.terms);
+                log(`♻️ PHASE 3: NeuronWriter data restored from checkpoint`);
+            } else if (hasNeuronConfig()) {
                 store.updateJobState(targetId, { phase: 'neuron_analysis' });
                 log(`🧬 PHASE 3: NeuronWriter NLP Analysis...`);
 				
@@ -1241,6 +1690,7 @@ log(`   → Serper: ${store.apiKeys.serper ? '✅ SET (' + store.apiKeys.serper.
                     if (neuronData) {
                         store.updateJobState(targetId, { neuronData });
                         store.setNeuronTerms(neuronData.terms);
+                        store.saveCheckpoint(targetId, { neuronData: deepClone(neuronData) }, 'neuron_analysis');
                         log(`   → ${neuronData.terms.length} NLP terms`);
                     }
                 } catch (e: any) {
@@ -1259,28 +1709,52 @@ updateProgress('internal_linking');
 
 let internalLinks: InternalLinkTarget[] = [];
 
-// ALWAYS fetch from WordPress for complete link targets (not just local store)
-try {
-    const wpLinkTargets = await discoverInternalLinkTargets(
-        store.wpConfig.url,
-        auth,
-        { 
-            excludePostId: postId || undefined, 
-            excludeUrls: [targetId], 
-            maxPosts: 100 
-        },
-        log
-    );
-    internalLinks = wpLinkTargets;
-    log(`   → ${internalLinks.length} link targets fetched from WordPress`);
-} catch (e: any) {
-    log(`   ⚠️ WordPress link discovery failed: ${e.message}`);
-    // Fallback to store pages ONLY if WordPress fetch fails
-    internalLinks = store.pages
-        .filter(p => p.id !== targetId && p.title && p.title.length > 5)
-        .slice(0, 50)
-        .map(p => ({ url: p.id, title: p.title, slug: p.slug }));
-    log(`   → ${internalLinks.length} fallback link targets from local store`);
+if (isCheckpointed('internal_linking')) {
+    internalLinks = checkpoint.internalLinks || [];
+    log(`   ♻️ ${internalLinks.length} link targets restored from checkpoint`);
+} else {
+    // ALWAYS fetch from WordPress for complete link targets (not just local store)
+    try {
+        const wpLinkTargets = await discoverInternalLinkTargets(
+            store.wpConfig.url,
+            auth,
+            { 
+                excludePostId: postId || undefined, 
+                excludeUrls: [targetId], 
+                maxPosts: 100 
+            },
+            log
+        );
+        internalLinks = wpLinkTargets;
+        store.saveCheckpoint(targetId, { internalLinks: deepClone(internalLinks) }, 'internal_linking');
+        log(`   → ${internalLinks.length} link targets fetched from WordPress`);
+    } catch (e: any) {
+        log(`   ⚠️ WordPress link discovery failed: ${e.message}`);
+        // Fallback to store pages ONLY if WordPress fetch fails
+        internalLinks = store.pages
+            .filter(p => p.id !== targetId && p.title && p.title.length > 5)
+            .slice(0, 50)
+            .map(p => ({ url: p.id, title: p.title, slug: p.slug }));
+        log(`   → ${internalLinks.length} fallback link targets from local store`);
+    }
+}
+
+// Orphans and under-linked pages first, broken pages out
+if (store.linkGraph && internalLinks.length > 0) {
+    const before = internalLinks.length;
+    internalLinks = prioritizeLinkTargets(internalLinks, store.linkGraph);
+    log(`   🕸️ Link graph: targets reordered for orphans${before > internalLinks.length ? `, ${before - internalLinks.length} broken dropped` : ''}`);
+}
+
+// Embed new or changed targets so Stage 7 can rank them per section
+let pageEmbeddings: PageEmbeddingIndex | null = null;
+if (store.embeddingSettings.enabled && internalLinks.length > 0) {
+    try {
+        pageEmbeddings = await updatePageEmbeddings(internalLinks, store.pageEmbeddings, store.embeddingSettings, store.apiKeys, log);
+        store.setPageEmbeddings(pageEmbeddings);
+    } catch (e: any) {
+        log(`   ⚠️ Embedding failed, links will use keyword matching: ${e.message}`);
+    }
 }
 
 
@@ -1288,6 +1762,8 @@ try {
             // PHASE 5: CONTENT SYNTHESIS — STAGED PIPELINE
             // ═══════════════════════════════════════════════════════════════
 
+            enforceBudget();
+            
             store.updateJobState(targetId, { phase: 'content_synthesis' });
             log(`🎨 PHASE 5: SOTA Content Synthesis (Staged Pipeline)...`);
 			
@@ -1311,95 +1787,79 @@ try {
                 geoConfig: geoConfig.enabled ? geoConfig : undefined,
                 useStagedPipeline: true,
                 targetWords: TARGET_WORD_COUNT,
+                allFeedback: getPage()?.jobState?.allFeedback,
+                resumeFrom: checkpoint?.generation,
+                onCheckpoint: (generation) => store.saveCheckpoint(targetId, { generation: deepClone(generation) }),
+                onUsage: (usage) => {
+                    runUsage = addUsage(runUsage, usage, calculateCost(usage, useAppStore.getState().modelPrices));
+                    store.recordUsage(targetId, usage);
+                },
+                beforeLLMCall: enforceBudget,
+                routing: store.llmRouting,
+                cancellation,
+                onSectionStream: silentMode ? undefined : handleSectionStream,
+                promptTemplates: resolvePromptTemplateSet(store.promptTemplateOverrides, store.wpConfig.url),
+                semanticLinking: pageEmbeddings ? { settings: store.embeddingSettings, index: pageEmbeddings } : undefined,
+                anchorDiversity: getAnchorGuard(),
             };
 
-            let bestContract: ContentContract | null = null;
-            let bestScore = 0;
-            let bestWordCount = 0;
+            const resumeContract = isCheckpointed('content_synthesis') ? checkpoint.contract : undefined;
+            let bestContract: ContentContract;
+            let bestScore: number;
+            let bestWordCount: number;
 
             try {
-                // Use the staged pipeline (generateEnhanced)
-const { contract: _rawContract } = await orchestrator.generateEnhanced(
-    synthesisConfig,
-    log,
-    (progress: StageProgress) => {
-        if (!progress) return;  // ✅ ADD THIS SAFETY CHECK
-        
-        store.setStageProgress(progress);
-        
-        if (progress.stage === 'outline') {
-            updateProgress('outline_generation');
-        } else if (progress.stage === 'sections') {
-            updateProgress('section_drafts', { 
-                sectionsCompleted: progress.sectionsCompleted || 0, 
-                totalSections: progress.totalSections || 0 
-            });
-        } else if (progress.stage === 'youtube') {
-            updateProgress('youtube_integration');
-        } else if (progress.stage === 'references') {
-            updateProgress('reference_discovery');
-        } else if (progress.stage === 'merge') {
-            updateProgress('merge_content');
-        } else if (progress.stage === 'polish') {
-            updateProgress('final_polish');
-        }
-    }
-);
-
-
-                // 🔥 CRITICAL: Deep clone to avoid Immer freeze
-                let contract: ContentContract = deepClone(_rawContract);
-
-                // Post-processing
-                contract.htmlContent = removeH1TagsFromContent(contract.htmlContent, log);
-                if (contract.title) contract.title = enforceTitle(contract.title, log);
-                if (contract.metaDescription) contract.metaDescription = enforceMeta(contract.metaDescription, log);
-                contract.htmlContent = removeDuplicateFAQSections(contract.htmlContent, log);
-
-                
-
-                // Calculate word count
-                const finalDoc = new DOMParser().parseFromString(contract.htmlContent, 'text/html');
-                const finalWordCount = (finalDoc.body?.textContent || '').split(/\s+/).filter(Boolean).length;
-                contract.wordCount = finalWordCount;
-
-                log(`   ✅ Content generated: ${finalWordCount.toLocaleString()} words`);
-
-                // Store contract
-                store.updateJobState(targetId, { contract: deepClone(contract) });
-
-                // QA Validation
-                store.updateJobState(targetId, { phase: 'qa_validation' });
-                log(`🔍 QA Validation...`);
-				
-				updateProgress('qa_validation', { wordCount: finalWordCount });
+                const synthesis = await synthesizeContent(synthesisConfig, {
+                    log,
+                    resumeContract,
+                    onProgress: (progress: StageProgress) => {
+                        store.setStageProgress(progress);
+                    
+                        if (progress.stage === 'outline') {
+                            updateProgress('outline_generation');
+                        } else if (progress.stage === 'sections') {
+                            updateProgress('section_drafts', { 
+                                sectionsCompleted: progress.sectionsCompleted || 0, 
+                                totalSections: progress.totalSections || 0 
+                            });
+                        } else if (progress.stage === 'youtube') {
+                            updateProgress('youtube_integration');
+                        } else if (progress.stage === 'references') {
+                            updateProgress('reference_discovery');
+                        } else if (progress.stage === 'merge') {
+                            updateProgress('merge_content');
+                        } else if (progress.stage === 'polish') {
+                            updateProgress('final_polish');
+                        }
+                    },
+                    onGenerated: (contract) => {
+                        if (!resumeContract) {
+                            store.saveCheckpoint(targetId, { contract: deepClone(contract), generation: undefined }, 'content_synthesis');
+                        }
+                        store.updateJobState(targetId, { contract, phase: 'qa_validation' });
+                        updateProgress('qa_validation', { wordCount: contract.wordCount || 0 });
+                    },
+                    entityGapData,
+                    neuronTerms: store.neuronTerms,
+                    brandVoice: resolveBrandVoice(store.wpConfig.brandVoice)
+                });
 
-                const qaResult = runQASwarm(contract, entityGapData, store.neuronTerms);
-                store.updateJobState(targetId, { qaResults: qaResult.results });
-                
-                log(`   📊 QA Score: ${qaResult.score}/100 | Words: ${finalWordCount.toLocaleString()}`);
+                store.updateJobState(targetId, { qaResults: synthesis.qa.results });
 
-                bestContract = deepClone(contract);
-                bestScore = qaResult.score;
-                bestWordCount = finalWordCount;
+                bestContract = synthesis.contract;
+                bestScore = synthesis.qa.score;
+                bestWordCount = synthesis.contract.wordCount || 0;
 
             } catch (genErr: any) {
                 log(`   ❌ Content generation failed: ${genErr.message}`);
+                if (resumeContract) {
+                    // A restored draft that fails validation must not be restored again
+                    const completedPhases = checkpoint!.completedPhases.filter(p => p !== 'content_synthesis');
+                    store.saveCheckpoint(targetId, { generation: undefined, contract: undefined, completedPhases });
+                }
                 throw genErr;
             }
 
-            // Final validation
-            if (!bestContract || !bestContract.htmlContent || bestContract.htmlContent.length < 2000) {
-                throw new Error('Content generation failed: No valid content produced');
-            }
-
-            // Final H1 check
-            const h1FinalCheck = (bestContract.htmlContent.match(/<h1/gi) || []).length;
-            if (h1FinalCheck > 0) {
-                log(`   ⚠️ Final H1 cleanup: removing ${h1FinalCheck} remaining H1 tag(s)`);
-                bestContract.htmlContent = bestContract.htmlContent.replace(/<h1[^>]*>[\s\S]*?<\/h1>/gi, '');
-            }
-
             log(`✅ Phase 5 Complete: ${bestWordCount.toLocaleString()} words | Score: ${bestScore}%`);
 
 
@@ -1407,166 +1867,116 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
 
             
 
+            const effectivePublishMode = options.publishMode || store.publishMode;
+
             // ═══════════════════════════════════════════════════════════════
-            // PHASE 6: PUBLISH TO WORDPRESS
+            // PHASE 6 (REVIEW MODE): HOLD FOR HUMAN APPROVAL
             // ═══════════════════════════════════════════════════════════════
 
-            store.updateJobState(targetId, { phase: 'publishing' });
-            log(`📤 PHASE 6: Publishing to WordPress...`);
-			
-			            updateProgress('publishing');
+            // Last chance to stop before anything is queued or written to WordPress
+            throwIfCancelled(cancellation);
+
+            if (effectivePublishMode === 'review') {
+                const reviewQA = runQASwarm(bestContract, entityGapData, store.neuronTerms, resolveBrandVoice(store.wpConfig.brandVoice));
+                const processingTime = Date.now() - startTime;
+
+                store.enqueueApproval({
+                    id: `approval-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                    pageId: targetId,
+                    topic,
+                    createdAt: Date.now(),
+                    postId,
+                    preservation: deepClone(preservation),
+                    contract: deepClone(bestContract),
+                    qaResult: { ...deepClone(reviewQA), timestamp: Date.now() },
+                    publishStatus: options.approvalStatus || store.approvalPublishStatus,
+                    regenerations: getPage()?.jobState?.allFeedback?.length || 0
+                });
 
+                store.clearCheckpoint(targetId);
+                store.updateJobState(targetId, { status: 'completed', phase: 'awaiting_approval', processingTime });
+                store.updatePage(targetId, { status: 'awaiting_approval' });
+                setStageProgress(null);
 
-            const publishData: any = {
-                title: bestContract.title,
-                content: bestContract.htmlContent,
-                excerpt: bestContract.excerpt || '',
-                status: store.publishMode === 'autopublish' ? 'publish' : 'draft'
-            };
+                log(`👀 Queued for approval: QA ${reviewQA.score}% | ${bestWordCount.toLocaleString()} words | ${formatDuration(processingTime)}`);
+                setOptimizationProgress(prev => ({ ...prev, isRunning: false, phase: 'awaiting_approval', wordCount: bestWordCount }));
 
-            let finalPostId: number;
-            let finalPostLink: string;
+                if (!silentMode) store.addToast(`👀 Queued for approval — QA ${reviewQA.score}%`, 'info');
 
-            if (postId) {
-                log(`   → Updating existing post ID: ${postId}`);
-                
-                if (preserveCategories && preservation.originalCategories.length > 0) {
-                    publishData.categories = preservation.originalCategories;
-                }
-                if (preserveTags && preservation.originalTags.length > 0) {
-                    publishData.tags = preservation.originalTags;
-                }
-                if (preserveFeaturedImage && preservation.featuredImageId) {
-                    publishData.featured_media = preservation.featuredImageId;
-                }
-                
-                const result = await wpUpdatePost(store.wpConfig.url, auth, postId, publishData, {
-                    preserveFeaturedImage,
-                    preserveSlug: true,
-                    preserveCategories,
-                    preserveTags
-                });
-                
-                finalPostId = result.id;
-                finalPostLink = result.link;
-                
-                log(`   ✅ Updated post ID: ${finalPostId}`);
-            } else {
-                publishData.slug = bestContract.slug;
-                log(`   → Creating NEW post with slug: "${bestContract.slug}"`);
-                
-                const result = await wpCreatePost(store.wpConfig.url, auth, publishData);
-                finalPostId = result.id;
-                finalPostLink = result.link;
-                log(`   ✅ Created NEW post ID: ${finalPostId}`);
+                return { success: true, score: reviewQA.score, wordCount: bestWordCount, pendingApproval: true, usage: runUsage };
             }
 
-            store.updateJobState(targetId, { postId: finalPostId });
-
-            // Update SEO meta
-            try {
-                await wpUpdatePostMeta(store.wpConfig.url, auth, finalPostId, {
-                    title: bestContract.title,
-                    description: bestContract.metaDescription,
-                    focusKeyword: topic
-                });
-                log(`   ✅ SEO meta updated`);
-            } catch {}
-
-            // ═══════════════════════════════════════════════════════════════
-            // PHASE 7: COMPLETION
-            // ═══════════════════════════════════════════════════════════════
-            
-            store.updateJobState(targetId, { phase: 'completed' });
-            setStageProgress(null);
-            
-            const metrics = calculateSeoMetrics(
-                bestContract.htmlContent, 
-                bestContract.title || topic, 
-                bestContract.slug || ''
-            );
-            
-            const finalQA = runQASwarm(bestContract, entityGapData, store.neuronTerms);
-            const finalScore = Math.round(
-                (metrics.aeoScore * 0.25) + 
-                (finalQA.score * 0.45) + 
-                (metrics.contentDepth * 0.15) +
-                (metrics.headingStructure * 0.15)
-            );
-
-            const processingTime = Date.now() - startTime;
+            updateProgress('publishing');
 
-            store.updateJobState(targetId, { status: 'completed', processingTime });
-            
-            store.updatePage(targetId, { 
-                status: 'analyzed', 
-                healthScore: finalScore, 
-                wordCount: metrics.wordCount, 
-                seoMetrics: metrics,
-                improvementHistory: [
-                    ...(getPage().improvementHistory || []), 
-                    { 
-                        timestamp: Date.now(), 
-                        score: finalScore, 
-                        action: `v${APP_VERSION}`, 
-                        wordCount: metrics.wordCount, 
-                        qaScore: finalQA.score, 
-                        version: APP_VERSION 
-                    }
-                ],
-                wpPostId: finalPostId, 
-                lastPublishedAt: Date.now()
+            const { score: finalScore, wordCount: finalWordCount, processingTime } = await publishContract({
+                targetId,
+                contract: bestContract,
+                topic,
+                postId,
+                preservation,
+                revisionSnapshot,
+                entityGapData,
+                status: effectivePublishMode === 'autopublish' ? 'publish' : 'draft',
+                startTime,
+                log
             });
 
-            store.updateGlobalStats({
-                totalProcessed: (store.globalStats.totalProcessed || 0) + 1,
-                totalWordsGenerated: (store.globalStats.totalWordsGenerated || 0) + metrics.wordCount,
-                lastRunTime: processingTime,
-                totalImproved: (store.globalStats.totalImproved || 0) + (finalScore >= 70 ? 1 : 0)
-            });
+            store.clearCheckpoint(targetId);
 
             log(`🎉 ═══════════════════════════════════════════════════════════`);
-            log(`🎉 SUCCESS: Score ${finalScore}% | ${metrics.wordCount.toLocaleString()} words | ${formatDuration(processingTime)}`);
+            log(`🎉 SUCCESS: Score ${finalScore}% | ${finalWordCount.toLocaleString()} words | ${formatDuration(processingTime)}`);
             log(`🎉 ═══════════════════════════════════════════════════════════`);
 			
 			            // Reset progress tracking
-            setOptimizationProgress(prev => ({ ...prev, isRunning: false, phase: 'completed', wordCount: metrics.wordCount }));
+            setStageProgress(null);
+            setOptimizationProgress(prev => ({ ...prev, isRunning: false, phase: 'completed', wordCount: finalWordCount }));
 
 			
             
             if (!silentMode) store.addToast(`✅ Optimized! Score: ${finalScore}%`, 'success');
             
-            return { success: true, score: finalScore, wordCount: metrics.wordCount };
+            return { success: true, score: finalScore, wordCount: finalWordCount, usage: runUsage };
 
         } catch (e: any) {
             const processingTime = Date.now() - startTime;
             const errorMessage = e.message || 'Unknown error';
+            const budgetExceeded = isBudgetExceededError(e) ? e.violation : undefined;
             
             store.updateJobState(targetId!, { 
                 status: 'failed', 
                 phase: 'failed', 
                 error: errorMessage, 
+                budgetExceeded,
                 processingTime
             });
             store.updatePage(targetId!, { status: 'error' });
             setStageProgress(null);
             
             log(`💥 FAILED: ${errorMessage}`);
+            
+            const keptCheckpoint = useAppStore.getState().checkpoints[targetId!];
+            if (keptCheckpoint?.completedPhases.length) {
+                log(`💾 Checkpoint kept — retry resumes after: ${keptCheckpoint.completedPhases.join(' → ')}`);
+            }
 			
 			            // Reset progress tracking on failure
             setOptimizationProgress(prev => ({ ...prev, isRunning: false, phase: 'failed' }));
 
             
-            if (!silentMode) store.addToast(`❌ Failed: ${errorMessage}`, 'error');
+            // Budget stops are surfaced even from bulk and autonomous runs
+            if (budgetExceeded) store.addToast(`💸 ${errorMessage}`, 'warning');
+            else if (isGenerationCancelledError(e)) store.addToast(`⛔ Cancelled: ${errorMessage}`, 'warning');
+            else if (!silentMode) store.addToast(`❌ Failed: ${errorMessage}`, 'error');
             
-            return { success: false, score: 0, wordCount: 0, error: errorMessage };
+            return { success: false, score: 0, wordCount: 0, error: errorMessage, usage: runUsage, budgetExceeded };
         }
 
     }, [
         manualUrl, store, getSiteContext, getAuth, geoConfig, hasRequiredKeys, 
-        targetKeywordOverride, getActualModel, enforceTitle, enforceMeta, 
+        targetKeywordOverride, getActualModel, 
         optimizationMode, preserveImages, optimizeAltText, preserveFeaturedImage, 
-        preserveCategories, preserveTags, hasNeuronConfig, resetCancellationToken
+        preserveCategories, preserveTags, hasNeuronConfig, resetCancellationToken, publishContract,
+        handleSectionStream, getAnchorGuard
     ]);
 
     // ═══════════════════════════════════════════════════════════════════════════
@@ -1589,6 +1999,11 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
             return;
         }
 
+        if (store.vaultStatus === 'locked') {
+            store.addToast('🔒 Unlock the credential vault first', 'warning');
+            return;
+        }
+
         if (!hasRequiredKeys()) {
             store.addToast('Configure at least one AI API key', 'error');
             return;
@@ -1596,6 +2011,7 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
 
         bulkAbortRef.current = false;
         const startTime = Date.now();
+        const runStartCostUsd = useAppStore.getState().globalStats.usage?.costUsd ?? 0;
 
         const jobs: BulkJob[] = urls.map((url, index) => ({
             id: `bulk-${Date.now()}-${index}`,
@@ -1613,7 +2029,9 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
             failed: 0,
             totalTime: 0,
             avgScore: 0,
-            totalWords: 0
+            totalWords: 0,
+            totalCostUsd: 0,
+            totalTokens: 0
         });
 
         store.addGodLog(`🚀 BULK OPTIMIZATION: ${urls.length} URLs | Concurrency: ${bulkConcurrency}`);
@@ -1622,6 +2040,8 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
         let failed = 0;
         let totalWords = 0;
         let totalScore = 0;
+        let totalCostUsd = 0;
+        let totalTokens = 0;
 
         const processJob = async (job: BulkJob): Promise<void> => {
             if (bulkAbortRef.current) return;
@@ -1634,13 +2054,26 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
             }));
 
             try {
-                const result = await Promise.race([
-                    executeGodMode(job.url, true),
-                    new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Job timeout')), JOB_TIMEOUT_MS))
-                ]);
+                const result = await runJobWithTimeout(
+                    cancellation => executeGodMode(job.url, true, { runStartCostUsd, cancellation }),
+                    jobTimeoutFor(store.selectedProvider)
+                );
                 
                 const jobTime = Date.now() - jobStartTime;
                 
+                // Failed attempts cost money too
+                if (result.usage) {
+                    totalCostUsd += result.usage.costUsd;
+                    totalTokens += result.usage.promptTokens + result.usage.completionTokens;
+                    setBulkState(prev => ({ ...prev, totalCostUsd, totalTokens }));
+                }
+                
+                // Only the article budget is job-local — the others stop the whole run
+                if (result.budgetExceeded && result.budgetExceeded.scope !== 'article' && !bulkAbortRef.current) {
+                    bulkAbortRef.current = true;
+                    store.addGodLog(`💸 BULK HALTED: ${describeBudgetViolation(result.budgetExceeded)}`);
+                }
+                
                 if (result.success && result.score >= 50) {
                     completed++;
                     totalWords += result.wordCount;
@@ -1660,7 +2093,9 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                         avgScore: Math.round(totalScore / completed)
                     }));
 
-                    store.addGodLog(`   ✅ ${job.url.split('/').pop()}: ${result.score}% | ${result.wordCount} words`);
+                    store.addGodLog(result.pendingApproval
+                        ? `   👀 ${job.url.split('/').pop()}: QA ${result.score}% | ${result.wordCount} words — awaiting approval`
+                        : `   ✅ ${job.url.split('/').pop()}: ${result.score}% | ${result.wordCount} words`);
                 } else {
                     throw new Error(result.error || 'Quality check failed');
                 }
@@ -1701,7 +2136,19 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
             avgScore: completed > 0 ? Math.round(totalScore / completed) : 0
         }));
 
-        store.addGodLog(`🏁 BULK COMPLETE: ${completed}/${jobs.length} success | ${totalWords.toLocaleString()} words | ${formatDuration(totalTime)}`);
+        store.addRunSummary({
+            id: `bulk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            kind: 'bulk',
+            startedAt: startTime,
+            endedAt: Date.now(),
+            jobs: completed + failed,
+            succeeded: completed,
+            failed,
+            costUsd: totalCostUsd,
+            tokens: totalTokens
+        });
+
+        store.addGodLog(`🏁 BULK COMPLETE: ${completed}/${jobs.length} success | ${totalWords.toLocaleString()} words | ${formatCost(totalCostUsd)} | ${formatDuration(totalTime)}`);
         store.addToast(`Bulk complete: ${completed}/${jobs.length} success`, completed > 0 ? 'success' : 'error');
     }, [bulkUrls, bulkConcurrency, store, hasRequiredKeys, executeGodMode, parseBulkUrls]);
 
@@ -1711,6 +2158,264 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
         store.addToast('Aborting bulk optimization...', 'warning');
     }, [store]);
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // AUTONOMOUS SCHEDULER
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    // The scheduler outlives renders — always call the latest executeGodMode
+    const executeGodModeRef = useRef(executeGodMode);
+    executeGodModeRef.current = executeGodMode;
+    const schedulerRef = useRef<AutonomousScheduler | null>(null);
+    const autonomousStartCostRef = useRef(0);
+
+    const startAutonomous = useCallback(() => {
+        if (store.vaultStatus === 'locked') {
+            store.addToast('🔒 Unlock the credential vault first', 'warning');
+            return;
+        }
+        if (!hasRequiredKeys()) {
+            store.addToast('Configure at least one AI API key', 'error');
+            return;
+        }
+        if (!store.wpConfig.url || !store.wpConfig.username || !store.wpConfig.password) {
+            store.addToast('WordPress credentials not configured', 'warning');
+            return;
+        }
+        if (store.pages.length === 0) {
+            store.addToast('Crawl a sitemap first', 'warning');
+            return;
+        }
+
+        if (!schedulerRef.current) {
+            schedulerRef.current = createAutonomousScheduler({
+                getConfig: () => useAppStore.getState().autonomousConfig,
+                getPages: () => {
+                    useAppStore.getState().rescoreOpportunities();
+                    return useAppStore.getState().pages;
+                },
+                runJob: pageId => runJobWithTimeout(
+                    cancellation => executeGodModeRef.current(pageId, true, { runStartCostUsd: autonomousStartCostRef.current, cancellation }),
+                    jobTimeoutFor(useAppStore.getState().selectedProvider)
+                ).then(result => result.budgetExceeded && result.budgetExceeded.scope !== 'article'
+                    ? { ...result, haltRun: describeBudgetViolation(result.budgetExceeded) }
+                    : result),
+                onStateChange: updates => {
+                    const state = useAppStore.getState();
+                    state.updateAutonomousRun(updates);
+                    if (updates.status === 'stopped') {
+                        state.setAutonomousConfig({ enabled: false });
+                        const run = useAppStore.getState().autonomousRun;
+                        if (run.processed > 0) {
+                            state.addRunSummary({
+                                id: `auto-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                                kind: 'autonomous',
+                                startedAt: run.startedAt || Date.now(),
+                                endedAt: run.endedAt || Date.now(),
+                                jobs: run.processed,
+                                succeeded: run.succeeded,
+                                failed: run.failed,
+                                costUsd: run.costUsd,
+                                tokens: run.tokens
+                            });
+                        }
+                    }
+                },
+                log: msg => useAppStore.getState().addGodLog(msg)
+            });
+        }
+
+        if (!schedulerRef.current.isRunning()) {
+            autonomousStartCostRef.current = useAppStore.getState().globalStats.usage?.costUsd ?? 0;
+        }
+        store.setAutonomousConfig({ enabled: true });
+        schedulerRef.current.start();
+    }, [store, hasRequiredKeys]);
+
+    const stopAutonomous = useCallback(() => {
+        schedulerRef.current?.stop();
+        store.addToast('Autonomous mode stopping — running jobs will finish', 'info');
+    }, [store]);
+
+    useEffect(() => () => schedulerRef.current?.stop('App closed'), []);
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // REVISION ROLLBACK
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    const handleRollbackRevision = useCallback(async (revision: PostRevisionSnapshot) => {
+        if (!store.wpConfig.url || !store.wpConfig.username || !store.wpConfig.password) {
+            store.addToast('WordPress credentials not configured', 'warning');
+            return;
+        }
+        
+        const auth = getAuth();
+        setRollingBackId(revision.id);
+        store.addGodLog(`⏪ ROLLBACK: post ${revision.postId} → snapshot from ${new Date(revision.capturedAt).toLocaleString()}`);
+        
+        try {
+            // Snapshot the current (optimized) version so the rollback itself can be undone
+            try {
+                const current = await wpCapturePostSnapshot(store.wpConfig.url, revision.postId, auth, {
+                    pageId: revision.pageId,
+                    reason: 'pre-rollback'
+                });
+                store.addRevision(revision.pageId, current);
+            } catch (e: any) {
+                store.addGodLog(`   ⚠️ Could not snapshot current version: ${e.message}`);
+            }
+            
+            const result = await wpRestorePostSnapshot(store.wpConfig.url, auth, revision);
+            if (!result.metaRestored) {
+                store.addGodLog(`   ⚠️ SEO meta could not be restored`);
+            }
+            
+            store.markRevisionRestored(revision.pageId, revision.id);
+            
+            const page = useAppStore.getState().pages.find(p => p.id === revision.pageId);
+            if (page) {
+                store.updatePage(revision.pageId, {
+                    title: revision.title || page.title,
+                    wordCount: revision.wordCount ?? page.wordCount,
+                    lastPublishedAt: Date.now(),
+                    improvementHistory: [
+                        ...(page.improvementHistory || []),
+                        {
+                            timestamp: Date.now(),
+                            score: page.healthScore || 0,
+                            action: 'rollback',
+                            wordCount: revision.wordCount,
+                            version: APP_VERSION,
+                            revisionId: revision.id
+                        }
+                    ]
+                });
+            }
+            
+            store.addGodLog(`   ✅ Restored post ${result.id}: ${result.link}`);
+            store.addToast('✅ Post restored from snapshot', 'success');
+        } catch (e: any) {
+            store.addGodLog(`   ❌ Rollback failed: ${e.message}`);
+            store.addToast(`Rollback failed: ${e.message}`, 'error');
+        } finally {
+            setRollingBackId(null);
+        }
+    }, [store, getAuth]);
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // APPROVAL QUEUE
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    const handleApproveQueued = useCallback(async (item: ApprovalQueueItem) => {
+        if (!store.wpConfig.url || !store.wpConfig.username || !store.wpConfig.password) {
+            store.addToast('WordPress credentials not configured', 'warning');
+            return;
+        }
+        
+        const log = (msg: string) => {
+            store.addJobLog(item.pageId, msg);
+            store.addGodLog(msg);
+        };
+        
+        setBusyApprovalId(item.id);
+        log(`👍 APPROVED: "${item.contract.title || item.topic}"${item.editedAt ? ' (edited)' : ''}`);
+        
+        try {
+            const page = useAppStore.getState().pages.find(p => p.id === item.pageId);
+            const result = await publishContract({
+                targetId: item.pageId,
+                contract: deepClone(item.contract),
+                topic: item.topic,
+                postId: item.postId,
+                preservation: item.preservation,
+                revisionSnapshot: null,
+                entityGapData: page?.jobState?.entityGapData,
+                status: item.publishStatus,
+                startTime: Date.now(),
+                log
+            });
+            
+            store.removeApprovalItem(item.id);
+            const published = item.publishStatus === 'publish';
+            log(`   ✅ ${published ? 'Published' : 'Saved draft'} post ${result.postId}: Score ${result.score}% | ${result.link}`);
+            store.addToast(`✅ Approved & ${published ? 'published' : 'saved as draft'}! Score: ${result.score}%`, 'success');
+        } catch (e: any) {
+            // Leave the item queued so it can be retried
+            store.updateJobState(item.pageId, { phase: 'awaiting_approval', error: e.message });
+            store.updatePage(item.pageId, { status: 'awaiting_approval' });
+            log(`   ❌ Publish failed: ${e.message}`);
+            store.addToast(`Publish failed: ${e.message}`, 'error');
+        } finally {
+            setBusyApprovalId(null);
+        }
+    }, [store, publishContract]);
+
+    const handleRejectQueued = useCallback(async (item: ApprovalQueueItem, feedback: string) => {
+        const page = useAppStore.getState().pages.find(p => p.id === item.pageId);
+        const allFeedback = [...(page?.jobState?.allFeedback || []), feedback.trim()].filter(Boolean);
+        
+        setBusyApprovalId(item.id);
+        store.addGodLog(`👎 REJECTED: "${item.contract.title || item.topic}" → regenerating with ${allFeedback.length} feedback note(s)`);
+        
+        try {
+            // The new draft replaces this item in the queue; on failure the old one stays
+            const result = await executeGodMode(item.pageId, false, { publishMode: 'review', approvalStatus: item.publishStatus, feedback: allFeedback });
+            if (!result.success) {
+                store.addToast(`Regeneration failed — previous draft kept in queue`, 'warning');
+            }
+        } finally {
+            setBusyApprovalId(null);
+        }
+    }, [store, executeGodMode]);
+
+    const handleEditQueued = useCallback((item: ApprovalQueueItem, updates: Partial<Pick<ContentContract, 'title' | 'metaDescription' | 'htmlContent'>>) => {
+        const page = useAppStore.getState().pages.find(p => p.id === item.pageId);
+        const contract: ContentContract = { ...deepClone(item.contract), ...updates };
+        contract.wordCount = countWords(contract.htmlContent);
+        
+        const qaResult = runQASwarm(contract, page?.jobState?.entityGapData, store.neuronTerms, resolveBrandVoice(store.wpConfig.brandVoice));
+        store.updateApprovalItem(item.id, { contract, qaResult: { ...qaResult, timestamp: Date.now() }, editedAt: Date.now() });
+        store.addToast(`Edits saved — QA re-run: ${qaResult.score}%`, 'info');
+    }, [store]);
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // ↩️ INBOUND LINK REVIEW
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    const handleApplyInboundLink = useCallback(async (proposal: InboundLinkProposal) => {
+        if (!store.wpConfig.url || !store.wpConfig.username || !store.wpConfig.password) {
+            store.addToast('WordPress credentials not configured', 'warning');
+            return;
+        }
+        
+        setBusyInboundId(proposal.id);
+        store.addGodLog(`↩️ Linking "${proposal.sourceTitle}" → "${proposal.targetTitle}" via "${proposal.anchor}"`);
+        
+        try {
+            const result = await applyInboundLinkProposal(store.wpConfig.url, getAuth(), proposal);
+            if (result.snapshot) {
+                store.addRevision(proposal.sourceUrl, result.snapshot);
+            }
+            if (result.written) {
+                store.recordAnchorUsage(anchorUsageEntry(
+                    { url: proposal.targetUrl, title: proposal.targetTitle },
+                    proposal.sourceUrl,
+                    proposal.anchor,
+                    store.wpConfig.orgName || '',
+                    'published'
+                ));
+            }
+            store.updateInboundLinkProposal(proposal.id, { status: 'applied', appliedAt: Date.now(), error: undefined });
+            store.addGodLog(result.written ? `   ✅ Link added to post ${proposal.sourcePostId}` : `   ✓ Post ${proposal.sourcePostId} already links there`);
+            store.addToast(result.written ? 'Inbound link added' : 'Post already links to this article', 'success');
+        } catch (e: any) {
+            store.updateInboundLinkProposal(proposal.id, { status: 'failed', error: e.message });
+            store.addGodLog(`   ❌ Inbound link failed: ${e.message}`);
+            store.addToast(`Inbound link failed: ${e.message}`, 'error');
+        } finally {
+            setBusyInboundId(null);
+        }
+    }, [store, getAuth]);
+
     // ═══════════════════════════════════════════════════════════════════════════
     // RENDER
     // ═══════════════════════════════════════════════════════════════════════════
@@ -1734,6 +2439,10 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                         </div>
                         
                         <div className="flex items-center gap-4">
+                            {/* Site */}
+                            <WorkspaceSwitcher />
+                            <VaultLockButton />
+                            
                             {/* Navigation */}
                             <div className="flex bg-white/[0.03] p-1 rounded-xl border border-white/[0.06]">
                                 {(['setup', 'strategy', 'review', 'analytics'] as const).map(view => (
@@ -1805,6 +2514,9 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                             subtitle="Configure WordPress, AI providers, and optimization settings"
                         />
                         
+                        {/* Credential Vault */}
+                        <VaultPanel />
+                        
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                             {/* WordPress Config */}
                             <CardComponent padding="lg">
@@ -1870,8 +2582,8 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                         <label className="text-[11px] font-semibold text-white/50 uppercase tracking-wider mb-3 block">
                                             Select Provider
                                         </label>
-                                        <div className="grid grid-cols-5 gap-2">
-                                            {(['google', 'openrouter', 'openai', 'anthropic', 'groq'] as const).map(provider => (
+                                        <div className="grid grid-cols-6 gap-2">
+                                            {(['google', 'openrouter', 'openai', 'anthropic', 'groq', 'local'] as const).map(provider => (
                                                 <button
                                                     key={provider}
                                                     onClick={() => store.setSelectedProvider(provider)}
@@ -1890,13 +2602,13 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                     
                                     {/* API Key */}
                                     <AdvancedInputComponent
-                                        label={`${store.selectedProvider} API Key`}
+                                        label={store.selectedProvider === 'local' ? 'local API Key (Optional)' : `${store.selectedProvider} API Key`}
                                         value={store.apiKeys[store.selectedProvider]}
                                         onChange={v => store.setApiKey(store.selectedProvider, v)}
                                         type="password"
                                         placeholder="Enter API key..."
                                         icon="🔑"
-                                        required
+                                        required={store.selectedProvider !== 'local'}
                                     />
                                     
                                     {/* Model Selection */}
@@ -1931,6 +2643,26 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                         />
                                     )}
                                     
+                                    {(store.selectedProvider === 'openai' || store.selectedProvider === 'anthropic') && (
+                                        <RegistryModelSelector
+                                            provider={store.selectedProvider}
+                                            value={getActualModel()}
+                                            onChange={v => store.setApiKey(store.selectedProvider === 'openai' ? 'openaiModel' : 'anthropicModel', v)}
+                                        />
+                                    )}
+                                    
+                                    {store.selectedProvider === 'local' && (
+                                        <LocalProviderSettings
+                                            baseUrl={store.apiKeys.localBaseUrl}
+                                            apiKey={store.apiKeys.local}
+                                            model={store.apiKeys.localModel}
+                                            onBaseUrlChange={v => store.setApiKey('localBaseUrl', v)}
+                                            onModelChange={v => store.setApiKey('localModel', v)}
+                                        />
+                                    )}
+                                    
+                                    <ModelSpecNote provider={store.selectedProvider} model={getActualModel()} />
+                                    
                                     {/* Serper Key */}
                                     <AdvancedInputComponent
                                         label="Serper API Key (Optional)"
@@ -1945,6 +2677,20 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                             </CardComponent>
                         </div>
                         
+                        {/* Model Routing */}
+                        <ModelRoutingPanel />
+                        
+                        {/* Semantic Linking */}
+                        <SemanticLinkingPanel />
+                        
+                        <AnchorDiversityPanel />
+                        
+                        {/* Brand Voice */}
+                        <BrandVoicePanel />
+                        
+                        {/* Prompt Templates */}
+                        <PromptTemplatePanel siteContext={getSiteContext()} />
+                        
                         {/* Optimization Mode */}
                         <CardComponent padding="lg">
                             <h3 className="text-lg font-bold mb-6 flex items-center gap-3">
@@ -1989,12 +2735,13 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                 </button>
                             </div>
                             
-                            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
                                 <ToggleComponent label="Preserve Images" checked={preserveImages} onChange={setPreserveImages} icon="🖼️" />
                                 <ToggleComponent label="Optimize Alt Text" checked={optimizeAltText} onChange={setOptimizeAltText} icon="📝" />
                                 <ToggleComponent label="Keep Featured" checked={preserveFeaturedImage} onChange={setPreserveFeaturedImage} icon="🎨" />
                                 <ToggleComponent label="Keep Categories" checked={preserveCategories} onChange={setPreserveCategories} icon="📁" />
                                 <ToggleComponent label="Keep Tags" checked={preserveTags} onChange={setPreserveTags} icon="🏷️" />
+                                <ToggleComponent label="Inbound Links" checked={backfillInboundLinks} onChange={setBackfillInboundLinks} icon="↩️" />
                             </div>
                         </CardComponent>
                     </div>
@@ -2010,7 +2757,10 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                             subtitle="Crawl sitemaps and optimize content"
                         />
                         
-                        <StatsDashboard />
+                        <StatsDashboard 
+                            onStartAutonomous={startAutonomous}
+                            onStopAutonomous={stopAutonomous}
+                        />
 						
 						
 						                        
@@ -2025,6 +2775,14 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                             wordCount={optimizationProgress.wordCount}
                             onCancel={() => cancelCurrentJob('User cancelled')}
                         />
+                        
+                        {liveSections.length > 0 && (
+                            <LiveSectionPreview
+                                sections={liveSections}
+                                isRunning={optimizationProgress.isRunning}
+                                onCancelSection={cancelSection}
+                            />
+                        )}
 
 						
 						
@@ -2048,6 +2806,59 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                             placeholder="https://yoursite.com/sitemap.xml"
                                             icon="🗺️"
                                         />
+                                        
+                                        <button
+                                            onClick={() => setShowCrawlOptions(!showCrawlOptions)}
+                                            className="text-[11px] font-semibold text-white/40 hover:text-white transition-colors"
+                                        >
+                                            {showCrawlOptions ? '▾' : '▸'} Crawl options
+                                            <span className="text-white/25 font-normal ml-2">
+                                                max {store.sitemapCrawlConfig.maxUrls} URLs
+                                                {store.sitemapCrawlConfig.postTypes.some(Boolean) && ` · ${store.sitemapCrawlConfig.postTypes.filter(Boolean).join(', ')}`}
+                                            </span>
+                                        </button>
+                                        
+                                        {showCrawlOptions && (
+                                            <div className="space-y-4 p-4 bg-white/[0.02] border border-white/[0.06] rounded-xl">
+                                                <div className="grid grid-cols-3 gap-3">
+                                                    {([
+                                                        ['maxUrls', 'Max URLs'],
+                                                        ['maxDepth', 'Max depth'],
+                                                        ['maxSitemaps', 'Max sitemaps']
+                                                    ] as const).map(([key, label]) => (
+                                                        <div key={key} className="space-y-2">
+                                                            <label className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">{label}</label>
+                                                            <input
+                                                                type="number"
+                                                                min={1}
+                                                                value={store.sitemapCrawlConfig[key]}
+                                                                onChange={e => store.setSitemapCrawlConfig({ [key]: Math.max(1, parseInt(e.target.value) || 1) })}
+                                                                className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-3 py-2.5 text-[13px] outline-none focus:border-white/20"
+                                                            />
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                                <AdvancedInputComponent
+                                                    label="Post Types"
+                                                    value={store.sitemapCrawlConfig.postTypes.join(', ')}
+                                                    onChange={v => store.setSitemapCrawlConfig({ postTypes: v ? v.split(',').map(t => t.trim()) : [] })}
+                                                    placeholder="post, page (empty = all)"
+                                                    helpText="Matched against child sitemap names like post-sitemap.xml"
+                                                />
+                                                <AdvancedInputComponent
+                                                    label="Include Pattern"
+                                                    value={store.sitemapCrawlConfig.includePattern}
+                                                    onChange={v => store.setSitemapCrawlConfig({ includePattern: v })}
+                                                    placeholder="e.g. /blog/"
+                                                />
+                                                <AdvancedInputComponent
+                                                    label="Exclude Pattern"
+                                                    value={store.sitemapCrawlConfig.excludePattern}
+                                                    onChange={v => store.setSitemapCrawlConfig({ excludePattern: v })}
+                                                    placeholder="e.g. /(tag|author)/"
+                                                />
+                                            </div>
+                                        )}
                                         <button
                                             onClick={handleCrawlSitemap}
                                             disabled={store.isProcessing}
@@ -2103,8 +2914,39 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                             >
                                                 🚀 Publish
                                             </button>
+                                            <button
+                                                onClick={() => store.setPublishMode('review')}
+                                                className={cn(
+                                                    'flex-1 py-3 rounded-xl text-[12px] font-semibold transition-all border',
+                                                    store.publishMode === 'review'
+                                                        ? 'bg-purple-500/20 border-purple-500/30 text-purple-400'
+                                                        : 'bg-white/[0.03] border-white/[0.06] text-white/40'
+                                                )}
+                                            >
+                                                👀 Review
+                                            </button>
                                         </div>
                                         
+                                        {store.publishMode === 'review' && (
+                                            <div className="flex items-center gap-2 text-[11px] text-white/40">
+                                                <span className="flex-shrink-0">On approval:</span>
+                                                {(['draft', 'publish'] as ApprovalPublishStatus[]).map(status => (
+                                                    <button
+                                                        key={status}
+                                                        onClick={() => store.setApprovalPublishStatus(status)}
+                                                        className={cn(
+                                                            'flex-1 py-1.5 rounded-lg font-semibold transition-all border',
+                                                            store.approvalPublishStatus === status
+                                                                ? 'bg-purple-500/20 border-purple-500/30 text-purple-400'
+                                                                : 'bg-white/[0.03] border-white/[0.06] text-white/40'
+                                                        )}
+                                                    >
+                                                        {status === 'publish' ? '🚀 Publish' : '📝 Save as draft'}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                        
                                         <button
                                             onClick={() => executeGodMode()}
                                             disabled={store.isProcessing || (!manualUrl && store.pages.length === 0)}
@@ -2187,6 +3029,7 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                                     <div className="flex justify-between text-[12px]">
                                                         <span className="text-green-400">✅ {bulkState.completed}</span>
                                                         <span className="text-red-400">❌ {bulkState.failed}</span>
+                                                        <span className="text-amber-400">💲 {formatCost(bulkState.totalCostUsd || 0)}</span>
                                                         <span className="text-white/40">{bulkState.jobs.length} total</span>
                                                     </div>
                                                     <div className="h-2 bg-white/[0.06] rounded-full overflow-hidden">
@@ -2232,6 +3075,26 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                             subtitle="Review optimized content and validation results"
                         />
                         
+                        {(store.publishMode === 'review' || store.approvalQueue.length > 0) && (
+                            <ApprovalQueuePanel
+                                items={store.approvalQueue}
+                                onApprove={handleApproveQueued}
+                                onReject={handleRejectQueued}
+                                onEdit={handleEditQueued}
+                                busyId={busyApprovalId}
+                            />
+                        )}
+                        
+                        {store.inboundLinkProposals.length > 0 && (
+                            <InboundLinkPanel
+                                proposals={store.inboundLinkProposals}
+                                onApply={handleApplyInboundLink}
+                                onDismiss={p => store.removeInboundLinkProposal(p.id)}
+                                onClearApplied={store.clearAppliedInboundLinks}
+                                busyId={busyInboundId}
+                            />
+                        )}
+                        
                         {activePage ? (
                             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                                 <div className="space-y-6">
@@ -2258,7 +3121,7 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                 
                                 <div className="lg:col-span-2 space-y-6">
                                     <div className="flex bg-white/[0.03] p-1 rounded-xl border border-white/[0.06]">
-                                        {(['content', 'qa', 'entity'] as const).map(tab => (
+                                        {(['content', 'diff', 'qa', 'links', 'entity', 'revisions'] as const).map(tab => (
                                             <button
                                                 key={tab}
                                                 onClick={() => setReviewTab(tab)}
@@ -2270,8 +3133,11 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                                 )}
                                             >
                                                 {tab === 'content' && '📄 Content'}
+                                                {tab === 'diff' && '🔀 Diff'}
                                                 {tab === 'qa' && '✅ QA Results'}
+                                                {tab === 'links' && '🔗 Links'}
                                                 {tab === 'entity' && '🧠 Entity Gap'}
+                                                {tab === 'revisions' && '⏪ Revisions'}
                                             </button>
                                         ))}
                                     </div>
@@ -2283,13 +3149,38 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                         />
                                     )}
                                     
+                                    {reviewTab === 'diff' && (
+                                        <ContentDiffView 
+                                            originalHtml={
+                                                activePage.jobState?.originalHtml ||
+                                                activePage.crawledContent ||
+                                                (store.revisions[activePage.id] || []).find(r => r.reason === 'pre-optimization')?.content ||
+                                                ''
+                                            }
+                                            updatedHtml={activePage.jobState?.contract?.htmlContent || ''}
+                                            maxHeight="600px"
+                                        />
+                                    )}
+                                    
                                     {reviewTab === 'qa' && (
                                         <QASwarmPanel results={activePage.jobState?.qaResults || []} />
                                     )}
                                     
+                                    {reviewTab === 'links' && (
+                                        <InternalLinkReportPanel report={activePage.jobState?.contract?.internalLinkReport} />
+                                    )}
+                                    
                                     {reviewTab === 'entity' && (
                                         <EntityGapPanel entityData={activePage.jobState?.entityGapData} />
                                     )}
+                                    
+                                    {reviewTab === 'revisions' && (
+                                        <RevisionHistoryPanel 
+                                            revisions={store.revisions[activePage.id] || []}
+                                            onRollback={handleRollbackRevision}
+                                            rollingBackId={rollingBackId}
+                                        />
+                                    )}
                                 </div>
                             </div>
                         ) : (
@@ -2314,6 +3205,10 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                         
                         <StatsDashboard />
                         
+                        <WorkspaceDashboard />
+                        
+                        <LinkGraphPanel onBuild={handleBuildLinkGraph} />
+                        
                         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                             <CardComponent padding="lg">
                                 <h3 className="text-lg font-bold mb-6 flex items-center gap-3">
@@ -2406,6 +3301,8 @@ const { contract: _rawContract } = await orchestrator.generateEnhanced(
                                 </div>
                             </CardComponent>
                         </div>
+                        
+                        <CostAnalyticsPanel />
                     </div>
                 )}
             </main>
@@ -2675,6 +3572,8 @@ export {
     SectionHeader,
     OpenRouterModelSelector,
     GroqModelSelector,
+    RegistryModelSelector,
+    ModelSpecNote,
     deepClone,
     removeDuplicateFAQSections,
     removeH1TagsFromContent,
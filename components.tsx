@@ -20,9 +20,49 @@ import {
     GodModePhase, 
     SeoMetrics,
     ValidatedReference,
+    PostRevisionSnapshot,
+    ApprovalQueueItem,
+    InboundLinkProposal,
+    InternalLinkReport,
+    EmbeddingProvider,
+    AnchorType,
+    AnchorMix,
+    ContentContract,
+    TokenUsageTotals,
+    ModelPrice,
+    SpendBudget,
+    AIProvider,
+    LLMRoute,
+    LLMStage,
+    SectionStreamUpdate,
+    SectionStreamStatus,
+    SiteContext,
+    PromptTemplateKey,
+    BrandVoiceProfile,
+    SpellingLocale,
     APP_VERSION 
 } from './types';
 import { useAppStore } from './store';
+import { computeContentDiff, BlockDiff } from './lib/content-diff';
+import { createEmptyUsageTotals, sumUsageTotals, formatCost } from './lib/usage-accounting';
+import { currentDailySpend } from './lib/budget-guard';
+import { LLM_STAGES, LLM_STAGE_LABELS, defaultModelFor, hasProviderCredentials } from './lib/llm-router';
+import { validateModelSelection } from './lib/model-registry';
+import {
+    PromptTemplateGroup, PROMPT_TEMPLATES, PROMPT_TEMPLATE_KEYS, ALL_SITES_SCOPE,
+    buildPromptVariables, extractTemplateVariables, renderPromptTemplate,
+    findPromptOverride, resolvePromptTemplate, normalizeSiteScope
+} from './lib/prompt-templates';
+import {
+    DEFAULT_BRAND_VOICE, SPELLING_LOCALE_LABELS, resolveBrandVoice, parsePreferredTerms, formatPreferredTerms
+} from './lib/brand-voice';
+import { summarizeWorkspaces } from './lib/workspaces';
+import { LINK_GRAPH_THRESHOLDS, buildLinkGraphReport } from './lib/link-graph';
+import { DEFAULT_EMBEDDING_MODELS, hasEmbeddingCredentials } from './lib/embeddings';
+import { ANCHOR_TYPES, buildAnchorProfiles } from './lib/anchor-diversity';
+import {
+    MIN_PASSPHRASE_LENGTH, AUTO_LOCK_OPTIONS_MS, createCredentialBundle, openCredentialBundle
+} from './lib/credential-vault';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🎨 UTILITY FUNCTIONS
@@ -445,10 +485,28 @@ NeuralLog.displayName = 'NeuralLog';
 // 📊 STATS DASHBOARD — APPLE-STYLE METRICS
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export const StatsDashboard: React.FC = memo(() => {
+interface StatsDashboardProps {
+    // Autonomous controls are shown only when handlers are provided
+    onStartAutonomous?: () => void;
+    onStopAutonomous?: () => void;
+}
+
+export const StatsDashboard: React.FC<StatsDashboardProps> = memo(({ onStartAutonomous, onStopAutonomous }) => {
     const pages = useAppStore(state => state.pages);
     const config = useAppStore(state => state.autonomousConfig);
     const globalStats = useAppStore(state => state.globalStats);
+    const run = useAppStore(state => state.autonomousRun);
+    const setAutonomousConfig = useAppStore(state => state.setAutonomousConfig);
+    const [showAutonomousSettings, setShowAutonomousSettings] = useState(false);
+    const [now, setNow] = useState(Date.now());
+    
+    const runActive = run.status === 'running' || run.status === 'stopping';
+    
+    useEffect(() => {
+        if (!runActive) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [runActive]);
     
     const stats = useMemo(() => {
         const total = pages.length;
@@ -475,42 +533,155 @@ export const StatsDashboard: React.FC = memo(() => {
         { label: 'Total Words', value: formatNumber(stats.totalWords), icon: '📝', color: '#0a84ff' },
     ];
 
+    const runElapsed = run.startedAt ? (run.endedAt || now) - run.startedAt : 0;
+    const runRemaining = runActive ? Math.max(0, config.maxRuntime - runElapsed) : 0;
+    const nextStartIn = run.status === 'running' && run.nextStartAt ? Math.max(0, run.nextStartAt - now) : 0;
+    const showAutonomous = !!onStartAutonomous || run.status !== 'idle';
+
+    const autonomousStatus = {
+        idle: { label: 'Idle', color: 'text-white/40', dot: 'bg-white/30' },
+        running: { label: 'Running', color: 'text-green-400', dot: 'bg-green-400 animate-pulse' },
+        stopping: { label: 'Stopping', color: 'text-yellow-400', dot: 'bg-yellow-400 animate-pulse' },
+        stopped: { label: 'Stopped', color: 'text-white/60', dot: 'bg-white/40' }
+    }[run.status];
+
+    const settingInput = (label: string, value: number, onChange: (v: number) => void, min: number, max?: number) => (
+        <label className="flex flex-col gap-1 text-[10px] text-white/40 uppercase tracking-wider font-medium">
+            {label}
+            <input
+                type="number"
+                min={min}
+                max={max}
+                value={value}
+                disabled={runActive}
+                onChange={e => {
+                    const v = parseInt(e.target.value, 10);
+                    if (!isNaN(v)) onChange(Math.max(min, max !== undefined ? Math.min(max, v) : v));
+                }}
+                className="bg-white/[0.03] border border-white/[0.08] rounded-lg px-3 py-2 text-[13px] text-white normal-case tracking-normal outline-none focus:border-blue-500 disabled:opacity-40"
+            />
+        </label>
+    );
+
     return (
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-            {statItems.map(({ label, value, icon, color, pulse }, index) => (
-                <div 
-                    key={label} 
-                    className="animate-[fadeInUp_0.5s_ease-out_forwards] opacity-0"
-                    style={{ animationDelay: `${index * 50}ms` }}
-                >
-                    <div className={cn(
-                        'glass-panel p-5 text-center transition-all duration-300',
-                        'hover:scale-[1.03] hover:shadow-xl',
-                        pulse && 'animate-pulse'
-                    )}>
-                        {/* Icon */}
-                        <div 
-                            className="w-11 h-11 mx-auto mb-3 rounded-2xl flex items-center justify-center text-lg"
-                            style={{ 
-                                background: `${color}15`,
-                                boxShadow: `0 0 24px ${color}20`
-                            }}
-                        >
-                            {icon}
-                        </div>
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                {statItems.map(({ label, value, icon, color, pulse }, index) => (
+                    <div 
+                        key={label} 
+                        className="animate-[fadeInUp_0.5s_ease-out_forwards] opacity-0"
+                        style={{ animationDelay: `${index * 50}ms` }}
+                    >
+                        <div className={cn(
+                            'glass-panel p-5 text-center transition-all duration-300',
+                            'hover:scale-[1.03] hover:shadow-xl',
+                            pulse && 'animate-pulse'
+                        )}>
+                            {/* Icon */}
+                            <div 
+                                className="w-11 h-11 mx-auto mb-3 rounded-2xl flex items-center justify-center text-lg"
+                                style={{ 
+                                    background: `${color}15`,
+                                    boxShadow: `0 0 24px ${color}20`
+                                }}
+                            >
+                                {icon}
+                            </div>
                         
-                        {/* Value */}
-                        <div className="text-2xl font-bold text-white tabular-nums tracking-tight">
-                            {value}
-                        </div>
+                            {/* Value */}
+                            <div className="text-2xl font-bold text-white tabular-nums tracking-tight">
+                                {value}
+                            </div>
                         
-                        {/* Label */}
-                        <div className="text-[10px] text-white/40 uppercase tracking-wider font-medium mt-1">
-                            {label}
+                            {/* Label */}
+                            <div className="text-[10px] text-white/40 uppercase tracking-wider font-medium mt-1">
+                                {label}
+                            </div>
                         </div>
                     </div>
+                ))}
+            </div>
+        
+            {/* Autonomous Scheduler */}
+            {showAutonomous && (
+                <div className="glass-panel p-5 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                            <span className="text-xl">🤖</span>
+                            <div>
+                                <div className="text-[13px] font-semibold text-white">Autonomous Mode</div>
+                                <div className={cn('text-[11px] font-medium flex items-center gap-1.5', autonomousStatus.color)}>
+                                    <span className={cn('w-1.5 h-1.5 rounded-full', autonomousStatus.dot)} />
+                                    {autonomousStatus.label}
+                                    {run.stopReason && !runActive && <span className="text-white/30">— {run.stopReason}</span>}
+                                </div>
+                            </div>
+                        </div>
+                    
+                        <div className="flex flex-wrap items-center gap-5 text-[11px] text-white/50 tabular-nums">
+                            <span>⚡ {run.activeJobs.length}/{config.maxParallel} active</span>
+                            <span>✅ {run.succeeded}</span>
+                            <span>❌ {run.failed}</span>
+                        <span>💲 {formatCost(run.costUsd)}</span>
+                            {run.startedAt && <span>⏱️ {formatDuration(runElapsed)}</span>}
+                            {runActive && <span>⏳ {formatDuration(runRemaining)} left</span>}
+                            {nextStartIn > 0 && <span>⏭️ next in {Math.ceil(nextStartIn / 1000)}s</span>}
+                        </div>
+                    
+                        {onStartAutonomous && (
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => setShowAutonomousSettings(v => !v)}
+                                    className="px-3 py-2 rounded-xl text-[11px] font-semibold text-white/50 hover:text-white bg-white/[0.03] border border-white/[0.06]"
+                                >
+                                    ⚙️ Settings
+                                </button>
+                                {runActive ? (
+                                    <button
+                                        onClick={onStopAutonomous}
+                                        disabled={run.status === 'stopping'}
+                                        className="px-4 py-2 rounded-xl text-[12px] font-semibold bg-red-500/20 text-red-300 border border-red-500/30 hover:bg-red-500/30 disabled:opacity-40"
+                                    >
+                                        ⏹ Stop
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={onStartAutonomous}
+                                        className="px-4 py-2 rounded-xl text-[12px] font-semibold bg-green-500/20 text-green-300 border border-green-500/30 hover:bg-green-500/30"
+                                    >
+                                        ▶ Start
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                
+                    {run.lastError && (
+                        <div className="text-[11px] text-red-400/80 truncate" title={run.lastError}>
+                            Last error: {run.lastError}
+                        </div>
+                    )}
+                
+                    {showAutonomousSettings && onStartAutonomous && (
+                        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 pt-4 border-t border-white/[0.06]">
+                            {settingInput('Target score', config.targetScore, v => setAutonomousConfig({ targetScore: v }), 1, 100)}
+                            {settingInput('Max parallel', config.maxParallel, v => setAutonomousConfig({ maxParallel: v }), 1, 10)}
+                            {settingInput('Interval (s)', Math.round(config.minInterval / 1000), v => setAutonomousConfig({ minInterval: v * 1000 }), 0)}
+                            {settingInput('Runtime (min)', Math.round(config.maxRuntime / 60000), v => setAutonomousConfig({ maxRuntime: v * 60000 }), 1)}
+                            {settingInput('Skip recent (days)', Math.round(config.skipRecentMs / 86400000), v => setAutonomousConfig({ skipRecentMs: v * 86400000 }), 0)}
+                            <label className="flex items-center gap-2 text-[11px] text-white/60 self-end pb-2">
+                                <input
+                                    type="checkbox"
+                                    checked={config.stopOnError}
+                                    disabled={runActive}
+                                    onChange={e => setAutonomousConfig({ stopOnError: e.target.checked })}
+                                />
+                                Stop on error
+                            </label>
+                        </div>
+                    )}
                 </div>
-            ))}
+            )}
         </div>
     );
 });
@@ -539,6 +710,7 @@ export const PageQueueList: React.FC<PageQueueListProps> = memo(({
     const [filter, setFilter] = useState<'all' | 'pending' | 'completed' | 'failed'>('all');
     const [sortBy, setSortBy] = useState<'score' | 'opportunity' | 'name'>('score');
     const [searchTerm, setSearchTerm] = useState('');
+    const [expandedOpportunityId, setExpandedOpportunityId] = useState<string | null>(null);
     
     const filteredPages = useMemo(() => {
         let filtered = [...pages];
@@ -572,7 +744,7 @@ export const PageQueueList: React.FC<PageQueueListProps> = memo(({
             
             switch (sortBy) {
                 case 'opportunity':
-                    return (b.opportunity?.total || 50) - (a.opportunity?.total || 50);
+                    return (b.opportunity?.total ?? 0) - (a.opportunity?.total ?? 0);
                 case 'name':
                     return a.title.localeCompare(b.title);
                 default:
@@ -629,6 +801,17 @@ export const PageQueueList: React.FC<PageQueueListProps> = memo(({
                             </button>
                         ))}
                     </div>
+                    
+                    {/* Sort */}
+                    <select
+                        value={sortBy}
+                        onChange={e => setSortBy(e.target.value as typeof sortBy)}
+                        className="bg-white/[0.03] border border-white/[0.06] rounded-xl px-3 py-2 text-[11px] font-semibold uppercase tracking-wider text-white/60 outline-none focus:border-blue-500"
+                    >
+                        <option value="score">Lowest score</option>
+                        <option value="opportunity">Top opportunity</option>
+                        <option value="name">Name</option>
+                    </select>
                 </div>
             )}
             
@@ -686,8 +869,45 @@ export const PageQueueList: React.FC<PageQueueListProps> = memo(({
                                             {formatNumber(page.wordCount)} words
                                         </div>
                                     )}
+                                    {page.opportunity && (
+                                        <button
+                                            onClick={e => {
+                                                e.stopPropagation();
+                                                setExpandedOpportunityId(prev => prev === page.id ? null : page.id);
+                                            }}
+                                            title="Opportunity score — higher means more to gain"
+                                            className="mt-1 text-[10px] font-semibold text-amber-400/80 hover:text-amber-300 tabular-nums"
+                                        >
+                                            🎯 {page.opportunity.total}
+                                        </button>
+                                    )}
                                 </div>
                             </div>
+                            
+                            {expandedOpportunityId === page.id && page.opportunity?.factors && (
+                                <div 
+                                    onClick={e => e.stopPropagation()}
+                                    className="mt-3 pt-3 border-t border-white/[0.06] space-y-1.5 cursor-default"
+                                >
+                                    {page.opportunity.factors.map(factor => (
+                                        <div key={factor.key} className="flex items-center gap-3 text-[11px]">
+                                            <span className="w-32 flex-shrink-0 text-white/50">{factor.label}</span>
+                                            <div className="flex-1 h-1.5 bg-white/[0.06] rounded-full overflow-hidden">
+                                                <div 
+                                                    className="h-full bg-amber-400/70 rounded-full"
+                                                    style={{ width: `${factor.score}%` }}
+                                                />
+                                            </div>
+                                            <span className="w-10 text-right tabular-nums text-white/60">
+                                                +{Math.round(factor.score * factor.weight)}
+                                            </span>
+                                            <span className="w-44 flex-shrink-0 truncate text-white/30" title={factor.detail}>
+                                                {factor.detail}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     );
                 })}
@@ -746,6 +966,7 @@ export const QASwarmPanel: React.FC<QASwarmPanelProps> = memo(({
             case 'seo': return { icon: '🔍', label: 'SEO', color: 'text-blue-400', bg: 'bg-blue-500/10' };
             case 'aeo': return { icon: '🤖', label: 'AEO', color: 'text-purple-400', bg: 'bg-purple-500/10' };
             case 'geo': return { icon: '🌍', label: 'GEO', color: 'text-cyan-400', bg: 'bg-cyan-500/10' };
+            case 'voice': return { icon: '🎙️', label: 'Brand Voice', color: 'text-rose-400', bg: 'bg-rose-500/10' };
             default: return { icon: '✨', label: 'Enhancement', color: 'text-green-400', bg: 'bg-green-500/10' };
         }
     };
@@ -760,130 +981,2306 @@ export const QASwarmPanel: React.FC<QASwarmPanelProps> = memo(({
         return filtered;
     }, [groupedResults, showOnlyIssues]);
 
-    const categoryOrder = ['critical', 'seo', 'aeo', 'geo', 'enhancement'];
+    const categoryOrder = ['critical', 'seo', 'aeo', 'geo', 'voice', 'enhancement'];
+
+    return (
+        <div className="glass-panel p-8 space-y-6 min-h-[500px]">
+            {showTitle && (
+                <div className="flex items-center justify-between border-b border-white/[0.06] pb-6">
+                    <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                            🔍
+                        </div>
+                        <div>
+                            <h4 className="text-[14px] font-semibold text-white">QA Validation</h4>
+                            <p className="text-[11px] text-white/40">{results.length} checks performed</p>
+                        </div>
+                    </div>
+                    
+                    {results.length > 0 && (
+                        <div className={cn('text-4xl font-bold tabular-nums', getScoreColor(totalScore))}>
+                            {totalScore}%
+                        </div>
+                    )}
+                </div>
+            )}
+            
+            {/* Filter toggle */}
+            {results.length > 0 && (
+                <button
+                    onClick={() => setShowOnlyIssues(!showOnlyIssues)}
+                    className={cn(
+                        'text-[11px] font-semibold uppercase px-4 py-2 rounded-xl transition-all',
+                        showOnlyIssues 
+                            ? 'bg-red-500/20 text-red-400 border border-red-500/30' 
+                            : 'bg-white/[0.03] text-white/50 border border-white/[0.06] hover:text-white'
+                    )}
+                >
+                    {showOnlyIssues ? '⚠️ Issues Only' : '📋 Show All'}
+                </button>
+            )}
+            
+            {/* Results */}
+            <div className="space-y-3 max-h-[400px] overflow-y-auto custom-scrollbar">
+                {categoryOrder
+                    .filter(cat => displayResults[cat])
+                    .map((category) => {
+                        const items = displayResults[category];
+                        if (!items) return null;
+                        
+                        const config = getCategoryConfig(category);
+                        const isExpanded = expandedCategory === category;
+                        const failedCount = items.filter(r => r.status === 'failed').length;
+                        
+                        return (
+                            <div key={category} className="border border-white/[0.06] rounded-2xl overflow-hidden">
+                                <button
+                                    onClick={() => setExpandedCategory(isExpanded ? null : category)}
+                                    className="w-full p-4 flex items-center justify-between bg-white/[0.02] hover:bg-white/[0.04] transition-colors"
+                                >
+                                    <div className="flex items-center gap-3">
+                                        <span className="text-xl">{config.icon}</span>
+                                        <span className={cn('text-[12px] font-semibold uppercase tracking-wider', config.color)}>
+                                            {config.label}
+                                        </span>
+                                        <span className="text-[10px] text-white/30 bg-white/[0.04] px-2 py-0.5 rounded-full">
+                                            {items.length}
+                                        </span>
+                                        {failedCount > 0 && (
+                                            <span className="text-[9px] font-bold bg-red-500/20 text-red-400 px-2 py-0.5 rounded-full animate-pulse">
+                                                {failedCount} failed
+                                            </span>
+                                        )}
+                                    </div>
+                                    <span className={cn('transition-transform text-white/30', isExpanded && 'rotate-180')}>
+                                        ▼
+                                    </span>
+                                </button>
+                                
+                                {isExpanded && (
+                                    <div className="p-4 space-y-3 bg-black/20 border-t border-white/[0.04]">
+                                        {items.map((r, i) => (
+                                            <div 
+                                                key={i} 
+                                                className={cn(
+                                                    'p-4 rounded-xl border transition-all',
+                                                    r.status === 'passed' && 'bg-green-500/5 border-green-500/20',
+                                                    r.status === 'failed' && 'bg-red-500/5 border-red-500/20',
+                                                    r.status === 'warning' && 'bg-yellow-500/5 border-yellow-500/20'
+                                                )}
+                                            >
+                                                <div className="flex justify-between items-start mb-2">
+                                                    <span className="text-[12px] font-semibold text-white">
+                                                        {r.agent}
+                                                    </span>
+                                                    <span className={cn('text-[14px] font-bold tabular-nums', getScoreColor(r.score))}>
+                                                        {r.score}%
+                                                    </span>
+                                                </div>
+                                                <p className="text-[12px] text-white/60 leading-relaxed">{r.feedback}</p>
+                                                {r.fixSuggestion && r.status !== 'passed' && (
+                                                    <p className="text-[11px] text-blue-400 mt-3 pt-3 border-t border-white/[0.04] flex items-start gap-2">
+                                                        <span>💡</span>
+                                                        <span>{r.fixSuggestion}</span>
+                                                    </p>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                
+                {results.length === 0 && (
+                    <div className="text-center py-16 text-white/30">
+                        <div className="text-5xl mb-4 opacity-30">🔍</div>
+                        <div className="text-[14px] font-semibold">No validation data</div>
+                        <div className="text-[12px] mt-1 opacity-60">Run optimization to generate results</div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+});
+
+QASwarmPanel.displayName = 'QASwarmPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⏪ REVISION HISTORY PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface RevisionHistoryPanelProps {
+    revisions: PostRevisionSnapshot[];
+    onRollback: (revision: PostRevisionSnapshot) => void;
+    rollingBackId?: string | null;
+}
+
+export const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = memo(({ 
+    revisions, 
+    onRollback,
+    rollingBackId = null 
+}) => {
+    const [previewId, setPreviewId] = useState<string | null>(null);
+    
+    const reasonLabel = (reason: PostRevisionSnapshot['reason']) => 
+        reason === 'pre-rollback' ? 'Before rollback' : 
+        reason === 'pre-inbound-link' ? 'Before inbound link' : 'Before optimization';
+
+    return (
+        <div className="glass-panel p-8 space-y-6 min-h-[500px]">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-amber-500/20 to-orange-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    ⏪
+                </div>
+                <div>
+                    <h4 className="text-[14px] font-semibold text-white">Revision Snapshots</h4>
+                    <p className="text-[11px] text-white/40">{revisions.length} saved before WordPress updates</p>
+                </div>
+            </div>
+            
+            <div className="space-y-3 max-h-[500px] overflow-y-auto custom-scrollbar">
+                {revisions.map(revision => {
+                    const isPreviewing = previewId === revision.id;
+                    const isRollingBack = rollingBackId === revision.id;
+                    
+                    return (
+                        <div key={revision.id} className="border border-white/[0.06] rounded-2xl overflow-hidden">
+                            <div className="p-4 flex items-start justify-between gap-4 bg-white/[0.02]">
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-semibold text-[13px] text-white truncate">
+                                        {revision.title || '(untitled)'}
+                                    </div>
+                                    <div className="text-[10px] text-white/40 mt-1 flex flex-wrap gap-x-3 gap-y-1">
+                                        <span>{new Date(revision.capturedAt).toLocaleString()}</span>
+                                        <span>{reasonLabel(revision.reason)}</span>
+                                        <span>Post #{revision.postId}</span>
+                                        <span>{formatNumber(revision.wordCount || 0)} words</span>
+                                        <span className="uppercase">{revision.status}</span>
+                                    </div>
+                                    {revision.restoredAt && (
+                                        <div className="text-[10px] text-green-400 mt-2">
+                                            ✓ Restored {new Date(revision.restoredAt).toLocaleString()}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <button
+                                        onClick={() => setPreviewId(isPreviewing ? null : revision.id)}
+                                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors"
+                                    >
+                                        {isPreviewing ? 'Hide' : '👁️ View'}
+                                    </button>
+                                    <button
+                                        onClick={() => onRollback(revision)}
+                                        disabled={!!rollingBackId}
+                                        className="text-[10px] font-semibold uppercase text-amber-400 px-3 py-1.5 bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        {isRollingBack ? '🔄 Restoring...' : '⏪ Restore'}
+                                    </button>
+                                </div>
+                            </div>
+                            
+                            {isPreviewing && (
+                                <div className="p-4 bg-black/20 border-t border-white/[0.04] space-y-3">
+                                    {(revision.seoMeta.title || revision.seoMeta.description) && (
+                                        <div className="text-[11px] text-white/50 space-y-1">
+                                            {revision.seoMeta.title && <div><span className="text-white/30">SEO title:</span> {revision.seoMeta.title}</div>}
+                                            {revision.seoMeta.description && <div><span className="text-white/30">Meta:</span> {revision.seoMeta.description}</div>}
+                                        </div>
+                                    )}
+                                    <div 
+                                        className="prose prose-invert prose-sm max-w-none max-h-[300px] overflow-auto custom-scrollbar"
+                                        dangerouslySetInnerHTML={{ __html: revision.content }}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                
+                {revisions.length === 0 && (
+                    <div className="text-center py-16 text-white/30">
+                        <div className="text-5xl mb-4 opacity-30">⏪</div>
+                        <div className="text-[14px] font-semibold">No snapshots yet</div>
+                        <div className="text-[12px] mt-1 opacity-60">A copy is saved each time an existing post is updated</div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+});
+
+RevisionHistoryPanel.displayName = 'RevisionHistoryPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 👀 APPROVAL QUEUE PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type ApprovalEdits = Partial<Pick<ContentContract, 'title' | 'metaDescription' | 'htmlContent'>>;
+
+interface ApprovalQueuePanelProps {
+    items: ApprovalQueueItem[];
+    onApprove: (item: ApprovalQueueItem) => void;
+    onReject: (item: ApprovalQueueItem, feedback: string) => void;
+    onEdit: (item: ApprovalQueueItem, updates: ApprovalEdits) => void;
+    busyId?: string | null;
+}
+
+export const ApprovalQueuePanel: React.FC<ApprovalQueuePanelProps> = memo(({ 
+    items, 
+    onApprove, 
+    onReject, 
+    onEdit,
+    busyId = null 
+}) => {
+    const [openId, setOpenId] = useState<string | null>(null);
+    const [mode, setMode] = useState<'preview' | 'edit' | 'reject'>('preview');
+    const [draft, setDraft] = useState<ApprovalEdits>({});
+    const [feedback, setFeedback] = useState('');
+    
+    const open = (item: ApprovalQueueItem, nextMode: typeof mode) => {
+        if (openId === item.id && mode === nextMode) {
+            setOpenId(null);
+            return;
+        }
+        setOpenId(item.id);
+        setMode(nextMode);
+        setFeedback('');
+        setDraft({
+            title: item.contract.title,
+            metaDescription: item.contract.metaDescription,
+            htmlContent: item.contract.htmlContent
+        });
+    };
+    
+    const sorted = useMemo(() => [...items].sort((a, b) => a.createdAt - b.createdAt), [items]);
+    
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-purple-500/20 to-pink-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    👀
+                </div>
+                <div>
+                    <h4 className="text-[14px] font-semibold text-white">Approval Queue</h4>
+                    <p className="text-[11px] text-white/40">{items.length} draft{items.length === 1 ? '' : 's'} waiting before WordPress write</p>
+                </div>
+            </div>
+            
+            <div className="space-y-3 max-h-[700px] overflow-y-auto custom-scrollbar">
+                {sorted.map(item => {
+                    const isOpen = openId === item.id;
+                    const isBusy = busyId === item.id;
+                    const failed = item.qaResult.results.filter(r => r.status === 'failed');
+                    
+                    return (
+                        <div key={item.id} className="border border-white/[0.06] rounded-2xl overflow-hidden">
+                            <div className="p-4 flex items-start justify-between gap-4 bg-white/[0.02]">
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-semibold text-[13px] text-white truncate">
+                                        {item.contract.title || item.topic}
+                                    </div>
+                                    <div className="text-[10px] text-white/40 mt-1 flex flex-wrap gap-x-3 gap-y-1">
+                                        <span className={cn('font-semibold', getScoreColor(item.qaResult.score))}>QA {item.qaResult.score}%</span>
+                                        <span>{formatNumber(item.contract.wordCount || 0)} words</span>
+                                        <span>{item.postId ? `Update post #${item.postId}` : 'New post'}</span>
+                                        <span>{item.publishStatus === 'publish' ? '🚀 Publishes on approval' : '📝 Saved as draft on approval'}</span>
+                                        <span>{new Date(item.createdAt).toLocaleString()}</span>
+                                        {item.regenerations > 0 && <span className="text-purple-400">↻ {item.regenerations} regeneration{item.regenerations === 1 ? '' : 's'}</span>}
+                                        {item.editedAt && <span className="text-blue-400">✎ Edited</span>}
+                                        {item.qaResult.criticalFails > 0 && <span className="text-red-400">{item.qaResult.criticalFails} critical</span>}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <button
+                                        onClick={() => open(item, 'preview')}
+                                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors"
+                                    >
+                                        👁️ View
+                                    </button>
+                                    <button
+                                        onClick={() => open(item, 'edit')}
+                                        disabled={isBusy}
+                                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        ✎ Edit
+                                    </button>
+                                    <button
+                                        onClick={() => open(item, 'reject')}
+                                        disabled={!!busyId}
+                                        className="text-[10px] font-semibold uppercase text-red-400 px-3 py-1.5 bg-red-500/10 border border-red-500/30 hover:bg-red-500/20 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        👎 Reject
+                                    </button>
+                                    <button
+                                        onClick={() => onApprove(item)}
+                                        disabled={!!busyId}
+                                        className="text-[10px] font-semibold uppercase text-green-400 px-3 py-1.5 bg-green-500/10 border border-green-500/30 hover:bg-green-500/20 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        {isBusy ? '🔄 Working...' : '👍 Approve'}
+                                    </button>
+                                </div>
+                            </div>
+                            
+                            {isOpen && mode === 'preview' && (
+                                <div className="p-4 bg-black/20 border-t border-white/[0.04] space-y-3">
+                                    {item.contract.metaDescription && (
+                                        <div className="text-[11px] text-white/50">
+                                            <span className="text-white/30">Meta:</span> {item.contract.metaDescription}
+                                        </div>
+                                    )}
+                                    {failed.length > 0 && (
+                                        <div className="space-y-1">
+                                            {failed.map((r, i) => (
+                                                <div key={i} className="text-[11px] text-red-300/80">✕ {r.agent}: {r.feedback}</div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <div 
+                                        className="prose prose-invert prose-sm max-w-none max-h-[400px] overflow-auto custom-scrollbar"
+                                        dangerouslySetInnerHTML={{ __html: item.contract.htmlContent }}
+                                    />
+                                </div>
+                            )}
+                            
+                            {isOpen && mode === 'edit' && (
+                                <div className="p-4 bg-black/20 border-t border-white/[0.04] space-y-3">
+                                    <input
+                                        value={draft.title || ''}
+                                        onChange={e => setDraft(d => ({ ...d, title: e.target.value }))}
+                                        placeholder="Title"
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-4 py-2.5 text-[13px] outline-none focus:border-white/20"
+                                    />
+                                    <textarea
+                                        value={draft.metaDescription || ''}
+                                        onChange={e => setDraft(d => ({ ...d, metaDescription: e.target.value }))}
+                                        placeholder="Meta description"
+                                        rows={2}
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-4 py-2.5 text-[12px] outline-none focus:border-white/20 resize-none"
+                                    />
+                                    <textarea
+                                        value={draft.htmlContent || ''}
+                                        onChange={e => setDraft(d => ({ ...d, htmlContent: e.target.value }))}
+                                        rows={16}
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-4 py-2.5 text-[11px] font-mono outline-none focus:border-white/20 custom-scrollbar"
+                                    />
+                                    <div className="flex justify-end gap-2">
+                                        <button
+                                            onClick={() => setOpenId(null)}
+                                            className="text-[11px] font-semibold text-white/40 hover:text-white px-4 py-2 rounded-lg transition-colors"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            onClick={() => { onEdit(item, draft); setMode('preview'); }}
+                                            className="text-[11px] font-semibold text-blue-400 px-4 py-2 bg-blue-500/10 border border-blue-500/30 hover:bg-blue-500/20 rounded-lg transition-colors"
+                                        >
+                                            💾 Save edits
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                            
+                            {isOpen && mode === 'reject' && (
+                                <div className="p-4 bg-black/20 border-t border-white/[0.04] space-y-3">
+                                    <textarea
+                                        value={feedback}
+                                        onChange={e => setFeedback(e.target.value)}
+                                        placeholder="What should change in the next draft?"
+                                        rows={3}
+                                        className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl px-4 py-2.5 text-[12px] outline-none focus:border-white/20 resize-none"
+                                    />
+                                    <div className="flex justify-end">
+                                        <button
+                                            onClick={() => { onReject(item, feedback); setOpenId(null); }}
+                                            disabled={!feedback.trim() || !!busyId}
+                                            className="text-[11px] font-semibold text-red-400 px-4 py-2 bg-red-500/10 border border-red-500/30 hover:bg-red-500/20 rounded-lg transition-colors disabled:opacity-50"
+                                        >
+                                            ↻ Reject & regenerate
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                
+                {items.length === 0 && (
+                    <div className="text-center py-12 text-white/30">
+                        <div className="text-5xl mb-4 opacity-30">👀</div>
+                        <div className="text-[14px] font-semibold">Queue is empty</div>
+                        <div className="text-[12px] mt-1 opacity-60">Drafts appear here when publish mode is set to Review</div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+});
+
+ApprovalQueuePanel.displayName = 'ApprovalQueuePanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ↩️ INBOUND LINK PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface InboundLinkPanelProps {
+    proposals: InboundLinkProposal[];
+    onApply: (proposal: InboundLinkProposal) => void;
+    onDismiss: (proposal: InboundLinkProposal) => void;
+    onClearApplied: () => void;
+    busyId?: string | null;
+}
+
+// The paragraph with the proposed anchor highlighted
+const InboundLinkContext: React.FC<{ context: string; anchor: string }> = ({ context, anchor }) => {
+    const needle = anchor.toLowerCase().replace(/\s+/g, ' ');
+    const at = context.toLowerCase().indexOf(needle);
+    if (at < 0) return <>{context}</>;
+    return (
+        <>
+            {context.slice(0, at)}
+            <span className="text-blue-400 underline decoration-blue-400/50">{context.slice(at, at + needle.length)}</span>
+            {context.slice(at + needle.length)}
+        </>
+    );
+};
+
+export const InboundLinkPanel: React.FC<InboundLinkPanelProps> = memo(({ 
+    proposals, 
+    onApply, 
+    onDismiss, 
+    onClearApplied,
+    busyId = null 
+}) => {
+    // Grouped by the article receiving the links, newest first
+    const groups = useMemo(() => {
+        const byTarget = new Map<string, InboundLinkProposal[]>();
+        [...proposals]
+            .sort((a, b) => b.createdAt - a.createdAt || b.relevance - a.relevance)
+            .forEach(p => byTarget.set(p.targetUrl, [...(byTarget.get(p.targetUrl) || []), p]));
+        return Array.from(byTarget.values());
+    }, [proposals]);
+    
+    const pending = proposals.filter(p => p.status !== 'applied').length;
+    const applied = proposals.length - pending;
+    
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-blue-500/20 to-cyan-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    ↩️
+                </div>
+                <div className="flex-1">
+                    <h4 className="text-[14px] font-semibold text-white">Inbound Links</h4>
+                    <p className="text-[11px] text-white/40">
+                        {pending} proposed link{pending === 1 ? '' : 's'} from existing posts to newly published ones
+                    </p>
+                </div>
+                {applied > 0 && (
+                    <button
+                        onClick={onClearApplied}
+                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors"
+                    >
+                        Clear {applied} applied
+                    </button>
+                )}
+            </div>
+            
+            <div className="space-y-6 max-h-[700px] overflow-y-auto custom-scrollbar">
+                {groups.map(group => (
+                    <div key={group[0].targetUrl} className="space-y-2">
+                        <div className="text-[11px] font-semibold text-white/60 truncate">
+                            → {group[0].targetTitle}
+                        </div>
+                        {group.map(proposal => {
+                            const isBusy = busyId === proposal.id;
+                            return (
+                                <div key={proposal.id} className="border border-white/[0.06] rounded-2xl p-4 bg-white/[0.02] space-y-3">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-semibold text-[13px] text-white truncate">{proposal.sourceTitle || proposal.sourceUrl}</div>
+                                            <div className="text-[10px] text-white/40 mt-1 flex flex-wrap gap-x-3 gap-y-1">
+                                                <span>Relevance {proposal.relevance}</span>
+                                                <span>Post #{proposal.sourcePostId}</span>
+                                                <span>“{proposal.anchor}”</span>
+                                                {proposal.status === 'applied' && <span className="text-green-400">✓ Linked {proposal.appliedAt ? new Date(proposal.appliedAt).toLocaleString() : ''}</span>}
+                                                {proposal.status === 'failed' && <span className="text-red-400">✕ {proposal.error}</span>}
+                                            </div>
+                                        </div>
+                                        {proposal.status !== 'applied' && (
+                                            <div className="flex items-center gap-2 flex-shrink-0">
+                                                <button
+                                                    onClick={() => onDismiss(proposal)}
+                                                    disabled={isBusy}
+                                                    className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors disabled:opacity-50"
+                                                >
+                                                    ✕ Dismiss
+                                                </button>
+                                                <button
+                                                    onClick={() => onApply(proposal)}
+                                                    disabled={!!busyId}
+                                                    className="text-[10px] font-semibold uppercase text-green-400 px-3 py-1.5 bg-green-500/10 border border-green-500/30 hover:bg-green-500/20 rounded-lg transition-colors disabled:opacity-50"
+                                                >
+                                                    {isBusy ? '🔄 Linking...' : proposal.status === 'failed' ? '↻ Retry' : '🔗 Add link'}
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                    <p className="text-[12px] text-white/60 leading-relaxed">
+                                        <InboundLinkContext context={proposal.context} anchor={proposal.anchor} />
+                                    </p>
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+                
+                {proposals.length === 0 && (
+                    <div className="text-center py-12 text-white/30">
+                        <div className="text-5xl mb-4 opacity-30">↩️</div>
+                        <div className="text-[14px] font-semibold">No proposals</div>
+                        <div className="text-[12px] mt-1 opacity-60">Publishing an article looks for older posts that should link to it</div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+});
+
+InboundLinkPanel.displayName = 'InboundLinkPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔗 INTERNAL LINK REPORT PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface InternalLinkReportPanelProps {
+    report?: InternalLinkReport;
+}
+
+export const InternalLinkReportPanel: React.FC<InternalLinkReportPanelProps> = memo(({ report }) => {
+    if (!report) {
+        return (
+            <div className="glass-panel p-8">
+                <div className="text-center py-12 text-white/30">
+                    <div className="text-5xl mb-4 opacity-30">🔗</div>
+                    <div className="text-[14px] font-semibold">No link report</div>
+                    <div className="text-[12px] mt-1 opacity-60">Reported when God Mode places internal links in new content</div>
+                </div>
+            </div>
+        );
+    }
+    
+    return (
+        <div className="glass-panel p-8 space-y-6 min-h-[500px]">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-blue-500/20 to-cyan-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    🔗
+                </div>
+                <div className="flex-1">
+                    <h4 className="text-[14px] font-semibold text-white">Internal Links</h4>
+                    <p className="text-[11px] text-white/40">
+                        {report.planned.length} {report.dryRun ? 'planned' : 'placed'} · {report.skipped.length} skipped · {report.eligibleParagraphs} eligible paragraphs
+                    </p>
+                </div>
+                {report.belowMinimum && <span className="text-[10px] font-semibold uppercase text-amber-400">Below minimum</span>}
+            </div>
+            
+            <div className="space-y-2 max-h-[700px] overflow-y-auto custom-scrollbar">
+                {report.planned.map((link, i) => (
+                    <div key={`${link.url}-${i}`} className="border border-white/[0.06] rounded-2xl p-4 bg-white/[0.02] space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                            <div className="font-semibold text-[13px] text-white truncate">“{link.anchorText}” → {link.title || link.url}</div>
+                            {link.sectionIndex !== undefined && (
+                                <span className="text-[10px] text-white/40 flex-shrink-0">{link.sectionIndex === 0 ? 'Intro' : `Section ${link.sectionIndex}`}</span>
+                            )}
+                        </div>
+                        <div className="text-[10px] text-white/40">{link.reason}</div>
+                        <div className="text-[12px] text-white/60 leading-relaxed">
+                            <InboundLinkContext context={link.context} anchor={link.anchorText} />
+                        </div>
+                    </div>
+                ))}
+                
+                {report.skipped.length > 0 && (
+                    <div className="pt-4 space-y-1">
+                        <div className="text-[11px] font-semibold text-white/60">Skipped targets</div>
+                        {report.skipped.map((s, i) => (
+                            <div key={`${s.url}-${i}`} className="text-[11px] flex gap-3">
+                                <span className="text-white/70 truncate flex-1">{s.title || s.url}</span>
+                                <span className="text-white/40 flex-shrink-0">{s.reason}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+});
+
+InternalLinkReportPanel.displayName = 'InternalLinkReportPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💲 COST ANALYTICS PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface ArticleCostRow {
+    pageId: string;
+    title: string;
+    timestamp: number;
+    usage: TokenUsageTotals;
+}
+
+export const CostAnalyticsPanel: React.FC = memo(() => {
+    const pages = useAppStore(state => state.pages);
+    const globalStats = useAppStore(state => state.globalStats);
+    const modelPrices = useAppStore(state => state.modelPrices);
+    const setModelPrice = useAppStore(state => state.setModelPrice);
+    const resetModelPrices = useAppStore(state => state.resetModelPrices);
+    const spendBudget = useAppStore(state => state.spendBudget);
+    const dailySpend = useAppStore(state => state.dailySpend);
+    const setSpendBudget = useAppStore(state => state.setSpendBudget);
+    const [showPrices, setShowPrices] = useState(false);
+    const [newModel, setNewModel] = useState('');
+    
+    const articles = useMemo(() => {
+        const rows: ArticleCostRow[] = [];
+        pages.forEach(page => {
+            page.improvementHistory.forEach(record => {
+                if (record.usage) {
+                    rows.push({ pageId: page.id, title: page.title, timestamp: record.timestamp, usage: record.usage });
+                }
+            });
+        });
+        return rows.sort((a, b) => b.timestamp - a.timestamp);
+    }, [pages]);
+    
+    const totals = globalStats.usage || createEmptyUsageTotals();
+    const avgPerArticle = articles.length > 0 
+        ? sumUsageTotals(articles.map(a => a.usage)).costUsd / articles.length 
+        : 0;
+    const runs = globalStats.recentRuns || [];
+    
+    const exportCsv = useCallback(() => {
+        const header = 'date,page,title,calls,prompt_tokens,completion_tokens,cost_usd';
+        const escape = (v: string) => `"${v.replace(/"/g, '""')}"`;
+        const lines = articles.map(a => [
+            new Date(a.timestamp).toISOString(),
+            escape(a.pageId),
+            escape(a.title),
+            a.usage.calls,
+            a.usage.promptTokens,
+            a.usage.completionTokens,
+            a.usage.costUsd.toFixed(6)
+        ].join(','));
+        
+        const blob = new Blob([[header, ...lines].join('\n')], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `wp-optimizer-costs-${new Date().toISOString().split('T')[0]}.csv`;
+        a.click();
+        URL.revokeObjectURL(url);
+    }, [articles]);
+    
+    const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+        const n = parseFloat(value);
+        if (isNaN(n) || n < 0) return;
+        setModelPrice(model, { ...modelPrices[model], [field]: n });
+    };
+    
+    const today = currentDailySpend(dailySpend);
+    const updateBudget = (field: keyof SpendBudget, value: string) => {
+        const n = value === '' ? 0 : parseFloat(value);
+        if (isNaN(n) || n < 0) return;
+        setSpendBudget({ [field]: n });
+    };
+    const budgetFields: Array<{ field: keyof SpendBudget; label: string; step: string; usage: string }> = [
+        { field: 'maxCostPerArticle', label: 'Per Article ($)', step: '0.01', usage: `avg ${formatCost(avgPerArticle)}` },
+        { field: 'maxCostPerRun', label: 'Per Bulk/Auto Run ($)', step: '0.5', usage: runs[0] ? `last ${formatCost(runs[0].costUsd)}` : 'no runs yet' },
+        { field: 'maxCostPerDay', label: 'Per Day ($)', step: '0.5', usage: `today ${formatCost(today.costUsd)}` },
+        { field: 'maxSerperQueriesPerDay', label: 'Serper Queries / Day', step: '1', usage: `today ${today.serperQueries}` }
+    ];
+
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center justify-between gap-4 border-b border-white/[0.06] pb-6">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-gradient-to-br from-amber-500/20 to-yellow-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                        💲
+                    </div>
+                    <div>
+                        <h4 className="text-[14px] font-semibold text-white">LLM Cost</h4>
+                        <p className="text-[11px] text-white/40">Provider-reported tokens × model price table</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setShowPrices(v => !v)}
+                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors"
+                    >
+                        ⚙️ Prices
+                    </button>
+                    <button
+                        onClick={exportCsv}
+                        disabled={articles.length === 0}
+                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors disabled:opacity-30"
+                    >
+                        📥 CSV
+                    </button>
+                </div>
+            </div>
+            
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                    { label: 'Total Spend', value: formatCost(totals.costUsd), color: 'text-amber-400' },
+                    { label: 'Avg / Article', value: formatCost(avgPerArticle), color: 'text-white' },
+                    { label: 'Prompt Tokens', value: formatNumber(totals.promptTokens), color: 'text-blue-400' },
+                    { label: 'Completion Tokens', value: formatNumber(totals.completionTokens), color: 'text-purple-400' }
+                ].map(item => (
+                    <div key={item.label} className="p-4 bg-white/[0.02] rounded-2xl border border-white/[0.06]">
+                        <div className={cn('text-2xl font-bold tabular-nums', item.color)}>{item.value}</div>
+                        <div className="text-[10px] text-white/40 uppercase mt-1">{item.label}</div>
+                    </div>
+                ))}
+            </div>
+            
+            {totals.unpricedCalls > 0 && (
+                <div className="text-[11px] text-yellow-400/80">
+                    ⚠️ {totals.unpricedCalls} call(s) used a model missing from the price table and were counted at $0
+                </div>
+            )}
+            
+            {/* Budgets */}
+            <div className="space-y-2">
+                <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">Budgets (0 = no limit)</div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {budgetFields.map(({ field, label, step, usage }) => {
+                        const limit = spendBudget[field];
+                        const spent = field === 'maxCostPerDay' ? today.costUsd
+                            : field === 'maxSerperQueriesPerDay' ? today.serperQueries
+                            : null;
+                        return (
+                            <div key={field} className="p-4 bg-white/[0.02] rounded-2xl border border-white/[0.06] space-y-2">
+                                <div className="text-[10px] text-white/40 uppercase">{label}</div>
+                                <input
+                                    type="number"
+                                    step={step}
+                                    min={0}
+                                    value={limit}
+                                    onChange={e => updateBudget(field, e.target.value)}
+                                    className="w-full bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1 text-[13px] text-white outline-none focus:border-blue-500"
+                                />
+                                <div className={cn(
+                                    'text-[10px] tabular-nums',
+                                    spent !== null && limit > 0 && spent >= limit ? 'text-red-400' : 'text-white/30'
+                                )}>
+                                    {usage}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+            
+            {/* By provider */}
+            {globalStats.usageByProvider && Object.keys(globalStats.usageByProvider).length > 0 && (
+                <div className="space-y-2">
+                    <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">By Provider</div>
+                    {Object.entries(globalStats.usageByProvider).map(([provider, usage]) => (
+                        <div key={provider} className="flex items-center justify-between text-[12px] px-4 py-2 bg-white/[0.02] rounded-xl">
+                            <span className="text-white/70 uppercase">{provider}</span>
+                            <span className="text-white/40 tabular-nums">
+                                {usage.calls} calls · {formatNumber(usage.promptTokens + usage.completionTokens)} tokens · 
+                                <span className="text-amber-400 ml-1">{formatCost(usage.costUsd)}</span>
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Per article */}
+                <div className="space-y-2">
+                    <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">Per Article</div>
+                    <div className="space-y-1.5 max-h-[320px] overflow-y-auto custom-scrollbar">
+                        {articles.slice(0, 50).map(row => (
+                            <div key={`${row.pageId}-${row.timestamp}`} className="flex items-center justify-between gap-3 text-[12px] px-4 py-2 bg-white/[0.02] rounded-xl">
+                                <div className="min-w-0">
+                                    <div className="text-white/80 truncate">{row.title}</div>
+                                    <div className="text-[10px] text-white/30">
+                                        {new Date(row.timestamp).toLocaleDateString()} · {row.usage.calls} calls · {formatNumber(row.usage.promptTokens + row.usage.completionTokens)} tokens
+                                    </div>
+                                </div>
+                                <span className="text-amber-400 tabular-nums flex-shrink-0">{formatCost(row.usage.costUsd)}</span>
+                            </div>
+                        ))}
+                        {articles.length === 0 && (
+                            <div className="text-[12px] text-white/30 py-6 text-center">No costed rewrites yet</div>
+                        )}
+                    </div>
+                </div>
+                
+                {/* Per run */}
+                <div className="space-y-2">
+                    <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">Per Run</div>
+                    <div className="space-y-1.5 max-h-[320px] overflow-y-auto custom-scrollbar">
+                        {runs.map(run => (
+                            <div key={run.id} className="flex items-center justify-between gap-3 text-[12px] px-4 py-2 bg-white/[0.02] rounded-xl">
+                                <div className="min-w-0">
+                                    <div className="text-white/80">
+                                        {run.kind === 'bulk' ? '📦 Bulk' : '🤖 Autonomous'} · {new Date(run.startedAt).toLocaleString()}
+                                    </div>
+                                    <div className="text-[10px] text-white/30">
+                                        {run.succeeded}/{run.jobs} ok · {formatNumber(run.tokens)} tokens · {formatDuration(run.endedAt - run.startedAt)}
+                                    </div>
+                                </div>
+                                <span className="text-amber-400 tabular-nums flex-shrink-0">{formatCost(run.costUsd)}</span>
+                            </div>
+                        ))}
+                        {runs.length === 0 && (
+                            <div className="text-[12px] text-white/30 py-6 text-center">No bulk or autonomous runs yet</div>
+                        )}
+                    </div>
+                </div>
+            </div>
+            
+            {/* Price table */}
+            {showPrices && (
+                <div className="space-y-3 pt-6 border-t border-white/[0.06]">
+                    <div className="flex items-center justify-between">
+                        <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">
+                            Price Table (USD per 1M tokens)
+                        </div>
+                        <button
+                            onClick={resetModelPrices}
+                            className="text-[10px] font-semibold uppercase text-white/40 hover:text-red-400"
+                        >
+                            Reset defaults
+                        </button>
+                    </div>
+                    <div className="text-[10px] text-white/30">
+                        Models match exactly or by prefix — "claude-sonnet-4" prices "claude-sonnet-4-20250514".
+                    </div>
+                    <div className="space-y-1.5 max-h-[320px] overflow-y-auto custom-scrollbar">
+                        {Object.entries(modelPrices).map(([model, price]) => (
+                            <div key={model} className="flex items-center gap-3 text-[12px]">
+                                <span className="flex-1 min-w-0 truncate font-mono text-white/70">{model}</span>
+                                <input
+                                    type="number"
+                                    step="0.01"
+                                    min={0}
+                                    value={price.inputPerMillion}
+                                    onChange={e => updatePrice(model, 'inputPerMillion', e.target.value)}
+                                    title="Input price"
+                                    className="w-24 bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1 text-white outline-none focus:border-blue-500"
+                                />
+                                <input
+                                    type="number"
+                                    step="0.01"
+                                    min={0}
+                                    value={price.outputPerMillion}
+                                    onChange={e => updatePrice(model, 'outputPerMillion', e.target.value)}
+                                    title="Output price"
+                                    className="w-24 bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1 text-white outline-none focus:border-blue-500"
+                                />
+                                <button
+                                    onClick={() => setModelPrice(model, null)}
+                                    className="text-white/30 hover:text-red-400 px-2"
+                                    title="Remove"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <input
+                            type="text"
+                            value={newModel}
+                            onChange={e => setNewModel(e.target.value)}
+                            placeholder="model-id"
+                            className="flex-1 bg-white/[0.03] border border-white/[0.08] rounded-lg px-3 py-1.5 text-[12px] font-mono text-white outline-none focus:border-blue-500"
+                        />
+                        <button
+                            onClick={() => {
+                                const model = newModel.trim();
+                                if (!model || modelPrices[model]) return;
+                                setModelPrice(model, { inputPerMillion: 0, outputPerMillion: 0 });
+                                setNewModel('');
+                            }}
+                            className="text-[10px] font-semibold uppercase text-blue-400 px-3 py-1.5 bg-blue-500/10 border border-blue-500/30 rounded-lg"
+                        >
+                            + Add model
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+});
+
+CostAnalyticsPanel.displayName = 'CostAnalyticsPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧭 MODEL ROUTING PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const ROUTABLE_PROVIDERS: AIProvider[] = ['google', 'openrouter', 'openai', 'anthropic', 'groq', 'local'];
+
+export const ModelRoutingPanel: React.FC = memo(() => {
+    const llmRouting = useAppStore(state => state.llmRouting);
+    const setLLMRouting = useAppStore(state => state.setLLMRouting);
+    const apiKeys = useAppStore(state => state.apiKeys);
+    const selectedProvider = useAppStore(state => state.selectedProvider);
+    
+    const chain = llmRouting.fallbackChain;
+    
+    const updateChain = (index: number, route: Partial<LLMRoute>) => {
+        setLLMRouting({ fallbackChain: chain.map((r, i) => i === index ? { ...r, ...route } : r) });
+    };
+    
+    const moveChain = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= chain.length) return;
+        const next = [...chain];
+        [next[index], next[target]] = [next[target], next[index]];
+        setLLMRouting({ fallbackChain: next });
+    };
+    
+    const updateStage = (stage: LLMStage, route: LLMRoute | null) => {
+        const stageRoutes = { ...llmRouting.stageRoutes };
+        if (route) stageRoutes[stage] = route;
+        else delete stageRoutes[stage];
+        setLLMRouting({ stageRoutes });
+    };
+    
+    const selectClass = 'bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] text-white outline-none focus:border-blue-500';
+    const inputClass = 'flex-1 min-w-0 bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] font-mono text-white outline-none focus:border-blue-500';
+    
+    const keyWarning = (provider: AIProvider) => !hasProviderCredentials(provider, apiKeys) && (
+        <span className="text-[10px] text-yellow-400/80 flex-shrink-0" title="Not configured — skipped">⚠️ no key</span>
+    );
+    
+    // Blank models use the provider default, so only typed IDs are checked
+    const modelWarning = (route: LLMRoute) => {
+        if (!route.model) return null;
+        const validation = validateModelSelection(route.provider, route.model);
+        return !validation.valid && (
+            <span className="text-[10px] text-red-400 flex-shrink-0" title={validation.message}>❌ model</span>
+        );
+    };
+
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-cyan-500/20 to-blue-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    🧭
+                </div>
+                <div>
+                    <h4 className="text-[14px] font-semibold text-white">Model Routing</h4>
+                    <p className="text-[11px] text-white/40">Per-stage models, with fallbacks on circuit-open, 429 or timeout</p>
+                </div>
+            </div>
+            
+            {/* Stage rules */}
+            <div className="space-y-2">
+                <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">Stage Rules</div>
+                {LLM_STAGES.map(stage => {
+                    const route = llmRouting.stageRoutes[stage];
+                    return (
+                        <div key={stage} className="flex items-center gap-3">
+                            <span className="w-28 flex-shrink-0 text-[12px] text-white/70">{LLM_STAGE_LABELS[stage]}</span>
+                            <select
+                                value={route?.provider || ''}
+                                onChange={e => updateStage(stage, e.target.value
+                                    ? { provider: e.target.value as AIProvider, model: '' }
+                                    : null)}
+                                className={selectClass}
+                            >
+                                <option value="">Selected ({selectedProvider})</option>
+                                {ROUTABLE_PROVIDERS.map(p => <option key={p} value={p}>{p}</option>)}
+                            </select>
+                            {route ? (
+                                <input
+                                    type="text"
+                                    value={route.model}
+                                    onChange={e => updateStage(stage, { ...route, model: e.target.value.trim() })}
+                                    placeholder={defaultModelFor(route.provider, apiKeys)}
+                                    className={inputClass}
+                                />
+                            ) : (
+                                <span className="flex-1 text-[11px] text-white/25">Uses the AI Provider settings</span>
+                            )}
+                            {route && keyWarning(route.provider)}
+                            {route && modelWarning(route)}
+                        </div>
+                    );
+                })}
+            </div>
+            
+            {/* Fallback chain */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">Fallback Chain</div>
+                    <button
+                        onClick={() => setLLMRouting({
+                            fallbackChain: [...chain, { provider: ROUTABLE_PROVIDERS.find(p => p !== selectedProvider) || 'google', model: '' }]
+                        })}
+                        className="text-[10px] font-semibold uppercase text-blue-400 px-3 py-1.5 bg-blue-500/10 border border-blue-500/30 rounded-lg"
+                    >
+                        + Add fallback
+                    </button>
+                </div>
+                {chain.map((route, index) => (
+                    <div key={index} className="flex items-center gap-3">
+                        <span className="w-6 flex-shrink-0 text-[11px] text-white/30 tabular-nums">{index + 1}.</span>
+                        <select
+                            value={route.provider}
+                            onChange={e => updateChain(index, { provider: e.target.value as AIProvider, model: '' })}
+                            className={selectClass}
+                        >
+                            {ROUTABLE_PROVIDERS.map(p => <option key={p} value={p}>{p}</option>)}
+                        </select>
+                        <input
+                            type="text"
+                            value={route.model}
+                            onChange={e => updateChain(index, { model: e.target.value.trim() })}
+                            placeholder={defaultModelFor(route.provider, apiKeys)}
+                            className={inputClass}
+                        />
+                        {keyWarning(route.provider)}
+                        {modelWarning(route)}
+                        <button onClick={() => moveChain(index, -1)} disabled={index === 0} className="text-white/30 hover:text-white disabled:opacity-20 px-1">↑</button>
+                        <button onClick={() => moveChain(index, 1)} disabled={index === chain.length - 1} className="text-white/30 hover:text-white disabled:opacity-20 px-1">↓</button>
+                        <button
+                            onClick={() => setLLMRouting({ fallbackChain: chain.filter((_, i) => i !== index) })}
+                            className="text-white/30 hover:text-red-400 px-2"
+                            title="Remove"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+                {chain.length === 0 && (
+                    <div className="text-[12px] text-white/30 py-4 text-center">
+                        No fallbacks — a stage fails when its provider is unavailable
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+});
+
+ModelRoutingPanel.displayName = 'ModelRoutingPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧲 SEMANTIC LINKING PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const EMBEDDING_PROVIDERS: EmbeddingProvider[] = ['google', 'openai', 'local'];
+
+export const SemanticLinkingPanel: React.FC = memo(() => {
+    const embeddingSettings = useAppStore(state => state.embeddingSettings);
+    const setEmbeddingSettings = useAppStore(state => state.setEmbeddingSettings);
+    const pageEmbeddings = useAppStore(state => state.pageEmbeddings);
+    const setPageEmbeddings = useAppStore(state => state.setPageEmbeddings);
+    const apiKeys = useAppStore(state => state.apiKeys);
+    
+    const indexedCount = pageEmbeddings ? Object.keys(pageEmbeddings.entries).length : 0;
+    const selectClass = 'bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] text-white outline-none focus:border-blue-500';
+    const inputClass = 'flex-1 min-w-0 bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] font-mono text-white outline-none focus:border-blue-500';
+    
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-fuchsia-500/20 to-blue-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    🧲
+                </div>
+                <div>
+                    <h4 className="text-[14px] font-semibold text-white">Semantic Linking</h4>
+                    <p className="text-[11px] text-white/40">Rank internal link targets per section by embedding similarity instead of shared keywords</p>
+                </div>
+            </div>
+            
+            <Toggle
+                label="Use embeddings for internal links"
+                description="Falls back to keyword matching when the provider fails"
+                checked={embeddingSettings.enabled}
+                onChange={enabled => setEmbeddingSettings({ enabled })}
+                icon="🧲"
+            />
+            
+            <div className="flex items-center gap-3">
+                <span className="w-28 flex-shrink-0 text-[12px] text-white/70">Provider</span>
+                <select
+                    value={embeddingSettings.provider}
+                    onChange={e => setEmbeddingSettings({ provider: e.target.value as EmbeddingProvider, model: '' })}
+                    className={selectClass}
+                >
+                    {EMBEDDING_PROVIDERS.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+                <input
+                    type="text"
+                    value={embeddingSettings.model}
+                    onChange={e => setEmbeddingSettings({ model: e.target.value.trim() })}
+                    placeholder={DEFAULT_EMBEDDING_MODELS[embeddingSettings.provider]}
+                    className={inputClass}
+                />
+                {!hasEmbeddingCredentials(embeddingSettings.provider, apiKeys) && (
+                    <span className="text-[10px] text-yellow-400/80 flex-shrink-0">⚠️ no key</span>
+                )}
+            </div>
+            
+            <div className="flex items-center gap-3">
+                <span className="w-28 flex-shrink-0 text-[12px] text-white/70">Min similarity</span>
+                <input
+                    type="range"
+                    min={0.2}
+                    max={0.8}
+                    step={0.05}
+                    value={embeddingSettings.minSimilarity}
+                    onChange={e => setEmbeddingSettings({ minSimilarity: parseFloat(e.target.value) })}
+                    className="flex-1 accent-blue-500"
+                />
+                <span className="w-10 text-right text-[12px] text-white/60 tabular-nums">{embeddingSettings.minSimilarity.toFixed(2)}</span>
+            </div>
+            
+            <div className="flex items-center justify-between text-[11px] text-white/40 border-t border-white/[0.06] pt-4">
+                <span>
+                    {pageEmbeddings
+                        ? `${indexedCount} pages indexed with ${pageEmbeddings.provider}/${pageEmbeddings.model} · ${pageEmbeddings.dimensions} dims`
+                        : 'No pages indexed yet — targets are embedded on the next optimization'}
+                </span>
+                {pageEmbeddings && (
+                    <button
+                        onClick={() => setPageEmbeddings(null)}
+                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-red-400 px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors"
+                    >
+                        Clear index
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+});
+
+SemanticLinkingPanel.displayName = 'SemanticLinkingPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⚓ ANCHOR DIVERSITY PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const ANCHOR_TYPE_LABELS: Record<AnchorType, string> = {
+    exact: 'Exact match',
+    partial: 'Partial match',
+    branded: 'Branded',
+    generic: 'Generic'
+};
+
+const ANCHOR_TYPE_COLORS: Record<AnchorType, string> = {
+    exact: 'bg-red-400',
+    partial: 'bg-blue-400',
+    branded: 'bg-purple-400',
+    generic: 'bg-emerald-400'
+};
+
+// One bar split by anchor type share
+const AnchorMixBar: React.FC<{ shares: AnchorMix }> = ({ shares }) => (
+    <div className="flex h-1.5 rounded-full overflow-hidden bg-white/[0.06]">
+        {ANCHOR_TYPES.map(type => (
+            <div key={type} className={ANCHOR_TYPE_COLORS[type]} style={{ width: `${shares[type] * 100}%` }} />
+        ))}
+    </div>
+);
+
+export const AnchorDiversityPanel: React.FC = memo(() => {
+    const settings = useAppStore(state => state.anchorDiversitySettings);
+    const setSettings = useAppStore(state => state.setAnchorDiversitySettings);
+    const anchorUsage = useAppStore(state => state.anchorUsage);
+    const clearAnchorUsage = useAppStore(state => state.clearAnchorUsage);
+    
+    const profiles = useMemo(() => buildAnchorProfiles(anchorUsage, settings), [anchorUsage, settings]);
+    const anchorCount = profiles.reduce((sum, p) => sum + p.total, 0);
+    const overOptimized = profiles.filter(p => p.status === 'over-optimized').length;
+    const mixTotal = ANCHOR_TYPES.reduce((sum, type) => sum + settings.targetMix[type], 0);
+    
+    const slider = (label: string, value: number, min: number, max: number, onChange: (v: number) => void) => (
+        <div key={label} className="flex items-center gap-3">
+            <span className="w-28 flex-shrink-0 text-[12px] text-white/70">{label}</span>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={0.05}
+                value={value}
+                onChange={e => onChange(parseFloat(e.target.value))}
+                className="flex-1 accent-blue-500"
+            />
+            <span className="w-10 text-right text-[12px] text-white/60 tabular-nums">{Math.round(value * 100)}%</span>
+        </div>
+    );
+    
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-red-500/20 to-emerald-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    ⚓
+                </div>
+                <div>
+                    <h4 className="text-[14px] font-semibold text-white">Anchor Diversity</h4>
+                    <p className="text-[11px] text-white/40">Vary the anchor text pointing at each page so no target is linked with the same exact phrase site-wide</p>
+                </div>
+            </div>
+            
+            <Toggle
+                label="Guard anchor profiles"
+                description="Internal and inbound links pick the anchor type each target is shortest of"
+                checked={settings.enabled}
+                onChange={enabled => setSettings({ enabled })}
+                icon="⚓"
+            />
+            
+            <div className="space-y-3">
+                {ANCHOR_TYPES.map(type => slider(ANCHOR_TYPE_LABELS[type], settings.targetMix[type], 0, 1,
+                    v => setSettings({ targetMix: { ...settings.targetMix, [type]: v } })))}
+                <AnchorMixBar shares={settings.targetMix} />
+                {Math.abs(mixTotal - 1) > 0.001 && (
+                    <p className="text-[10px] text-yellow-400/80">⚠️ Target mix adds up to {Math.round(mixTotal * 100)}%, not 100%</p>
+                )}
+            </div>
+            
+            {slider('Tolerance', settings.tolerance, 0.05, 0.4, tolerance => setSettings({ tolerance }))}
+            
+            <div className="flex items-center gap-3">
+                <span className="w-28 flex-shrink-0 text-[12px] text-white/70">Exact repeats</span>
+                <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={settings.maxExactRepeats}
+                    onChange={e => setSettings({ maxExactRepeats: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className="w-20 bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] text-white outline-none focus:border-blue-500"
+                />
+                <span className="text-[11px] text-white/40">uses of the same exact-match anchor per page</span>
+            </div>
+            
+            <div className="flex items-center justify-between text-[11px] text-white/40 border-t border-white/[0.06] pt-4">
+                <span>
+                    {profiles.length > 0
+                        ? `${formatNumber(anchorCount)} anchors to ${formatNumber(profiles.length)} pages · ${overOptimized} over-optimized`
+                        : 'No anchors recorded yet — build the link graph or publish an article'}
+                </span>
+                {profiles.length > 0 && (
+                    <button
+                        onClick={clearAnchorUsage}
+                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-red-400 px-3 py-1.5 hover:bg-white/[0.04] rounded-lg transition-colors"
+                    >
+                        Clear history
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+});
+
+AnchorDiversityPanel.displayName = 'AnchorDiversityPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎙️ BRAND VOICE PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SPELLING_LOCALES = Object.keys(SPELLING_LOCALE_LABELS) as SpellingLocale[];
+
+const splitLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+const splitParagraphs = (text: string) => text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+export const BrandVoicePanel: React.FC = memo(() => {
+    const brandVoice = useAppStore(state => state.wpConfig.brandVoice);
+    const siteUrl = useAppStore(state => state.wpConfig.url);
+    const setWpConfig = useAppStore(state => state.setWpConfig);
+    
+    // Without a saved profile the form starts from the defaults, but nothing applies until saved
+    const profile = resolveBrandVoice(brandVoice) || DEFAULT_BRAND_VOICE;
+    
+    // Lists are edited as text and parsed on save so typing blank lines works
+    const toDraft = (p: BrandVoiceProfile) => ({
+        tone: p.tone,
+        readingLevel: p.readingLevel,
+        spellingLocale: p.spellingLocale,
+        bannedTerms: p.bannedTerms.join('\n'),
+        preferredTerms: formatPreferredTerms(p.preferredTerms),
+        formattingRules: p.formattingRules.join('\n'),
+        sampleParagraphs: p.sampleParagraphs.join('\n\n')
+    });
+    
+    const [draft, setDraft] = useState(() => toDraft(profile));
+    
+    useEffect(() => {
+        setDraft(toDraft(resolveBrandVoice(brandVoice) || DEFAULT_BRAND_VOICE));
+    }, [brandVoice]);
+    
+    const update = (patch: Partial<ReturnType<typeof toDraft>>) => setDraft(d => ({ ...d, ...patch }));
+    
+    const handleSave = () => {
+        setWpConfig({
+            brandVoice: {
+                tone: draft.tone.trim() || DEFAULT_BRAND_VOICE.tone,
+                readingLevel: Math.max(1, Math.min(18, Math.round(draft.readingLevel) || DEFAULT_BRAND_VOICE.readingLevel)),
+                spellingLocale: draft.spellingLocale,
+                bannedTerms: splitLines(draft.bannedTerms),
+                preferredTerms: parsePreferredTerms(draft.preferredTerms),
+                formattingRules: splitLines(draft.formattingRules),
+                sampleParagraphs: splitParagraphs(draft.sampleParagraphs)
+            }
+        });
+    };
+    
+    const labelClass = 'text-[11px] font-semibold text-white/50 uppercase tracking-wider';
+    const fieldClass = 'w-full bg-white/[0.03] border border-white/[0.08] rounded-lg px-3 py-2 text-[12px] text-white outline-none focus:border-blue-500';
+
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-rose-500/20 to-orange-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    🎙️
+                </div>
+                <div className="flex-1">
+                    <h4 className="text-[14px] font-semibold text-white">Brand Voice</h4>
+                    <p className="text-[11px] text-white/40">
+                        Style guide for {siteUrl || 'this site'} — once saved, sent with every generation stage and checked by QA
+                    </p>
+                </div>
+                {!brandVoice && (
+                    <span className="text-[10px] font-semibold uppercase text-white/40 px-3 py-1.5 bg-white/[0.03] border border-white/[0.08] rounded-lg">
+                        Not set
+                    </span>
+                )}
+            </div>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                <div className="md:col-span-2 space-y-2">
+                    <div className={labelClass}>Tone</div>
+                    <input type="text" value={draft.tone} onChange={e => update({ tone: e.target.value })} className={fieldClass} />
+                </div>
+                <div className="space-y-2">
+                    <div className={labelClass}>Reading Level (grade)</div>
+                    <input
+                        type="number"
+                        min={1}
+                        max={18}
+                        value={draft.readingLevel}
+                        onChange={e => update({ readingLevel: Number(e.target.value) })}
+                        className={fieldClass}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <div className={labelClass}>Spelling</div>
+                    <select
+                        value={draft.spellingLocale}
+                        onChange={e => update({ spellingLocale: e.target.value as SpellingLocale })}
+                        className={fieldClass}
+                    >
+                        {SPELLING_LOCALES.map(l => <option key={l} value={l}>{SPELLING_LOCALE_LABELS[l]}</option>)}
+                    </select>
+                </div>
+                <div className="space-y-2">
+                    <div className={labelClass}>Banned Terms <span className="normal-case text-white/25">— one per line</span></div>
+                    <textarea value={draft.bannedTerms} onChange={e => update({ bannedTerms: e.target.value })} rows={5} className={fieldClass} />
+                </div>
+                <div className="space-y-2">
+                    <div className={labelClass}>Preferred Terms <span className="normal-case text-white/25">— avoid =&gt; use</span></div>
+                    <textarea value={draft.preferredTerms} onChange={e => update({ preferredTerms: e.target.value })} rows={5} className={cn(fieldClass, 'font-mono')} />
+                </div>
+                <div className="md:col-span-2 space-y-2">
+                    <div className={labelClass}>Formatting Rules <span className="normal-case text-white/25">— one per line</span></div>
+                    <textarea value={draft.formattingRules} onChange={e => update({ formattingRules: e.target.value })} rows={3} className={fieldClass} />
+                </div>
+                <div className="md:col-span-2 space-y-2">
+                    <div className={labelClass}>Sample Paragraphs <span className="normal-case text-white/25">— separate with a blank line</span></div>
+                    <textarea value={draft.sampleParagraphs} onChange={e => update({ sampleParagraphs: e.target.value })} rows={5} className={fieldClass} />
+                </div>
+            </div>
+            
+            <div className="flex justify-end gap-3">
+                {brandVoice && (
+                    <button
+                        onClick={() => setWpConfig({ brandVoice: undefined })}
+                        className="text-[10px] font-semibold uppercase text-white/50 px-3 py-1.5 border border-white/[0.08] rounded-lg"
+                    >
+                        Remove profile
+                    </button>
+                )}
+                <button
+                    onClick={handleSave}
+                    className="text-[10px] font-semibold uppercase text-blue-400 px-3 py-1.5 bg-blue-500/10 border border-blue-500/30 rounded-lg"
+                >
+                    Save voice
+                </button>
+            </div>
+        </div>
+    );
+});
+
+BrandVoicePanel.displayName = 'BrandVoicePanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 PROMPT TEMPLATE PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface PromptTemplatePanelProps {
+    siteContext: SiteContext;
+}
+
+const PROMPT_TEMPLATE_GROUPS: PromptTemplateGroup[] = ['Pipeline', 'SERP blocks', 'Blog generator'];
+
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = memo(({ siteContext }) => {
+    const overrides = useAppStore(state => state.promptTemplateOverrides);
+    const pages = useAppStore(state => state.pages);
+    const siteUrl = useAppStore(state => state.wpConfig.url);
+    const savePromptTemplate = useAppStore(state => state.savePromptTemplate);
+    const revertPromptTemplate = useAppStore(state => state.revertPromptTemplate);
+    const resetPromptTemplate = useAppStore(state => state.resetPromptTemplate);
+    
+    const [templateKey, setTemplateKey] = useState<PromptTemplateKey>('outline');
+    const [siteScoped, setSiteScoped] = useState(false);
+    const [previewPageId, setPreviewPageId] = useState('');
+    const [note, setNote] = useState('');
+    
+    const scope = siteScoped ? siteUrl : ALL_SITES_SCOPE;
+    const definition = PROMPT_TEMPLATES[templateKey];
+    const override = findPromptOverride(overrides, templateKey, scope);
+    const resolved = resolvePromptTemplate(templateKey, overrides, siteUrl);
+    
+    // A scope without its own edits starts from what it would inherit
+    const loadedBody = override?.versions[0].body
+        ?? (siteScoped ? resolvePromptTemplate(templateKey, overrides, ALL_SITES_SCOPE).body : definition.body);
+    const [draft, setDraft] = useState(loadedBody);
+    
+    // Reload the editor when the template or scope changes, or a version is saved
+    useEffect(() => {
+        setDraft(loadedBody);
+        setNote('');
+    }, [templateKey, scope, loadedBody]);
+    
+    const previewPage = pages.find(p => p.id === previewPageId);
+    const preview = useMemo(() => {
+        const topic = previewPage ? (previewPage.targetKeyword || previewPage.title) : String(definition.sample.topic || 'example topic');
+        const vars = {
+            ...definition.sample,
+            ...buildPromptVariables({
+                topic,
+                title: previewPage?.title,
+                siteContext,
+                entityGap: previewPage?.jobState?.entityGapData,
+                feedback: previewPage?.jobState?.allFeedback
+            })
+        };
+        return renderPromptTemplate(draft, vars);
+    }, [draft, definition, previewPage, siteContext]);
+    
+    const variables = useMemo(() => extractTemplateVariables(draft), [draft]);
+    const isDirty = draft !== loadedBody;
+    
+    const handleSave = () => {
+        savePromptTemplate(templateKey, scope, draft, note);
+        setNote('');
+    };
+    
+    const selectClass = 'bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] text-white outline-none focus:border-blue-500';
+
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-fuchsia-500/20 to-purple-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    📝
+                </div>
+                <div className="flex-1">
+                    <h4 className="text-[14px] font-semibold text-white">Prompt Templates</h4>
+                    <p className="text-[11px] text-white/40">Edit generation prompts per stage — site overrides win over all-sites edits</p>
+                </div>
+                <span className="text-[10px] font-semibold uppercase text-white/40 px-3 py-1.5 bg-white/[0.03] border border-white/[0.08] rounded-lg">
+                    In use: {resolved.source}{resolved.version > 0 ? ` v${resolved.version}` : ''}
+                </span>
+            </div>
+            
+            {/* Template & scope */}
+            <div className="flex flex-wrap items-center gap-3">
+                <select
+                    value={templateKey}
+                    onChange={e => setTemplateKey(e.target.value as PromptTemplateKey)}
+                    className={selectClass}
+                >
+                    {PROMPT_TEMPLATE_GROUPS.map(group => (
+                        <optgroup key={group} label={group}>
+                            {PROMPT_TEMPLATE_KEYS.filter(key => PROMPT_TEMPLATES[key].group === group).map(key => (
+                                <option key={key} value={key}>
+                                    {PROMPT_TEMPLATES[key].label}{overrides.some(o => o.key === key && o.versions.length > 0) ? ' •' : ''}
+                                </option>
+                            ))}
+                        </optgroup>
+                    ))}
+                </select>
+                <div className="flex rounded-lg border border-white/[0.08] overflow-hidden">
+                    <button
+                        onClick={() => setSiteScoped(false)}
+                        className={cn('px-3 py-1.5 text-[11px] font-semibold', !siteScoped ? 'bg-blue-500/20 text-blue-300' : 'text-white/40')}
+                    >
+                        All sites
+                    </button>
+                    <button
+                        onClick={() => setSiteScoped(true)}
+                        disabled={!siteUrl}
+                        title={siteUrl ? normalizeSiteScope(siteUrl) : 'Set a WordPress URL first'}
+                        className={cn('px-3 py-1.5 text-[11px] font-semibold disabled:opacity-30', siteScoped ? 'bg-blue-500/20 text-blue-300' : 'text-white/40')}
+                    >
+                        This site
+                    </button>
+                </div>
+                <span className="text-[11px] text-white/30">{definition.description}</span>
+            </div>
+            
+            {/* Editor */}
+            <div className="space-y-2">
+                <textarea
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    rows={14}
+                    spellCheck={false}
+                    className="w-full bg-white/[0.03] border border-white/[0.08] rounded-xl p-4 text-[12px] font-mono text-white/80 outline-none focus:border-blue-500 resize-y"
+                />
+                <div className="flex flex-wrap gap-1.5">
+                    {variables.map(v => (
+                        <span
+                            key={v}
+                            className={cn(
+                                'text-[10px] font-mono px-2 py-0.5 rounded',
+                                preview.missing.includes(v) ? 'bg-yellow-500/10 text-yellow-400' : 'bg-white/[0.05] text-white/50'
+                            )}
+                            title={preview.missing.includes(v) ? 'No value for the preview page' : undefined}
+                        >
+                            {`{{${v}}}`}
+                        </span>
+                    ))}
+                </div>
+                <div className="flex items-center gap-3">
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        placeholder="Version note (optional)"
+                        className="flex-1 min-w-0 bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] text-white outline-none focus:border-blue-500"
+                    />
+                    <button
+                        onClick={() => setDraft(loadedBody)}
+                        disabled={!isDirty}
+                        className="text-[10px] font-semibold uppercase text-white/50 px-3 py-1.5 border border-white/[0.08] rounded-lg disabled:opacity-30"
+                    >
+                        Discard
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!isDirty || !draft.trim()}
+                        className="text-[10px] font-semibold uppercase text-blue-400 px-3 py-1.5 bg-blue-500/10 border border-blue-500/30 rounded-lg disabled:opacity-30"
+                    >
+                        Save version
+                    </button>
+                    {override && (
+                        <button
+                            onClick={() => resetPromptTemplate(templateKey, scope)}
+                            className="text-[10px] font-semibold uppercase text-red-400 px-3 py-1.5 bg-red-500/10 border border-red-500/30 rounded-lg"
+                            title="Delete this override and its history"
+                        >
+                            Reset
+                        </button>
+                    )}
+                </div>
+            </div>
+            
+            {/* Version history */}
+            {override && (
+                <div className="space-y-2">
+                    <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">History</div>
+                    {override.versions.map((v, i) => (
+                        <div key={v.version} className="flex items-center gap-3 text-[12px]">
+                            <span className="w-10 flex-shrink-0 text-white/60 tabular-nums">v{v.version}</span>
+                            <span className="w-36 flex-shrink-0 text-white/30">{new Date(v.savedAt).toLocaleString()}</span>
+                            <span className="flex-1 truncate text-white/50">{v.note || '—'}</span>
+                            {i === 0 ? (
+                                <span className="text-[10px] text-green-400/80">current</span>
+                            ) : (
+                                <button
+                                    onClick={() => revertPromptTemplate(templateKey, scope, v.version)}
+                                    className="text-[10px] font-semibold uppercase text-blue-400 hover:text-blue-300"
+                                >
+                                    Revert
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+            
+            {/* Preview */}
+            <div className="space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                    <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">Preview</div>
+                    <select
+                        value={previewPageId}
+                        onChange={e => setPreviewPageId(e.target.value)}
+                        className={cn(selectClass, 'max-w-xs')}
+                    >
+                        <option value="">Sample values</option>
+                        {pages.map(p => <option key={p.id} value={p.id}>{p.title || p.slug}</option>)}
+                    </select>
+                </div>
+                {preview.missing.length > 0 && (
+                    <div className="text-[11px] text-yellow-400/80">
+                        ⚠️ Empty in this preview: {preview.missing.join(', ')}
+                    </div>
+                )}
+                <pre className="max-h-80 overflow-auto whitespace-pre-wrap bg-black/30 border border-white/[0.06] rounded-xl p-4 text-[11px] text-white/60 font-mono">
+                    {preview.text}
+                </pre>
+            </div>
+        </div>
+    );
+});
+
+PromptTemplatePanel.displayName = 'PromptTemplatePanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏢 WORKSPACE SWITCHER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const WorkspaceSwitcher: React.FC = memo(() => {
+    const workspaces = useAppStore(state => state.workspaces);
+    const activeWorkspaceId = useAppStore(state => state.activeWorkspaceId);
+    const createWorkspace = useAppStore(state => state.createWorkspace);
+    const switchWorkspace = useAppStore(state => state.switchWorkspace);
+    
+    const [isCreating, setIsCreating] = useState(false);
+    const [name, setName] = useState('');
+    const [copyApiKeys, setCopyApiKeys] = useState(true);
+    
+    const handleCreate = () => {
+        if (!name.trim()) return;
+        const id = createWorkspace(name, copyApiKeys);
+        switchWorkspace(id);
+        setName('');
+        setIsCreating(false);
+    };
+    
+    if (isCreating) {
+        return (
+            <div className="flex items-center gap-2 px-2 py-1 bg-white/[0.03] border border-white/[0.06] rounded-xl">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter') handleCreate();
+                        if (e.key === 'Escape') setIsCreating(false);
+                    }}
+                    placeholder="Client site name"
+                    autoFocus
+                    className="w-40 bg-transparent px-2 py-1 text-[12px] text-white outline-none"
+                />
+                <label className="flex items-center gap-1.5 text-[10px] text-white/40 whitespace-nowrap">
+                    <input type="checkbox" checked={copyApiKeys} onChange={e => setCopyApiKeys(e.target.checked)} />
+                    Copy API keys
+                </label>
+                <button onClick={handleCreate} disabled={!name.trim()} className="text-[11px] font-semibold text-blue-400 px-2 disabled:opacity-30">
+                    Add
+                </button>
+                <button onClick={() => setIsCreating(false)} className="text-white/30 hover:text-white px-1">✕</button>
+            </div>
+        );
+    }
+    
+    return (
+        <div className="flex items-center gap-1 px-1 py-1 bg-white/[0.03] border border-white/[0.06] rounded-xl">
+            <span className="pl-2 text-[12px]">🏢</span>
+            <select
+                value={activeWorkspaceId}
+                onChange={e => switchWorkspace(e.target.value)}
+                className="max-w-[180px] bg-transparent px-2 py-1 text-[12px] font-semibold text-white outline-none"
+                title="Active site"
+            >
+                {workspaces.map(ws => <option key={ws.id} value={ws.id} className="bg-black">{ws.name}</option>)}
+            </select>
+            <button
+                onClick={() => setIsCreating(true)}
+                className="text-[11px] font-semibold text-white/40 hover:text-white px-2"
+                title="Add a site"
+            >
+                +
+            </button>
+        </div>
+    );
+});
+
+WorkspaceSwitcher.displayName = 'WorkspaceSwitcher';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 CROSS-SITE DASHBOARD
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const WorkspaceDashboard: React.FC = memo(() => {
+    const workspaces = useAppStore(state => state.workspaces);
+    const activeWorkspaceId = useAppStore(state => state.activeWorkspaceId);
+    const wpConfig = useAppStore(state => state.wpConfig);
+    const apiKeys = useAppStore(state => state.apiKeys);
+    const neuronEnabled = useAppStore(state => state.neuronEnabled);
+    const autonomousConfig = useAppStore(state => state.autonomousConfig);
+    const pages = useAppStore(state => state.pages);
+    const globalStats = useAppStore(state => state.globalStats);
+    const revisions = useAppStore(state => state.revisions);
+    const approvalQueue = useAppStore(state => state.approvalQueue);
+    const checkpoints = useAppStore(state => state.checkpoints);
+    const linkGraph = useAppStore(state => state.linkGraph);
+    const inboundLinkProposals = useAppStore(state => state.inboundLinkProposals);
+    const pageEmbeddings = useAppStore(state => state.pageEmbeddings);
+    const anchorUsage = useAppStore(state => state.anchorUsage);
+    const switchWorkspace = useAppStore(state => state.switchWorkspace);
+    const renameWorkspace = useAppStore(state => state.renameWorkspace);
+    const deleteWorkspace = useAppStore(state => state.deleteWorkspace);
+    
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    
+    const summaries = useMemo(() => summarizeWorkspaces(workspaces, activeWorkspaceId, {
+        wpConfig, apiKeys, neuronEnabled, autonomousConfig, pages, globalStats, revisions, approvalQueue, checkpoints, linkGraph, inboundLinkProposals, pageEmbeddings, anchorUsage
+    }), [workspaces, activeWorkspaceId, wpConfig, apiKeys, neuronEnabled, autonomousConfig, pages, globalStats, revisions, approvalQueue, checkpoints, linkGraph, inboundLinkProposals, pageEmbeddings, anchorUsage]);
+    
+    const totals = useMemo(() => ({
+        pages: summaries.reduce((sum, s) => sum + s.pageCount, 0),
+        optimized: summaries.reduce((sum, s) => sum + s.optimizedCount, 0),
+        approvals: summaries.reduce((sum, s) => sum + s.pendingApprovals, 0),
+        cost: summaries.reduce((sum, s) => sum + s.costUsd, 0)
+    }), [summaries]);
+    
+    const commitRename = () => {
+        if (renamingId) renameWorkspace(renamingId, renameValue);
+        setRenamingId(null);
+    };
+
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-indigo-500/20 to-sky-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    🌐
+                </div>
+                <div className="flex-1">
+                    <h4 className="text-[14px] font-semibold text-white">All Sites</h4>
+                    <p className="text-[11px] text-white/40">
+                        {summaries.length} workspace{summaries.length === 1 ? '' : 's'} · {formatNumber(totals.pages)} pages · {formatNumber(totals.optimized)} optimized · {totals.approvals} awaiting approval · {formatCost(totals.cost)}
+                    </p>
+                </div>
+            </div>
+            
+            <div className="overflow-x-auto">
+                <table className="w-full text-[12px]">
+                    <thead>
+                        <tr className="text-[10px] text-white/40 uppercase tracking-wider text-left">
+                            <th className="py-2 pr-4 font-semibold">Site</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Pages</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Optimized</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Failed</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Approvals</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Avg Health</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Words</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Cost</th>
+                            <th className="py-2 pr-4 font-semibold">Last Run</th>
+                            <th className="py-2" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {summaries.map(s => (
+                            <tr key={s.id} className={cn('border-t border-white/[0.04]', s.isActive && 'bg-blue-500/[0.05]')}>
+                                <td className="py-3 pr-4">
+                                    {renamingId === s.id ? (
+                                        <input
+                                            type="text"
+                                            value={renameValue}
+                                            onChange={e => setRenameValue(e.target.value)}
+                                            onBlur={commitRename}
+                                            onKeyDown={e => e.key === 'Enter' && commitRename()}
+                                            autoFocus
+                                            className="bg-white/[0.03] border border-white/[0.08] rounded px-2 py-1 text-[12px] text-white outline-none"
+                                        />
+                                    ) : (
+                                        <div>
+                                            <div className="font-semibold text-white">
+                                                {s.name}
+                                                {s.isActive && <span className="ml-2 text-[9px] uppercase text-blue-400">active</span>}
+                                            </div>
+                                            <div className="text-[10px] text-white/30">{s.siteUrl || 'No site URL'}</div>
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="py-3 pr-4 text-right tabular-nums text-white/70">{formatNumber(s.pageCount)}</td>
+                                <td className="py-3 pr-4 text-right tabular-nums text-green-400">{formatNumber(s.optimizedCount)}</td>
+                                <td className="py-3 pr-4 text-right tabular-nums text-red-400/80">{s.failedCount}</td>
+                                <td className="py-3 pr-4 text-right tabular-nums text-yellow-400/80">{s.pendingApprovals}</td>
+                                <td className={cn('py-3 pr-4 text-right tabular-nums', getScoreColor(s.avgHealthScore))}>{s.avgHealthScore || '—'}</td>
+                                <td className="py-3 pr-4 text-right tabular-nums text-white/70">{formatNumber(s.totalWordsGenerated)}</td>
+                                <td className="py-3 pr-4 text-right tabular-nums text-white/70">{formatCost(s.costUsd)}</td>
+                                <td className="py-3 pr-4 text-white/40">{s.lastRunTime ? new Date(s.lastRunTime).toLocaleDateString() : '—'}</td>
+                                <td className="py-3 text-right whitespace-nowrap">
+                                    {!s.isActive && (
+                                        <button onClick={() => switchWorkspace(s.id)} className="text-[10px] font-semibold uppercase text-blue-400 hover:text-blue-300 px-2">
+                                            Open
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => { setRenamingId(s.id); setRenameValue(s.name); }}
+                                        className="text-[10px] font-semibold uppercase text-white/40 hover:text-white px-2"
+                                    >
+                                        Rename
+                                    </button>
+                                    {!s.isActive && (
+                                        <button
+                                            onClick={() => window.confirm(`Delete "${s.name}" and all of its pages and settings?`) && deleteWorkspace(s.id)}
+                                            className="text-white/30 hover:text-red-400 px-2"
+                                            title="Delete workspace"
+                                        >
+                                            ✕
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+});
+
+WorkspaceDashboard.displayName = 'WorkspaceDashboard';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🕸️ LINK GRAPH PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type LinkGraphTab = 'orphans' | 'hubs' | 'broken' | 'deep' | 'conflicts' | 'profiles';
+
+const LINK_GRAPH_ROW_LIMIT = 100;
+
+interface LinkGraphPanelProps {
+    onBuild: () => void;
+}
+
+export const LinkGraphPanel: React.FC<LinkGraphPanelProps> = memo(({ onBuild }) => {
+    const linkGraph = useAppStore(state => state.linkGraph);
+    const anchorUsage = useAppStore(state => state.anchorUsage);
+    const anchorDiversitySettings = useAppStore(state => state.anchorDiversitySettings);
+    const isProcessing = useAppStore(state => state.isProcessing);
+    const [activeTab, setActiveTab] = useState<LinkGraphTab>('orphans');
+    
+    const report = useMemo(() => linkGraph ? buildLinkGraphReport(linkGraph) : null, [linkGraph]);
+    const profiles = useMemo(() => buildAnchorProfiles(anchorUsage, anchorDiversitySettings), [anchorUsage, anchorDiversitySettings]);
+    
+    const tabs: Array<{ id: LinkGraphTab; label: string; icon: string; count: number }> = [
+        ...(report ? [
+            { id: 'orphans' as const, label: 'Orphans', icon: '🏝️', count: report.orphans.length },
+            { id: 'hubs' as const, label: 'Hubs', icon: '🕸️', count: report.hubs.length },
+            { id: 'broken' as const, label: 'Broken', icon: '⛓️‍💥', count: report.broken.length },
+            { id: 'deep' as const, label: 'Deep', icon: '🕳️', count: report.deepPages.length },
+            { id: 'conflicts' as const, label: 'Anchors', icon: '⚔️', count: report.conflicts.length }
+        ] : []),
+        ...(profiles.length > 0 ? [
+            { id: 'profiles' as const, label: 'Anchor Mix', icon: '⚓', count: profiles.filter(p => p.status === 'over-optimized').length }
+        ] : [])
+    ];
+    // Only the anchor mix is available before the first crawl
+    const shownTab = tabs.some(t => t.id === activeTab) ? activeTab : tabs[0]?.id;
+    
+    const pageRow = (url: string, title: string, meta: ReactNode) => (
+        <div key={url} className="flex items-center gap-3 p-3 bg-white/[0.02] border border-white/[0.06] rounded-xl">
+            <div className="flex-1 min-w-0">
+                <div className="text-[12px] font-medium text-white truncate">{title || url}</div>
+                <a href={url} target="_blank" rel="noopener noreferrer" className="text-[10px] text-blue-400 hover:underline truncate block">
+                    {url}
+                </a>
+            </div>
+            <div className="text-[11px] text-white/50 tabular-nums whitespace-nowrap">{meta}</div>
+        </div>
+    );
+    
+    return (
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-emerald-500/20 to-cyan-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    🕸️
+                </div>
+                <div className="flex-1">
+                    <h4 className="text-[14px] font-semibold text-white">Internal Link Graph</h4>
+                    <p className="text-[11px] text-white/40">
+                        {report
+                            ? `${formatNumber(report.pageCount)} pages · ${formatNumber(report.linkCount)} body links · crawled ${new Date(linkGraph.builtAt).toLocaleString()}${linkGraph.truncated ? ' · page limit reached' : ''}`
+                            : 'Crawl the site to map inbound and outbound links'}
+                    </p>
+                </div>
+                <button
+                    onClick={onBuild}
+                    disabled={isProcessing}
+                    className="px-4 py-2 bg-white text-black rounded-lg text-[11px] font-semibold uppercase tracking-wider disabled:opacity-30"
+                >
+                    {linkGraph ? 'Rebuild' : 'Build Graph'}
+                </button>
+            </div>
+            
+            {tabs.length > 0 && (
+                <>
+                    <div className="flex gap-1 p-1 bg-white/[0.03] rounded-xl border border-white/[0.06]">
+                        {tabs.map(tab => (
+                            <button
+                                key={tab.id}
+                                onClick={() => setActiveTab(tab.id)}
+                                className={cn(
+                                    'flex-1 px-4 py-2.5 rounded-lg text-[11px] font-semibold uppercase tracking-wider transition-all',
+                                    shownTab === tab.id ? 'bg-white text-black' : 'text-white/40 hover:text-white'
+                                )}
+                            >
+                                {tab.icon} {tab.label}
+                                {tab.count > 0 && (
+                                    <span className={cn('ml-1.5 px-1.5 py-0.5 rounded text-[9px]', shownTab === tab.id ? 'bg-black/20' : 'bg-white/10')}>
+                                        {tab.count}
+                                    </span>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                    
+                    <div className="max-h-[400px] overflow-y-auto custom-scrollbar space-y-2">
+                        {shownTab === 'orphans' && (
+                            <>
+                                <p className="text-[11px] text-white/40">Live pages no other page links to from its body. New articles link to these first.</p>
+                                {report.orphans.slice(0, LINK_GRAPH_ROW_LIMIT).map(n =>
+                                    pageRow(n.url, n.title, n.inSitemap ? 'in sitemap' : 'nav only'))}
+                            </>
+                        )}
+                        
+                        {shownTab === 'hubs' && (
+                            <>
+                                <p className="text-[11px] text-white/40">Pages with more than {LINK_GRAPH_THRESHOLDS.HUB_OUTBOUND} body links out — each link passes on less.</p>
+                                {report.hubs.slice(0, LINK_GRAPH_ROW_LIMIT).map(n =>
+                                    pageRow(n.url, n.title, `${n.outbound} out · ${n.inbound} in`))}
+                            </>
+                        )}
+                        
+                        {shownTab === 'broken' && (
+                            <>
+                                <p className="text-[11px] text-white/40">Internal links pointing at pages that answered with an HTTP error (4xx/5xx). Pages the crawler couldn't fetch aren't listed.</p>
+                                {report.broken.slice(0, LINK_GRAPH_ROW_LIMIT).map((b, i) => (
+                                    <div key={i} className="p-3 bg-red-500/5 border border-red-500/20 rounded-xl">
+                                        <div className="text-[12px] text-white truncate">
+                                            <span className="text-red-400 font-semibold mr-2">{b.status}</span>
+                                            {b.to}
+                                        </div>
+                                        <div className="text-[10px] text-white/40 truncate mt-1">
+                                            “{b.anchor || 'no anchor text'}” on {b.fromTitle || b.from}
+                                        </div>
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                        
+                        {shownTab === 'deep' && (
+                            <>
+                                <p className="text-[11px] text-white/40">Sitemap pages more than {LINK_GRAPH_THRESHOLDS.MAX_DEPTH} clicks from the home page, or not reachable at all.</p>
+                                {report.deepPages.slice(0, LINK_GRAPH_ROW_LIMIT).map(n =>
+                                    pageRow(n.url, n.title, n.depth === null ? 'unreachable' : `${n.depth} clicks`))}
+                            </>
+                        )}
+                        
+                        {shownTab === 'conflicts' && (
+                            <>
+                                <p className="text-[11px] text-white/40">The same anchor text points at different pages, so they compete for the phrase.</p>
+                                {report.conflicts.slice(0, LINK_GRAPH_ROW_LIMIT).map((c, i) => (
+                                    <div key={i} className="p-3 bg-yellow-500/5 border border-yellow-500/20 rounded-xl">
+                                        <div className="text-[12px] font-semibold text-yellow-400 mb-2">“{c.anchor}”</div>
+                                        {c.targets.map(t => (
+                                            <div key={t.url} className="flex justify-between gap-3 text-[11px] text-white/60">
+                                                <span className="truncate">{t.title || t.url}</span>
+                                                <span className="tabular-nums text-white/40">{t.count}×</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                        
+                        {shownTab === 'profiles' && (
+                            <>
+                                <p className="text-[11px] text-white/40">
+                                    Anchor types pointing at each page against the target mix. Over-optimized pages get other anchor types until they recover.
+                                </p>
+                                {profiles.slice(0, LINK_GRAPH_ROW_LIMIT).map(p => (
+                                    <div
+                                        key={p.url}
+                                        className={cn(
+                                            'p-3 rounded-xl border space-y-2',
+                                            p.status === 'over-optimized' ? 'bg-red-500/5 border-red-500/20' : 'bg-white/[0.02] border-white/[0.06]'
+                                        )}
+                                    >
+                                        <div className="flex items-center gap-3">
+                                            <div className="flex-1 min-w-0">
+                                                <div className="text-[12px] font-medium text-white truncate">{p.title || p.url}</div>
+                                                <a href={p.url} target="_blank" rel="noopener noreferrer" className="text-[10px] text-blue-400 hover:underline truncate block">
+                                                    {p.url}
+                                                </a>
+                                            </div>
+                                            <span className={cn(
+                                                'text-[10px] font-semibold uppercase whitespace-nowrap',
+                                                p.status === 'over-optimized' ? 'text-red-400' : p.status === 'healthy' ? 'text-emerald-400' : 'text-white/40'
+                                            )}>
+                                                {p.status === 'thin' ? `${p.total} anchor${p.total === 1 ? '' : 's'}` : p.status}
+                                            </span>
+                                        </div>
+                                        <AnchorMixBar shares={p.shares} />
+                                        <div className="flex flex-wrap gap-x-3 text-[10px] text-white/50 tabular-nums">
+                                            {ANCHOR_TYPES.map(type => (
+                                                <span key={type} className={p.overOptimized.includes(type) ? 'text-red-400' : undefined}>
+                                                    {ANCHOR_TYPE_LABELS[type]} {p.counts[type]} ({Math.round(p.shares[type] * 100)}% / {Math.round(anchorDiversitySettings.targetMix[type] * 100)}%)
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <div className="text-[10px] text-white/40 truncate">
+                                            {p.topAnchors.map(a => `“${a.anchor}” ${a.count}×`).join(' · ')}
+                                        </div>
+                                        {p.repeatedExact.length > 0 && (
+                                            <div className="text-[10px] text-red-400/80">
+                                                Exact anchor used more than {anchorDiversitySettings.maxExactRepeats}×: {p.repeatedExact.map(a => `“${a}”`).join(', ')}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+});
+
+LinkGraphPanel.displayName = 'LinkGraphPanel';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔐 CREDENTIAL VAULT PANEL
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const downloadJson = (filename: string, data: unknown) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const VaultPanel: React.FC = memo(() => {
+    const vaultStatus = useAppStore(state => state.vaultStatus);
+    const vaultAutoLockMs = useAppStore(state => state.vaultAutoLockMs);
+    const enableVault = useAppStore(state => state.enableVault);
+    const unlockVault = useAppStore(state => state.unlockVault);
+    const lockVault = useAppStore(state => state.lockVault);
+    const disableVault = useAppStore(state => state.disableVault);
+    const setVaultAutoLockMs = useAppStore(state => state.setVaultAutoLockMs);
+    const getCredentialEntries = useAppStore(state => state.getCredentialEntries);
+    const importCredentials = useAppStore(state => state.importCredentials);
+    const addToast = useAppStore(state => state.addToast);
+    
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [bundlePassphrase, setBundlePassphrase] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    
+    // PBKDF2 takes a moment — run one vault operation at a time and surface its error inline
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+            setPassphrase('');
+            setConfirmPassphrase('');
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        } finally {
+            setBusy(false);
+        }
+    };
+    
+    const handleEnable = () => run(async () => {
+        if (passphrase !== confirmPassphrase) throw new Error('Passphrases do not match');
+        await enableVault(passphrase);
+        addToast('🔐 Credentials are now encrypted', 'success');
+    });
+    
+    const handleExport = () => run(async () => {
+        const bundle = await createCredentialBundle(getCredentialEntries(), bundlePassphrase);
+        downloadJson(`wp-optimizer-credentials-${new Date().toISOString().slice(0, 10)}.json`, bundle);
+        setBundlePassphrase('');
+    });
+    
+    const handleImport = (file: File) => run(async () => {
+        const entries = await openCredentialBundle(await file.text(), bundlePassphrase);
+        const count = importCredentials(entries);
+        setBundlePassphrase('');
+        addToast(`📥 Imported credentials for ${count} site${count === 1 ? '' : 's'}`, 'success');
+    });
+    
+    const fieldClass = 'flex-1 min-w-0 bg-white/[0.03] border border-white/[0.08] rounded-lg px-3 py-2 text-[12px] text-white outline-none focus:border-blue-500';
+    const buttonClass = 'text-[10px] font-semibold uppercase px-3 py-2 rounded-lg border disabled:opacity-30';
+    
+    const statusConfig = {
+        disabled: { icon: '⚠️', label: 'Not encrypted', color: 'text-yellow-400' },
+        locked: { icon: '🔒', label: 'Locked', color: 'text-red-400' },
+        unlocked: { icon: '🔓', label: 'Unlocked', color: 'text-green-400' }
+    }[vaultStatus];
 
     return (
-        <div className="glass-panel p-8 space-y-6 min-h-[500px]">
-            {showTitle && (
-                <div className="flex items-center justify-between border-b border-white/[0.06] pb-6">
-                    <div className="flex items-center gap-4">
-                        <div className="w-12 h-12 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-2xl flex items-center justify-center text-2xl">
-                            🔍
-                        </div>
-                        <div>
-                            <h4 className="text-[14px] font-semibold text-white">QA Validation</h4>
-                            <p className="text-[11px] text-white/40">{results.length} checks performed</p>
-                        </div>
+        <div className="glass-panel p-8 space-y-6">
+            <div className="flex items-center gap-4 border-b border-white/[0.06] pb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-emerald-500/20 to-teal-500/20 rounded-2xl flex items-center justify-center text-2xl">
+                    🔐
+                </div>
+                <div className="flex-1">
+                    <h4 className="text-[14px] font-semibold text-white">Credential Vault</h4>
+                    <p className="text-[11px] text-white/40">API keys and WordPress passwords encrypted with your passphrase (PBKDF2 + AES-GCM)</p>
+                </div>
+                <span className={cn('text-[11px] font-semibold', statusConfig.color)}>
+                    {statusConfig.icon} {statusConfig.label}
+                </span>
+            </div>
+            
+            {vaultStatus === 'disabled' && (
+                <div className="space-y-3">
+                    <p className="text-[12px] text-white/50">
+                        Keys and passwords are currently stored in plain text in this browser. Set a passphrase to encrypt them — it can't be recovered if lost.
+                    </p>
+                    <div className="flex gap-3">
+                        <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder={`Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`} className={fieldClass} />
+                        <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder="Confirm passphrase" className={fieldClass} />
+                        <button onClick={handleEnable} disabled={busy || !passphrase} className={cn(buttonClass, 'text-emerald-400 bg-emerald-500/10 border-emerald-500/30')}>
+                            {busy ? 'Encrypting…' : 'Enable vault'}
+                        </button>
                     </div>
-                    
-                    {results.length > 0 && (
-                        <div className={cn('text-4xl font-bold tabular-nums', getScoreColor(totalScore))}>
-                            {totalScore}%
-                        </div>
-                    )}
                 </div>
             )}
             
-            {/* Filter toggle */}
-            {results.length > 0 && (
-                <button
-                    onClick={() => setShowOnlyIssues(!showOnlyIssues)}
-                    className={cn(
-                        'text-[11px] font-semibold uppercase px-4 py-2 rounded-xl transition-all',
-                        showOnlyIssues 
-                            ? 'bg-red-500/20 text-red-400 border border-red-500/30' 
-                            : 'bg-white/[0.03] text-white/50 border border-white/[0.06] hover:text-white'
-                    )}
-                >
-                    {showOnlyIssues ? '⚠️ Issues Only' : '📋 Show All'}
-                </button>
+            {vaultStatus === 'locked' && (
+                <form className="flex gap-3" onSubmit={e => { e.preventDefault(); run(() => unlockVault(passphrase)); }}>
+                    <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Vault passphrase" autoFocus className={fieldClass} />
+                    <button type="submit" disabled={busy || !passphrase} className={cn(buttonClass, 'text-blue-400 bg-blue-500/10 border-blue-500/30')}>
+                        {busy ? 'Unlocking…' : 'Unlock'}
+                    </button>
+                </form>
             )}
             
-            {/* Results */}
-            <div className="space-y-3 max-h-[400px] overflow-y-auto custom-scrollbar">
-                {categoryOrder
-                    .filter(cat => displayResults[cat])
-                    .map((category) => {
-                        const items = displayResults[category];
-                        if (!items) return null;
-                        
-                        const config = getCategoryConfig(category);
-                        const isExpanded = expandedCategory === category;
-                        const failedCount = items.filter(r => r.status === 'failed').length;
-                        
-                        return (
-                            <div key={category} className="border border-white/[0.06] rounded-2xl overflow-hidden">
-                                <button
-                                    onClick={() => setExpandedCategory(isExpanded ? null : category)}
-                                    className="w-full p-4 flex items-center justify-between bg-white/[0.02] hover:bg-white/[0.04] transition-colors"
-                                >
-                                    <div className="flex items-center gap-3">
-                                        <span className="text-xl">{config.icon}</span>
-                                        <span className={cn('text-[12px] font-semibold uppercase tracking-wider', config.color)}>
-                                            {config.label}
-                                        </span>
-                                        <span className="text-[10px] text-white/30 bg-white/[0.04] px-2 py-0.5 rounded-full">
-                                            {items.length}
-                                        </span>
-                                        {failedCount > 0 && (
-                                            <span className="text-[9px] font-bold bg-red-500/20 text-red-400 px-2 py-0.5 rounded-full animate-pulse">
-                                                {failedCount} failed
-                                            </span>
-                                        )}
-                                    </div>
-                                    <span className={cn('transition-transform text-white/30', isExpanded && 'rotate-180')}>
-                                        ▼
-                                    </span>
-                                </button>
-                                
-                                {isExpanded && (
-                                    <div className="p-4 space-y-3 bg-black/20 border-t border-white/[0.04]">
-                                        {items.map((r, i) => (
-                                            <div 
-                                                key={i} 
-                                                className={cn(
-                                                    'p-4 rounded-xl border transition-all',
-                                                    r.status === 'passed' && 'bg-green-500/5 border-green-500/20',
-                                                    r.status === 'failed' && 'bg-red-500/5 border-red-500/20',
-                                                    r.status === 'warning' && 'bg-yellow-500/5 border-yellow-500/20'
-                                                )}
-                                            >
-                                                <div className="flex justify-between items-start mb-2">
-                                                    <span className="text-[12px] font-semibold text-white">
-                                                        {r.agent}
-                                                    </span>
-                                                    <span className={cn('text-[14px] font-bold tabular-nums', getScoreColor(r.score))}>
-                                                        {r.score}%
-                                                    </span>
-                                                </div>
-                                                <p className="text-[12px] text-white/60 leading-relaxed">{r.feedback}</p>
-                                                {r.fixSuggestion && r.status !== 'passed' && (
-                                                    <p className="text-[11px] text-blue-400 mt-3 pt-3 border-t border-white/[0.04] flex items-start gap-2">
-                                                        <span>💡</span>
-                                                        <span>{r.fixSuggestion}</span>
-                                                    </p>
-                                                )}
-                                            </div>
-                                        ))}
-                                    </div>
-                                )}
-                            </div>
-                        );
-                    })}
-                
-                {results.length === 0 && (
-                    <div className="text-center py-16 text-white/30">
-                        <div className="text-5xl mb-4 opacity-30">🔍</div>
-                        <div className="text-[14px] font-semibold">No validation data</div>
-                        <div className="text-[12px] mt-1 opacity-60">Run optimization to generate results</div>
+            {vaultStatus === 'unlocked' && (
+                <div className="flex flex-wrap items-center gap-3">
+                    <button onClick={lockVault} className={cn(buttonClass, 'text-white/70 border-white/[0.1]')}>
+                        🔒 Lock now
+                    </button>
+                    <label className="flex items-center gap-2 text-[11px] text-white/40">
+                        Auto-lock after
+                        <select
+                            value={vaultAutoLockMs}
+                            onChange={e => setVaultAutoLockMs(Number(e.target.value))}
+                            className="bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1.5 text-[12px] text-white outline-none"
+                        >
+                            {AUTO_LOCK_OPTIONS_MS.map(ms => <option key={ms} value={ms}>{ms / 60000} min</option>)}
+                        </select>
+                        idle
+                    </label>
+                    <div className="flex-1" />
+                    <button
+                        onClick={() => window.confirm('Store credentials unencrypted again?') && disableVault()}
+                        className={cn(buttonClass, 'text-red-400 bg-red-500/10 border-red-500/30')}
+                    >
+                        Disable vault
+                    </button>
+                </div>
+            )}
+            
+            {/* Encrypted bundle export/import */}
+            {vaultStatus !== 'locked' && (
+                <div className="space-y-2 border-t border-white/[0.06] pt-5">
+                    <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider">Encrypted Bundle</div>
+                    <p className="text-[11px] text-white/30">Every site's WordPress settings and API keys, for moving to another browser</p>
+                    <div className="flex gap-3">
+                        <input type="password" value={bundlePassphrase} onChange={e => setBundlePassphrase(e.target.value)} placeholder="Bundle passphrase" className={fieldClass} />
+                        <button
+                            onClick={handleExport}
+                            disabled={busy || bundlePassphrase.length < MIN_PASSPHRASE_LENGTH}
+                            className={cn(buttonClass, 'text-blue-400 bg-blue-500/10 border-blue-500/30')}
+                        >
+                            📤 Export
+                        </button>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={busy || !bundlePassphrase}
+                            className={cn(buttonClass, 'text-white/70 border-white/[0.1]')}
+                        >
+                            📥 Import
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={e => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) handleImport(file);
+                            }}
+                        />
                     </div>
-                )}
-            </div>
+                </div>
+            )}
+            
+            {error && <div className="text-[12px] text-red-400">❌ {error}</div>}
         </div>
     );
 });
 
-QASwarmPanel.displayName = 'QASwarmPanel';
+VaultPanel.displayName = 'VaultPanel';
+
+// Header indicator: locks an unlocked vault, or sends a locked one to setup
+export const VaultLockButton: React.FC = memo(() => {
+    const vaultStatus = useAppStore(state => state.vaultStatus);
+    const lockVault = useAppStore(state => state.lockVault);
+    const setActiveView = useAppStore(state => state.setActiveView);
+    
+    if (vaultStatus === 'disabled') return null;
+    
+    return vaultStatus === 'unlocked' ? (
+        <button
+            onClick={lockVault}
+            className="px-3 py-2 rounded-xl bg-white/[0.03] border border-white/[0.06] text-[12px] text-green-400 hover:text-white"
+            title="Lock the credential vault"
+        >
+            🔓
+        </button>
+    ) : (
+        <button
+            onClick={() => setActiveView('setup')}
+            className="px-3 py-2 rounded-xl bg-red-500/10 border border-red-500/30 text-[11px] font-semibold text-red-400"
+            title="Unlock in Setup"
+        >
+            🔒 Locked
+        </button>
+    );
+});
+
+VaultLockButton.displayName = 'VaultLockButton';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🧠 ENTITY GAP PANEL
@@ -1456,6 +3853,7 @@ export const ProgressIndicator: React.FC<ProgressIndicatorProps> = memo(({
     schema_generation: { icon: '📊', label: 'Schema', color: '#5e5ce6' },
     final_polish: { icon: '✨', label: 'Polishing', color: '#ff375f' },
     publishing: { icon: '📤', label: 'Publishing', color: '#30d158' },
+    awaiting_approval: { icon: '👀', label: 'In Review', color: '#bf5af2' },
     completed: { icon: '🎉', label: 'Done', color: '#30d158' },
     failed: { icon: '❌', label: 'Failed', color: '#ff453a' },
 };
@@ -1573,6 +3971,244 @@ export const ContentPreview: React.FC<ContentPreviewProps> = memo(({
 
 ContentPreview.displayName = 'ContentPreview';
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📡 LIVE SECTION PREVIEW
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface LiveSectionPreviewProps {
+    sections: SectionStreamUpdate[];
+    isRunning: boolean;
+    onCancelSection: (index: number) => void;
+}
+
+const SECTION_STATUS_STYLES: Record<SectionStreamStatus, { label: string; className: string }> = {
+    streaming: { label: 'Writing', className: 'text-blue-400 bg-blue-500/20' },
+    done: { label: 'Done', className: 'text-green-400 bg-green-500/20' },
+    failed: { label: 'Failed', className: 'text-red-400 bg-red-500/20' },
+    cancelled: { label: 'Skipped', className: 'text-white/40 bg-white/[0.06]' }
+};
+
+export const LiveSectionPreview: React.FC<LiveSectionPreviewProps> = memo(({ 
+    sections, 
+    isRunning, 
+    onCancelSection 
+}) => {
+    const html = useMemo(() => sections.map(s => s.html).filter(Boolean).join('\n'), [sections]);
+    
+    return (
+        <div className="space-y-4">
+            <div className="glass-panel p-4">
+                <div className="text-[11px] font-semibold text-white/50 uppercase tracking-wider mb-3">
+                    📡 Live Sections
+                </div>
+                <div className="space-y-1.5">
+                    {sections.map(section => {
+                        const status = SECTION_STATUS_STYLES[section.status];
+                        return (
+                            <div key={section.index} className="flex items-center gap-3 text-[12px]">
+                                <span className="w-6 text-white/30 tabular-nums">{section.index + 1}</span>
+                                <span className="flex-1 truncate text-white/70">{section.heading}</span>
+                                <span className={cn('text-[9px] font-semibold uppercase px-2 py-0.5 rounded-full', status.className)}>
+                                    {status.label}
+                                </span>
+                                {isRunning && section.status === 'streaming' && (
+                                    <button
+                                        onClick={() => onCancelSection(section.index)}
+                                        className="text-[10px] font-semibold uppercase text-red-400/70 hover:text-red-400 px-2 py-1 hover:bg-red-500/10 rounded-lg transition-colors"
+                                    >
+                                        ⏭️ Skip
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+            
+            <ContentPreview html={html} maxHeight="480px" />
+        </div>
+    );
+});
+
+LiveSectionPreview.displayName = 'LiveSectionPreview';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔀 CONTENT DIFF VIEW
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface ContentDiffViewProps {
+    originalHtml: string;
+    updatedHtml: string;
+    maxHeight?: string;
+}
+
+const DIFF_BLOCK_STYLES: Record<BlockDiff['op'], string> = {
+    equal: 'border-white/[0.04] text-white/60',
+    added: 'border-green-500/40 bg-green-500/[0.06] text-green-100',
+    removed: 'border-red-500/40 bg-red-500/[0.06] text-red-200 line-through decoration-red-400/40',
+    modified: 'border-amber-500/40 bg-amber-500/[0.04] text-white/80'
+};
+
+const DiffBlockText: React.FC<{ diff: BlockDiff; side: 'original' | 'updated' | 'inline' }> = ({ diff, side }) => {
+    const isHeading = diff.kind === 'heading';
+    const textClass = cn('text-[13px] leading-relaxed', isHeading && 'font-bold text-[14px] text-white');
+    
+    if (diff.op === 'modified' && diff.words) {
+        return (
+            <div className={textClass}>
+                {diff.words
+                    .filter(seg => side === 'inline' || seg.op === 'equal' || (side === 'original' ? seg.op === 'removed' : seg.op === 'added'))
+                    .map((seg, i) => (
+                        <span
+                            key={i}
+                            className={cn(
+                                seg.op === 'added' && 'bg-green-500/25 text-green-200 rounded px-0.5',
+                                seg.op === 'removed' && 'bg-red-500/25 text-red-200 line-through rounded px-0.5'
+                            )}
+                        >
+                            {seg.text}{' '}
+                        </span>
+                    ))}
+            </div>
+        );
+    }
+    
+    const block = side === 'original' ? diff.original : (diff.updated || diff.original);
+    return <div className={textClass}>{block?.text}</div>;
+};
+
+export const ContentDiffView: React.FC<ContentDiffViewProps> = memo(({ 
+    originalHtml, 
+    updatedHtml,
+    maxHeight = '600px' 
+}) => {
+    const [mode, setMode] = useState<'side-by-side' | 'inline'>('side-by-side');
+    const [changesOnly, setChangesOnly] = useState(false);
+    
+    const diff = useMemo(
+        () => (originalHtml && updatedHtml ? computeContentDiff(originalHtml, updatedHtml) : null),
+        [originalHtml, updatedHtml]
+    );
+    
+    if (!diff) {
+        return (
+            <div className="glass-panel p-8 flex items-center justify-center" style={{ minHeight: maxHeight }}>
+                <div className="text-center text-white/30">
+                    <div className="text-5xl mb-4 opacity-30">🔀</div>
+                    <div className="text-[14px] font-semibold">Nothing to compare</div>
+                    <div className="text-[12px] mt-1 opacity-60">
+                        {updatedHtml ? 'Original content was not captured for this page' : 'Run optimization to generate'}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+    
+    const { stats } = diff;
+    const blocks = changesOnly ? diff.blocks.filter(b => b.op !== 'equal') : diff.blocks;
+    const wordDelta = stats.wordsAfter - stats.wordsBefore;
+    
+    const statItems = [
+        { label: 'Sections', added: stats.sections.added, removed: stats.sections.removed },
+        { label: 'Links', added: stats.links.added, removed: stats.links.removed },
+        { label: 'FAQs', added: stats.faqs.added, removed: stats.faqs.removed },
+        { label: 'Blocks', added: stats.blocks.added, removed: stats.blocks.removed }
+    ];
+    
+    return (
+        <div className="space-y-4">
+            {/* Stats */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {statItems.map(item => (
+                    <div key={item.label} className="glass-panel p-3">
+                        <div className="text-[10px] font-semibold text-white/40 uppercase tracking-wider">{item.label}</div>
+                        <div className="text-[13px] font-semibold mt-1">
+                            <span className="text-green-400">+{item.added}</span>
+                            <span className="text-white/20 mx-1.5">/</span>
+                            <span className="text-red-400">−{item.removed}</span>
+                        </div>
+                    </div>
+                ))}
+                <div className="glass-panel p-3">
+                    <div className="text-[10px] font-semibold text-white/40 uppercase tracking-wider">Words</div>
+                    <div className="text-[13px] font-semibold mt-1 text-white">
+                        {formatNumber(stats.wordsBefore)} → {formatNumber(stats.wordsAfter)}
+                        <span className={cn('ml-1.5 text-[11px]', wordDelta >= 0 ? 'text-green-400' : 'text-red-400')}>
+                            ({wordDelta >= 0 ? '+' : ''}{formatNumber(wordDelta)})
+                        </span>
+                    </div>
+                </div>
+            </div>
+            
+            {/* Controls */}
+            <div className="flex items-center justify-between">
+                <div className="flex bg-white/[0.03] p-1 rounded-lg border border-white/[0.06]">
+                    {(['side-by-side', 'inline'] as const).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => setMode(m)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-[10px] font-semibold uppercase tracking-wider transition-all',
+                                mode === m ? 'bg-white text-black' : 'text-white/40 hover:text-white'
+                            )}
+                        >
+                            {m === 'side-by-side' ? '◫ Side by side' : '☰ Inline'}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 text-[11px] text-white/50 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={changesOnly}
+                        onChange={e => setChangesOnly(e.target.checked)}
+                        className="accent-white"
+                    />
+                    Changes only ({stats.blocks.added + stats.blocks.removed + stats.blocks.modified})
+                </label>
+            </div>
+            
+            {/* Diff body */}
+            <div className="glass-panel p-6 overflow-auto custom-scrollbar" style={{ maxHeight }}>
+                {mode === 'side-by-side' && (
+                    <div className="grid grid-cols-2 gap-x-4 text-[10px] font-semibold text-white/30 uppercase tracking-wider pb-3 mb-3 border-b border-white/[0.06]">
+                        <div>Original</div>
+                        <div>Optimized</div>
+                    </div>
+                )}
+                
+                <div className="space-y-2">
+                    {blocks.map((block, i) => mode === 'inline' ? (
+                        <div key={i} className={cn('border-l-2 pl-3 py-1.5 rounded-r', DIFF_BLOCK_STYLES[block.op])}>
+                            <DiffBlockText diff={block} side="inline" />
+                        </div>
+                    ) : (
+                        <div key={i} className="grid grid-cols-2 gap-x-4">
+                            <div className={cn(
+                                'border-l-2 pl-3 py-1.5 rounded-r',
+                                block.op === 'added' ? 'border-transparent' : DIFF_BLOCK_STYLES[block.op]
+                            )}>
+                                {block.op !== 'added' && <DiffBlockText diff={block} side="original" />}
+                            </div>
+                            <div className={cn(
+                                'border-l-2 pl-3 py-1.5 rounded-r',
+                                block.op === 'removed' ? 'border-transparent' : DIFF_BLOCK_STYLES[block.op]
+                            )}>
+                                {block.op !== 'removed' && <DiffBlockText diff={block} side="updated" />}
+                            </div>
+                        </div>
+                    ))}
+                    
+                    {blocks.length === 0 && (
+                        <div className="text-center py-12 text-[12px] text-white/30">No text changes detected</div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+});
+
+ContentDiffView.displayName = 'ContentDiffView';
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🏷️ BADGE COMPONENT
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -16,7 +16,15 @@
 // • STRICT TYPE SAFETY FIXES (v25.0.1)
 // ═══════════════════════════════════════════════════════════════════════════════
 
-import { ValidatedReference, CompetitorAnalysis, EntityGapAnalysis } from './types';
+import { 
+    ValidatedReference, 
+    CompetitorAnalysis, 
+    EntityGapAnalysis,
+    PostPreservationData,
+    PostRevisionSnapshot,
+    PostSeoMetaSnapshot,
+    RevisionReason
+} from './types';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔧 HELPER: Safely get header value (converts null to undefined)
@@ -517,6 +525,18 @@ export interface SerperResult {
     }>;
 }
 
+// Called before every Serper request; the hook may throw to refuse the query
+// (daily query budgets). Registered by the app, null when nothing is tracking.
+let serperQueryHook: (() => void) | null = null;
+
+export function setSerperQueryHook(hook: (() => void) | null): void {
+    serperQueryHook = hook;
+}
+
+export function trackSerperQuery(): void {
+    serperQueryHook?.();
+}
+
 export async function serperSearch(
     apiKey: string, 
     query: string, 
@@ -530,6 +550,7 @@ export async function serperSearch(
     } = {}
 ): Promise<SerperResult> {
     const { gl = 'us', hl = 'en', num = 10, type = 'search', tbs, page } = options;
+    trackSerperQuery();
     const endpoint = type === 'search' 
         ? 'https://google.serper.dev/search' 
         : `https://google.serper.dev/${type}`;
@@ -1973,13 +1994,16 @@ export async function wpUpdatePostMeta(
         focusKeyword?: string;
         canonicalUrl?: string;
         noindex?: boolean;
-    }
+    },
+    options: { writeEmpty?: boolean } = {}
 ): Promise<boolean> {
     const url = `${wpBase(wpUrl)}/wp-json/wp/v2/posts/${postId}`;
     
     const metaPayload: Record<string, any> = {};
+    // With writeEmpty, empty strings are written too so existing values get cleared
+    const has = (value?: string) => options.writeEmpty ? typeof value === 'string' : !!value;
     
-    if (meta.title) {
+    if (has(meta.title)) {
         // Yoast
         metaPayload._yoast_wpseo_title = meta.title;
         metaPayload.yoast_wpseo_title = meta.title;
@@ -1991,7 +2015,7 @@ export async function wpUpdatePostMeta(
         metaPayload._seopress_titles_title = meta.title;
     }
     
-    if (meta.description) {
+    if (has(meta.description)) {
         // Yoast
         metaPayload._yoast_wpseo_metadesc = meta.description;
         metaPayload.yoast_wpseo_metadesc = meta.description;
@@ -2003,13 +2027,15 @@ export async function wpUpdatePostMeta(
         metaPayload._seopress_titles_desc = meta.description;
     }
     
-    if (meta.focusKeyword) {
+    if (has(meta.focusKeyword)) {
         // Yoast
         metaPayload._yoast_wpseo_focuskw = meta.focusKeyword;
         // RankMath
         metaPayload.rank_math_focus_keyword = meta.focusKeyword;
         // AIOSEO
-        metaPayload._aioseo_keyphrases = JSON.stringify([{ keyphrase: meta.focusKeyword }]);
+        metaPayload._aioseo_keyphrases = meta.focusKeyword
+            ? JSON.stringify([{ keyphrase: meta.focusKeyword }])
+            : '';
     }
     
     if (meta.canonicalUrl) {
@@ -2036,6 +2062,125 @@ export async function wpUpdatePostMeta(
     }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⏪ REVISION SNAPSHOTS — CAPTURE & ROLLBACK
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SEO_TITLE_META_KEYS = ['_yoast_wpseo_title', 'yoast_wpseo_title', 'rank_math_title', '_aioseo_title', '_seopress_titles_title'];
+const SEO_DESC_META_KEYS = ['_yoast_wpseo_metadesc', 'yoast_wpseo_metadesc', 'rank_math_description', '_aioseo_description', '_seopress_titles_desc'];
+const SEO_KEYWORD_META_KEYS = ['_yoast_wpseo_focuskw', 'rank_math_focus_keyword'];
+
+function pickMetaValue(meta: Record<string, any>, keys: string[]): string | undefined {
+    for (const key of keys) {
+        const value = meta?.[key];
+        if (typeof value === 'string' && value.trim()) return value;
+    }
+    return undefined;
+}
+
+/**
+ * Read SEO plugin meta (Yoast/RankMath/AIOSEO/SEOPress) from a post response.
+ * Raw meta keys only: an empty key means the plugin's template applies, and
+ * its rendered output (yoast_head_json) must not be restored as fixed meta.
+ */
+export function extractSeoMetaFromPost(post: any): PostSeoMetaSnapshot {
+    const meta = post?.meta || {};
+    
+    return {
+        title: pickMetaValue(meta, SEO_TITLE_META_KEYS),
+        description: pickMetaValue(meta, SEO_DESC_META_KEYS),
+        focusKeyword: pickMetaValue(meta, SEO_KEYWORD_META_KEYS)
+    };
+}
+
+/**
+ * Capture the current state of a WordPress post so it can be restored later.
+ * Pass an already-fetched `post` (context=edit) to avoid a second request.
+ */
+export async function wpCapturePostSnapshot(
+    wpUrl: string,
+    postId: number,
+    auth: BasicAuth,
+    options: {
+        pageId: string;
+        reason: RevisionReason;
+        post?: any;
+        preservation?: PostPreservationData;
+    }
+): Promise<PostRevisionSnapshot> {
+    const post = options.post || await wpGetPost(wpUrl, postId, auth);
+    const content = post.content?.raw ?? post.content?.rendered ?? '';
+    
+    const preservation: PostPreservationData = options.preservation || {
+        originalSlug: post.slug || null,
+        originalLink: post.link || null,
+        originalCategories: post.categories || [],
+        originalTags: post.tags || [],
+        featuredImageId: post.featured_media || null,
+        contentImages: extractImagesFromContent(content).map(img => ({
+            src: img.src,
+            alt: img.alt,
+            mediaId: img.id ? parseInt(img.id) : undefined
+        }))
+    };
+    
+    return {
+        id: `rev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        pageId: options.pageId,
+        postId,
+        capturedAt: Date.now(),
+        reason: options.reason,
+        title: post.title?.raw ?? post.title?.rendered ?? '',
+        content,
+        excerpt: post.excerpt?.raw ?? post.excerpt?.rendered ?? '',
+        status: post.status || 'draft',
+        slug: post.slug || '',
+        link: post.link,
+        seoMeta: extractSeoMetaFromPost(post),
+        preservation,
+        wordCount: content.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length
+    };
+}
+
+/**
+ * Restore a post to a captured snapshot (content, title, excerpt, status,
+ * taxonomy, featured image and SEO meta). The slug is never touched.
+ */
+export async function wpRestorePostSnapshot(
+    wpUrl: string,
+    auth: BasicAuth,
+    snapshot: PostRevisionSnapshot
+): Promise<{ id: number; link: string; metaRestored: boolean }> {
+    const { preservation } = snapshot;
+    
+    const result = await wpUpdatePost(wpUrl, auth, snapshot.postId, {
+        title: snapshot.title,
+        content: snapshot.content,
+        excerpt: snapshot.excerpt,
+        status: snapshot.status,
+        categories: preservation.originalCategories,
+        tags: preservation.originalTags,
+        featured_media: preservation.featuredImageId || 0
+    }, {
+        preserveSlug: true,
+        preserveFeaturedImage: false,
+        preserveCategories: preservation.originalCategories.length === 0,
+        preserveTags: preservation.originalTags.length === 0
+    });
+    
+    // Always write the snapshot's meta: fields it lacks are cleared, so meta
+    // added after the snapshot was taken doesn't survive the rollback and
+    // template-driven titles and descriptions stay template-driven
+    const { title, description, focusKeyword } = snapshot.seoMeta || {};
+    const metaRestored = await wpUpdatePostMeta(wpUrl, auth, snapshot.postId, {
+        title: title || '',
+        description: description || '',
+        focusKeyword: focusKeyword || ''
+    }, { writeEmpty: true });
+    
+    return { ...result, metaRestored };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🖼️ IMAGE DATA TYPES
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -2458,3 +2603,71 @@ export async function discoverInternalLinkTargets(
         return [];
     }
 }
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ↩️ INBOUND LINK SOURCES — PUBLISHED POSTS WITH THEIR RAW CONTENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface WpPostContent {
+    id: number;
+    url: string;
+    title: string;
+    // Raw editor content (context=edit) — the same markup an update writes back
+    content: string;
+}
+
+/**
+ * Fetch published posts with their raw content, most recently modified first.
+ * Needs credentials — context=edit is refused for anonymous requests.
+ */
+export async function wpGetPublishedPostContents(
+    wpUrl: string,
+    auth: BasicAuth,
+    options: { excludePostId?: number; maxPosts?: number } = {},
+    onProgress?: (msg: string) => void
+): Promise<WpPostContent[]> {
+    const { excludePostId, maxPosts = 100 } = options;
+    const baseUrl = wpBase(wpUrl);
+    const posts: WpPostContent[] = [];
+    const seen = new Set<number>();
+    // Fixed page size: WordPress offsets by (page - 1) * per_page
+    const perPage = 100;
+    
+    for (let page = 1; posts.length < maxPosts; page++) {
+        const url = `${baseUrl}/wp-json/wp/v2/posts?status=publish&context=edit&per_page=${perPage}&page=${page}&orderby=modified&_fields=id,link,title,content`;
+        
+        const res = await directFetch(url, {
+            method: 'GET',
+            headers: { ...basicAuthHeader(auth) },
+            timeoutMs: 30000
+        });
+        
+        // WordPress answers 400 for a page past the end
+        if (res.status === 400 && page > 1) break;
+        if (!res.ok) {
+            throw new Error(`WP_FETCH_ERROR: ${res.status}`);
+        }
+        
+        const batch = await res.json();
+        if (!Array.isArray(batch) || batch.length === 0) break;
+        
+        for (const post of batch) {
+            if (excludePostId && post.id === excludePostId) continue;
+            // A post modified mid-scan moves pages and can be served twice
+            if (seen.has(post.id)) continue;
+            seen.add(post.id);
+            posts.push({
+                id: post.id,
+                url: post.link,
+                title: (post.title?.raw ?? post.title?.rendered ?? '').replace(/<[^>]*>/g, ''),
+                content: post.content?.raw ?? post.content?.rendered ?? ''
+            });
+        }
+        
+        if (batch.length < perPage) break;
+    }
+    
+    const loaded = posts.slice(0, maxPosts);
+    onProgress?.(`   ✅ Loaded ${loaded.length} published posts`);
+    return loaded;
+}
@@ -2,6 +2,9 @@
 // TF-IDF Based Contextual Link Intelligence System
 // Author: WP Optimizer Pro v3.0.0
 
+import { InternalLinkTarget } from './types';
+import { previewInternalLinks, runLinkEngine } from './lib/link-engine';
+
 export interface SitemapPage {
   id: string;
   url: string;
@@ -63,23 +66,42 @@ export function generateAnchorTextVariations(targetTitle: string): string[] {
   return [...new Set(variations)].slice(0, 5);
 }
 
-// Main intelligent linking function
+// Plans links from the current content to the given pages with the shared link engine
 export async function generateIntelligentInternalLinks(
   allPages: any[],
   currentContent: string,
   maxLinks: number = 5
 ): Promise<LinkPlacement[]> {
-  const candidates: InternalLinkCandidate[] = [];
-  const placements: LinkPlacement[] = [];
-  return placements;
+  const targets: InternalLinkTarget[] = (allPages || [])
+    .filter(page => page?.url && page?.title)
+    .map(page => ({ url: page.url, title: page.title, slug: page.slug || '' }));
+
+  const report = previewInternalLinks(currentContent, targets, { maxLinks });
+  return report.planned.map(link => {
+    const at = link.context.toLowerCase().indexOf(link.anchorText.toLowerCase());
+    return {
+      anchorText: link.anchorText,
+      targetUrl: link.url,
+      insertPosition: link.position,
+      contextBefore: at >= 0 ? link.context.slice(0, at) : link.context,
+      contextAfter: at >= 0 ? link.context.slice(at + link.anchorText.length) : '',
+      relevanceScore: link.relevanceScore
+    };
+  });
 }
 
-// Insert Links into HTML
+// Insert Links into HTML — each placement's anchor text is linked once
 export function insertLinksIntoContent(
   htmlContent: string,
   placements: LinkPlacement[]
 ): string {
-  return htmlContent;
+  const targets: InternalLinkTarget[] = placements.map(p => ({ url: p.targetUrl, title: p.anchorText, slug: '' }));
+  return runLinkEngine(htmlContent, targets, {
+    maxLinks: placements.length,
+    maxLinksPerSection: placements.length,
+    minRelevance: 0,
+    minDistanceBetweenLinks: 0
+  }).html;
 }
 
 // Validate Quality
@@ -9,8 +9,14 @@
 // ✅ YOUTUBE INTEGRATION — Automatic relevant video discovery and embedding
 // ✅ EVEN LINK DISTRIBUTION — Max 2 internal links per section
 // ✅ CIRCUIT BREAKER — Fails fast on repeated API errors
-// ✅ ROBUST JSON HEALING — Multi-strategy recovery for malformed responses
+// ✅ STRUCTURED OUTPUTS — Schema-validated JSON with a repair round-trip
 // ✅ MULTI-PROVIDER — Google, OpenRouter, OpenAI, Anthropic, Groq
+// ✅ STAGE ROUTING — Per-stage models with provider fallback chain
+// ✅ LIVE STREAMING — Section HTML streamed to the UI, cancellable per section
+// ✅ PROMPT TEMPLATES — Stage prompts come from the editable template library
+// ✅ BRAND VOICE — The site's voice profile is added to every stage's system prompt
+// ✅ SEMANTIC LINKING — Internal link targets ranked per section by embedding similarity
+// ✅ LINK ENGINE — Stage 7 links go through the shared engine in lib/link-engine.ts
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { GoogleGenAI } from '@google/genai';
@@ -26,8 +32,35 @@ import {
     GeoTargetConfig, 
     NeuronTerm, 
     APP_VERSION,
-    InternalLinkResult
+    InternalLinkInjectionResult,
+    InternalLinkReport,
+    ContentOutline,
+    GeneratedSection,
+    LLMUsage,
+    LLMStage,
+    AIProvider,
+    SectionStreamStatus,
+    PromptTemplateKey
 } from '../types';
+import { isBudgetExceededError } from './budget-guard';
+import { StageModelMap, defaultModelFor, resolveRouteChain, isFallbackError, recordStageModel } from './llm-router';
+import { getProviderModels, resolveMaxOutputTokens } from './model-registry';
+import {
+    JsonSchema, StructuredResult, FAQList, MAX_REPAIR_ROUNDS,
+    OUTLINE_SCHEMA, FAQ_LIST_SCHEMA, CONTENT_CONTRACT_SCHEMA,
+    parseStructuredOutput, buildRepairPrompt, formatSchemaIssues, toResponseFormat, toGeminiSchema
+} from './structured-output';
+import {
+    StreamTextHandler, GenerationCancelledError, CANCELLATION_POLL_MS,
+    readChatCompletionStream, readAnthropicStream, createStreamEmitter,
+    isGenerationCancelledError, isSectionCancelled, throwIfCancelled
+} from './llm-stream';
+import { PromptVariables, buildPromptVariables, renderPrompt } from './prompt-templates';
+import { withBrandVoice } from './brand-voice';
+import { SemanticLinkPlan, planSemanticLinks } from './embeddings';
+import { runLinkEngine } from './link-engine';
+import { AnchorGuard } from './anchor-diversity';
+import { trackSerperQuery } from '../fetch-service';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📌 VERSION & CONFIGURATION
@@ -42,6 +75,10 @@ const TIMEOUTS = {
     SINGLE_SHOT: 180000,
     REFERENCE_DISCOVERY: 30000,
     YOUTUBE_SEARCH: 20000,
+    // Local models are slower — their calls get LOCAL_MULTIPLIER × the stage timeout, at least LOCAL_MIN
+    LOCAL_MULTIPLIER: 3,
+    LOCAL_MIN: 300000,
+    LOCAL_MODEL_DISCOVERY: 10000,
 } as const;
 
 const CONTENT_TARGETS = {
@@ -55,6 +92,7 @@ const LINK_CONFIG = {
     MAX_TOTAL: 15,
     MAX_PER_SECTION: 2,
     MIN_WORDS_BETWEEN: 150,
+    MIN_RELEVANCE: 0.2,
 } as const;
 
 // Year calculation
@@ -105,19 +143,6 @@ export interface DiscoveredReference {
     favicon?: string;
 }
 
-interface ContentOutline {
-    title: string;
-    metaDescription: string;
-    slug: string;
-    sections: Array<{
-        heading: string;
-        keyPoints: string[];
-        subsections: Array<{ heading: string; keyPoints: string[] }>;
-    }>;
-    faqTopics: string[];
-    keyTakeaways: string[];
-}
-
 type LogFunction = (msg: string, progress?: number) => void;
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -170,6 +195,11 @@ function countWords(text: string): number {
     return text.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(w => w.length > 0).length;
 }
 
+// Strips the ```html fence some models wrap around HTML output
+function cleanHtmlResponse(text: string): string {
+    return text.trim().replace(/^```(?:html)?\s*/i, '').replace(/\s*```$/i, '');
+}
+
 function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -664,6 +694,8 @@ export async function searchYouTubeVideo(
     const allVideos: YouTubeVideoData[] = [];
     
     for (const query of queries) {
+        // Outside the try — a refused query ends the search instead of being skipped
+        trackSerperQuery();
         try {
             const response = await fetch('https://google.serper.dev/videos', {
                 method: 'POST',
@@ -784,6 +816,7 @@ export async function discoverReferences(
     const skipDomains = ['facebook.com', 'twitter.com', 'instagram.com', 'youtube.com', 'pinterest.com', 'reddit.com', 'quora.com', 'linkedin.com', 'medium.com', 'tiktok.com'];
     
     for (const query of queries) {
+        trackSerperQuery();
         try {
             const response = await fetch('https://google.serper.dev/search', {
                 method: 'POST',
@@ -836,481 +869,162 @@ export async function discoverReferences(
 // 🔗 INTERNAL LINK INJECTION — ENTERPRISE GRADE
 // ═══════════════════════════════════════════════════════════════════════════════
 
+/**
+ * Adds internal links spread across H2 sections through the shared link
+ * engine. With a semantic plan each section links only its ranked targets,
+ * anchored in the most similar sentence. With an anchor guard, anchors are
+ * picked to keep each target's site-wide anchor mix healthy. The intro
+ * before the first H2 stays unlinked.
+ */
 export function injectInternalLinksDistributed(
     html: string,
     linkTargets: InternalLinkTarget[],
     currentUrl: string,
-    log: LogFunction
-): { html: string; linksAdded: InternalLinkResult[]; totalLinks: number } {
-    
-    log(`   🔗 ═══════════════════════════════════════════════════════`);
-    log(`   🔗 INTERNAL LINK INJECTION — DEBUG MODE`);
-    log(`   🔗 ═══════════════════════════════════════════════════════`);
-    log(`   🔗 Input validation:`);
-    log(`      → html length: ${html?.length || 0} chars`);
-    log(`      → linkTargets length: ${linkTargets?.length || 0}`);
-    
-    if (!html || !linkTargets || !Array.isArray(linkTargets) || linkTargets.length === 0) {
-        log(`   ❌ ABORT: Invalid inputs`);
-        return { html: html || '', linksAdded: [], totalLinks: 0 };
-    }
-    
-    const linksAdded: InternalLinkResult[] = [];
-    
-    const availableTargets = linkTargets.filter(t => {
-        if (!t?.url || !t?.title) return false;
-        if (currentUrl && t.url === currentUrl) return false;
-        return true;
-    }).slice(0, 30);
-    
-    log(`   🔗 Available targets: ${availableTargets.length}`);
-    
-    if (availableTargets.length === 0) {
-        return { html, linksAdded: [], totalLinks: 0 };
-    }
-    
-    const sectionSplitRegex = /(<h2[^>]*>)/gi;
-    const parts = html.split(sectionSplitRegex);
-    
-    log(`   🔗 Content split into ${parts.length} parts`);
-    
-    let totalLinksAdded = 0;
-    let targetIndex = 0;
-    let lastLinkWordPos = 0;
-    let currentWordPos = 0;
-    
-    const processedParts = parts.map((part, partIndex) => {
-        if (part.match(/<h2/i) || partIndex === 0) {
-            currentWordPos += countWords(part);
-            return part;
-        }
-        
-        if (totalLinksAdded >= LINK_CONFIG.MAX_TOTAL) {
-            currentWordPos += countWords(part);
-            return part;
-        }
-        
-        let sectionLinksAdded = 0;
-        let processedPart = part;
-        
-        const paraRegex = /<p[^>]*>([\s\S]{30,}?)<\/p>/gi;  // Reduced from 80 to 30
-
-
-        let match;
-        const paragraphs: Array<{ full: string; text: string; plainText: string; pos: number }> = [];
-        
-        while ((match = paraRegex.exec(part)) !== null) {
-            const plainText = match[1].replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-            paragraphs.push({ 
-                full: match[0], 
-                text: match[1], 
-                plainText,
-                pos: match.index 
-            });
-        }
-        
-        for (const para of paragraphs) {
-            if (sectionLinksAdded >= LINK_CONFIG.MAX_PER_SECTION) break;
-            if (totalLinksAdded >= LINK_CONFIG.MAX_TOTAL) break;
-            if (targetIndex >= availableTargets.length) break;
-            
-            const paraWordPos = currentWordPos + countWords(part.substring(0, para.pos));
-            
-            if (paraWordPos - lastLinkWordPos < LINK_CONFIG.MIN_WORDS_BETWEEN && linksAdded.length > 0) {
-                continue;
-            }
-            
-            const target = availableTargets[targetIndex];
-            const anchorText = findAnchorText(para.plainText, target, log, totalLinksAdded < 3);
-            
-            if (anchorText && anchorText.length >= 4) {
-                if (para.plainText.toLowerCase().includes(anchorText.toLowerCase())) {
-                    const link = `<a href="${escapeHtml(target.url)}" title="${escapeHtml(target.title)}">${anchorText}</a>`;
-                    
-                    const escapedAnchor = anchorText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                    const simpleRegex = new RegExp(`\\b${escapedAnchor}\\b`, 'i');
-                    
-                    const matchResult = para.full.match(simpleRegex);
-                    if (matchResult) {
-                        const matchIndex = para.full.search(simpleRegex);
-                        const beforeMatch = para.full.substring(0, matchIndex);
-                        
-                        const openBrackets = (beforeMatch.match(/<(?![^>]*>)/g) || []).length;
-                        const closeBrackets = (beforeMatch.match(/>/g) || []).length;
-                        const insideTag = openBrackets > closeBrackets;
-                        
-                        if (!insideTag) {
-                            const newPara = para.full.replace(simpleRegex, link);
-                            
-                            if (newPara !== para.full) {
-                                processedPart = processedPart.replace(para.full, newPara);
-                                linksAdded.push({ 
-                                    url: target.url, 
-                                    anchorText, 
-                                    relevanceScore: 0.8, 
-                                    position: paraWordPos 
-                                });
-                                sectionLinksAdded++;
-                                totalLinksAdded++;
-                                lastLinkWordPos = paraWordPos;
-                                
-                                log(`      ✅ Link ${totalLinksAdded}: "${anchorText}" → ${target.url.substring(0, 40)}...`);
-                            }
-                        }
-                    }
-                }
-            }
-            
-            targetIndex++;
-        }
-        
-        currentWordPos += countWords(part);
-        return processedPart;
+    log: LogFunction,
+    semanticPlan?: SemanticLinkPlan,
+    anchorGuard?: AnchorGuard
+): InternalLinkInjectionResult {
+    const result = runLinkEngine(html, linkTargets, {
+        currentUrl,
+        maxLinks: LINK_CONFIG.MAX_TOTAL,
+        maxLinksPerSection: LINK_CONFIG.MAX_PER_SECTION,
+        minDistanceBetweenLinks: LINK_CONFIG.MIN_WORDS_BETWEEN,
+        minRelevance: LINK_CONFIG.MIN_RELEVANCE,
+        linkIntro: false,
+        semanticPlan,
+        anchorGuard,
+        log
     });
-    
-    log(`   🔗 RESULT: ${totalLinksAdded} links injected`);
-    
-    return {
-        html: processedParts.join(''),
-        linksAdded,
-        totalLinks: totalLinksAdded
-    };
-}
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// 🔍 ANCHOR TEXT FINDER
-// ═══════════════════════════════════════════════════════════════════════════════
-
-function findAnchorText(
-    text: string, 
-    target: InternalLinkTarget, 
-    log: LogFunction,
-    verbose: boolean = false
-): string {
-    if (!text || !target?.title) {
-        return '';
-    }
-    
-    const textLower = text.toLowerCase();
-    const titleLower = target.title.toLowerCase();
-    
-    const stopWords = new Set([
-        'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 
-        'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 
-        'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 
-        'may', 'might', 'must', 'can', 'need', 'about', 'after', 'again', 'all', 
-        'any', 'because', 'before', 'between', 'both', 'during', 'each', 'few', 
-        'here', 'how', 'into', 'its', 'just', 'more', 'most', 'no', 'nor', 'not', 
-        'now', 'off', 'once', 'only', 'other', 'our', 'out', 'over', 'own', 'same', 
-        'so', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 
-        'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'up', 
-        'very', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'your', 
-        'best', 'top', 'guide', 'complete', 'ultimate', 'how', 'way', 'ways', 
-        'tips', 'step', 'steps', 'make', 'get', 'use', 'using', 'new', 'first',
-        'like', 'just', 'know', 'take', 'come', 'think', 'see', 'look', 'want',
-        'give', 'find', 'tell', 'become', 'leave', 'put', 'mean', 'keep', 'let',
-        'begin', 'seem', 'help', 'show', 'hear', 'play', 'run', 'move', 'live'
-    ]);
-    
-    const titleWords = titleLower
-        .replace(/[^a-z0-9\s]/g, ' ')
-        .split(/\s+/)
-        .filter(w => w.length >= 3 && !stopWords.has(w));
-    
-    if (titleWords.length === 0) {
-        return '';
-    }
-    
-    // Strategy 1: Find exact 2-4 word phrase from title
-    for (let len = Math.min(4, titleWords.length); len >= 2; len--) {
-        for (let start = 0; start <= titleWords.length - len; start++) {
-            const phrase = titleWords.slice(start, start + len).join(' ');
-            if (phrase.length >= 5 && phrase.length <= 40 && textLower.includes(phrase)) {
-                const idx = textLower.indexOf(phrase);
-                const result = text.substring(idx, idx + phrase.length);
-                if (verbose) log(`         → Strategy 1 MATCH: "${result}"`);
-                return result;
-            }
-        }
-    }
-    
-    // Strategy 2: Find important word (5+ chars) with adjacent word
-    const importantWords = titleWords.filter(w => w.length >= 5);
-    
-    for (const word of importantWords) {
-        const wordIdx = textLower.indexOf(word);
-        if (wordIdx === -1) continue;
-        
-        const actualWord = text.substring(wordIdx, wordIdx + word.length);
-        
-        const afterText = text.substring(wordIdx + word.length, wordIdx + word.length + 30);
-        const afterMatch = afterText.match(/^\s*([a-zA-Z]{3,15})/);
-        if (afterMatch && !stopWords.has(afterMatch[1].toLowerCase())) {
-            const anchor = `${actualWord} ${afterMatch[1]}`;
-            if (anchor.length >= 8 && anchor.length <= 35) {
-                if (verbose) log(`         → Strategy 2a MATCH: "${anchor}"`);
-                return anchor;
-            }
-        }
-        
-        const beforeText = text.substring(Math.max(0, wordIdx - 30), wordIdx);
-        const beforeMatch = beforeText.match(/([a-zA-Z]{3,15})\s*$/);
-        if (beforeMatch && !stopWords.has(beforeMatch[1].toLowerCase())) {
-            const anchor = `${beforeMatch[1]} ${actualWord}`;
-            if (anchor.length >= 8 && anchor.length <= 35) {
-                if (verbose) log(`         → Strategy 2b MATCH: "${anchor}"`);
-                return anchor;
-            }
-        }
-        
-        if (word.length >= 7) {
-            if (verbose) log(`         → Strategy 2c MATCH: "${actualWord}"`);
-            return actualWord;
-        }
-    }
-    
-    // Strategy 3: Find any 4+ char title word with adjacent word
-    for (const word of titleWords) {
-        if (word.length < 4) continue;
-        
-        const wordIdx = textLower.indexOf(word);
-        if (wordIdx === -1) continue;
-        
-        const actualWord = text.substring(wordIdx, wordIdx + word.length);
-        
-        const afterText = text.substring(wordIdx + word.length, wordIdx + word.length + 25);
-        const afterMatch = afterText.match(/^\s*([a-zA-Z]{3,12})/);
-        if (afterMatch && !stopWords.has(afterMatch[1].toLowerCase())) {
-            const anchor = `${actualWord} ${afterMatch[1]}`;
-            if (verbose) log(`         → Strategy 3a MATCH: "${anchor}"`);
-            return anchor;
-        }
-        
-        if (word.length >= 6) {
-            if (verbose) log(`         → Strategy 3b MATCH: "${actualWord}"`);
-            return actualWord;
-        }
-    }
-    
-    // Strategy 4: Use slug-derived words
-    if (target.slug && target.slug.length > 5) {
-        const slugWords = target.slug
-            .replace(/-/g, ' ')
-            .split(/\s+/)
-            .filter(w => w.length >= 4 && !stopWords.has(w));
-        
-        for (const word of slugWords) {
-            const wordIdx = textLower.indexOf(word);
-            if (wordIdx !== -1) {
-                const actualWord = text.substring(wordIdx, wordIdx + word.length);
-                
-                if (word.length >= 6) {
-                    if (verbose) log(`         → Strategy 4a MATCH: "${actualWord}"`);
-                    return actualWord;
-                }
-                
-                const afterText = text.substring(wordIdx + word.length, wordIdx + word.length + 20);
-                const afterMatch = afterText.match(/^\s*([a-zA-Z]{3,10})/);
-                if (afterMatch && !stopWords.has(afterMatch[1].toLowerCase())) {
-                    const anchor = `${actualWord} ${afterMatch[1]}`;
-                    if (verbose) log(`         → Strategy 4b MATCH: "${anchor}"`);
-                    return anchor;
-                }
-            }
-        }
-    }
-    
-    // Strategy 5: Generic contextual anchor from paragraph
-    const genericPhrases = text.match(/\b([a-zA-Z]{4,}(?:\s+[a-zA-Z]{4,}){1,2})\b/g);
-    if (genericPhrases && genericPhrases.length > 0) {
-        const badStartWords = new Set(['have', 'been', 'this', 'that', 'will', 'would', 'could', 'should', 'there', 'these', 'those', 'when', 'what', 'where', 'which', 'while', 'your', 'their', 'about', 'after', 'before', 'being', 'here', 'very', 'really', 'actually', 'basically', 'simply', 'just', 'even', 'also', 'only']);
-        const badEndWords = new Set(['here', 'there', 'been', 'being', 'have', 'this', 'that', 'very', 'really', 'much', 'well', 'just', 'also', 'only', 'even']);
-        
-        const validPhrases = genericPhrases.filter(p => {
-            const words = p.toLowerCase().split(' ');
-            const firstWord = words[0];
-            const lastWord = words[words.length - 1];
-            
-            return (
-                p.length >= 10 &&
-                p.length <= 35 &&
-                !stopWords.has(firstWord) &&
-                !badStartWords.has(firstWord) &&
-                !badEndWords.has(lastWord) &&
-                words.every(w => w.length >= 3) &&
-                !words.every(w => stopWords.has(w))
-            );
-        });
-        
-        if (validPhrases.length > 0) {
-            validPhrases.sort((a, b) => {
-                const aAvgLen = a.split(' ').reduce((sum, w) => sum + w.length, 0) / a.split(' ').length;
-                const bAvgLen = b.split(' ').reduce((sum, w) => sum + w.length, 0) / b.split(' ').length;
-                return bAvgLen - aAvgLen;
-            });
-            
-            const anchor = validPhrases[0];
-            if (verbose) log(`         → Strategy 5 MATCH (generic): "${anchor}"`);
-            return anchor;
-        }
-    }
-    
-    return '';
+    result.report.skipped.slice(0, 5).forEach(s => log(`      ⏭️ ${s.title.substring(0, 40)}: ${s.reason}`));
+    return result;
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// 🔍 JSON HEALING
-// ═══════════════════════════════════════════════════════════════════════════════
-
-function healJSON(rawText: string, log: LogFunction): { success: boolean; data?: any; error?: string } {
-    if (!rawText?.trim()) return { success: false, error: 'Empty response' };
-    
-    let text = rawText.trim();
-    
+// Semantic plan for the injector, or undefined to fall back to keyword matching
+async function planInternalLinks(html: string, config: GenerateConfig, log: LogFunction): Promise<SemanticLinkPlan | undefined> {
+    if (!config.semanticLinking?.settings.enabled || !config.internalLinks?.length) return undefined;
     try {
-        const parsed = JSON.parse(text);
-        if (parsed.htmlContent) return { success: true, data: parsed };
-    } catch {}
-    
-    const jsonBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonBlockMatch) {
-        try {
-            const parsed = JSON.parse(jsonBlockMatch[1].trim());
-            if (parsed.htmlContent) {
-                log('   ✓ JSON extracted from markdown');
-                return { success: true, data: parsed };
-            }
-        } catch {}
+        return await planSemanticLinks(html, config.internalLinks, config.semanticLinking, config.apiKeys, log);
+    } catch (e: any) {
+        log(`   ⚠️ Semantic link ranking failed, using keyword matching: ${e.message}`);
+        return undefined;
     }
-    
-    const firstBrace = text.indexOf('{');
-    const lastBrace = text.lastIndexOf('}');
-    if (firstBrace !== -1 && lastBrace > firstBrace) {
-        try {
-            const parsed = JSON.parse(text.slice(firstBrace, lastBrace + 1));
-            if (parsed.htmlContent) {
-                log('   ✓ JSON extracted by boundary detection');
-                return { success: true, data: parsed };
-            }
-        } catch {}
-    }
-    
-    let fixed = text.replace(/,(\s*[}\]])/g, '$1');
-    try {
-        const parsed = JSON.parse(fixed);
-        if (parsed.htmlContent) {
-            log('   ✓ JSON healed with syntax fixes');
-            return { success: true, data: parsed };
-        }
-    } catch {}
-    
-    const ob = (text.match(/\{/g) || []).length;
-    const cb = (text.match(/\}/g) || []).length;
-    if (ob > cb) {
-        let closedText = text + '}'.repeat(ob - cb);
-        try {
-            const parsed = JSON.parse(closedText);
-            if (parsed.htmlContent) {
-                log('   ✓ JSON healed by closing brackets');
-                return { success: true, data: parsed };
-            }
-        } catch {}
-    }
-    
-    return { success: false, error: `JSON parse failed` };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// 🔧 SYSTEM PROMPT
+// 🔧 PROMPT HELPERS
 // ═══════════════════════════════════════════════════════════════════════════════
 
-function buildSystemPrompt(config: { topic: string; targetWords: number }): string {
-    return `You are an expert SEO content writer. Generate comprehensive, human-written blog content.
-
-TARGET: ${config.targetWords}+ words of REAL, VALUABLE content about "${config.topic}".
-
-STRUCTURE RULES:
-• NEVER use H1 tags — WordPress provides the title
-• Use 8-12 H2 sections with 2-3 H3 subsections each
-• Include visual engagement elements naturally
-
-WRITING STYLE (Human, NOT AI):
-• Use contractions (don't, won't, you'll)
-• Short paragraphs (2-4 sentences max)
-• Mix sentence lengths
-• Address reader as "you"
-• Start sentences with And, But, So, Look
-
-BANNED PHRASES (NEVER USE):
-• "In today's fast-paced world"
-• "It's important to note"
-• "Let's dive in"
-• "Comprehensive guide"
-• "Leverage", "utilize", "delve"
-
-OUTPUT: Valid JSON only:
-{
-  "title": "string (50-60 chars)",
-  "metaDescription": "string (150-160 chars)",
-  "slug": "string",
-  "htmlContent": "string (all HTML)",
-  "excerpt": "string",
-  "faqs": [{"question": "string", "answer": "string"}],
-  "wordCount": number
-}
-
-⚠️ Return ONLY valid JSON.`;
+// Renders a stage's template (the site's edited one, or the built-in) with the run's variables
+function renderStagePrompt(config: GenerateConfig, key: PromptTemplateKey, vars: PromptVariables = {}): string {
+    return renderPrompt(key, {
+        ...buildPromptVariables({
+            topic: config.topic,
+            keyword: config.targetKeyword,
+            targetWords: config.targetWords,
+            siteContext: config.siteContext,
+            entityGap: config.entityGapData,
+            feedback: config.allFeedback
+        }),
+        ...vars
+    }, config.promptTemplates);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔌 LLM CALLERS
 // ═══════════════════════════════════════════════════════════════════════════════
 
+// Request options shared by callLLM and the routed/structured wrappers
+interface LLMRequestOptions {
+    temperature?: number;
+    maxTokens?: number;
+    responseSchema?: JsonSchema;
+    // Streams the response where the provider supports it
+    onStream?: StreamTextHandler;
+    // Aborting cancels the call with a GenerationCancelledError
+    signal?: AbortSignal;
+}
+
 async function callLLM(
     provider: string,
     apiKeys: any,
     model: string,
     userPrompt: string,
     systemPrompt: string,
-    options: { temperature?: number; maxTokens?: number },
+    options: LLMRequestOptions & { onUsage?: (usage: LLMUsage) => void; beforeCall?: () => void; stage?: LLMStage },
     timeoutMs: number,
     log: LogFunction
 ): Promise<string> {
-    const { temperature = 0.7, maxTokens = 8000 } = options;
+    const { temperature = 0.7 } = options;
+    const resolvedModel = model || defaultModelFor(provider as AIProvider, apiKeys);
+    // Per-model output limit, shrunk to fit the context window
+    const maxTokens = resolveMaxOutputTokens(provider as AIProvider, resolvedModel, options.maxTokens, userPrompt.length + systemPrompt.length);
+    
+    // Spend guard — throws before any tokens are bought
+    options.beforeCall?.();
+    if (options.signal?.aborted) throw new GenerationCancelledError();
     
     if (isCircuitOpen(provider)) throw new Error(`Circuit breaker OPEN for ${provider}`);
     
+    const callTimeoutMs = provider === 'local'
+        ? Math.max(timeoutMs * TIMEOUTS.LOCAL_MULTIPLIER, TIMEOUTS.LOCAL_MIN)
+        : timeoutMs;
+    
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const timeoutId = setTimeout(() => controller.abort(), callTimeoutMs);
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener('abort', cancel);
+    // Every provider gets the signal; the race also settles the call at once if one is slow to notice it
+    const timedOut = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(options.signal?.aborted
+            ? new GenerationCancelledError()
+            : new Error(`${provider} timeout after ${Math.round(callTimeoutMs / 1000)}s`)));
+    });
     
-    try {
-        let response: string;
-        
+    // Native JSON mode where the provider has one; the schema is validated afterwards either way
+    const schema = options.responseSchema;
+    const responseFormat = schema ? toResponseFormat(provider as AIProvider, schema) : undefined;
+    const onStream = options.onStream;
+    
+    const invoke = (): Promise<LLMCallResult> => {
+        if (llmTransport) {
+            return llmTransport({ provider: provider as AIProvider, stage: options.stage, model: resolvedModel, userPrompt, systemPrompt, schema }, onStream);
+        }
         switch (provider) {
             case 'google':
-                response = await callGemini(apiKeys.google, model, userPrompt, systemPrompt, temperature, maxTokens);
-                break;
+                return callGemini(apiKeys.google, resolvedModel, userPrompt, systemPrompt, temperature, maxTokens, controller.signal, schema, onStream);
             case 'openrouter':
-                response = await callOpenRouter(apiKeys.openrouter, apiKeys.openrouterModel || model, userPrompt, systemPrompt, temperature, maxTokens, controller.signal);
-                break;
+                return callOpenRouter(apiKeys.openrouter, resolvedModel, userPrompt, systemPrompt, temperature, maxTokens, controller.signal, responseFormat, onStream);
             case 'openai':
-                response = await callOpenAI(apiKeys.openai, 'gpt-4o', userPrompt, systemPrompt, temperature, maxTokens, controller.signal);
-                break;
+                return callOpenAI(apiKeys.openai, resolvedModel, userPrompt, systemPrompt, temperature, maxTokens, controller.signal, responseFormat, onStream);
             case 'anthropic':
-                response = await callAnthropic(apiKeys.anthropic, 'claude-sonnet-4-20250514', userPrompt, systemPrompt, temperature, maxTokens, controller.signal);
-                break;
+                return callAnthropic(apiKeys.anthropic, resolvedModel, userPrompt, systemPrompt, temperature, maxTokens, controller.signal, onStream);
             case 'groq':
-                response = await callGroq(apiKeys.groq, apiKeys.groqModel || 'llama-3.3-70b-versatile', userPrompt, systemPrompt, temperature, Math.min(maxTokens, 8000), controller.signal);
-                break;
+                return callGroq(apiKeys.groq, resolvedModel, userPrompt, systemPrompt, temperature, maxTokens, controller.signal, responseFormat, onStream);
+            case 'local':
+                return callLocal(apiKeys.localBaseUrl, apiKeys.local, resolvedModel, userPrompt, systemPrompt, temperature, maxTokens, controller.signal, responseFormat, onStream);
             default:
-                throw new Error(`Unknown provider: ${provider}`);
+                return Promise.reject(new Error(`Unknown provider: ${provider}`));
         }
+    };
+    
+    try {
+        const response = await Promise.race([invoke(), timedOut]);
         
         clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', cancel);
         recordSuccess(provider);
-        return response;
+        options.onUsage?.({
+            provider: provider as LLMUsage['provider'],
+            model: response.model,
+            promptTokens: response.promptTokens,
+            completionTokens: response.completionTokens
+        });
+        return response.text;
     } catch (error: any) {
         clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', cancel);
+        if (options.signal?.aborted) throw new GenerationCancelledError();
         if (error.message?.includes('401') || error.message?.includes('429') || error.message?.includes('500')) {
             recordFailure(provider, log);
         }
@@ -1318,62 +1032,265 @@ async function callLLM(
     }
 }
 
-async function callGemini(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number): Promise<string> {
+/**
+ * Calls the stage's route, moving down the fallback chain when a provider
+ * is unavailable (circuit open, 429, timeout). Other errors are thrown as-is.
+ * Every stage writes in the site's brand voice.
+ */
+async function callRoutedLLM(
+    config: GenerateConfig,
+    stage: LLMStage,
+    userPrompt: string,
+    systemPrompt: string,
+    options: LLMRequestOptions,
+    timeoutMs: number,
+    log: LogFunction,
+    stageModels: StageModelMap
+): Promise<string> {
+    const chain = resolveRouteChain(stage, { provider: config.provider, model: config.model }, config.routing, config.apiKeys);
+    const voicedSystemPrompt = withBrandVoice(systemPrompt, config.siteContext?.brandVoice);
+    
+    for (let i = 0; i < chain.length; i++) {
+        const route = chain[i];
+        try {
+            const text = await callLLM(
+                route.provider, config.apiKeys, route.model, userPrompt, voicedSystemPrompt,
+                { ...options, onUsage: config.onUsage, beforeCall: config.beforeLLMCall, stage }, timeoutMs, log
+            );
+            recordStageModel(stageModels, stage, route, i > 0);
+            return text;
+        } catch (error: any) {
+            const next = chain[i + 1];
+            // Cancellation aborts the request too — it must not look like an unavailable provider
+            if (!next || isGenerationCancelledError(error) || !isFallbackError(error)) throw error;
+            log(`   ↪️ ${route.provider} unavailable (${error.message}) — falling back to ${next.provider} / ${next.model}`);
+        }
+    }
+    
+    throw new Error(`No LLM route available for ${stage}`);
+}
+
+/**
+ * Routed call for JSON stages: requests native JSON mode, validates the
+ * answer against the schema and, when it fails, sends the field-level
+ * errors back for a repair round-trip. Invalid output is returned as a
+ * failed result so each stage keeps its own fallback.
+ */
+async function callStructuredLLM<T>(
+    config: GenerateConfig,
+    stage: LLMStage,
+    userPrompt: string,
+    systemPrompt: string,
+    schema: JsonSchema,
+    options: { temperature?: number; maxTokens?: number },
+    timeoutMs: number,
+    log: LogFunction,
+    stageModels: StageModelMap
+): Promise<StructuredResult<T>> {
+    const call = (prompt: string) => callRoutedLLM(
+        config, stage, prompt, systemPrompt, { ...options, responseSchema: schema }, timeoutMs, log, stageModels
+    );
+
+    let response = await call(userPrompt);
+    let result = parseStructuredOutput<T>(response, schema);
+
+    for (let round = 1; !result.success && round <= MAX_REPAIR_ROUNDS; round++) {
+        log(`   🔧 ${stage} output failed validation (${result.issues.length} issue${result.issues.length === 1 ? '' : 's'}) — requesting repair`);
+        formatSchemaIssues(result.issues, 5).forEach(line => log(`      → ${line}`));
+        response = await call(buildRepairPrompt(userPrompt, response, result.issues));
+        result = parseStructuredOutput<T>(response, schema);
+    }
+
+    if (result.success) return result;
+    log(`   ❌ ${stage} output still invalid after repair: ${formatSchemaIssues(result.issues, 3).join('; ')}`);
+    return result;
+}
+
+// Text plus the token counts the provider reports for billing
+export interface LLMCallResult {
+    text: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface LLMTransportRequest {
+    provider: AIProvider;
+    stage?: LLMStage;
+    model: string;
+    userPrompt: string;
+    systemPrompt: string;
+    schema?: JsonSchema;
+}
+
+export type LLMTransport = (request: LLMTransportRequest, onStream?: StreamTextHandler) => Promise<LLMCallResult>;
+
+// Test-only: answers every LLM call in place of the provider APIs (the offline
+// pipeline harness under testing/). Never set by the app.
+let llmTransport: LLMTransport | null = null;
+
+export function setLLMTransport(transport: LLMTransport | null): void {
+    llmTransport = transport;
+}
+
+// OpenAI-compatible APIs (OpenAI, OpenRouter, Groq) share one response shape
+function parseChatCompletion(data: any, model: string): LLMCallResult {
+    return {
+        text: data.choices?.[0]?.message?.content || '',
+        model: data.model || model,
+        promptTokens: data.usage?.prompt_tokens || 0,
+        completionTokens: data.usage?.completion_tokens || 0
+    };
+}
+
+async function callGemini(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal, responseSchema?: JsonSchema, onStream?: StreamTextHandler): Promise<LLMCallResult> {
     const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-        model: model || 'gemini-2.5-flash-preview-05-20',
+    const resolvedModel = model || 'gemini-2.5-flash-preview-05-20';
+    const params = {
+        model: resolvedModel,
         contents: userPrompt,
-        config: { systemInstruction: systemPrompt, temperature, maxOutputTokens: maxTokens }
-    });
-    return response.text || '';
+        config: {
+            abortSignal: signal,
+            systemInstruction: systemPrompt, temperature, maxOutputTokens: maxTokens,
+            ...(responseSchema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) })
+        }
+    };
+    
+    let text = '';
+    let usage: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number } | undefined;
+    if (onStream) {
+        // Usage metadata comes with the last chunk
+        for await (const chunk of await ai.models.generateContentStream(params)) {
+            if (signal.aborted) throw new GenerationCancelledError();
+            if (chunk.text) {
+                text += chunk.text;
+                onStream(text);
+            }
+            usage = chunk.usageMetadata || usage;
+        }
+    } else {
+        const response = await ai.models.generateContent(params);
+        text = response.text || '';
+        usage = response.usageMetadata;
+    }
+    return {
+        text,
+        model: resolvedModel,
+        promptTokens: usage?.promptTokenCount || 0,
+        // Thinking tokens are billed as output
+        completionTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0)
+    };
 }
 
-async function callOpenRouter(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal): Promise<string> {
+async function callOpenRouter(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal, responseFormat?: Record<string, unknown>, onStream?: StreamTextHandler): Promise<LLMCallResult> {
     const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
         method: 'POST',
         headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json', 'HTTP-Referer': 'https://wp-optimizer-pro.com', 'X-Title': 'WP Optimizer Pro' },
-        body: JSON.stringify({ model, messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens }),
+        body: JSON.stringify({ model, messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens, response_format: responseFormat, ...(onStream && { stream: true, stream_options: { include_usage: true } }) }),
         signal
     });
     if (!response.ok) throw new Error(`OpenRouter error ${response.status}`);
+    if (onStream) return readChatCompletionStream(response, model, onStream);
     const data = await response.json();
-    return data.choices?.[0]?.message?.content || '';
+    return parseChatCompletion(data, model);
 }
 
-async function callOpenAI(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal): Promise<string> {
+async function callOpenAI(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal, responseFormat?: Record<string, unknown>, onStream?: StreamTextHandler): Promise<LLMCallResult> {
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
         headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify({ model, messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens }),
+        body: JSON.stringify({ model, messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens, response_format: responseFormat, ...(onStream && { stream: true, stream_options: { include_usage: true } }) }),
         signal
     });
     if (!response.ok) throw new Error(`OpenAI error ${response.status}`);
+    if (onStream) return readChatCompletionStream(response, model, onStream);
     const data = await response.json();
-    return data.choices?.[0]?.message?.content || '';
+    return parseChatCompletion(data, model);
 }
 
-async function callAnthropic(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal): Promise<string> {
+async function callAnthropic(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal, onStream?: StreamTextHandler): Promise<LLMCallResult> {
     const response = await fetch('https://api.anthropic.com/v1/messages', {
         method: 'POST',
         headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json', 'anthropic-version': '2023-06-01' },
-        body: JSON.stringify({ model, system: systemPrompt, messages: [{ role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens }),
+        body: JSON.stringify({ model, system: systemPrompt, messages: [{ role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens, stream: !!onStream }),
         signal
     });
     if (!response.ok) throw new Error(`Anthropic error ${response.status}`);
+    if (onStream) return readAnthropicStream(response, model, onStream);
     const data = await response.json();
-    return data.content?.[0]?.text || '';
+    return {
+        text: data.content?.[0]?.text || '',
+        model: data.model || model,
+        promptTokens: data.usage?.input_tokens || 0,
+        completionTokens: data.usage?.output_tokens || 0
+    };
 }
 
-async function callGroq(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal): Promise<string> {
+async function callGroq(apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal, responseFormat?: Record<string, unknown>, onStream?: StreamTextHandler): Promise<LLMCallResult> {
     const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
         method: 'POST',
         headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify({ model, messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens }),
+        body: JSON.stringify({ model, messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens, response_format: responseFormat, ...(onStream && { stream: true, stream_options: { include_usage: true } }) }),
         signal
     });
     if (!response.ok) throw new Error(`Groq error ${response.status}`);
+    if (onStream) return readChatCompletionStream(response, model, onStream);
+    const data = await response.json();
+    return parseChatCompletion(data, model);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🖥️ LOCAL OPENAI-COMPATIBLE SERVER (Ollama / llama.cpp / vLLM)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// "http://localhost:11434" and "http://localhost:11434/v1/" both become ".../v1"
+export function normalizeLocalBaseUrl(baseUrl: string): string {
+    const trimmed = (baseUrl || '').trim().replace(/\/+$/, '');
+    if (!trimmed) return '';
+    return /\/v1$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+function localHeaders(apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+    return headers;
+}
+
+async function callLocal(baseUrl: string, apiKey: string, model: string, userPrompt: string, systemPrompt: string, temperature: number, maxTokens: number, signal: AbortSignal, responseFormat?: Record<string, unknown>, onStream?: StreamTextHandler): Promise<LLMCallResult> {
+    const base = normalizeLocalBaseUrl(baseUrl);
+    if (!base) throw new Error('Local provider base URL not configured');
+    if (!model) throw new Error('Local provider model not configured');
+    
+    const response = await fetch(`${base}/chat/completions`, {
+        method: 'POST',
+        headers: localHeaders(apiKey),
+        body: JSON.stringify({ model, messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }], temperature, max_tokens: maxTokens, response_format: responseFormat, stream: !!onStream }),
+        signal
+    });
+    if (!response.ok) throw new Error(`Local LLM error ${response.status}`);
+    if (onStream) return readChatCompletionStream(response, model, onStream);
     const data = await response.json();
-    return data.choices?.[0]?.message?.content || '';
+    return parseChatCompletion(data, model);
+}
+
+// Model IDs served by the endpoint (GET /v1/models)
+export async function discoverLocalModels(baseUrl: string, apiKey: string = ''): Promise<string[]> {
+    const base = normalizeLocalBaseUrl(baseUrl);
+    if (!base) throw new Error('Enter the server base URL first');
+    
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUTS.LOCAL_MODEL_DISCOVERY);
+    try {
+        const response = await fetch(`${base}/models`, { headers: localHeaders(apiKey), signal: controller.signal });
+        if (!response.ok) throw new Error(`Model discovery failed: HTTP ${response.status}`);
+        const data = await response.json();
+        return (data.data || data.models || [])
+            .map((m: any) => m.id || m.name)
+            .filter((id: any): id is string => typeof id === 'string' && id.length > 0)
+            .sort();
+    } finally {
+        clearTimeout(timeoutId);
+    }
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -1412,54 +1329,38 @@ class AIOrchestrator {
         
         let youtubeVideo: YouTubeVideoData | null = null;
         let references: DiscoveredReference[] = [];
+        const stageModels: StageModelMap = {};
         
         try {
             // ═══════════════════════════════════════════════════════════════
             // STAGE 1: GENERATE OUTLINE
             // ═══════════════════════════════════════════════════════════════
             
-            onStageProgress?.({ stage: 'outline', progress: 10, message: 'Generating content outline...' });
-            log(`📋 Stage 1: Generating content outline...`);
+            let outline: ContentOutline;
             
-            const outlinePrompt = `Create a detailed content outline for: "${config.topic}"
-
-Output JSON:
-{
-  "title": "Compelling title (50-60 chars)",
-  "metaDescription": "Meta description (150-160 chars)",
-  "slug": "url-friendly-slug",
-  "sections": [
-    {
-      "heading": "H2 Section Title",
-      "keyPoints": ["Point 1", "Point 2"],
-      "subsections": [{"heading": "H3 Title", "keyPoints": ["Detail"]}]
-    }
-  ],
-  "faqTopics": ["Question 1?", "Question 2?"],
-  "keyTakeaways": ["Takeaway 1", "Takeaway 2"]
-}
-
-REQUIREMENTS:
-- 8-12 main sections (H2s)
-- 2-3 subsections (H3s) per section
-- 8-10 FAQ topics
-- 5-7 key takeaways
-
-Return ONLY valid JSON.`;
+            if (config.resumeFrom?.outline?.sections?.length) {
+                outline = config.resumeFrom.outline;
+                log(`♻️ Stage 1: Outline restored from checkpoint`);
+            } else {
+                onStageProgress?.({ stage: 'outline', progress: 10, message: 'Generating content outline...' });
+                log(`📋 Stage 1: Generating content outline...`);
+            
+                const outlinePrompt = renderStagePrompt(config, 'outline');
 
-            const outlineResponse = await callLLM(
-                config.provider, config.apiKeys, config.model, outlinePrompt,
-                buildSystemPrompt({ topic: config.topic, targetWords: CONTENT_TARGETS.TARGET_WORDS }),
-                { temperature: 0.7, maxTokens: 4000 }, TIMEOUTS.OUTLINE_GENERATION, log
-            );
+                const outlineParsed = await callStructuredLLM<ContentOutline>(
+                    config, 'outline', outlinePrompt,
+                    'You are an expert SEO content strategist. Output only valid JSON matching the requested outline.',
+                    OUTLINE_SCHEMA, { temperature: 0.7, maxTokens: 4000 }, TIMEOUTS.OUTLINE_GENERATION, log, stageModels
+                );
+                if (!outlineParsed.success) {
+                    log(`   ❌ Outline generation failed, falling back to single-shot`);
+                    return this.generateSingleShot(config, log);
+                }
             
-            const outlineParsed = healJSON(outlineResponse, log);
-            if (!outlineParsed.success || !outlineParsed.data?.sections?.length) {
-                log(`   ❌ Outline generation failed, falling back to single-shot`);
-                return this.generateSingleShot(config, log);
+                outline = outlineParsed.data;
+                config.onCheckpoint?.({ outline, sections: [] });
             }
             
-            const outline: ContentOutline = outlineParsed.data;
             log(`   ✅ Outline: ${outline.sections.length} sections, ${outline.faqTopics?.length || 0} FAQs`);
             
             // ═══════════════════════════════════════════════════════════════
@@ -1507,37 +1408,83 @@ Return ONLY valid JSON.`;
             
             const sections: string[] = [];
             
+            // Sections restored from a checkpoint are matched by index and heading
+            const completedSections: GeneratedSection[] = (config.resumeFrom?.sections || [])
+                .filter(s => s.success && outline.sections[s.index]?.heading === s.heading);
+            if (completedSections.length > 0) {
+                log(`   ♻️ ${completedSections.length}/${outline.sections.length} sections restored from checkpoint`);
+            }
+            
+            const emitSection = (index: number, heading: string, html: string, status: SectionStreamStatus) =>
+                config.onSectionStream?.({ index, heading, html, status });
+            
             for (let i = 0; i < outline.sections.length; i += 2) {
+                throwIfCancelled(config.cancellation);
                 const batch = outline.sections.slice(i, i + 2);
                 
                 const batchResults = await Promise.all(batch.map(async (section, batchIdx) => {
                     const sectionIdx = i + batchIdx;
+                    
+                    const restored = completedSections.find(s => s.index === sectionIdx);
+                    if (restored) {
+                        emitSection(sectionIdx, section.heading, restored.html, 'done');
+                        return restored.html;
+                    }
+                    
                     log(`   📝 Section ${sectionIdx + 1}/${outline.sections.length}: "${section.heading.substring(0, 40)}..."`);
                     
-                    const sectionPrompt = `Write section ${sectionIdx + 1} for a blog post about "${config.topic}".
-
-SECTION: ${section.heading}
-KEY POINTS: ${section.keyPoints.join(', ')}
-SUBSECTIONS: ${section.subsections.map(s => s.heading).join(', ')}
-
-TARGET: 300-450 words.
-OUTPUT: HTML only, starting with <h2>. Include H3 subsections.
-NO JSON wrapper. NO markdown.`;
-
+                    const sectionPrompt = renderStagePrompt(config, 'section', {
+                        sectionNumber: sectionIdx + 1,
+                        section: {
+                            heading: section.heading,
+                            keyPoints: section.keyPoints,
+                            subsections: section.subsections.map(s => s.heading)
+                        }
+                    });
+
+                    // Polls the shared token so a section can be stopped before its first token arrives
+                    const sectionAbort = new AbortController();
+                    const cancelWatch = setInterval(() => {
+                        if (isSectionCancelled(config.cancellation, sectionIdx)) sectionAbort.abort();
+                    }, CANCELLATION_POLL_MS);
+                    const stream = config.onSectionStream
+                        ? createStreamEmitter(text => emitSection(sectionIdx, section.heading, cleanHtmlResponse(text), 'streaming'))
+                        : null;
+                    
                     try {
-                        const response = await callLLM(
-                            config.provider, config.apiKeys, config.model, sectionPrompt,
+                        const response = await callRoutedLLM(
+                            config, 'sections', sectionPrompt,
                             'You are an expert content writer. Output only clean HTML.',
-                            { temperature: 0.75, maxTokens: 3000 }, TIMEOUTS.SECTION_GENERATION, log
+                            { temperature: 0.75, maxTokens: 3000, onStream: stream?.push, signal: sectionAbort.signal },
+                            TIMEOUTS.SECTION_GENERATION, log, stageModels
                         );
                         
-                        let html = response.trim().replace(/^```(?:html)?\s*/i, '').replace(/\s*```$/i, '');
+                        let html = cleanHtmlResponse(response);
                         const wordCount = countWords(html);
                         log(`      ✅ ${wordCount} words`);
+                        stream?.stop();
+                        emitSection(sectionIdx, section.heading, html, 'done');
+                        
+                        completedSections.push({ index: sectionIdx, heading: section.heading, html, wordCount, success: true });
+                        config.onCheckpoint?.({ outline, sections: [...completedSections] });
                         return html;
                     } catch (err: any) {
+                        // No throttled preview may land after the final status
+                        stream?.stop();
+                        if (isBudgetExceededError(err)) throw err;
+                        if (isGenerationCancelledError(err)) {
+                            throwIfCancelled(config.cancellation);
+                            // Only this section was cancelled — leave it out and keep going
+                            log(`      ⏭️ Section ${sectionIdx + 1} cancelled — skipped`);
+                            emitSection(sectionIdx, section.heading, '', 'cancelled');
+                            return '';
+                        }
                         log(`      ❌ Failed: ${err.message}`);
+                        emitSection(sectionIdx, section.heading, '', 'failed');
                         return `<h2>${escapeHtml(section.heading)}</h2><p>[Content generation failed for this section]</p>`;
+                    } finally {
+                        clearInterval(cancelWatch);
+                        stream?.stop();
                     }
                 }));
                 
@@ -1561,38 +1508,25 @@ NO JSON wrapper. NO markdown.`;
             // STAGE 4: GENERATE FAQ
             // ═══════════════════════════════════════════════════════════════
             
+            throwIfCancelled(config.cancellation);
             log(`❓ Stage 4: Generating FAQ section...`);
             
             let faqs: Array<{ question: string; answer: string }> = [];
             
             if (outline.faqTopics?.length > 0) {
-                const faqPrompt = `Write detailed FAQ answers for these questions about "${config.topic}":
-
-${outline.faqTopics.slice(0, 8).map((q, i) => `${i + 1}. ${q}`).join('\n')}
-
-OUTPUT: JSON array only:
-[{"question": "...", "answer": "80-150 word answer"}]
-
-Return ONLY the JSON array.`;
+                const faqPrompt = renderStagePrompt(config, 'faq', { faqTopics: outline.faqTopics.slice(0, 8) });
 
                 try {
-                    const faqResponse = await callLLM(
-                        config.provider, config.apiKeys, config.model, faqPrompt,
+                    const faqParsed = await callStructuredLLM<FAQList>(
+                        config, 'faq', faqPrompt,
                         'You are an expert content writer. Output only valid JSON.',
-                        { temperature: 0.7, maxTokens: 4000 }, TIMEOUTS.SECTION_GENERATION, log
+                        FAQ_LIST_SCHEMA, { temperature: 0.7, maxTokens: 4000 }, TIMEOUTS.SECTION_GENERATION, log, stageModels
                     );
-                    
-                    const faqParsed = healJSON(`{"faqs":${faqResponse}}`, log);
-                    if (faqParsed.success && Array.isArray(faqParsed.data?.faqs)) {
-                        faqs = faqParsed.data.faqs;
-                    } else {
-                        try {
-                            const directParse = JSON.parse(faqResponse.trim());
-                            if (Array.isArray(directParse)) faqs = directParse;
-                        } catch {}
-                    }
+                    if (!faqParsed.success) throw new Error('FAQ output failed schema validation');
+                    faqs = faqParsed.data.faqs;
                     log(`   ✅ ${faqs.length} FAQs generated`);
                 } catch (err: any) {
+                    if (isBudgetExceededError(err)) throw err;
                     log(`   ⚠️ FAQ generation failed: ${err.message}`);
                     faqs = outline.faqTopics.slice(0, 8).map(q => ({ question: q, answer: `This is a common question about ${config.topic}. The answer depends on your specific situation.` }));
                 }
@@ -1602,51 +1536,39 @@ Return ONLY the JSON array.`;
             // STAGE 5: GENERATE INTRO & CONCLUSION
             // ═══════════════════════════════════════════════════════════════
             
+            throwIfCancelled(config.cancellation);
             onStageProgress?.({ stage: 'merge', progress: 75, message: 'Generating intro & conclusion...' });
             log(`📝 Stage 5: Generating intro & conclusion...`);
             
             let introHtml = '';
             try {
-                const introPrompt = `Write an engaging 250-350 word introduction for a blog post titled: "${outline.title}"
-Topic: ${config.topic}
-
-Include:
-1. Compelling hook
-2. What the reader will learn
-3. Why this matters
+                const introPrompt = renderStagePrompt(config, 'intro', { title: outline.title });
 
-OUTPUT: HTML only, starting with <p>. NO heading.`;
-
-                const introResponse = await callLLM(
-                    config.provider, config.apiKeys, config.model, introPrompt,
+                const introResponse = await callRoutedLLM(
+                    config, 'intro', introPrompt,
                     'You are an expert content writer. Output only clean HTML.',
-                    { temperature: 0.7, maxTokens: 2000 }, TIMEOUTS.SECTION_GENERATION, log
+                    { temperature: 0.7, maxTokens: 2000 }, TIMEOUTS.SECTION_GENERATION, log, stageModels
                 );
                 introHtml = introResponse.replace(/^```(?:html)?\s*/i, '').replace(/\s*```$/i, '').trim();
                 log(`   ✅ Introduction: ${countWords(introHtml)} words`);
-            } catch {
+            } catch (err: any) {
+                if (isBudgetExceededError(err)) throw err;
                 introHtml = `<p>${escapeHtml(config.topic)} is a topic that deserves careful attention. In this comprehensive guide, you'll discover everything you need to know to achieve your goals.</p>`;
             }
             
             let conclusionHtml = '';
             try {
-                const conclusionPrompt = `Write a strong 200-300 word conclusion for a blog post about "${config.topic}".
+                const conclusionPrompt = renderStagePrompt(config, 'conclusion');
 
-Include:
-1. Summary of key points
-2. Call to action
-3. Next steps
-
-OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`;
-
-                const conclusionResponse = await callLLM(
-                    config.provider, config.apiKeys, config.model, conclusionPrompt,
+                const conclusionResponse = await callRoutedLLM(
+                    config, 'conclusion', conclusionPrompt,
                     'You are an expert content writer. Output only clean HTML.',
-                    { temperature: 0.7, maxTokens: 2000 }, TIMEOUTS.SECTION_GENERATION, log
+                    { temperature: 0.7, maxTokens: 2000 }, TIMEOUTS.SECTION_GENERATION, log, stageModels
                 );
                 conclusionHtml = conclusionResponse.replace(/^```(?:html)?\s*/i, '').replace(/\s*```$/i, '').trim();
                 log(`   ✅ Conclusion: ${countWords(conclusionHtml)} words`);
-            } catch {
+            } catch (err: any) {
+                if (isBudgetExceededError(err)) throw err;
                 conclusionHtml = `<h2>Conclusion</h2><p>Now you have all the tools and knowledge you need to succeed with ${escapeHtml(config.topic)}. The key is to take action and apply what you've learned consistently.</p>`;
             }
             
@@ -1722,6 +1644,7 @@ OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`;
             // STAGE 7: INTERNAL LINKS
             // ═══════════════════════════════════════════════════════════════
             
+            let internalLinkReport: InternalLinkReport | undefined;
             if (config.internalLinks && config.internalLinks.length > 0) {
                 log(`🔗 Stage 7: Injecting internal links...`);
                 
@@ -1729,10 +1652,13 @@ OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`;
                     assembledContent,
                     config.internalLinks,
                     '',
-                    log
+                    log,
+                    await planInternalLinks(assembledContent, config, log),
+                    config.anchorDiversity
                 );
                 
                 assembledContent = linkResult.html;
+                internalLinkReport = linkResult.report;
             }
             
             const finalWordCount = countWords(assembledContent);
@@ -1745,7 +1671,9 @@ OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`;
                 htmlContent: assembledContent,
                 excerpt: outline.metaDescription,
                 faqs,
-                wordCount: finalWordCount
+                wordCount: finalWordCount,
+                internalLinkReport,
+                stageModels
             };
             
             onStageProgress?.({ stage: 'validation', progress: 100, message: 'Complete!' });
@@ -1763,6 +1691,8 @@ OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`;
             };
             
         } catch (error: any) {
+            // Out of budget or cancelled — falling back would only spend more
+            if (isBudgetExceededError(error) || isGenerationCancelledError(error)) throw error;
             log(`❌ Staged generation failed: ${error.message}`);
             log(`   → Falling back to single-shot...`);
             return this.generateSingleShot(config, log);
@@ -1779,6 +1709,7 @@ OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`;
         
         let youtubeVideo: YouTubeVideoData | null = null;
         let references: DiscoveredReference[] = [];
+        const stageModels: StageModelMap = {};
         
         // ═══════════════════════════════════════════════════════════════
         // STEP 1: START PARALLEL TASKS
@@ -1832,54 +1763,22 @@ OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`;
         // STEP 2: GENERATE CONTENT
         // ═══════════════════════════════════════════════════════════════
         
-        const humanPrompt = `You're writing like Alex Hormozi meets Tim Ferriss. Punchy, personal, valuable.
-
-Write a ${CONTENT_TARGETS.TARGET_WORDS}+ word blog post about: "${config.topic}"
-
-⚠️ CRITICAL: Do NOT include FAQ section in htmlContent. We add FAQs separately.
-
-VOICE RULES:
-• Write like texting a smart friend
-• Use contractions: don't, won't, can't, you'll, here's
-• Start sentences with: Look, Here's the thing, And, But, So, Now
-• 1-3 sentences MAX per paragraph
-• Wrap ALL text in <p> tags
-
-STRUCTURE:
-• 8-12 H2 sections, each with 2-3 H3 subsections
-• NO H1 tags
-• Use proper <p>, <h2>, <h3>, <ul>, <li> tags
-
-FORBIDDEN: "In today's", "It's important to note", "Let's dive in", "Comprehensive guide", "Leverage", "Utilize"
-
-OUTPUT (VALID JSON ONLY):
-{
-  "title": "Title (50-60 chars)",
-  "metaDescription": "Meta (150-160 chars)",
-  "slug": "url-slug",
-  "htmlContent": "Full HTML with <p>, <h2>, <h3>",
-  "excerpt": "2-3 sentence summary",
-  "faqs": [{"question": "...", "answer": "80-150 words"}],
-  "wordCount": number
-}
-
-⚠️ Return ONLY valid JSON.`;
+        const humanPrompt = renderStagePrompt(config, 'single_shot', { targetWords: CONTENT_TARGETS.TARGET_WORDS });
 
         for (let attempt = 1; attempt <= 3; attempt++) {
+            throwIfCancelled(config.cancellation);
             log(`   📝 Content attempt ${attempt}/3...`);
             
             try {
-                const response = await callLLM(
-                    config.provider, config.apiKeys, config.model, humanPrompt,
+                const parsed = await callStructuredLLM<ContentContract>(
+                    config, 'single_shot', humanPrompt,
                     'You are an elite content creator. Never sound formal or robotic.',
-                    { temperature: 0.78 + (attempt - 1) * 0.04, maxTokens: 16000 },
-                    TIMEOUTS.SINGLE_SHOT, log
+                    CONTENT_CONTRACT_SCHEMA, { temperature: 0.78 + (attempt - 1) * 0.04, maxTokens: 16000 },
+                    TIMEOUTS.SINGLE_SHOT, log, stageModels
                 );
                 
-                const parsed = healJSON(response, log);
-                
-                if (parsed.success && parsed.data?.htmlContent) {
-                    const rawContract = parsed.data as ContentContract;
+                if (parsed.success) {
+                    const rawContract = parsed.data;
                     
                     // ═══════════════════════════════════════════════════════════
                     // STEP 3: WAIT FOR BOTH PARALLEL TASKS — CRITICAL FIX!
@@ -2234,6 +2133,7 @@ OUTPUT (VALID JSON ONLY):
                     // STEP 7: INTERNAL LINKS — FIXED ANCHOR TEXT
                     // ═══════════════════════════════════════════════════════════
                     
+                    let internalLinkReport: InternalLinkReport | undefined;
                     if (config.internalLinks?.length > 0) {
                         log(`   🔗 Injecting ${config.internalLinks.length} internal links...`);
                         
@@ -2241,17 +2141,22 @@ OUTPUT (VALID JSON ONLY):
                             assembledContent,
                             config.internalLinks,
                             '',
-                            log
+                            log,
+                            await planInternalLinks(assembledContent, config, log),
+                            config.anchorDiversity
                         );
                         
                         assembledContent = linkResult.html;
+                        internalLinkReport = linkResult.report;
                         log(`   ✅ ${linkResult.totalLinks} links injected`);
                     }
                     
                     const finalContract: ContentContract = {
                         ...rawContract,
                         htmlContent: assembledContent,
-                        wordCount: countWords(assembledContent)
+                        internalLinkReport,
+                        wordCount: countWords(assembledContent),
+                        stageModels
                     };
                     
                     log(`   📊 Final: ${finalContract.wordCount} words`);
@@ -2269,6 +2174,7 @@ OUTPUT (VALID JSON ONLY):
                     }
                 }
             } catch (err: any) {
+                if (isBudgetExceededError(err) || isGenerationCancelledError(err)) throw err;
                 log(`   ❌ Attempt ${attempt} error: ${err.message}`);
             }
             
@@ -2291,22 +2197,11 @@ OUTPUT (VALID JSON ONLY):
 
 export const orchestrator = new AIOrchestrator();
 
-export const VALID_GEMINI_MODELS: Record<string, string> = {
-    'gemini-2.5-flash-preview-05-20': 'Gemini 2.5 Flash Preview',
-    'gemini-2.5-pro-preview-05-06': 'Gemini 2.5 Pro Preview',
-    'gemini-2.0-flash': 'Gemini 2.0 Flash',
-    'gemini-1.5-pro': 'Gemini 1.5 Pro',
-};
+export const VALID_GEMINI_MODELS: Record<string, string> = Object.fromEntries(
+    getProviderModels('google').map(m => [m.id, m.label])
+);
 
-export const OPENROUTER_MODELS = [
-    'anthropic/claude-sonnet-4',
-    'anthropic/claude-opus-4',
-    'google/gemini-2.5-flash-preview',
-    'google/gemini-2.5-pro-preview',
-    'openai/gpt-4o',
-    'deepseek/deepseek-chat',
-    'meta-llama/llama-3.3-70b-instruct',
-];
+export const OPENROUTER_MODELS = getProviderModels('openrouter').map(m => m.id);
 
 export default orchestrator;
 
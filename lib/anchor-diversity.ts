@@ -0,0 +1,403 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — ANCHOR TEXT DIVERSITY
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// The same exact-match anchor on every link to a page reads as manipulation:
+// ✅ Remembers every anchor pointing at each page — crawled and published
+// ✅ Classifies anchors as exact, partial, branded or generic
+// ✅ Target mix per type with a tolerance and a cap on exact-match repeats
+// ✅ Link injectors ask for the anchor the target's profile needs most
+// ✅ Per-target distribution report for the link analytics
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+    AnchorDiversitySettings, AnchorMix, AnchorType, AnchorUsage, AnchorUsageIndex, SiteLinkGraph,
+    TargetAnchorUsage
+} from '../types';
+import { linkKey, resolveInternalUrl } from './link-graph';
+
+export const ANCHOR_DIVERSITY_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// What an anchor is judged against
+export interface AnchorTerms {
+    url: string;
+    title: string;
+    slug?: string;
+    keywords?: string[];
+}
+
+export interface AnchorGuard {
+    settings: AnchorDiversitySettings;
+    usage: AnchorUsageIndex;
+    // Site or organisation name; anchors containing it are 'branded'
+    brand: string;
+}
+
+export interface AnchorChoice {
+    anchor: string;
+    type: AnchorType;
+}
+
+export type AnchorProfileStatus = 'healthy' | 'over-optimized' | 'thin';
+
+export interface AnchorProfile {
+    url: string;
+    title: string;
+    total: number;
+    counts: Record<AnchorType, number>;
+    shares: AnchorMix;
+    // Types above their share plus the tolerance
+    overOptimized: AnchorType[];
+    // Exact-match anchors used more than maxExactRepeats times
+    repeatedExact: string[];
+    topAnchors: Array<{ anchor: string; count: number }>;
+    status: AnchorProfileStatus;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const ANCHOR_TYPES: AnchorType[] = ['exact', 'partial', 'branded', 'generic'];
+
+export const DEFAULT_ANCHOR_MIX: AnchorMix = {
+    exact: 0.2,
+    partial: 0.5,
+    branded: 0.1,
+    generic: 0.2
+};
+
+export const DEFAULT_ANCHOR_DIVERSITY_SETTINGS: AnchorDiversitySettings = {
+    enabled: true,
+    targetMix: DEFAULT_ANCHOR_MIX,
+    tolerance: 0.15,
+    maxExactRepeats: 3
+};
+
+// Below this many anchors a profile is too thin to call over-optimized
+export const MIN_PROFILE_SAMPLE = 5;
+
+// Found in running text, never written into it. Only phrases that read as
+// pointing elsewhere: "this guide" or "this post" names the page it's on
+const GENERIC_ANCHOR_PHRASES = ['learn more', 'read more', 'find out more'];
+
+// Words that neither make an anchor exact nor relate it to a page
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'for', 'to', 'of', 'in', 'on', 'at', 'by', 'with',
+    'from', 'is', 'are', 'your', 'you', 'how', 'what', 'why', 'when', 'our', 'my', 'this',
+    'that', 'guide', 'complete', 'ultimate', 'best', 'article', 'post', 'tips', 'vs'
+]);
+
+const MAX_TOP_ANCHORS = 5;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function significantWords(text: string): string[] {
+    return (text || '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+        .replace(/-/g, ' ')
+        .split(/\s+/)
+        .filter(w => w.length > 1 && !STOP_WORDS.has(w));
+}
+
+function normalizeAnchor(anchor: string): string {
+    return anchor.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function slugOf(url: string): string {
+    try {
+        return new URL(url).pathname.split('/').filter(Boolean).pop() || '';
+    } catch {
+        return url.split('/').filter(Boolean).pop() || '';
+    }
+}
+
+function decodeText(html: string): string {
+    return html
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&#8217;|&rsquo;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function emptyCounts(): Record<AnchorType, number> {
+    return { exact: 0, partial: 0, branded: 0, generic: 0 };
+}
+
+function addUsage(index: AnchorUsageIndex, terms: AnchorTerms, usage: AnchorUsage): void {
+    const key = linkKey(terms.url);
+    const entry = index[key] || (index[key] = { url: terms.url, title: terms.title, anchors: [] });
+    if (!entry.title && terms.title) entry.title = terms.title;
+    entry.anchors.push(usage);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏷️ CLASSIFICATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Anchor type relative to the page it points at. Exact means the anchor's
+ * significant words are the page's keyword (or its slug) or its title.
+ */
+export function classifyAnchor(anchor: string, terms: AnchorTerms, brand: string): AnchorType {
+    const words = significantWords(anchor);
+    const brandWords = significantWords(brand);
+    if (brandWords.length > 0 && brandWords.every(w => words.includes(w))) return 'branded';
+
+    const slugWords = significantWords(terms.slug || slugOf(terms.url));
+    const keywordWords = terms.keywords?.[0] ? significantWords(terms.keywords[0]) : slugWords;
+    const titleWords = significantWords(terms.title);
+
+    const joined = words.join(' ');
+    if (words.length > 0 && (joined === keywordWords.join(' ') || joined === titleWords.join(' '))) return 'exact';
+
+    const vocabulary = new Set([...keywordWords, ...titleWords, ...slugWords]);
+    return words.some(w => vocabulary.has(w)) ? 'partial' : 'generic';
+}
+
+// Generic anchor phrases present in the text, as written there
+export function findGenericAnchors(text: string): string[] {
+    const found: string[] = [];
+    for (const phrase of GENERIC_ANCHOR_PHRASES) {
+        const match = new RegExp(`(?<![\\p{L}\\p{N}])${phrase.replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu').exec(text);
+        if (match) found.push(match[0]);
+    }
+    return found;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 ANCHOR CHOICE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * The candidate whose type the target's profile is shortest of, or null
+ * when every candidate would over-optimize it. Candidates are in preference
+ * order; ties keep that order. `pending` are anchors chosen in the same run
+ * that aren't in the usage index yet.
+ */
+export function chooseAnchor(
+    candidates: string[],
+    terms: AnchorTerms,
+    guard: AnchorGuard,
+    pending: AnchorUsage[] = []
+): AnchorChoice | null {
+    if (candidates.length === 0) return null;
+    if (!guard.settings.enabled) {
+        return { anchor: candidates[0], type: classifyAnchor(candidates[0], terms, guard.brand) };
+    }
+
+    const { targetMix, tolerance, maxExactRepeats } = guard.settings;
+    const anchors = [...(guard.usage[linkKey(terms.url)]?.anchors || []), ...pending];
+    const counts = emptyCounts();
+    const exactRepeats = new Map<string, number>();
+    anchors.forEach(a => {
+        counts[a.type]++;
+        if (a.type === 'exact') exactRepeats.set(normalizeAnchor(a.anchor), (exactRepeats.get(normalizeAnchor(a.anchor)) || 0) + 1);
+    });
+    const total = anchors.length;
+
+    let best: AnchorChoice | null = null;
+    let bestDeficit = -Infinity;
+    const seen = new Set<string>();
+
+    for (const anchor of candidates) {
+        const key = normalizeAnchor(anchor);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+
+        const type = classifyAnchor(anchor, terms, guard.brand);
+        if (type === 'exact' && (exactRepeats.get(key) || 0) >= maxExactRepeats) continue;
+        if (total + 1 >= MIN_PROFILE_SAMPLE && (counts[type] + 1) / (total + 1) > targetMix[type] + tolerance) continue;
+
+        const deficit = targetMix[type] - (total > 0 ? counts[type] / total : 0);
+        if (deficit > bestDeficit) {
+            best = { anchor, type };
+            bestDeficit = deficit;
+        }
+    }
+
+    return best;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📥 USAGE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Usage index holding a single anchor
+export function anchorUsageEntry(
+    terms: AnchorTerms,
+    sourceUrl: string,
+    anchor: string,
+    brand: string,
+    origin: AnchorUsage['origin']
+): AnchorUsageIndex {
+    const index: AnchorUsageIndex = {};
+    addUsage(index, terms, { sourceUrl, anchor, type: classifyAnchor(anchor, terms, brand), origin, recordedAt: Date.now() });
+    return index;
+}
+
+/**
+ * Internal links of an article's HTML as anchor usage. Targets not in
+ * `targets` are judged by their URL slug.
+ */
+export function extractAnchorUsage(
+    html: string,
+    sourceUrl: string,
+    siteUrl: string,
+    targets: AnchorTerms[],
+    brand: string,
+    origin: AnchorUsage['origin']
+): AnchorUsageIndex {
+    const index: AnchorUsageIndex = {};
+    let siteHost = '';
+    try {
+        siteHost = new URL(siteUrl || sourceUrl).hostname.replace(/^www\./, '').toLowerCase();
+    } catch {
+        return index;
+    }
+
+    const byKey = new Map(targets.map(t => [linkKey(t.url), t]));
+    const sourceKey = linkKey(sourceUrl);
+    const recordedAt = Date.now();
+
+    for (const match of (html || '').matchAll(/<a\b[^>]*?href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+        const url = resolveInternalUrl(match[1], sourceUrl, siteHost);
+        const anchor = decodeText(match[2]);
+        if (!url || !anchor || linkKey(url) === sourceKey) continue;
+
+        const terms = byKey.get(linkKey(url)) || { url, title: '' };
+        addUsage(index, terms, { sourceUrl, anchor, type: classifyAnchor(anchor, terms, brand), origin, recordedAt });
+    }
+    return index;
+}
+
+// Body link anchors of a crawled link graph, judged against the target page titles
+export function anchorUsageFromLinkGraph(graph: SiteLinkGraph, brand: string): AnchorUsageIndex {
+    const index: AnchorUsageIndex = {};
+    const titles = new Map(graph.nodes.map(n => [n.url, n.title]));
+
+    graph.edges.forEach(edge => {
+        if (!edge.inContent || !edge.anchor?.trim()) return;
+        const terms = { url: edge.to, title: titles.get(edge.to) || '' };
+        addUsage(index, terms, {
+            sourceUrl: edge.from,
+            anchor: edge.anchor.trim(),
+            type: classifyAnchor(edge.anchor, terms, brand),
+            origin: 'crawl',
+            recordedAt: graph.builtAt
+        });
+    });
+    return index;
+}
+
+/**
+ * Adds `incoming` to the index. Existing anchors from a replaced source page
+ * or origin are dropped first, and an incoming anchor replaces the same
+ * anchor text from the same page.
+ */
+export function mergeAnchorUsage(
+    index: AnchorUsageIndex,
+    incoming: AnchorUsageIndex,
+    replace: { sourceUrl?: string; origin?: AnchorUsage['origin'] } = {}
+): AnchorUsageIndex {
+    const replacedSource = replace.sourceUrl ? linkKey(replace.sourceUrl) : null;
+    const usageKey = (a: AnchorUsage) => `${linkKey(a.sourceUrl)}|${normalizeAnchor(a.anchor)}`;
+    const merged: AnchorUsageIndex = {};
+
+    Object.entries(index || {}).forEach(([key, entry]) => {
+        const anchors = entry.anchors.filter(a =>
+            a.origin !== replace.origin && (!replacedSource || linkKey(a.sourceUrl) !== replacedSource));
+        if (anchors.length > 0) merged[key] = { ...entry, anchors };
+    });
+
+    Object.entries(incoming).forEach(([key, entry]) => {
+        const existing = merged[key];
+        const incomingKeys = new Set(entry.anchors.map(usageKey));
+        merged[key] = {
+            url: existing?.url || entry.url,
+            title: entry.title || existing?.title || '',
+            anchors: [...(existing?.anchors || []).filter(a => !incomingKeys.has(usageKey(a))), ...entry.anchors]
+        };
+    });
+
+    return merged;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 PROFILES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildAnchorProfile(entry: TargetAnchorUsage, settings: AnchorDiversitySettings): AnchorProfile {
+    const counts = emptyCounts();
+    const texts = new Map<string, { anchor: string; count: number; type: AnchorType }>();
+
+    entry.anchors.forEach(a => {
+        counts[a.type]++;
+        const key = normalizeAnchor(a.anchor);
+        const text = texts.get(key) || { anchor: a.anchor, count: 0, type: a.type };
+        text.count++;
+        texts.set(key, text);
+    });
+
+    const total = entry.anchors.length;
+    const shares = emptyCounts();
+    ANCHOR_TYPES.forEach(type => { shares[type] = total > 0 ? counts[type] / total : 0; });
+
+    const overOptimized = total >= MIN_PROFILE_SAMPLE
+        ? ANCHOR_TYPES.filter(type => shares[type] > settings.targetMix[type] + settings.tolerance)
+        : [];
+    const repeatedExact = [...texts.values()]
+        .filter(t => t.type === 'exact' && t.count > settings.maxExactRepeats)
+        .map(t => t.anchor);
+
+    return {
+        url: entry.url,
+        title: entry.title,
+        total,
+        counts,
+        shares,
+        overOptimized,
+        repeatedExact,
+        topAnchors: [...texts.values()]
+            .sort((a, b) => b.count - a.count)
+            .slice(0, MAX_TOP_ANCHORS)
+            .map(({ anchor, count }) => ({ anchor, count })),
+        status: overOptimized.length > 0 || repeatedExact.length > 0 ? 'over-optimized'
+            : total < MIN_PROFILE_SAMPLE ? 'thin'
+            : 'healthy'
+    };
+}
+
+// Every target's profile, over-optimized first, then by number of anchors
+export function buildAnchorProfiles(index: AnchorUsageIndex, settings: AnchorDiversitySettings): AnchorProfile[] {
+    const rank: Record<AnchorProfileStatus, number> = { 'over-optimized': 0, healthy: 1, thin: 2 };
+    return Object.values(index || {})
+        .map(entry => buildAnchorProfile(entry, settings))
+        .sort((a, b) => rank[a.status] - rank[b.status] || b.total - a.total);
+}
+
+export default {
+    ANCHOR_DIVERSITY_VERSION,
+    ANCHOR_TYPES,
+    DEFAULT_ANCHOR_MIX,
+    DEFAULT_ANCHOR_DIVERSITY_SETTINGS,
+    MIN_PROFILE_SAMPLE,
+    classifyAnchor,
+    findGenericAnchors,
+    chooseAnchor,
+    anchorUsageEntry,
+    extractAnchorUsage,
+    anchorUsageFromLinkGraph,
+    mergeAnchorUsage,
+    buildAnchorProfile,
+    buildAnchorProfiles
+};
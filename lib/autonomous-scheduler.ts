@@ -0,0 +1,223 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — AUTONOMOUS SCHEDULER
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Continuous optimization loop driven by AutonomousConfig:
+// ✅ Picks the highest-opportunity page below targetScore
+// ✅ Runs up to maxParallel jobs, starting one per minInterval
+// ✅ Stops when maxRuntime is spent or no candidates remain
+// ✅ Skips pages optimized within skipRecentMs
+// ✅ Optional stop on first error; spend budgets always halt the run
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AutonomousConfig, AutonomousRunState, SitemapPage, TokenUsageTotals } from '../types';
+import { formatCost } from './usage-accounting';
+
+export const AUTONOMOUS_SCHEDULER_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface AutonomousJobResult {
+    success: boolean;
+    score: number;
+    error?: string;
+    pendingApproval?: boolean;
+    usage?: TokenUsageTotals;
+    // Stops the whole run regardless of stopOnError (e.g. a spend budget was hit)
+    haltRun?: string;
+}
+
+export interface AutonomousSchedulerDeps {
+    getConfig: () => AutonomousConfig;
+    // Called only when a slot is free — may rescore pages before returning them
+    getPages: () => SitemapPage[];
+    runJob: (pageId: string) => Promise<AutonomousJobResult>;
+    onStateChange: (updates: Partial<AutonomousRunState>) => void;
+    log: (msg: string) => void;
+}
+
+export interface AutonomousScheduler {
+    start: () => void;
+    // Lets running jobs finish; no new jobs are started
+    stop: (reason?: string) => void;
+    isRunning: () => boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const TICK_MS = 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 CANDIDATE SELECTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Next page to optimize: below target, idle, not awaiting approval, not
+ * published within skipRecentMs and not already tried in this run.
+ * Highest opportunity first.
+ */
+export function selectNextCandidate(
+    pages: SitemapPage[],
+    config: AutonomousConfig,
+    exclude: Set<string>,
+    now: number = Date.now()
+): SitemapPage | null {
+    const candidates = pages.filter(page => {
+        if (exclude.has(page.id)) return false;
+        if (page.jobState?.status === 'running') return false;
+        if (page.status === 'awaiting_approval') return false;
+        if (page.healthScore !== null && page.healthScore >= config.targetScore) return false;
+        if (page.lastPublishedAt && now - page.lastPublishedAt < config.skipRecentMs) return false;
+        return true;
+    });
+
+    candidates.sort((a, b) => (b.opportunity?.total ?? 0) - (a.opportunity?.total ?? 0));
+    return candidates[0] || null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🚀 SCHEDULER FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createAutonomousScheduler(deps: AutonomousSchedulerDeps): AutonomousScheduler {
+    let running = false;
+    let finished = true;
+    let stopReason: string | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let startedAt = 0;
+    let nextStartAt = 0;
+    let counts = { processed: 0, succeeded: 0, failed: 0, costUsd: 0, tokens: 0 };
+
+    const active = new Set<string>();
+    // Each page is attempted at most once per run so a failing page can't loop
+    const attempted = new Set<string>();
+
+    const finish = () => {
+        if (finished) return;
+        finished = true;
+        deps.onStateChange({ status: 'stopped', endedAt: Date.now(), stopReason, activeJobs: [], nextStartAt: null });
+        deps.log(`🤖 AUTONOMOUS STOPPED: ${stopReason} | ${counts.succeeded} ok, ${counts.failed} failed | ${formatCost(counts.costUsd)}`);
+    };
+
+    const requestStop = (reason: string) => {
+        if (!running) return;
+        running = false;
+        stopReason = reason;
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        if (active.size > 0) {
+            deps.onStateChange({ status: 'stopping', stopReason: reason, nextStartAt: null });
+            deps.log(`🤖 Stopping after ${active.size} running job(s): ${reason}`);
+        } else {
+            finish();
+        }
+    };
+
+    const launch = (page: SitemapPage) => {
+        active.add(page.id);
+        attempted.add(page.id);
+        nextStartAt = Date.now() + deps.getConfig().minInterval;
+        deps.onStateChange({ activeJobs: Array.from(active), nextStartAt });
+        deps.log(`🤖 Picked "${page.title}" (opportunity ${page.opportunity?.total ?? '?'}, score ${page.healthScore ?? '--'})`);
+
+        deps.runJob(page.id)
+            .catch((e: any): AutonomousJobResult => ({ success: false, score: 0, error: e?.message || String(e) }))
+            .then(result => {
+                active.delete(page.id);
+                counts.processed++;
+                if (result.success) counts.succeeded++;
+                else counts.failed++;
+                if (result.usage) {
+                    counts.costUsd += result.usage.costUsd;
+                    counts.tokens += result.usage.promptTokens + result.usage.completionTokens;
+                }
+
+                deps.onStateChange({
+                    ...counts,
+                    activeJobs: Array.from(active),
+                    ...(result.success ? {} : { lastError: `${page.title}: ${result.error || 'Unknown error'}` })
+                });
+
+                if (result.haltRun) {
+                    requestStop(result.haltRun);
+                } else if (!result.success && deps.getConfig().stopOnError) {
+                    requestStop(`Stopped on error — ${result.error || 'Unknown error'}`);
+                }
+                if (!running && active.size === 0) {
+                    finish();
+                }
+            });
+    };
+
+    const tick = () => {
+        timer = null;
+        if (!running) return;
+
+        const config = deps.getConfig();
+        const now = Date.now();
+
+        if (now - startedAt >= config.maxRuntime) {
+            requestStop('Runtime budget reached');
+            return;
+        }
+
+        if (active.size < Math.max(1, config.maxParallel) && now >= nextStartAt) {
+            const exclude = new Set([...active, ...attempted]);
+            const next = selectNextCandidate(deps.getPages(), config, exclude, now);
+
+            if (next) {
+                launch(next);
+            } else if (active.size === 0) {
+                requestStop('No pages below target score');
+                return;
+            }
+        }
+
+        timer = setTimeout(tick, TICK_MS);
+    };
+
+    return {
+        start: () => {
+            // Also refuse while a previous run is still draining
+            if (running || !finished) return;
+            running = true;
+            finished = false;
+            stopReason = null;
+            startedAt = Date.now();
+            nextStartAt = 0;
+            counts = { processed: 0, succeeded: 0, failed: 0, costUsd: 0, tokens: 0 };
+            attempted.clear();
+
+            const config = deps.getConfig();
+            deps.onStateChange({
+                status: 'running',
+                startedAt,
+                endedAt: null,
+                stopReason: null,
+                activeJobs: [],
+                lastError: null,
+                nextStartAt: null,
+                ...counts
+            });
+            deps.log(`🤖 AUTONOMOUS START: target ${config.targetScore}% | ${config.maxParallel} parallel | ` +
+                `${Math.round(config.minInterval / 1000)}s interval | ${Math.round(config.maxRuntime / 60000)}m budget`);
+            tick();
+        },
+
+        stop: (reason = 'Stopped by user') => requestStop(reason),
+
+        isRunning: () => running
+    };
+}
+
+export default {
+    AUTONOMOUS_SCHEDULER_VERSION,
+    createAutonomousScheduler,
+    selectNextCandidate
+};
@@ -9,6 +9,9 @@
 // ✓ Alex Hormozi-style copywriting patterns
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import { PromptTemplateSet } from '../types';
+import { renderPrompt } from './prompt-templates';
+
 export interface MainContentSection {
   heading: string;
   headingLevel: 'h2' | 'h3';
@@ -50,43 +53,10 @@ export function generateMainContentPrompt(
   keyword: string,
   title: string,
   existingQA: string,
-  config: BlogContentGeneratorConfig = DEFAULT_CONFIG
+  config: BlogContentGeneratorConfig = DEFAULT_CONFIG,
+  templates?: PromptTemplateSet
 ): string {
-  return `You are an expert content creator writing an ENTERPRISE-GRADE blog post about "${keyword}".
-
-TITLE: ${title}
-
-CRITICAL REQUIREMENTS:
-1. Generate EXACTLY ${config.minSections}-${config.maxSections} detailed H2 sections
-2. Each H2 must have ${config.minParagraphsPerSection}-${config.maxParagraphsPerSection} rich paragraphs
-3. Each paragraph must be ${config.minWordsPerParagraph}-${config.maxWordsPerParagraph} words
-4. Use Alex Hormozi copywriting style: Problem-Agitate-Solve (PAS) framework
-5. Include specific examples, statistics, and actionable insights
-6. Write for SOLOPRENEURS and BUSINESS BUILDERS (not beginners)
-7. Focus on TRANSFORMATION and RESULTS, not features
-8. Include strategic internal link anchor candidates (marked with |ANCHOR:term|)
-
-CONTENT STRUCTURE:
-- Start with compelling hook that builds curiosity
-- Each section should solve ONE specific problem
-- Use transition sentences between sections
-- Include data, research, and expert opinions
-- End each section with actionable takeaway
-
-STYLE GUIDE:
-- Power words: "proven", "guaranteed", "revolutionary", "breakthrough"
-- Emotional triggers: curiosity, FOMO, aspiration
-- Voice: Direct, conversational, no fluff
-- Sentence structure: Mix short punchy sentences with detailed explanations
-- Specificity: Use exact numbers, percentages, timeframes
-
-DELIVER AS MARKDOWN with proper H2 (##) formatting.
-Each section must stand alone but also connect to the larger narrative.
-
-QUICK ANSWER CONTEXT (for reference, don't repeat):
-${existingQA}
-
-Now write the comprehensive main content sections.`;
+  return renderPrompt('blog_main_content', { keyword, topic: keyword, title, existingQA, config }, templates);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,297 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — BRAND VOICE PROFILES
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Per-site writing style, applied on the way in and checked on the way out:
+// ✅ Tone, reading level, spelling locale, formatting rules and voice samples
+// ✅ Banned terms and preferred replacements
+// ✅ Prompt block appended to every generation stage's system prompt
+// ✅ QA agent that flags banned terms, avoided terms, off-locale spelling and reading level
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { BrandVoiceProfile, PreferredTerm, QAValidationResult, SpellingLocale } from '../types';
+
+export const BRAND_VOICE_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface TermHit {
+    term: string;
+    count: number;
+}
+
+export interface SpellingHit {
+    found: string;
+    expected: string;
+    count: number;
+}
+
+export interface BrandVoiceAudit {
+    bannedHits: TermHit[];
+    avoidedHits: Array<TermHit & { use: string }>;
+    spellingHits: SpellingHit[];
+    readingGrade: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Starting point for a new profile and fallback for fields an older one lacks.
+// Sites that never saved a profile get no voice rules at all.
+export const DEFAULT_BRAND_VOICE: BrandVoiceProfile = {
+    tone: 'Conversational, direct and confident. Write like an expert talking to a peer — never formal or robotic.',
+    readingLevel: 8,
+    bannedTerms: [
+        "In today's", "It's important to note", "Let's dive in", 'Comprehensive guide',
+        'In conclusion', 'Game-changer', 'Unlock the power', 'Navigate the landscape'
+    ],
+    preferredTerms: [
+        { avoid: 'utilize', use: 'use' },
+        { avoid: 'leverage', use: 'use' },
+        { avoid: 'in order to', use: 'to' }
+    ],
+    spellingLocale: 'en-US',
+    formattingRules: [
+        'Paragraphs of 2-4 sentences',
+        'Use lists or tables when comparing three or more items',
+        'Bold only the single most important phrase in a section'
+    ],
+    sampleParagraphs: []
+};
+
+export const SPELLING_LOCALE_LABELS: Record<SpellingLocale, string> = {
+    'en-US': 'American English',
+    'en-GB': 'British English',
+    'en-AU': 'Australian English',
+    'en-CA': 'Canadian English'
+};
+
+// Reading level within this many grades of the target passes; up to the warning margin warns
+const READING_LEVEL_TOLERANCE = 1;
+const READING_LEVEL_WARNING_MARGIN = 3;
+
+// Off-locale spellings tolerated before the check fails instead of warning
+const MAX_SPELLING_WARNINGS = 3;
+
+type SpellingRule = 'our' | 'ise' | 're' | 'other';
+
+// [American, British, rule] — Canada follows British for -our/-re and American for -ize;
+// for the rest it goes word by word (CANADIAN_BRITISH_SPELLINGS)
+const SPELLING_PAIRS: Array<[string, string, SpellingRule]> = [
+    ['color', 'colour', 'our'], ['colors', 'colours', 'our'],
+    ['favorite', 'favourite', 'our'], ['favorites', 'favourites', 'our'],
+    ['behavior', 'behaviour', 'our'], ['behaviors', 'behaviours', 'our'],
+    ['honor', 'honour', 'our'], ['labor', 'labour', 'our'],
+    ['neighbor', 'neighbour', 'our'], ['flavor', 'flavour', 'our'],
+    ['organize', 'organise', 'ise'], ['organized', 'organised', 'ise'],
+    ['organization', 'organisation', 'ise'], ['organizations', 'organisations', 'ise'],
+    ['optimize', 'optimise', 'ise'], ['optimized', 'optimised', 'ise'],
+    ['optimization', 'optimisation', 'ise'], ['realize', 'realise', 'ise'],
+    ['recognize', 'recognise', 'ise'], ['prioritize', 'prioritise', 'ise'],
+    ['customize', 'customise', 'ise'], ['customized', 'customised', 'ise'],
+    ['analyze', 'analyse', 'ise'], ['analyzed', 'analysed', 'ise'],
+    ['center', 'centre', 're'], ['centers', 'centres', 're'],
+    ['liter', 'litre', 're'], ['fiber', 'fibre', 're'],
+    ['catalog', 'catalogue', 'other'], ['defense', 'defence', 'other'],
+    ['gray', 'grey', 'other'], ['traveled', 'travelled', 'other'],
+    ['jewelry', 'jewellery', 'other'], ['aluminum', 'aluminium', 'other']
+];
+
+// 'other' words Canadian English spells the British way — the rest (aluminum) stay American
+const CANADIAN_BRITISH_SPELLINGS = new Set(['catalogue', 'defence', 'grey', 'travelled', 'jewellery']);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 PROFILE HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Voice applies only to sites with a saved profile — undefined otherwise
+export function resolveBrandVoice(profile?: BrandVoiceProfile): BrandVoiceProfile | undefined {
+    return profile ? { ...DEFAULT_BRAND_VOICE, ...profile } : undefined;
+}
+
+// "avoid => use" per line, as edited in the settings panel
+export function parsePreferredTerms(text: string): PreferredTerm[] {
+    return text
+        .split('\n')
+        .map(line => line.split(/=>|→/).map(part => part.trim()))
+        .filter(([avoid, use]) => avoid && use)
+        .map(([avoid, use]) => ({ avoid, use }));
+}
+
+export function formatPreferredTerms(terms: PreferredTerm[]): string {
+    return terms.map(t => `${t.avoid} => ${t.use}`).join('\n');
+}
+
+function usesBritishSpelling(locale: SpellingLocale, rule: SpellingRule, british: string): boolean {
+    if (locale === 'en-US') return false;
+    if (locale === 'en-CA') {
+        if (rule === 'other') return CANADIAN_BRITISH_SPELLINGS.has(british);
+        return rule === 'our' || rule === 're';
+    }
+    return true;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 PROMPT BLOCK
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildBrandVoiceBlock(profile: BrandVoiceProfile): string {
+    const lines = [
+        'BRAND VOICE (follow exactly):',
+        `- Tone: ${profile.tone}`,
+        `- Reading level: grade ${profile.readingLevel} — short sentences and plain words`,
+        `- Spelling: ${SPELLING_LOCALE_LABELS[profile.spellingLocale]} (${profile.spellingLocale})`
+    ];
+    if (profile.bannedTerms.length > 0) {
+        lines.push(`- Never use: ${profile.bannedTerms.map(t => `"${t}"`).join(', ')}`);
+    }
+    if (profile.preferredTerms.length > 0) {
+        lines.push(`- Preferred terms: ${profile.preferredTerms.map(t => `"${t.use}" not "${t.avoid}"`).join('; ')}`);
+    }
+    if (profile.formattingRules.length > 0) {
+        lines.push('', 'FORMATTING RULES:', ...profile.formattingRules.map(r => `- ${r}`));
+    }
+    const samples = profile.sampleParagraphs.map(p => p.trim()).filter(Boolean);
+    if (samples.length > 0) {
+        lines.push('', 'VOICE SAMPLES (match the style, never copy the text):', ...samples.map(p => `"""${p}"""`));
+    }
+    return lines.join('\n');
+}
+
+export function withBrandVoice(systemPrompt: string, profile?: BrandVoiceProfile): string {
+    const resolved = resolveBrandVoice(profile);
+    return resolved ? `${systemPrompt}\n\n${buildBrandVoiceBlock(resolved)}` : systemPrompt;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔍 AUDIT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function countTerm(text: string, term: string): number {
+    const trimmed = term.trim();
+    if (!trimmed) return 0;
+    // Word boundaries only where the term starts/ends with a word character
+    const start = /^\w/.test(trimmed) ? '\\b' : '';
+    const end = /\w$/.test(trimmed) ? '\\b' : '';
+    const pattern = new RegExp(`${start}${escapeRegExp(trimmed).replace(/'/g, "['’]")}${end}`, 'gi');
+    return (text.match(pattern) || []).length;
+}
+
+function countSyllables(word: string): number {
+    const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (cleaned.length <= 3) return 1;
+    const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+    return Math.max(1, groups?.length || 0);
+}
+
+// Flesch-Kincaid grade level of plain text
+export function estimateReadingGrade(text: string): number {
+    const words: string[] = text.match(/[A-Za-z][A-Za-z'’-]*/g) || [];
+    if (words.length === 0) return 0;
+    const sentences = Math.max(1, (text.match(/[.!?]+(?=\s|$)/g) || []).length);
+    const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+    const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+    return Math.max(0, Math.round(grade * 10) / 10);
+}
+
+export function auditBrandVoice(text: string, profile: BrandVoiceProfile): BrandVoiceAudit {
+    const bannedHits = profile.bannedTerms
+        .map(term => ({ term, count: countTerm(text, term) }))
+        .filter(hit => hit.count > 0);
+
+    const avoidedHits = profile.preferredTerms
+        .map(t => ({ term: t.avoid, use: t.use, count: countTerm(text, t.avoid) }))
+        .filter(hit => hit.count > 0);
+
+    const spellingHits = SPELLING_PAIRS
+        .map(([us, gb, rule]) => {
+            const british = usesBritishSpelling(profile.spellingLocale, rule, gb);
+            const found = british ? us : gb;
+            return { found, expected: british ? gb : us, count: countTerm(text, found) };
+        })
+        .filter(hit => hit.count > 0);
+
+    return { bannedHits, avoidedHits, spellingHits, readingGrade: estimateReadingGrade(text) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ✅ QA AGENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const sumCounts = (hits: Array<{ count: number }>) => hits.reduce((sum, h) => sum + h.count, 0);
+
+export function runBrandVoiceAgent(text: string, profile: BrandVoiceProfile): QAValidationResult[] {
+    const audit = auditBrandVoice(text, profile);
+    const results: QAValidationResult[] = [];
+
+    const banned = sumCounts(audit.bannedHits);
+    results.push({
+        agent: 'Banned Terms',
+        category: 'voice',
+        status: banned === 0 ? 'passed' : 'failed',
+        score: Math.max(0, 100 - banned * 20),
+        feedback: banned === 0
+            ? 'No banned terms'
+            : `Banned terms used: ${audit.bannedHits.map(h => `"${h.term}" ×${h.count}`).join(', ')}`,
+        fixSuggestion: banned > 0 ? 'Rewrite the sentences that use banned terms' : undefined,
+        details: { hits: audit.bannedHits }
+    });
+
+    const avoided = sumCounts(audit.avoidedHits);
+    results.push({
+        agent: 'Preferred Terms',
+        category: 'voice',
+        status: avoided === 0 ? 'passed' : 'warning',
+        score: Math.max(0, 100 - avoided * 10),
+        feedback: avoided === 0
+            ? 'Preferred terminology used'
+            : `${avoided} avoided term(s): ${audit.avoidedHits.map(h => `"${h.term}" → "${h.use}"`).join(', ')}`,
+        fixSuggestion: avoided > 0 ? 'Swap avoided terms for the preferred ones' : undefined,
+        details: { hits: audit.avoidedHits }
+    });
+
+    const misspelled = sumCounts(audit.spellingHits);
+    results.push({
+        agent: 'Spelling Locale',
+        category: 'voice',
+        status: misspelled === 0 ? 'passed' : misspelled <= MAX_SPELLING_WARNINGS ? 'warning' : 'failed',
+        score: Math.max(0, 100 - misspelled * 10),
+        feedback: misspelled === 0
+            ? `Consistent ${SPELLING_LOCALE_LABELS[profile.spellingLocale]}`
+            : `${misspelled} off-locale spelling(s): ${audit.spellingHits.map(h => `${h.found} → ${h.expected}`).join(', ')}`,
+        fixSuggestion: misspelled > 0 ? `Use ${SPELLING_LOCALE_LABELS[profile.spellingLocale]} spelling` : undefined,
+        details: { hits: audit.spellingHits }
+    });
+
+    const overBy = audit.readingGrade - profile.readingLevel;
+    results.push({
+        agent: 'Reading Level',
+        category: 'voice',
+        status: overBy <= READING_LEVEL_TOLERANCE ? 'passed' : overBy <= READING_LEVEL_WARNING_MARGIN ? 'warning' : 'failed',
+        score: Math.max(0, Math.min(100, 100 - Math.max(0, overBy - READING_LEVEL_TOLERANCE) * 15)),
+        feedback: `Grade ${audit.readingGrade} (target: ${profile.readingLevel})`,
+        fixSuggestion: overBy > READING_LEVEL_TOLERANCE ? 'Shorten sentences and swap long words for plain ones' : undefined,
+        details: { grade: audit.readingGrade, target: profile.readingLevel }
+    });
+
+    return results;
+}
+
+export default {
+    BRAND_VOICE_VERSION,
+    DEFAULT_BRAND_VOICE,
+    SPELLING_LOCALE_LABELS,
+    resolveBrandVoice,
+    parsePreferredTerms,
+    formatPreferredTerms,
+    buildBrandVoiceBlock,
+    withBrandVoice,
+    estimateReadingGrade,
+    auditBrandVoice,
+    runBrandVoiceAgent
+};
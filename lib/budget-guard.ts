@@ -0,0 +1,134 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — SPEND BUDGET GUARDRAILS
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Hard limits on LLM and Serper spend:
+// ✅ Max dollars per article, per day and per bulk/autonomous run
+// ✅ Max Serper queries per day
+// ✅ Daily counters roll over at local midnight
+// ✅ Distinct error type so callers can halt runs instead of retrying
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { SpendBudget, DailySpend, BudgetViolation, BudgetScope } from '../types';
+
+export const BUDGET_GUARD_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface SpendSnapshot {
+    // Spend of the current optimization attempt
+    articleCostUsd: number;
+    // Spend since the current bulk/autonomous run started (null outside runs)
+    runCostUsd: number | null;
+    daily: DailySpend;
+}
+
+export class BudgetExceededError extends Error {
+    readonly violation: BudgetViolation;
+
+    constructor(violation: BudgetViolation) {
+        super(describeBudgetViolation(violation));
+        this.name = 'BudgetExceededError';
+        this.violation = violation;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// 0 = no limit
+export const DEFAULT_SPEND_BUDGET: SpendBudget = {
+    maxCostPerArticle: 0,
+    maxCostPerDay: 0,
+    maxCostPerRun: 0,
+    maxSerperQueriesPerDay: 0
+};
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+    article: 'per-article budget',
+    day: 'daily budget',
+    run: 'run budget',
+    serper_day: 'daily Serper query limit'
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📅 DAILY COUNTERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Local calendar day, YYYY-MM-DD
+export function todayKey(now: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function createDailySpend(date: string = todayKey()): DailySpend {
+    return { date, costUsd: 0, serperQueries: 0 };
+}
+
+// Returns today's counters, starting fresh when the stored ones are from another day
+export function currentDailySpend(daily: DailySpend | undefined, now: Date = new Date()): DailySpend {
+    const today = todayKey(now);
+    return daily && daily.date === today ? daily : createDailySpend(today);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛑 CHECKS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const exceeds = (limit: number, spent: number) => limit > 0 && spent >= limit;
+
+/**
+ * First dollar budget already used up, or null. Checked before spending more —
+ * the call that crosses a limit completes, the next one is refused. The Serper
+ * query cap is not part of this: it is checked where queries are issued.
+ */
+export function checkSpendBudget(budget: SpendBudget, snapshot: SpendSnapshot): BudgetViolation | null {
+    const daily = currentDailySpend(snapshot.daily);
+
+    if (exceeds(budget.maxCostPerArticle, snapshot.articleCostUsd)) {
+        return { scope: 'article', limit: budget.maxCostPerArticle, spent: snapshot.articleCostUsd };
+    }
+    if (snapshot.runCostUsd !== null && exceeds(budget.maxCostPerRun, snapshot.runCostUsd)) {
+        return { scope: 'run', limit: budget.maxCostPerRun, spent: snapshot.runCostUsd };
+    }
+    if (exceeds(budget.maxCostPerDay, daily.costUsd)) {
+        return { scope: 'day', limit: budget.maxCostPerDay, spent: daily.costUsd };
+    }
+    return null;
+}
+
+export function checkSerperBudget(budget: SpendBudget, daily: DailySpend | undefined): BudgetViolation | null {
+    const today = currentDailySpend(daily);
+    if (exceeds(budget.maxSerperQueriesPerDay, today.serperQueries)) {
+        return { scope: 'serper_day', limit: budget.maxSerperQueriesPerDay, spent: today.serperQueries };
+    }
+    return null;
+}
+
+export function describeBudgetViolation(violation: BudgetViolation): string {
+    const label = SCOPE_LABELS[violation.scope];
+    if (violation.scope === 'serper_day') {
+        return `Budget exceeded: ${label} reached (${violation.spent}/${violation.limit} queries)`;
+    }
+    return `Budget exceeded: ${label} reached ($${violation.spent.toFixed(2)} of $${violation.limit.toFixed(2)})`;
+}
+
+export function isBudgetExceededError(error: unknown): error is BudgetExceededError {
+    return error instanceof BudgetExceededError;
+}
+
+export default {
+    BUDGET_GUARD_VERSION,
+    DEFAULT_SPEND_BUDGET,
+    BudgetExceededError,
+    todayKey,
+    createDailySpend,
+    currentDailySpend,
+    checkSpendBudget,
+    checkSerperBudget,
+    describeBudgetViolation,
+    isBudgetExceededError
+};
@@ -0,0 +1,363 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — CONTENT DIFF ENGINE
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Compares original post HTML with the optimized contract:
+// ✅ Block-level diff for headings, paragraphs, list items and quotes
+// ✅ Word-level diff inside modified blocks
+// ✅ Added/removed counts for H2 sections, links and FAQ questions
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const CONTENT_DIFF_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type DiffOp = 'equal' | 'added' | 'removed' | 'modified';
+
+export type ContentBlockKind = 'heading' | 'paragraph' | 'list-item' | 'quote' | 'cell';
+
+export interface ContentBlock {
+    kind: ContentBlockKind;
+    tag: string;
+    text: string;
+}
+
+export interface WordDiffSegment {
+    op: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+export interface BlockDiff {
+    op: DiffOp;
+    kind: ContentBlockKind;
+    tag: string;
+    original?: ContentBlock;
+    updated?: ContentBlock;
+    // Only set for modified blocks
+    words?: WordDiffSegment[];
+}
+
+export interface DiffCounter {
+    added: number;
+    removed: number;
+    unchanged: number;
+}
+
+export interface ContentDiffStats {
+    blocks: { added: number; removed: number; modified: number; unchanged: number };
+    sections: DiffCounter & { addedHeadings: string[]; removedHeadings: string[] };
+    links: DiffCounter;
+    faqs: DiffCounter;
+    wordsBefore: number;
+    wordsAfter: number;
+}
+
+export interface ContentDiffResult {
+    blocks: BlockDiff[];
+    stats: ContentDiffStats;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const BLOCK_TAGS: Record<string, ContentBlockKind> = {
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+    p: 'paragraph',
+    li: 'list-item',
+    blockquote: 'quote',
+    td: 'cell', th: 'cell'
+};
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'iframe', 'svg', 'button']);
+
+// Above this many LCS cells, fall back to a cheaper positional diff
+const MAX_LCS_CELLS = 4_000_000;
+
+// Removed+added pairs above this word overlap are shown as one modified block
+const MODIFIED_SIMILARITY_THRESHOLD = 0.35;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📄 BLOCK EXTRACTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function containsBlock(el: Element): boolean {
+    return Array.from(el.querySelectorAll(Object.keys(BLOCK_TAGS).join(','))).length > 0;
+}
+
+export function extractContentBlocks(html: string): ContentBlock[] {
+    if (!html) return [];
+
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const blocks: ContentBlock[] = [];
+
+    const walk = (el: Element) => {
+        const tag = el.tagName.toLowerCase();
+        if (SKIPPED_TAGS.has(tag)) return;
+
+        const kind = BLOCK_TAGS[tag];
+        // Leaf blocks only — a <li> wrapping <p>s contributes its paragraphs instead
+        if (kind && !containsBlock(el)) {
+            const text = normalizeText(el.textContent || '');
+            if (text) blocks.push({ kind, tag, text });
+            return;
+        }
+
+        Array.from(el.children).forEach(walk);
+    };
+
+    if (doc.body) Array.from(doc.body.children).forEach(walk);
+    return blocks;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧮 LONGEST COMMON SUBSEQUENCE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type SeqOp<T> = { op: 'equal' | 'added' | 'removed'; a?: T; b?: T };
+
+function lcsDiff<T>(a: T[], b: T[], key: (item: T) => string): SeqOp<T>[] {
+    const n = a.length;
+    const m = b.length;
+
+    if (n * m > MAX_LCS_CELLS) {
+        // Too large for a full table — report everything as replaced
+        return [
+            ...a.map(item => ({ op: 'removed' as const, a: item })),
+            ...b.map(item => ({ op: 'added' as const, b: item }))
+        ];
+    }
+
+    const ak = a.map(key);
+    const bk = b.map(key);
+    const table: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i][j] = ak[i] === bk[j]
+                ? table[i + 1][j + 1] + 1
+                : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    const ops: SeqOp<T>[] = [];
+    let i = 0, j = 0;
+    while (i < n && j < m) {
+        if (ak[i] === bk[j]) {
+            ops.push({ op: 'equal', a: a[i++], b: b[j++] });
+        } else if (table[i + 1][j] >= table[i][j + 1]) {
+            ops.push({ op: 'removed', a: a[i++] });
+        } else {
+            ops.push({ op: 'added', b: b[j++] });
+        }
+    }
+    while (i < n) ops.push({ op: 'removed', a: a[i++] });
+    while (j < m) ops.push({ op: 'added', b: b[j++] });
+
+    return ops;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔤 WORD-LEVEL DIFF
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function tokenize(text: string): string[] {
+    return text.split(/\s+/).filter(Boolean);
+}
+
+export function diffWords(original: string, updated: string): WordDiffSegment[] {
+    const ops = lcsDiff(tokenize(original), tokenize(updated), w => w.toLowerCase());
+    const segments: WordDiffSegment[] = [];
+
+    for (const { op, a, b } of ops) {
+        const word = (op === 'added' ? b : a) as string;
+        const last = segments[segments.length - 1];
+        if (last && last.op === op) {
+            last.text += ` ${word}`;
+        } else {
+            segments.push({ op, text: word });
+        }
+    }
+
+    return segments;
+}
+
+function wordSimilarity(a: string, b: string): number {
+    const aw = new Set(tokenize(a.toLowerCase()));
+    const bw = new Set(tokenize(b.toLowerCase()));
+    if (aw.size === 0 || bw.size === 0) return 0;
+    const shared = [...aw].filter(w => bw.has(w)).length;
+    return shared / Math.max(aw.size, bw.size);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 BLOCK-LEVEL DIFF
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function diffContentBlocks(original: ContentBlock[], updated: ContentBlock[]): BlockDiff[] {
+    const ops = lcsDiff(original, updated, block => `${block.kind}:${block.text.toLowerCase()}`);
+    const result: BlockDiff[] = [];
+
+    let i = 0;
+    while (i < ops.length) {
+        if (ops[i].op === 'equal') {
+            const { a, b } = ops[i];
+            result.push({ op: 'equal', kind: b!.kind, tag: b!.tag, original: a, updated: b });
+            i++;
+            continue;
+        }
+
+        // Collect the run of removed/added blocks between two equal anchors
+        const removed: ContentBlock[] = [];
+        const added: ContentBlock[] = [];
+        while (i < ops.length && ops[i].op !== 'equal') {
+            if (ops[i].op === 'removed') removed.push(ops[i].a!);
+            else added.push(ops[i].b!);
+            i++;
+        }
+
+        // Pair similar blocks of the same kind as modifications
+        const usedAdded = new Set<number>();
+        const pairs = new Map<number, number>();
+        removed.forEach((rb, ri) => {
+            let bestIdx = -1;
+            let bestScore = MODIFIED_SIMILARITY_THRESHOLD;
+            added.forEach((ab, ai) => {
+                if (usedAdded.has(ai) || ab.kind !== rb.kind) return;
+                const score = wordSimilarity(rb.text, ab.text);
+                if (score >= bestScore) {
+                    bestScore = score;
+                    bestIdx = ai;
+                }
+            });
+            if (bestIdx !== -1) {
+                usedAdded.add(bestIdx);
+                pairs.set(ri, bestIdx);
+            }
+        });
+
+        const pairedAddedTo = new Map<number, number>();
+        pairs.forEach((ai, ri) => pairedAddedTo.set(ai, ri));
+
+        removed.forEach((rb, ri) => {
+            if (!pairs.has(ri)) {
+                result.push({ op: 'removed', kind: rb.kind, tag: rb.tag, original: rb });
+            }
+        });
+        added.forEach((ab, ai) => {
+            if (pairedAddedTo.has(ai)) {
+                const rb = removed[pairedAddedTo.get(ai)!];
+                result.push({
+                    op: 'modified',
+                    kind: ab.kind,
+                    tag: ab.tag,
+                    original: rb,
+                    updated: ab,
+                    words: diffWords(rb.text, ab.text)
+                });
+            } else {
+                result.push({ op: 'added', kind: ab.kind, tag: ab.tag, updated: ab });
+            }
+        });
+    }
+
+    return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔢 STRUCTURAL COUNTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function compareSets(before: Set<string>, after: Set<string>): DiffCounter {
+    let unchanged = 0;
+    before.forEach(item => { if (after.has(item)) unchanged++; });
+    return {
+        added: after.size - unchanged,
+        removed: before.size - unchanged,
+        unchanged
+    };
+}
+
+function normalizeHref(href: string): string {
+    return href.trim().replace(/#.*$/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+function collectStructure(html: string): { headings: string[]; links: Set<string>; faqs: Set<string> } {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+
+    const headings = Array.from(doc.querySelectorAll('h2'))
+        .map(h => normalizeText(h.textContent || ''))
+        .filter(Boolean);
+
+    const links = new Set(
+        Array.from(doc.querySelectorAll('a[href]'))
+            .map(a => normalizeHref(a.getAttribute('href') || ''))
+            .filter(href => href && !href.startsWith('javascript:'))
+    );
+
+    const faqs = new Set<string>();
+    const addQuestion = (el: Element) => {
+        const q = normalizeText(el.textContent || '').toLowerCase();
+        if (q) faqs.add(q);
+    };
+    doc.querySelectorAll('[itemtype*="schema.org/Question"] [itemprop="name"]').forEach(addQuestion);
+    doc.querySelectorAll('details > summary').forEach(addQuestion);
+    doc.querySelectorAll('h3, h4').forEach(h => {
+        if ((h.textContent || '').trim().endsWith('?')) addQuestion(h);
+    });
+
+    return { headings, links, faqs };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🚀 MAIN ENTRY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function computeContentDiff(originalHtml: string, updatedHtml: string): ContentDiffResult {
+    const originalBlocks = extractContentBlocks(originalHtml);
+    const updatedBlocks = extractContentBlocks(updatedHtml);
+    const blocks = diffContentBlocks(originalBlocks, updatedBlocks);
+
+    const before = collectStructure(originalHtml);
+    const after = collectStructure(updatedHtml);
+
+    const beforeHeadings = new Set(before.headings.map(h => h.toLowerCase()));
+    const afterHeadings = new Set(after.headings.map(h => h.toLowerCase()));
+
+    const countWords = (list: ContentBlock[]) => list.reduce((sum, b) => sum + tokenize(b.text).length, 0);
+
+    return {
+        blocks,
+        stats: {
+            blocks: {
+                added: blocks.filter(b => b.op === 'added').length,
+                removed: blocks.filter(b => b.op === 'removed').length,
+                modified: blocks.filter(b => b.op === 'modified').length,
+                unchanged: blocks.filter(b => b.op === 'equal').length
+            },
+            sections: {
+                ...compareSets(beforeHeadings, afterHeadings),
+                addedHeadings: after.headings.filter(h => !beforeHeadings.has(h.toLowerCase())),
+                removedHeadings: before.headings.filter(h => !afterHeadings.has(h.toLowerCase()))
+            },
+            links: compareSets(before.links, after.links),
+            faqs: compareSets(before.faqs, after.faqs),
+            wordsBefore: countWords(originalBlocks),
+            wordsAfter: countWords(updatedBlocks)
+        }
+    };
+}
+
+export default {
+    CONTENT_DIFF_VERSION,
+    computeContentDiff,
+    extractContentBlocks,
+    diffContentBlocks,
+    diffWords
+};
@@ -0,0 +1,305 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — ENCRYPTED CREDENTIAL VAULT
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// API keys and WordPress application passwords encrypted at rest:
+// ✅ PBKDF2 (SHA-256) key derivation from a user passphrase
+// ✅ AES-GCM encryption — a fresh IV for every seal
+// ✅ Session key held in memory only, so edits re-seal without asking again
+// ✅ Secrets stripped from persisted state while the vault is enabled
+// ✅ Inactivity timer for auto-lock
+// ✅ Passphrase-protected export/import bundle of every site's credentials
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { ApiKeys, WpConfig, Workspace, EncryptedPayload } from '../types';
+
+export const CREDENTIAL_VAULT_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Derived key of the unlocked vault — never persisted
+export interface VaultSession {
+    key: CryptoKey;
+    salt: string;
+    iterations: number;
+}
+
+export interface SiteSecrets {
+    apiKeys: Partial<ApiKeys>;
+    wpPassword: string;
+}
+
+// Keyed by workspace ID
+export type VaultSecrets = Record<string, SiteSecrets>;
+
+export interface CredentialBundleEntry {
+    workspaceId: string;
+    name: string;
+    wpConfig: WpConfig;
+    apiKeys: ApiKeys;
+}
+
+export interface CredentialBundle {
+    format: typeof BUNDLE_FORMAT;
+    exportedAt: number;
+    payload: EncryptedPayload;
+}
+
+export class VaultError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VaultError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// OWASP guidance for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600_000;
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+export const DEFAULT_AUTO_LOCK_MS = 15 * 60 * 1000;
+
+export const AUTO_LOCK_OPTIONS_MS = [5, 15, 30, 60].map(min => min * 60 * 1000);
+
+export const BUNDLE_FORMAT = 'wp-optimizer-credentials' as const;
+
+// ApiKeys fields that are credentials — model names, project IDs and URLs stay readable
+export const SECRET_API_KEY_FIELDS = [
+    'google', 'openrouter', 'openai', 'anthropic', 'groq', 'serper', 'neuronwriter', 'local'
+] as const;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔐 CRYPTO
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+export async function createVaultSession(passphrase: string): Promise<VaultSession> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new VaultError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return { key, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+}
+
+export async function sealWithSession<T>(data: T, session: VaultSession): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        session.key,
+        encoder.encode(JSON.stringify(data))
+    );
+    return {
+        version: 1,
+        iterations: session.iterations,
+        salt: session.salt,
+        iv: toBase64(iv),
+        ciphertext: toBase64(new Uint8Array(ciphertext))
+    };
+}
+
+/**
+ * Decrypts a payload and returns the session that can re-seal it.
+ * A wrong passphrase fails AES-GCM authentication and throws VaultError.
+ */
+export async function openPayload<T>(payload: EncryptedPayload, passphrase: string): Promise<{ data: T; session: VaultSession }> {
+    const key = await deriveKey(passphrase, fromBase64(payload.salt), payload.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.ciphertext));
+    } catch {
+        throw new VaultError('Wrong passphrase or corrupted vault');
+    }
+    return {
+        data: JSON.parse(decoder.decode(plaintext)) as T,
+        session: { key, salt: payload.salt, iterations: payload.iterations }
+    };
+}
+
+export function isVaultError(error: unknown): error is VaultError {
+    return error instanceof VaultError;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 SECRETS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function pickSecretApiKeys(apiKeys: ApiKeys): Partial<ApiKeys> {
+    const secrets: Partial<ApiKeys> = {};
+    SECRET_API_KEY_FIELDS.forEach(field => { secrets[field] = apiKeys[field] || ''; });
+    return secrets;
+}
+
+export function stripApiKeys(apiKeys: ApiKeys): ApiKeys {
+    const stripped = { ...apiKeys };
+    SECRET_API_KEY_FIELDS.forEach(field => { stripped[field] = ''; });
+    return stripped;
+}
+
+export function stripWpConfig(wpConfig: WpConfig): WpConfig {
+    return { ...wpConfig, password: '' };
+}
+
+// Parked workspaces hold their own keys and passwords too
+export function stripWorkspaceSecrets(workspaces: Workspace[]): Workspace[] {
+    return workspaces.map(ws => ws.data
+        ? { ...ws, data: { ...ws.data, apiKeys: stripApiKeys(ws.data.apiKeys), wpConfig: stripWpConfig(ws.data.wpConfig) } }
+        : ws);
+}
+
+// Secrets of every site: the active one from the top-level fields, the rest from parked data
+export function collectSecrets(
+    active: { apiKeys: ApiKeys; wpConfig: WpConfig },
+    workspaces: Workspace[],
+    activeWorkspaceId: string
+): VaultSecrets {
+    const secrets: VaultSecrets = {
+        [activeWorkspaceId]: { apiKeys: pickSecretApiKeys(active.apiKeys), wpPassword: active.wpConfig.password || '' }
+    };
+    workspaces.forEach(ws => {
+        if (ws.id === activeWorkspaceId || !ws.data) return;
+        secrets[ws.id] = { apiKeys: pickSecretApiKeys(ws.data.apiKeys), wpPassword: ws.data.wpConfig.password || '' };
+    });
+    return secrets;
+}
+
+// Vault values win, except blanks — a key typed while locked isn't wiped by an empty slot
+export function applySiteSecrets(
+    target: { apiKeys: ApiKeys; wpConfig: WpConfig },
+    secrets: SiteSecrets | undefined
+): { apiKeys: ApiKeys; wpConfig: WpConfig } {
+    if (!secrets) return target;
+    const apiKeys = { ...target.apiKeys };
+    Object.entries(secrets.apiKeys).forEach(([field, value]) => {
+        if (value) apiKeys[field] = value;
+    });
+    return {
+        apiKeys,
+        wpConfig: secrets.wpPassword ? { ...target.wpConfig, password: secrets.wpPassword } : target.wpConfig
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📦 EXPORT / IMPORT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function collectBundleEntries(
+    active: { apiKeys: ApiKeys; wpConfig: WpConfig },
+    workspaces: Workspace[],
+    activeWorkspaceId: string
+): CredentialBundleEntry[] {
+    return workspaces
+        .map(ws => {
+            const source = ws.id === activeWorkspaceId ? active : ws.data;
+            return source
+                ? { workspaceId: ws.id, name: ws.name, wpConfig: source.wpConfig, apiKeys: source.apiKeys }
+                : null;
+        })
+        .filter((e): e is CredentialBundleEntry => e !== null);
+}
+
+export async function createCredentialBundle(entries: CredentialBundleEntry[], passphrase: string): Promise<CredentialBundle> {
+    const session = await createVaultSession(passphrase);
+    return { format: BUNDLE_FORMAT, exportedAt: Date.now(), payload: await sealWithSession(entries, session) };
+}
+
+export async function openCredentialBundle(raw: string, passphrase: string): Promise<CredentialBundleEntry[]> {
+    let bundle: CredentialBundle;
+    try {
+        bundle = JSON.parse(raw);
+    } catch {
+        throw new VaultError('Not a credential bundle file');
+    }
+    if (bundle?.format !== BUNDLE_FORMAT || !bundle.payload?.ciphertext) {
+        throw new VaultError('Not a credential bundle file');
+    }
+    const { data } = await openPayload<CredentialBundleEntry[]>(bundle.payload, passphrase);
+    return Array.isArray(data) ? data : [];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⏲️ AUTO-LOCK
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Calls onIdle after `idleMs` without user input. onIdle returns false to
+ * postpone (e.g. while a job is running) — the timer then starts over.
+ * Returns a disposer.
+ */
+export function startInactivityTimer(idleMs: number, onIdle: () => boolean): () => void {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const reset = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            if (!onIdle()) reset();
+        }, idleMs);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    reset();
+
+    return () => {
+        clearTimeout(timer);
+        ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+}
+
+export default {
+    CREDENTIAL_VAULT_VERSION,
+    PBKDF2_ITERATIONS,
+    MIN_PASSPHRASE_LENGTH,
+    DEFAULT_AUTO_LOCK_MS,
+    AUTO_LOCK_OPTIONS_MS,
+    BUNDLE_FORMAT,
+    SECRET_API_KEY_FIELDS,
+    VaultError,
+    createVaultSession,
+    sealWithSession,
+    openPayload,
+    isVaultError,
+    pickSecretApiKeys,
+    stripApiKeys,
+    stripWpConfig,
+    stripWorkspaceSecrets,
+    collectSecrets,
+    applySiteSecrets,
+    collectBundleEntries,
+    createCredentialBundle,
+    openCredentialBundle,
+    startInactivityTimer
+};
@@ -0,0 +1,325 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — SEMANTIC LINK RELEVANCE
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Keyword overlap links "best dog food" to "best cat food"; embeddings don't:
+// ✅ Embeddings from Google, OpenAI or a local OpenAI-compatible server
+// ✅ Per-site index of link target embeddings, re-embedded only when they change
+// ✅ Targets ranked per H2 section by cosine similarity, with a minimum
+// ✅ Anchor taken from the sentence most similar to the target
+// ✅ Offline 'mock' provider (feature hashing) for fixtures
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { GoogleGenAI } from '@google/genai';
+import {
+    ApiKeys, EmbeddingProvider, EmbeddingSettings, InternalLinkTarget, PageEmbedding, PageEmbeddingIndex
+} from '../types';
+import { normalizeLocalBaseUrl } from './ai-orchestrator';
+
+export const EMBEDDINGS_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type LogFunction = (msg: string) => void;
+
+export interface SemanticLinkCandidate {
+    target: InternalLinkTarget;
+    // Section ↔ target cosine similarity
+    similarity: number;
+    // Sentence of the section most similar to the target — the anchor comes from here
+    sentence: string;
+}
+
+// Ranked candidates per H2 section, keyed by the number of <h2> before it (0 = intro)
+export interface SemanticLinkPlan {
+    sections: Record<number, SemanticLinkCandidate[]>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProvider, string> = {
+    google: 'text-embedding-004',
+    openai: 'text-embedding-3-small',
+    local: 'nomic-embed-text',
+    mock: 'mock-hashing'
+};
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+    enabled: false,
+    provider: 'google',
+    model: '',
+    minSimilarity: 0.45
+};
+
+const EMBEDDING_BATCH_SIZE = 96;
+const EMBEDDING_TIMEOUT_MS = 30000;
+
+// Caps on what one article sends for embedding
+const MAX_SECTION_CHARS = 2000;
+const MAX_SENTENCES = 400;
+const MIN_SENTENCE_CHARS = 25;
+
+const MOCK_DIMENSIONS = 256;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧮 VECTOR MATH
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function normalizeVector(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (!a?.length || a.length !== b?.length) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// FNV-1a — cheap change detection, not security
+export function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 PROVIDERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function resolveEmbeddingModel(settings: EmbeddingSettings): string {
+    return settings.model.trim() || DEFAULT_EMBEDDING_MODELS[settings.provider];
+}
+
+export function hasEmbeddingCredentials(provider: EmbeddingProvider, apiKeys: ApiKeys): boolean {
+    switch (provider) {
+        case 'google': return !!apiKeys.google;
+        case 'openai': return !!apiKeys.openai;
+        case 'local': return !!apiKeys.localBaseUrl;
+        case 'mock': return true;
+    }
+}
+
+// Bag of words and word pairs hashed into a fixed-size vector
+function mockEmbed(text: string): number[] {
+    const vector = new Array(MOCK_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    words.forEach((word, i) => {
+        vector[parseInt(hashText(word), 16) % MOCK_DIMENSIONS] += 1;
+        if (i > 0) vector[parseInt(hashText(`${words[i - 1]} ${word}`), 16) % MOCK_DIMENSIONS] += 0.5;
+    });
+    return vector;
+}
+
+async function embedBatch(texts: string[], provider: EmbeddingProvider, model: string, apiKeys: ApiKeys, signal: AbortSignal): Promise<number[][]> {
+    switch (provider) {
+        case 'google': {
+            const ai = new GoogleGenAI({ apiKey: apiKeys.google });
+            const response = await ai.models.embedContent({ model, contents: texts, config: { abortSignal: signal } });
+            return (response.embeddings || []).map(e => e.values || []);
+        }
+        case 'openai':
+        case 'local': {
+            const url = provider === 'openai'
+                ? 'https://api.openai.com/v1/embeddings'
+                : `${normalizeLocalBaseUrl(apiKeys.localBaseUrl)}/embeddings`;
+            const key = provider === 'openai' ? apiKeys.openai : apiKeys.local;
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (key) headers['Authorization'] = `Bearer ${key}`;
+
+            const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify({ model, input: texts }), signal });
+            if (!response.ok) throw new Error(`Embedding error ${response.status}`);
+            const data = await response.json();
+            return [...(data.data || [])]
+                .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+                .map((d: any) => d.embedding || []);
+        }
+        case 'mock':
+            return texts.map(mockEmbed);
+    }
+}
+
+/**
+ * Embeds texts in batches, in order. Vectors come back at unit length.
+ * Throws when the provider is not configured or returns the wrong count.
+ */
+export async function embedTexts(texts: string[], settings: EmbeddingSettings, apiKeys: ApiKeys): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    if (!hasEmbeddingCredentials(settings.provider, apiKeys)) {
+        throw new Error(`No credentials for ${settings.provider} embeddings`);
+    }
+
+    const model = resolveEmbeddingModel(settings);
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), EMBEDDING_TIMEOUT_MS);
+        try {
+            const result = await embedBatch(batch, settings.provider, model, apiKeys, controller.signal);
+            if (result.length !== batch.length || result.some(v => v.length === 0)) {
+                throw new Error(`Embedding provider returned ${result.length} vectors for ${batch.length} texts`);
+            }
+            vectors.push(...result.map(normalizeVector));
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+    return vectors;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🗂️ PAGE INDEX
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// What gets embedded for a link target: its title, keywords and slug words
+export function targetEmbeddingText(target: InternalLinkTarget): string {
+    const slugWords = (target.slug || '').replace(/[-_]+/g, ' ').trim();
+    return [target.title, target.keywords?.join(', '), slugWords].filter(Boolean).join('. ');
+}
+
+/**
+ * Brings the index up to date for these targets. Only new or changed pages
+ * are embedded; a different provider or model starts a fresh index.
+ * Entries for pages not in `targets` are kept.
+ */
+export async function updatePageEmbeddings(
+    targets: InternalLinkTarget[],
+    index: PageEmbeddingIndex | null,
+    settings: EmbeddingSettings,
+    apiKeys: ApiKeys,
+    log: LogFunction = () => {}
+): Promise<PageEmbeddingIndex> {
+    const model = resolveEmbeddingModel(settings);
+    const current: PageEmbeddingIndex = index && index.provider === settings.provider && index.model === model
+        ? index
+        : { provider: settings.provider, model, dimensions: 0, updatedAt: 0, entries: {} };
+
+    const stale = targets
+        .filter(t => t?.url && t?.title)
+        .map(t => ({ target: t, text: targetEmbeddingText(t) }))
+        .filter(({ target, text }) => current.entries[target.url]?.textHash !== hashText(text));
+
+    if (stale.length === 0) {
+        log(`   🧲 Embedding index up to date (${Object.keys(current.entries).length} pages)`);
+        return current;
+    }
+
+    log(`   🧲 Embedding ${stale.length} link target(s) with ${settings.provider}/${model}...`);
+    const vectors = await embedTexts(stale.map(s => s.text), settings, apiKeys);
+
+    const entries: Record<string, PageEmbedding> = { ...current.entries };
+    stale.forEach(({ target, text }, i) => {
+        entries[target.url] = { url: target.url, title: target.title, textHash: hashText(text), vector: vectors[i] };
+    });
+
+    return { ...current, dimensions: vectors[0].length, updatedAt: Date.now(), entries };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 SECTION RANKING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function plainText(html: string): string {
+    return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Sentences of the section's paragraphs, whitespace-collapsed like the injector's text
+export function splitSentences(html: string): string[] {
+    const sentences: string[] = [];
+    const paraRegex = /<p[^>]*>([\s\S]*?)<\/p>/gi;
+    let match;
+    while ((match = paraRegex.exec(html)) !== null) {
+        const text = match[1].replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+        (text.match(/[^.!?]+(?:[.!?]+|$)/g) || [])
+            .map(s => s.trim())
+            .filter(s => s.length >= MIN_SENTENCE_CHARS)
+            .forEach(s => sentences.push(s));
+    }
+    return sentences;
+}
+
+/**
+ * Ranks the indexed targets for every H2 section of the article. A target
+ * is a candidate for a section when their similarity reaches
+ * `minSimilarity`; each candidate carries the section's closest sentence.
+ */
+export async function planSemanticLinks(
+    html: string,
+    targets: InternalLinkTarget[],
+    semantic: { settings: EmbeddingSettings; index: PageEmbeddingIndex },
+    apiKeys: ApiKeys,
+    log: LogFunction = () => {}
+): Promise<SemanticLinkPlan> {
+    const { settings, index } = semantic;
+    const indexed = targets.filter(t => index.entries[t.url]);
+    const plan: SemanticLinkPlan = { sections: {} };
+    if (indexed.length === 0) return plan;
+
+    // Content after the n-th <h2> tag is part 2n of this split
+    const parts = html.split(/(<h2[^>]*>)/gi);
+    const sections = parts
+        .map((part, partIndex) => ({ partIndex, text: plainText(part).slice(0, MAX_SECTION_CHARS), sentences: splitSentences(part) }))
+        .filter(s => s.partIndex > 0 && !/<h2/i.test(parts[s.partIndex]) && s.sentences.length > 0);
+
+    const sentences = sections.flatMap(s => s.sentences).slice(0, MAX_SENTENCES);
+    const vectors = await embedTexts([...sections.map(s => s.text), ...sentences], settings, apiKeys);
+    const sentenceVectors = new Map(sentences.map((s, i) => [s, vectors[sections.length + i]]));
+
+    sections.forEach((section, i) => {
+        const sectionVector = vectors[i];
+        const candidates: SemanticLinkCandidate[] = [];
+
+        for (const target of indexed) {
+            const targetVector = index.entries[target.url].vector;
+            const similarity = cosineSimilarity(sectionVector, targetVector);
+            if (similarity < settings.minSimilarity) continue;
+
+            let sentence = '';
+            let best = -1;
+            for (const s of section.sentences) {
+                const vector = sentenceVectors.get(s);
+                const score = vector ? cosineSimilarity(vector, targetVector) : -1;
+                if (score > best) {
+                    best = score;
+                    sentence = s;
+                }
+            }
+            if (sentence) candidates.push({ target, similarity, sentence });
+        }
+
+        plan.sections[section.partIndex / 2] = candidates.sort((a, b) => b.similarity - a.similarity);
+    });
+
+    const linked = Object.values(plan.sections).filter(c => c.length > 0).length;
+    log(`   🧲 Semantic ranking: ${linked}/${sections.length} sections have targets above ${settings.minSimilarity}`);
+    return plan;
+}
+
+export default {
+    EMBEDDINGS_VERSION,
+    DEFAULT_EMBEDDING_MODELS,
+    DEFAULT_EMBEDDING_SETTINGS,
+    cosineSimilarity,
+    hashText,
+    resolveEmbeddingModel,
+    hasEmbeddingCredentials,
+    embedTexts,
+    targetEmbeddingText,
+    updatePageEmbeddings,
+    splitSentences,
+    planSemanticLinks
+};
@@ -0,0 +1,424 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — GOD MODE PHASES
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// The parts of a God Mode run that touch content and WordPress, free of React
+// and the store so the app and the offline pipeline harness run the same code:
+// ✅ Existing post — preservation data, decoded title and a pre-run snapshot
+// ✅ Content synthesis — staged pipeline, H1/FAQ cleanup, title/meta limits
+// ✅ QA swarm and final validation on the synthesized contract
+// ✅ Publish — slug, categories, tags and featured image preserved on update
+// ✅ SEO meta written after every publish
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+    BrandVoiceProfile, ContentContract, EntityGapAnalysis, GenerateConfig, NeuronTerm,
+    PostPreservationData, PostRevisionSnapshot
+} from '../types';
+import orchestrator, { GenerationResult, StageProgress } from './ai-orchestrator';
+import { QASwarmResult, countWords, runQASwarm, stripHtml } from '../utils';
+import {
+    BasicAuth, wpCapturePostSnapshot, wpCreatePost, wpGetPostWithImages, wpUpdatePost, wpUpdatePostMeta
+} from '../fetch-service';
+
+export const GOD_MODE_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type Log = (msg: string) => void;
+
+// Which parts of an existing post survive the rewrite
+export interface PreserveOptions {
+    featuredImage: boolean;
+    contentImages: boolean;
+    categories: boolean;
+    tags: boolean;
+}
+
+export interface ExistingPost {
+    preservation: PostPreservationData;
+    // Decoded WordPress title; empty when the post has none worth using
+    title: string;
+    originalContent: string;
+    revisionSnapshot: PostRevisionSnapshot;
+}
+
+export interface SynthesisOptions {
+    log: Log;
+    onProgress?: (progress: StageProgress) => void;
+    // Contract restored from a checkpoint — generation is skipped, QA still runs
+    resumeContract?: ContentContract;
+    // Once the draft passes the length check, before QA (checkpoints, job state)
+    onGenerated?: (contract: ContentContract) => void;
+    entityGapData?: EntityGapAnalysis;
+    neuronTerms?: NeuronTerm[];
+    brandVoice?: BrandVoiceProfile;
+}
+
+export interface SynthesisResult {
+    contract: ContentContract;
+    qa: QASwarmResult;
+    // Null when the contract came from a checkpoint
+    generation: GenerationResult | null;
+}
+
+export interface PublishToWordPressInput {
+    wpUrl: string;
+    auth: BasicAuth;
+    contract: ContentContract;
+    status: 'publish' | 'draft';
+    // Null creates a new post with the contract's slug
+    postId: number | null;
+    preservation: PostPreservationData;
+    preserve: PreserveOptions;
+    focusKeyword: string;
+    // Taken before the update when the caller doesn't already have one
+    revisionSnapshot?: PostRevisionSnapshot | null;
+    pageId: string;
+    log: Log;
+    // Called with the snapshot before the post is overwritten
+    onSnapshot?: (snapshot: PostRevisionSnapshot) => void;
+}
+
+export interface PublishToWordPressResult {
+    postId: number;
+    link: string;
+    created: boolean;
+    revisionSnapshot: PostRevisionSnapshot | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const TITLE_MAX_LENGTH = 65;
+export const META_MAX_LENGTH = 160;
+
+// Anything shorter is a failed generation, not an article
+const MIN_CONTENT_CHARS = 2000;
+
+export const EMPTY_PRESERVATION: PostPreservationData = {
+    originalSlug: null,
+    originalLink: null,
+    originalCategories: [],
+    originalTags: [],
+    featuredImageId: null,
+    contentImages: []
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧹 CONTENT CLEANUP
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function clone<T>(obj: T): T {
+    if (obj === null || obj === undefined) return obj;
+    return JSON.parse(JSON.stringify(obj));
+}
+
+export function removeDuplicateFAQSections(html: string, log?: Log): string {
+    if (!html) return html;
+
+    const faqSectionPattern = /<section[^>]*(?:class|id)="[^"]*(?:faq|wp-opt-faq)[^"]*"[^>]*>[\s\S]*?<\/section>/gi;
+    const allFaqSections = [...html.matchAll(faqSectionPattern)];
+
+    if (allFaqSections.length <= 1) {
+        log?.(`   ✓ FAQ sections: ${allFaqSections.length} (no duplicates)`);
+        return html;
+    }
+
+    log?.(`   ⚠️ Found ${allFaqSections.length} FAQ sections — removing ${allFaqSections.length - 1} duplicate(s)...`);
+
+    let cleaned = html;
+    for (let i = 0; i < allFaqSections.length - 1; i++) {
+        cleaned = cleaned.replace(allFaqSections[i][0], '<!-- DUPLICATE_FAQ_REMOVED -->');
+    }
+
+    cleaned = cleaned.replace(/<!-- DUPLICATE_FAQ_REMOVED -->\s*/g, '');
+    cleaned = cleaned.replace(/\n{3,}/g, '\n\n').trim();
+
+    log?.(`   ✓ Removed ${allFaqSections.length - 1} duplicate FAQ section(s)`);
+    return cleaned;
+}
+
+export function removeH1TagsFromContent(html: string, log?: Log): string {
+    if (!html) return html;
+
+    const h1CountBefore = (html.match(/<h1/gi) || []).length;
+
+    if (h1CountBefore === 0) {
+        log?.(`   ✓ No H1 tags found — content is clean`);
+        return html;
+    }
+
+    log?.(`   ⚠️ Found ${h1CountBefore} H1 tag(s) — removing (WordPress provides H1)...`);
+
+    let cleaned = html;
+    const patterns = [
+        /<h1[^>]*>[\s\S]*?<\/h1>/gi,
+        /<h1[^>]*\/>/gi,
+    ];
+
+    for (let pass = 0; pass < 3; pass++) {
+        for (const pattern of patterns) {
+            cleaned = cleaned.replace(pattern, '');
+        }
+    }
+
+    cleaned = cleaned.replace(/<h1\b[^>]*>/gi, '');
+    cleaned = cleaned.replace(/<\/h1>/gi, '');
+    cleaned = cleaned.replace(/\n{3,}/g, '\n\n').trim();
+
+    const h1CountAfter = (cleaned.match(/<h1/gi) || []).length;
+
+    if (h1CountAfter > 0) {
+        log?.(`   ❌ WARNING: ${h1CountAfter} H1 tag(s) still present — forcing removal!`);
+        cleaned = cleaned.replace(/h1/gi, 'h2');
+    } else {
+        log?.(`   ✓ Successfully removed ${h1CountBefore} H1 tag(s)`);
+    }
+
+    return cleaned;
+}
+
+export function enforceTitle(title: string, log: Log): string {
+    if (!title) return title;
+    if (title.length <= TITLE_MAX_LENGTH) return title;
+
+    let truncated = title.substring(0, 60);
+    const lastSpace = truncated.lastIndexOf(' ');
+    if (lastSpace > 40) truncated = truncated.substring(0, lastSpace);
+
+    log(`   ⚠️ Title truncated: ${title.length} → ${truncated.length} chars`);
+    return truncated.trim();
+}
+
+export function enforceMeta(meta: string, log: Log): string {
+    if (!meta) return meta;
+    if (meta.length <= META_MAX_LENGTH) return meta;
+
+    let truncated = meta.substring(0, 157);
+    const lastPeriod = truncated.lastIndexOf('. ');
+    if (lastPeriod > 100) truncated = truncated.substring(0, lastPeriod + 1);
+    else truncated = truncated.trim() + '...';
+
+    log(`   ⚠️ Meta truncated: ${meta.length} → ${truncated.length} chars`);
+    return truncated;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📍 PHASE 1 — EXISTING POST
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reads a resolved post: what to preserve, its decoded title, its content
+ * and a snapshot to roll back to. Throws when the post can't be fetched.
+ */
+export async function loadExistingPost(
+    wpUrl: string,
+    postId: number,
+    auth: BasicAuth,
+    pageId: string,
+    preserve: PreserveOptions
+): Promise<ExistingPost> {
+    const postData = await wpGetPostWithImages(wpUrl, postId, auth);
+    const preservation: PostPreservationData = {
+        ...EMPTY_PRESERVATION,
+        originalSlug: postData.originalSlug,
+        originalLink: postData.post.link || null,
+        originalCategories: postData.originalCategories,
+        originalTags: postData.originalTags
+    };
+
+    if (postData.featuredImage && preserve.featuredImage) {
+        preservation.featuredImageId = postData.featuredImage.id;
+    }
+
+    if (preserve.contentImages) {
+        preservation.contentImages = postData.contentImages.map(img => ({
+            src: img.src,
+            alt: img.alt,
+            mediaId: img.id ? parseInt(img.id) : undefined
+        }));
+    }
+
+    const wpTitle = postData.post.title?.rendered || postData.post.title?.raw || '';
+    const title = wpTitle.length > 3 ? (stripHtml(wpTitle) || wpTitle) : '';
+
+    const revisionSnapshot = await wpCapturePostSnapshot(wpUrl, postId, auth, {
+        pageId,
+        reason: 'pre-optimization',
+        post: postData.post
+    });
+
+    return {
+        preservation,
+        title,
+        originalContent: postData.post.content?.rendered || '',
+        revisionSnapshot
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎨 PHASE 5 — CONTENT SYNTHESIS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Generates (or restores) the contract, cleans it up, runs the QA swarm and
+ * rejects output too short to publish. The returned contract is a plain copy,
+ * safe to hand to the store.
+ */
+export async function synthesizeContent(
+    config: GenerateConfig,
+    options: SynthesisOptions
+): Promise<SynthesisResult> {
+    const { log } = options;
+    let contract: ContentContract;
+    let generation: GenerationResult | null = null;
+
+    if (options.resumeContract) {
+        contract = clone(options.resumeContract);
+        log(`   ♻️ Generated content restored from checkpoint: ${(contract.wordCount || 0).toLocaleString()} words`);
+    } else {
+        generation = await orchestrator.generateEnhanced(config, log, progress => {
+            if (progress) options.onProgress?.(progress);
+        });
+
+        // Generation results can be frozen by the caller's state library
+        contract = clone(generation.contract);
+
+        contract.htmlContent = removeH1TagsFromContent(contract.htmlContent, log);
+        if (contract.title) contract.title = enforceTitle(contract.title, log);
+        if (contract.metaDescription) contract.metaDescription = enforceMeta(contract.metaDescription, log);
+        contract.htmlContent = removeDuplicateFAQSections(contract.htmlContent, log);
+
+        contract.wordCount = countWords(stripHtml(contract.htmlContent));
+
+        log(`   ✅ Content generated: ${contract.wordCount.toLocaleString()} words`);
+        if (contract.stageModels) {
+            const routes = Object.entries(contract.stageModels)
+                .map(([stage, r]) => `${stage}: ${r.provider}/${r.model}${r.fallbacks ? ` (${r.fallbacks} fallback)` : ''}`);
+            log(`   🧭 Models — ${routes.join(' | ')}`);
+        }
+    }
+
+    // Checked before onGenerated so a too-short draft is never checkpointed
+    if (!contract.htmlContent || contract.htmlContent.length < MIN_CONTENT_CHARS) {
+        throw new Error('Content generation failed: No valid content produced');
+    }
+
+    options.onGenerated?.(clone(contract));
+
+    log(`🔍 QA Validation...`);
+    const qa = runQASwarm(contract, options.entityGapData, options.neuronTerms || [], options.brandVoice);
+    log(`   📊 QA Score: ${qa.score}/100 | Words: ${(contract.wordCount || 0).toLocaleString()}`);
+
+    const h1FinalCheck = (contract.htmlContent.match(/<h1/gi) || []).length;
+    if (h1FinalCheck > 0) {
+        log(`   ⚠️ Final H1 cleanup: removing ${h1FinalCheck} remaining H1 tag(s)`);
+        contract.htmlContent = contract.htmlContent.replace(/<h1[^>]*>[\s\S]*?<\/h1>/gi, '');
+    }
+
+    return { contract, qa, generation };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📤 PHASE 6 — PUBLISH TO WORDPRESS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Writes the contract to WordPress. Existing posts are snapshotted first and
+ * keep their slug — plus categories, tags and featured image when preserved.
+ * SEO meta failures are logged, not thrown: the content is already live.
+ */
+export async function publishToWordPress(input: PublishToWordPressInput): Promise<PublishToWordPressResult> {
+    const { wpUrl, auth, contract, postId, preservation, preserve, log } = input;
+    let revisionSnapshot = input.revisionSnapshot || null;
+
+    const publishData: Record<string, any> = {
+        title: contract.title,
+        content: contract.htmlContent,
+        excerpt: contract.excerpt || '',
+        status: input.status
+    };
+
+    let finalPostId: number;
+    let finalPostLink: string;
+
+    if (postId) {
+        log(`   → Updating existing post ID: ${postId}`);
+
+        // Keep a local copy of the original post before overwriting it
+        if (!revisionSnapshot) {
+            try {
+                revisionSnapshot = await wpCapturePostSnapshot(wpUrl, postId, auth, {
+                    pageId: input.pageId,
+                    reason: 'pre-optimization'
+                });
+            } catch (e: any) {
+                log(`   ⚠️ Could not snapshot original post: ${e.message}`);
+            }
+        }
+        if (revisionSnapshot) {
+            input.onSnapshot?.(revisionSnapshot);
+            log(`   ⏪ Revision saved: ${revisionSnapshot.id}`);
+        }
+
+        if (preserve.categories && preservation.originalCategories.length > 0) {
+            publishData.categories = preservation.originalCategories;
+        }
+        if (preserve.tags && preservation.originalTags.length > 0) {
+            publishData.tags = preservation.originalTags;
+        }
+        if (preserve.featuredImage && preservation.featuredImageId) {
+            publishData.featured_media = preservation.featuredImageId;
+        }
+
+        const result = await wpUpdatePost(wpUrl, auth, postId, publishData, {
+            preserveFeaturedImage: preserve.featuredImage,
+            preserveSlug: true,
+            preserveCategories: preserve.categories,
+            preserveTags: preserve.tags
+        });
+
+        finalPostId = result.id;
+        finalPostLink = result.link;
+        log(`   ✅ Updated post ID: ${finalPostId}`);
+    } else {
+        publishData.slug = contract.slug;
+        log(`   → Creating NEW post with slug: "${contract.slug}"`);
+
+        const result = await wpCreatePost(wpUrl, auth, publishData);
+        finalPostId = result.id;
+        finalPostLink = result.link;
+        log(`   ✅ Created NEW post ID: ${finalPostId}`);
+    }
+
+    try {
+        await wpUpdatePostMeta(wpUrl, auth, finalPostId, {
+            title: contract.title,
+            description: contract.metaDescription,
+            focusKeyword: input.focusKeyword
+        });
+        log(`   ✅ SEO meta updated`);
+    } catch (e: any) {
+        log(`   ⚠️ SEO meta update failed: ${e.message}`);
+    }
+
+    return { postId: finalPostId, link: finalPostLink, created: !postId, revisionSnapshot };
+}
+
+export default {
+    GOD_MODE_VERSION,
+    TITLE_MAX_LENGTH,
+    META_MAX_LENGTH,
+    EMPTY_PRESERVATION,
+    removeDuplicateFAQSections,
+    removeH1TagsFromContent,
+    enforceTitle,
+    enforceMeta,
+    loadExistingPost,
+    synthesizeContent,
+    publishToWordPress
+};
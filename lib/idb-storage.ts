@@ -0,0 +1,219 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — INDEXEDDB PERSISTENCE LAYER
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Zustand `persist` storage backed by IndexedDB:
+// ✅ Structured clone — large pages/contracts are never JSON-stringified
+// ✅ Debounced writes — bulk runs update state many times per second
+// ✅ Holds writes until the stored state has been read, so hydration never loses it
+// ✅ A failed read is rethrown and keeps writes held — it never reads as empty
+// ✅ Imports the legacy localStorage snapshot on first load
+// ✅ Falls back to localStorage when IndexedDB is unavailable
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+
+export const IDB_STORAGE_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface IndexedDBStorageOptions {
+    dbName?: string;
+    storeName?: string;
+    writeDelayMs?: number;
+}
+
+export type IndexedDBPersistStorage<S> = PersistStorage<S> & {
+    // Writes any debounced state immediately
+    flush: () => Promise<void>;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_DB_NAME = 'wp-optimizer-pro';
+const DEFAULT_STORE_NAME = 'persisted-state';
+const DEFAULT_WRITE_DELAY_MS = 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧰 HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Maps don't survive JSON.stringify — only needed for the localStorage fallback
+function jsonReplacer(_key: string, value: unknown): unknown {
+    if (value instanceof Map) {
+        return { __type: 'Map', entries: Array.from(value.entries()) };
+    }
+    return value;
+}
+
+function jsonReviver(_key: string, value: any): unknown {
+    if (value && value.__type === 'Map' && Array.isArray(value.entries)) {
+        return new Map(value.entries);
+    }
+    return value;
+}
+
+function openDatabase(dbName: string, storeName: string): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB not available'));
+            return;
+        }
+
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(storeName)) {
+                db.createObjectStore(storeName);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB open blocked by another tab'));
+    });
+}
+
+function runRequest<T>(
+    db: IDBDatabase,
+    storeName: string,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = fn(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function readLocalStorage<S>(name: string): StorageValue<S> | null {
+    try {
+        const raw = localStorage.getItem(name);
+        return raw ? JSON.parse(raw, jsonReviver) : null;
+    } catch {
+        return null;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🚀 STORAGE FACTORY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createIndexedDBStorage<S>(options: IndexedDBStorageOptions = {}): IndexedDBPersistStorage<S> {
+    const dbName = options.dbName || DEFAULT_DB_NAME;
+    const storeName = options.storeName || DEFAULT_STORE_NAME;
+    const writeDelayMs = options.writeDelayMs ?? DEFAULT_WRITE_DELAY_MS;
+
+    let dbPromise: Promise<IDBDatabase | null> | null = null;
+    const getDb = (): Promise<IDBDatabase | null> => {
+        if (!dbPromise) {
+            dbPromise = openDatabase(dbName, storeName).catch((e: any) => {
+                console.warn(`[Storage] ${e?.message || e} — falling back to localStorage`);
+                return null;
+            });
+        }
+        return dbPromise;
+    };
+
+    const pending = new Map<string, StorageValue<S>>();
+    // Names whose stored value has been read. Until then writes are held back:
+    // they carry the initial state and would overwrite what hydration is loading.
+    const loaded = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+        if (!timer) {
+            timer = setTimeout(flush, writeDelayMs);
+        }
+    };
+
+    const write = async (name: string, value: StorageValue<S>): Promise<void> => {
+        const db = await getDb();
+        if (!db) {
+            localStorage.setItem(name, JSON.stringify(value, jsonReplacer));
+            return;
+        }
+        await runRequest(db, storeName, 'readwrite', store => store.put(value, name));
+        // The legacy localStorage snapshot is superseded once IndexedDB holds the state
+        localStorage.removeItem(name);
+    };
+
+    const flush = async (): Promise<void> => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        const entries = Array.from(pending.entries()).filter(([name]) => loaded.has(name));
+
+        for (const [name, value] of entries) {
+            pending.delete(name);
+            try {
+                await write(name, value);
+            } catch (e: any) {
+                console.error(`[Storage] Failed to persist "${name}":`, e?.message || e);
+            }
+        }
+    };
+
+    if (typeof window !== 'undefined') {
+        window.addEventListener('pagehide', () => { flush(); });
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'hidden') flush();
+        });
+    }
+
+    return {
+        getItem: async (name) => {
+            if (loaded.has(name) && pending.has(name)) return pending.get(name)!;
+
+            const db = await getDb();
+            let value: StorageValue<S> | null | undefined;
+            if (db) {
+                try {
+                    value = await runRequest<StorageValue<S> | undefined>(
+                        db, storeName, 'readonly', store => store.get(name)
+                    );
+                } catch (e: any) {
+                    // Not marked loaded: the localStorage snapshot is usually gone by
+                    // now, and writing the initial state would wipe the stored one
+                    console.error(`[Storage] Failed to read "${name}":`, e?.message || e);
+                    throw e;
+                }
+            }
+
+            // First load after upgrade, or no IndexedDB — use the localStorage snapshot
+            if (!value) value = readLocalStorage<S>(name);
+
+            loaded.add(name);
+            if (pending.has(name)) schedule();
+            return value;
+        },
+
+        setItem: (name, value) => {
+            pending.set(name, value);
+            if (loaded.has(name)) schedule();
+        },
+
+        removeItem: async (name) => {
+            pending.delete(name);
+            const db = await getDb();
+            if (db) {
+                await runRequest(db, storeName, 'readwrite', store => store.delete(name));
+            }
+            localStorage.removeItem(name);
+        },
+
+        flush
+    };
+}
+
+export default {
+    IDB_STORAGE_VERSION,
+    createIndexedDBStorage
+};
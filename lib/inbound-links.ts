@@ -0,0 +1,344 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — INBOUND LINK BACKFILL
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Outbound links come from the article being written; this adds the reverse:
+// ✅ Finds published posts related to a freshly published article
+// ✅ Picks a paragraph in each that already mentions the article's topic
+// ✅ Anchors are existing words — the source text is never rewritten
+// ✅ Skips headings, existing links and posts that already link to the article
+// ✅ Proposals wait for review; applying re-reads the live post first
+// ✅ Anchors spread across types when the anchor diversity guard is on
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { InboundLinkProposal, PostRevisionSnapshot } from '../types';
+import { calculateRelevanceScore, generateAnchorTextVariations } from '../internal-linking-engine';
+import { BasicAuth, WpPostContent, wpCapturePostSnapshot, wpGetPost, wpUpdatePost } from '../fetch-service';
+import { linkKey } from './link-graph';
+import { AnchorGuard, AnchorTerms, chooseAnchor, classifyAnchor, findGenericAnchors } from './anchor-diversity';
+
+export const INBOUND_LINKS_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// The freshly published article
+export interface InboundLinkTarget {
+    url: string;
+    title: string;
+    keyword?: string;
+    html: string;
+}
+
+export interface InboundLinkOptions {
+    maxProposals: number;
+    // Minimum calculateRelevanceScore (0–100) for a source post
+    minRelevance: number;
+    // Paragraphs shorter than this are skipped (captions, CTAs, bylines)
+    minParagraphChars: number;
+}
+
+export interface AnchorMatch {
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface AppliedInboundLink {
+    // False when the source already linked to the target — nothing was written
+    written: boolean;
+    snapshot: PostRevisionSnapshot | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_INBOUND_LINK_OPTIONS: InboundLinkOptions = {
+    maxProposals: 8,
+    minRelevance: 20,
+    minParagraphChars: 80
+};
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'for', 'to', 'of', 'in', 'on', 'at', 'by', 'with',
+    'from', 'is', 'are', 'your', 'you', 'how', 'what', 'why', 'when', 'best', 'guide', 'complete',
+    'ultimate', 'vs', 'our', 'my', 'this', 'that'
+]);
+
+// Anchors shorter than this many words are too vague to place automatically
+const MIN_ANCHOR_WORDS = 2;
+const MAX_ANCHOR_WORDS = 6;
+
+const PARAGRAPH = /<p\b[^>]*>([\s\S]*?)<\/p>/gi;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function textOf(html: string): string {
+    return html
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&#8217;|&rsquo;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordsOf(text: string): string[] {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}\s'-]/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+// Whole-phrase, case-insensitive, any whitespace between words
+function phrasePattern(phrase: string): RegExp {
+    const body = phrase.trim().split(/\s+/).map(escapeRegex).join('\\s+');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Anchor phrases for the target, longest first: the keyword, the title and
+ * its variations, the title before a colon or dash, and 2–4 word runs of the
+ * keyword that don't start or end on a stop word.
+ */
+export function buildAnchorCandidates(target: InboundLinkTarget): string[] {
+    const title = target.title.trim();
+    const phrases = [
+        target.keyword || '',
+        ...generateAnchorTextVariations(title),
+        title.split(/\s*[:|–—]\s*|\s-\s/)[0]
+    ];
+
+    const keywordWords = wordsOf(target.keyword || '');
+    for (let size = Math.min(4, keywordWords.length - 1); size >= MIN_ANCHOR_WORDS; size--) {
+        for (let i = 0; i + size <= keywordWords.length; i++) {
+            const run = keywordWords.slice(i, i + size);
+            if (STOP_WORDS.has(run[0]) || STOP_WORDS.has(run[run.length - 1])) continue;
+            phrases.push(run.join(' '));
+        }
+    }
+
+    const seen = new Set<string>();
+    return phrases
+        .map(p => p.replace(/\s+/g, ' ').trim())
+        .filter(p => {
+            const words = wordsOf(p);
+            const key = words.join(' ');
+            if (words.length < MIN_ANCHOR_WORDS || words.length > MAX_ANCHOR_WORDS || seen.has(key)) return false;
+            // Title fragments spanning a colon or dash read as two phrases
+            if (/[:|–—]/.test(p)) return false;
+            seen.add(key);
+            return true;
+        })
+        .sort((a, b) => wordsOf(b).length - wordsOf(a).length || b.length - a.length);
+}
+
+/**
+ * First occurrence of `phrase` in the running text of an HTML fragment —
+ * never inside a tag, an existing link or a heading. Positions index `html`.
+ */
+export function findAnchorInHtml(html: string, phrase: string): AnchorMatch | null {
+    const pattern = phrasePattern(phrase);
+    const parts = html.split(/(<[^>]+>)/);
+    let offset = 0;
+    let blocked = 0;
+
+    for (const part of parts) {
+        if (part.startsWith('<')) {
+            if (/^<(a|h[1-6]|code|pre|button)\b/i.test(part)) blocked++;
+            else if (/^<\/(a|h[1-6]|code|pre|button)>/i.test(part)) blocked = Math.max(0, blocked - 1);
+        } else if (!blocked) {
+            const match = pattern.exec(part);
+            if (match) {
+                const start = offset + match.index;
+                return { start, end: start + match[0].length, text: match[0] };
+            }
+        }
+        offset += part.length;
+    }
+    return null;
+}
+
+// Whether any href in the HTML points at the target page
+export function linksToUrl(html: string, targetUrl: string): boolean {
+    const target = linkKey(targetUrl);
+    const hrefs = html.matchAll(/href\s*=\s*["']([^"']+)["']/gi);
+    for (const [, href] of hrefs) {
+        try {
+            if (linkKey(new URL(href, targetUrl).href) === target) return true;
+        } catch {}
+    }
+    return false;
+}
+
+function paragraphsOf(html: string): Array<{ start: number; inner: string; innerStart: number }> {
+    const paragraphs: Array<{ start: number; inner: string; innerStart: number }> = [];
+    for (const match of html.matchAll(PARAGRAPH)) {
+        const innerStart = match.index! + match[0].indexOf('>') + 1;
+        paragraphs.push({ start: match.index!, inner: match[1], innerStart });
+    }
+    return paragraphs;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔍 PROPOSALS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Proposes one inbound link per related source post, most relevant first.
+ * Each proposal wraps words already in the source paragraph, so an approved
+ * link never changes what the reader sees apart from the link itself. With
+ * an anchor guard the proposals between them keep the target's anchor mix
+ * healthy instead of all using the longest phrase.
+ */
+export function findInboundLinkOpportunities(
+    target: InboundLinkTarget,
+    sources: WpPostContent[],
+    options: Partial<InboundLinkOptions> = {},
+    anchorGuard?: AnchorGuard
+): InboundLinkProposal[] {
+    const cfg: InboundLinkOptions = { ...DEFAULT_INBOUND_LINK_OPTIONS, ...options };
+    const anchors = buildAnchorCandidates(target);
+    if (anchors.length === 0) return [];
+
+    const targetText = textOf(target.html);
+    const targetKey = linkKey(target.url);
+    const terms: AnchorTerms = { url: target.url, title: target.title, keywords: target.keyword ? [target.keyword] : undefined };
+    const proposals: InboundLinkProposal[] = [];
+
+    for (const source of sources) {
+        if (!source.content || linkKey(source.url) === targetKey) continue;
+        if (linksToUrl(source.content, target.url)) continue;
+
+        const relevance = calculateRelevanceScore(textOf(source.content), targetText, target.title);
+        if (relevance < cfg.minRelevance) continue;
+
+        const placement = placeAnchor(source.content, anchors, cfg.minParagraphChars, matches => {
+            if (!anchorGuard?.settings.enabled) return matches[0];
+            // Proposals already made in this batch count towards the profile
+            const pending = proposals.map(p => ({
+                sourceUrl: p.sourceUrl,
+                anchor: p.anchor,
+                type: classifyAnchor(p.anchor, terms, anchorGuard.brand),
+                origin: 'published' as const,
+                recordedAt: p.createdAt
+            }));
+            return chooseAnchor(matches, terms, anchorGuard, pending)?.anchor || null;
+        }, !!anchorGuard?.settings.enabled);
+        if (!placement) continue;
+
+        proposals.push({
+            id: `inb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            createdAt: Date.now(),
+            status: 'pending',
+            targetUrl: target.url,
+            targetTitle: target.title,
+            sourcePostId: source.id,
+            sourceUrl: source.url,
+            sourceTitle: source.title,
+            anchor: placement.anchor,
+            context: placement.context,
+            relevance: Math.round(relevance)
+        });
+    }
+
+    return proposals
+        .sort((a, b) => b.relevance - a.relevance)
+        .slice(0, cfg.maxProposals);
+}
+
+// Earliest paragraph where `pick` accepts one of the candidate phrases found in it
+function placeAnchor(
+    html: string,
+    anchors: string[],
+    minParagraphChars: number,
+    pick: (matches: string[]) => string | null,
+    withGeneric: boolean
+): { anchor: string; context: string } | null {
+    for (const paragraph of paragraphsOf(html)) {
+        const context = textOf(paragraph.inner);
+        if (context.length < minParagraphChars) continue;
+
+        const phrases = withGeneric ? [...anchors, ...findGenericAnchors(context)] : anchors;
+        const matches = phrases
+            .map(anchor => findAnchorInHtml(paragraph.inner, anchor)?.text)
+            .filter(Boolean) as string[];
+        const anchor = matches.length > 0 ? pick(matches) : null;
+        if (anchor) return { anchor, context };
+    }
+    return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ✍️ APPLY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wraps the proposal's anchor in a link. Prefers the reviewed paragraph and
+ * falls back to the first paragraph still containing the anchor, since the
+ * post may have been edited since the proposal was made. Null when the
+ * anchor text is gone.
+ */
+export function insertInboundLink(html: string, proposal: InboundLinkProposal): string | null {
+    const paragraphs = paragraphsOf(html);
+    const reviewed = paragraphs.filter(p => textOf(p.inner) === proposal.context);
+    const ordered = [...reviewed, ...paragraphs.filter(p => !reviewed.includes(p))];
+
+    for (const paragraph of ordered) {
+        const match = findAnchorInHtml(paragraph.inner, proposal.anchor);
+        if (!match) continue;
+
+        const start = paragraph.innerStart + match.start;
+        const end = paragraph.innerStart + match.end;
+        return `${html.slice(0, start)}<a href="${proposal.targetUrl}">${match.text}</a>${html.slice(end)}`;
+    }
+    return null;
+}
+
+/**
+ * Writes an approved proposal to WordPress: re-reads the source post,
+ * snapshots it for rollback, inserts the link and updates only the content.
+ * Throws when the anchor text no longer exists in the post.
+ */
+export async function applyInboundLinkProposal(
+    wpUrl: string,
+    auth: BasicAuth,
+    proposal: InboundLinkProposal
+): Promise<AppliedInboundLink> {
+    const post = await wpGetPost(wpUrl, proposal.sourcePostId, auth);
+    const content: string = post.content?.raw ?? post.content?.rendered ?? '';
+
+    if (linksToUrl(content, proposal.targetUrl)) {
+        return { written: false, snapshot: null };
+    }
+
+    const updated = insertInboundLink(content, proposal);
+    if (!updated) {
+        throw new Error(`Anchor "${proposal.anchor}" no longer found in post ${proposal.sourcePostId}`);
+    }
+
+    const snapshot = await wpCapturePostSnapshot(wpUrl, proposal.sourcePostId, auth, {
+        pageId: proposal.sourceUrl,
+        reason: 'pre-inbound-link',
+        post
+    });
+
+    await wpUpdatePost(wpUrl, auth, proposal.sourcePostId, { content: updated });
+    return { written: true, snapshot };
+}
+
+export default {
+    INBOUND_LINKS_VERSION,
+    DEFAULT_INBOUND_LINK_OPTIONS,
+    buildAnchorCandidates,
+    findAnchorInHtml,
+    linksToUrl,
+    findInboundLinkOpportunities,
+    insertInboundLink,
+    applyInboundLinkProposal
+};
@@ -0,0 +1,597 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — INTERNAL LINK ENGINE
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// The one place outbound internal links are chosen and written:
+// ✅ Honors every InternalLinkInjectionOptions field — min/max links, minimum
+//    relevance, word spacing, per-section caps and excluded URLs
+// ✅ Keyword relevance, or the ranked sections of a semantic plan
+// ✅ Anchors are words already in the paragraph, taken from the target's title
+// ✅ Optional anchor diversity guard keeps each target's anchor mix healthy
+// ✅ DOM insertion — never inside headings, existing links, code, callouts or FAQs
+// ✅ Dry-run report of every planned link and why each other target was skipped
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+    AnchorType, InternalLinkInjectionOptions, InternalLinkInjectionResult, InternalLinkReport, InternalLinkTarget,
+    PlannedInternalLink, SkippedLinkTarget
+} from '../types';
+import { SemanticLinkPlan } from './embeddings';
+import { linkKey } from './link-graph';
+import { AnchorGuard, chooseAnchor, findGenericAnchors } from './anchor-diversity';
+
+export const LINK_ENGINE_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+type LogFunction = (msg: string) => void;
+
+export interface LinkEngineOptions extends InternalLinkInjectionOptions {
+    // The article's own URL — never linked
+    currentUrl?: string;
+    // Plan and report only; the HTML comes back unchanged
+    dryRun?: boolean;
+    // Whether paragraphs before the first H2 may carry links
+    linkIntro?: boolean;
+    // Ranked targets per H2 section; keyword relevance is used without one
+    semanticPlan?: SemanticLinkPlan;
+    // Site-wide anchor history; anchors are chosen to keep each target's mix healthy
+    anchorGuard?: AnchorGuard;
+    log?: LogFunction;
+}
+
+interface LinkBlock {
+    element: Element;
+    text: string;
+    sectionIndex: number;
+    // Words of the article before this paragraph
+    position: number;
+}
+
+interface AnchorPlacement {
+    node: Text;
+    index: number;
+    length: number;
+    text: string;
+}
+
+interface PlannedPlacement {
+    link: PlannedInternalLink;
+    block: LinkBlock;
+    placement: AnchorPlacement;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_LINK_ENGINE_OPTIONS: Required<InternalLinkInjectionOptions> = {
+    minLinks: 0,
+    maxLinks: 15,
+    minRelevance: 0.3,
+    minDistanceBetweenLinks: 150,
+    maxLinksPerSection: 2,
+    excludeUrls: []
+};
+
+const OPTION_KEYS = Object.keys(DEFAULT_LINK_ENGINE_OPTIONS) as Array<keyof InternalLinkInjectionOptions>;
+
+// Anything inside these is never linked: headings, links, code, callouts,
+// the references box, FAQ items and other structured blocks
+const NO_LINK_ZONES = [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'a', 'code', 'pre', 'button', 'figure', 'table',
+    'details', 'nav', 'aside', 'blockquote', 'script', 'style',
+    '.wpo-box', '.wpo-faq-item', '.wpo-faq-container',
+    '[itemtype*="FAQPage"]', '[itemtype*="Question"]', '[data-no-links]'
+].join(', ');
+
+// Text inside these within an eligible paragraph can't become an anchor
+const NO_ANCHOR_INLINE = 'a, code, button, script, style';
+
+const MIN_PARAGRAPH_CHARS = 30;
+const MIN_ANCHOR_CHARS = 4;
+const MAX_CONTEXT_CHARS = 200;
+
+// Share of minRelevance and spacing still accepted when topping up to minLinks
+const RELAXED_FACTOR = 0.5;
+
+const SHOW_TEXT = 4;
+
+const STOP_WORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of',
+    'with', 'by', 'from', 'is', 'are', 'was', 'were', 'be', 'been', 'have',
+    'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should',
+    'may', 'might', 'must', 'can', 'need', 'about', 'after', 'again', 'all',
+    'any', 'because', 'before', 'between', 'both', 'during', 'each', 'few',
+    'here', 'how', 'into', 'its', 'just', 'more', 'most', 'no', 'nor', 'not',
+    'now', 'off', 'once', 'only', 'other', 'our', 'out', 'over', 'own', 'same',
+    'so', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there',
+    'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'up',
+    'very', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'your',
+    'best', 'top', 'guide', 'complete', 'ultimate', 'way', 'ways',
+    'tips', 'step', 'steps', 'make', 'get', 'use', 'using', 'new', 'first',
+    'like', 'know', 'take', 'come', 'think', 'see', 'look', 'want',
+    'give', 'find', 'tell', 'become', 'leave', 'put', 'mean', 'keep', 'let',
+    'begin', 'seem', 'help', 'show', 'hear', 'play', 'run', 'move', 'live'
+]);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function collapse(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function wordCount(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-phrase, case-insensitive, any whitespace between words
+function phrasePattern(phrase: string): RegExp {
+    const body = phrase.trim().split(/\s+/).map(escapeRegex).join('\\s+');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+// Letters and digits only — sentences from the plan were stripped with a regex, not the DOM
+function looseText(text: string): string {
+    return text.toLowerCase().replace(/&[a-z#0-9]+;/g, '').replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+function targetKey(url: string): string {
+    return linkKey(url).replace(/\/+$/, '');
+}
+
+// The option fields that are set — undefined never overrides a default
+function pickDefined(options: LinkEngineOptions): InternalLinkInjectionOptions {
+    const picked: InternalLinkInjectionOptions = {};
+    OPTION_KEYS.forEach(key => {
+        if (options[key] !== undefined) Object.assign(picked, { [key]: options[key] });
+    });
+    return picked;
+}
+
+function resolveOptions(options: LinkEngineOptions): Required<InternalLinkInjectionOptions> {
+    const cfg: Required<InternalLinkInjectionOptions> = Object.assign({ ...DEFAULT_LINK_ENGINE_OPTIONS }, pickDefined(options));
+    cfg.maxLinks = Math.max(0, cfg.maxLinks);
+    cfg.minLinks = Math.min(Math.max(0, cfg.minLinks), cfg.maxLinks);
+    return cfg;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 RELEVANCE & ANCHORS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * 0–1 keyword relevance of a paragraph to a target: half from title words,
+ * 0.3 from slug words and 0.2 from the target's keywords.
+ */
+export function scoreKeywordRelevance(paragraphText: string, target: InternalLinkTarget): number {
+    const textLower = paragraphText.toLowerCase();
+    const titleWords = target.title.toLowerCase().split(/\s+/).filter(w => w.length > 3);
+    const slugWords = (target.slug || '').replace(/-/g, ' ').toLowerCase().split(/\s+/).filter(Boolean);
+
+    let score = 0;
+
+    const matchingTitleWords = titleWords.filter(w => textLower.includes(w));
+    score += (matchingTitleWords.length / Math.max(1, titleWords.length)) * 0.5;
+
+    const matchingSlugWords = slugWords.filter(w => w.length > 3 && textLower.includes(w));
+    score += (matchingSlugWords.length / Math.max(1, slugWords.length)) * 0.3;
+
+    if (target.keywords?.length) {
+        const matchingKeywords = target.keywords.filter(k => textLower.includes(k.toLowerCase()));
+        score += (matchingKeywords.length / target.keywords.length) * 0.2;
+    }
+
+    return Math.min(1, score);
+}
+
+/**
+ * Anchors for the target as they appear in `text`, best first; empty when
+ * the text shares nothing with the target's title or slug. In order: 2–4
+ * word runs of the title, important title words with a neighbour, any title
+ * word with the word after it, then slug words.
+ */
+export function findAnchorCandidates(text: string, target: InternalLinkTarget): string[] {
+    if (!text || !target?.title) return [];
+
+    const textLower = text.toLowerCase();
+    const titleWords = target.title.toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(w => w.length >= 3 && !STOP_WORDS.has(w));
+
+    if (titleWords.length === 0) return [];
+
+    const found: string[] = [];
+    const add = (anchor: string) => {
+        if (!found.some(f => f.toLowerCase() === anchor.toLowerCase())) found.push(anchor);
+    };
+
+    // Exact 2–4 word phrases from the title
+    for (let len = Math.min(4, titleWords.length); len >= 2; len--) {
+        for (let start = 0; start <= titleWords.length - len; start++) {
+            const phrase = titleWords.slice(start, start + len).join(' ');
+            if (phrase.length >= 5 && phrase.length <= 40 && textLower.includes(phrase)) {
+                const idx = textLower.indexOf(phrase);
+                add(text.substring(idx, idx + phrase.length));
+            }
+        }
+    }
+
+    // Important words (5+ chars) with an adjacent word
+    for (const word of titleWords.filter(w => w.length >= 5)) {
+        const wordIdx = textLower.indexOf(word);
+        if (wordIdx === -1) continue;
+
+        const actualWord = text.substring(wordIdx, wordIdx + word.length);
+
+        const afterMatch = text.substring(wordIdx + word.length, wordIdx + word.length + 30).match(/^\s*([a-zA-Z]{3,15})/);
+        if (afterMatch && !STOP_WORDS.has(afterMatch[1].toLowerCase())) {
+            const anchor = `${actualWord} ${afterMatch[1]}`;
+            if (anchor.length >= 8 && anchor.length <= 35) add(anchor);
+        }
+
+        const beforeMatch = text.substring(Math.max(0, wordIdx - 30), wordIdx).match(/([a-zA-Z]{3,15})\s*$/);
+        if (beforeMatch && !STOP_WORDS.has(beforeMatch[1].toLowerCase())) {
+            const anchor = `${beforeMatch[1]} ${actualWord}`;
+            if (anchor.length >= 8 && anchor.length <= 35) add(anchor);
+        }
+
+        if (word.length >= 7) add(actualWord);
+    }
+
+    // Any 4+ char title word with the word after it
+    for (const word of titleWords) {
+        if (word.length < 4) continue;
+
+        const wordIdx = textLower.indexOf(word);
+        if (wordIdx === -1) continue;
+
+        const actualWord = text.substring(wordIdx, wordIdx + word.length);
+        const afterMatch = text.substring(wordIdx + word.length, wordIdx + word.length + 25).match(/^\s*([a-zA-Z]{3,12})/);
+        if (afterMatch && !STOP_WORDS.has(afterMatch[1].toLowerCase())) add(`${actualWord} ${afterMatch[1]}`);
+        if (word.length >= 6) add(actualWord);
+    }
+
+    // Slug-derived words
+    if (target.slug && target.slug.length > 5) {
+        const slugWords = target.slug
+            .toLowerCase()
+            .replace(/-/g, ' ')
+            .split(/\s+/)
+            .filter(w => w.length >= 4 && !STOP_WORDS.has(w));
+
+        for (const word of slugWords) {
+            const wordIdx = textLower.indexOf(word);
+            if (wordIdx === -1) continue;
+
+            const actualWord = text.substring(wordIdx, wordIdx + word.length);
+            if (word.length >= 6) add(actualWord);
+
+            const afterMatch = text.substring(wordIdx + word.length, wordIdx + word.length + 20).match(/^\s*([a-zA-Z]{3,10})/);
+            if (afterMatch && !STOP_WORDS.has(afterMatch[1].toLowerCase())) add(`${actualWord} ${afterMatch[1]}`);
+        }
+    }
+
+    return found.filter(anchor => anchor.length >= MIN_ANCHOR_CHARS);
+}
+
+// Best anchor for the target in `text`, or ''
+export function findAnchorText(text: string, target: InternalLinkTarget): string {
+    return findAnchorCandidates(text, target)[0] || '';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌳 DOCUMENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function parseArticle(html: string): Document {
+    // An explicit <body> keeps a leading <style> block in the body, not the head
+    return new DOMParser().parseFromString(`<!DOCTYPE html><html><head></head><body>${html}</body></html>`, 'text/html');
+}
+
+/**
+ * Paragraphs and list items that may carry a link, in document order, with
+ * the H2 section they belong to and how many words of the article precede them.
+ */
+function collectBlocks(doc: Document): LinkBlock[] {
+    const wordsBefore = new Map<Node, number>();
+    const walker = doc.createTreeWalker(doc.body, SHOW_TEXT);
+    let running = 0;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        wordsBefore.set(node, running);
+        running += wordCount(node.textContent || '');
+    }
+
+    const blocks: LinkBlock[] = [];
+    let sectionIndex = 0;
+
+    doc.body.querySelectorAll('h2, p, li').forEach(element => {
+        if (element.tagName === 'H2') {
+            sectionIndex++;
+            return;
+        }
+        if (element.closest(NO_LINK_ZONES)) return;
+        // List items holding paragraphs or sub-lists are covered by those
+        if (element.tagName === 'LI' && element.querySelector('p, li')) return;
+
+        const text = collapse(element.textContent || '');
+        if (text.length < MIN_PARAGRAPH_CHARS) return;
+
+        const first = doc.createTreeWalker(element, SHOW_TEXT).nextNode();
+        blocks.push({ element, text, sectionIndex, position: first ? wordsBefore.get(first) ?? 0 : 0 });
+    });
+
+    return blocks;
+}
+
+// First occurrence of the anchor in a text node of the block that isn't inside a link or code
+function locateAnchor(block: LinkBlock, anchor: string): AnchorPlacement | null {
+    const pattern = phrasePattern(anchor);
+    const walker = block.element.ownerDocument.createTreeWalker(block.element, SHOW_TEXT);
+
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        if (node.parentElement?.closest(NO_ANCHOR_INLINE)) continue;
+        const match = pattern.exec(node.data);
+        if (match) return { node, index: match.index, length: match[0].length, text: match[0] };
+    }
+    return null;
+}
+
+function insertLink(doc: Document, placement: AnchorPlacement, target: InternalLinkTarget): void {
+    const { node, index, length } = placement;
+    const text = node.data;
+
+    const a = doc.createElement('a');
+    a.setAttribute('href', target.url);
+    a.setAttribute('title', target.title);
+    a.textContent = text.slice(index, index + length);
+
+    node.parentNode?.insertBefore(doc.createTextNode(text.slice(0, index)), node);
+    node.parentNode?.insertBefore(a, node);
+    node.data = text.slice(index + length);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔗 ENGINE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Plans internal links for an article and, unless `dryRun` is set, writes
+ * them. Each target is linked at most once, one link per paragraph, with
+ * at most `maxLinksPerSection` per H2 section and `minDistanceBetweenLinks`
+ * words between linked paragraphs. When fewer than `minLinks` clear
+ * `minRelevance`, a second pass accepts half the relevance and spacing.
+ *
+ * Without a DOM (the offline harness) the HTML is returned unchanged and
+ * every target is reported as skipped.
+ */
+export function runLinkEngine(
+    html: string,
+    linkTargets: InternalLinkTarget[],
+    options: LinkEngineOptions = {}
+): InternalLinkInjectionResult & { report: InternalLinkReport } {
+    const cfg = resolveOptions(options);
+    const { currentUrl, dryRun = false, linkIntro = true, semanticPlan, anchorGuard, log = () => {} } = options;
+
+    const skipped: SkippedLinkTarget[] = [];
+    const finish = (outHtml: string, planned: PlannedInternalLink[], eligibleParagraphs: number) => {
+        const report: InternalLinkReport = {
+            dryRun,
+            planned,
+            skipped,
+            eligibleParagraphs,
+            belowMinimum: planned.length < cfg.minLinks
+        };
+        return {
+            html: outHtml,
+            linksAdded: dryRun ? [] : planned.map(({ url, anchorText, relevanceScore, position, sectionIndex }) => ({
+                url, anchorText, relevanceScore, position, sectionIndex
+            })),
+            totalLinks: dryRun ? 0 : planned.length,
+            skippedReasons: new Map(skipped.map(s => [s.url, s.reason])),
+            report
+        };
+    };
+    const skipAll = (targets: InternalLinkTarget[], reason: string) =>
+        targets.forEach(t => skipped.push({ url: t?.url || '', title: t?.title || '', reason }));
+
+    const targets = Array.isArray(linkTargets) ? linkTargets : [];
+    if (!html || targets.length === 0 || cfg.maxLinks === 0) {
+        skipAll(targets, cfg.maxLinks === 0 ? 'maxLinks is 0' : 'no article content');
+        return finish(html || '', [], 0);
+    }
+    if (typeof DOMParser === 'undefined') {
+        skipAll(targets, 'no DOM available — links are only placed in the browser');
+        return finish(html, [], 0);
+    }
+
+    const doc = parseArticle(html);
+
+    // ── Eligible targets ────────────────────────────────────────────────────
+    const existing = new Set<string>();
+    doc.body.querySelectorAll('a[href]').forEach(a => existing.add(targetKey(a.getAttribute('href') || '')));
+    const excluded = new Set(cfg.excludeUrls.map(targetKey));
+    const currentKey = currentUrl ? targetKey(currentUrl) : '';
+
+    const eligible: InternalLinkTarget[] = [];
+    const seen = new Set<string>();
+    for (const target of targets) {
+        if (!target?.url || !target?.title) {
+            skipAll([target], 'missing url or title');
+            continue;
+        }
+        const key = targetKey(target.url);
+        const reason = key === currentKey ? 'the article itself'
+            : excluded.has(key) ? 'excluded URL'
+            : seen.has(key) ? 'duplicate target'
+            : existing.has(key) ? 'already linked in the article'
+            : '';
+        seen.add(key);
+        if (reason) skipAll([target], reason);
+        else eligible.push(target);
+    }
+
+    const blocks = collectBlocks(doc).filter(b => linkIntro || b.sectionIndex > 0);
+    log(`   🔗 Link engine: ${eligible.length} targets, ${blocks.length} eligible paragraphs${semanticPlan ? ' (semantic)' : ''}`);
+
+    // ── Planning ────────────────────────────────────────────────────────────
+    const planned: PlannedPlacement[] = [];
+    const linkedKeys = new Set<string>();
+    const usedBlocks = new Set<LinkBlock>();
+    const perSection = new Map<number, number>();
+    // Furthest a target got: 1 relevance, 2 anchor, 3 placement, 4 anchor profile
+    const failures = new Map<InternalLinkTarget, { stage: number; reason: string }>();
+    const bestRelevance = new Map<InternalLinkTarget, number>();
+
+    const fail = (target: InternalLinkTarget, stage: number, reason: string) => {
+        const prev = failures.get(target);
+        if (!prev || stage > prev.stage) failures.set(target, { stage, reason });
+    };
+
+    const candidatesFor = (block: LinkBlock): Array<{ target: InternalLinkTarget; relevance: number; anchorSource: string }> => {
+        const open = eligible.filter(t => !linkedKeys.has(targetKey(t.url)));
+        if (semanticPlan) {
+            const blockText = looseText(block.text);
+            return (semanticPlan.sections[block.sectionIndex] || [])
+                .filter(c => open.includes(c.target) && blockText.includes(looseText(c.sentence)))
+                .map(c => ({ target: c.target, relevance: c.similarity, anchorSource: c.sentence }));
+        }
+        return open
+            .map(target => ({ target, relevance: scoreKeywordRelevance(block.text, target), anchorSource: block.text }))
+            .sort((a, b) => b.relevance - a.relevance);
+    };
+
+    // Title and slug anchors; with the guard also generic phrases and the brand name
+    const guarded = !!anchorGuard?.settings.enabled;
+    const anchorCandidates = (text: string, target: InternalLinkTarget): string[] => {
+        const anchors = findAnchorCandidates(text, target);
+        if (!guarded) return anchors;
+        const brandMatch = anchorGuard!.brand.trim() ? phrasePattern(anchorGuard!.brand).exec(text) : null;
+        return [...anchors, ...findGenericAnchors(text), ...(brandMatch ? [brandMatch[0]] : [])];
+    };
+
+    const runPass = (minRelevance: number, minDistance: number, relaxed: boolean) => {
+        for (const block of blocks) {
+            if (planned.length >= cfg.maxLinks) return;
+            if (usedBlocks.has(block)) continue;
+            if ((perSection.get(block.sectionIndex) || 0) >= cfg.maxLinksPerSection) continue;
+            if (planned.some(p => Math.abs(p.block.position - block.position) < minDistance)) continue;
+
+            for (const { target, relevance, anchorSource } of candidatesFor(block)) {
+                bestRelevance.set(target, Math.max(bestRelevance.get(target) ?? 0, relevance));
+                if (relevance < minRelevance) {
+                    fail(target, 1, `below minimum relevance ${cfg.minRelevance} (best ${(bestRelevance.get(target) ?? 0).toFixed(2)})`);
+                    continue;
+                }
+                const anchors = anchorCandidates(anchorSource, target);
+                if (anchors.length === 0) {
+                    fail(target, 2, 'no anchor text from its title or slug in a relevant paragraph');
+                    continue;
+                }
+                const placements = anchors.map(a => locateAnchor(block, a)).filter(Boolean) as AnchorPlacement[];
+                if (placements.length === 0) {
+                    fail(target, 3, `anchor "${anchors[0]}" only appears inside a link or code`);
+                    continue;
+                }
+
+                let placement = placements[0];
+                let anchorType: AnchorType | undefined;
+                if (guarded) {
+                    const choice = chooseAnchor(placements.map(p => p.text), target, anchorGuard!);
+                    if (!choice) {
+                        fail(target, 4, 'every anchor available would over-optimize its anchor profile');
+                        continue;
+                    }
+                    placement = placements.find(p => p.text === choice.anchor)!;
+                    anchorType = choice.type;
+                }
+
+                const basis = (semanticPlan ? `semantic similarity ${relevance.toFixed(2)}` : `keyword relevance ${relevance.toFixed(2)}`)
+                    + (anchorType ? `, ${anchorType} anchor` : '');
+                planned.push({
+                    block,
+                    placement,
+                    link: {
+                        url: target.url,
+                        title: target.title,
+                        anchorText: placement.text,
+                        relevanceScore: relevance,
+                        position: block.position,
+                        sectionIndex: block.sectionIndex,
+                        reason: relaxed ? `${basis} — relaxed pass to reach ${cfg.minLinks} links` : basis,
+                        anchorType,
+                        context: block.text.slice(0, MAX_CONTEXT_CHARS)
+                    }
+                });
+                linkedKeys.add(targetKey(target.url));
+                usedBlocks.add(block);
+                perSection.set(block.sectionIndex, (perSection.get(block.sectionIndex) || 0) + 1);
+                break;
+            }
+        }
+    };
+
+    runPass(cfg.minRelevance, cfg.minDistanceBetweenLinks, false);
+    if (planned.length < cfg.minLinks) {
+        runPass(cfg.minRelevance * RELAXED_FACTOR, cfg.minDistanceBetweenLinks * RELAXED_FACTOR, true);
+    }
+    planned.sort((a, b) => a.block.position - b.block.position);
+
+    // ── Report ──────────────────────────────────────────────────────────────
+    for (const target of eligible) {
+        if (linkedKeys.has(targetKey(target.url))) continue;
+        const failure = failures.get(target);
+        const reason = failure ? failure.reason
+            : planned.length >= cfg.maxLinks ? `maximum of ${cfg.maxLinks} links reached`
+            : semanticPlan && !Object.values(semanticPlan.sections).some(cs => cs.some(c => c.target === target))
+                ? 'not similar enough to any section'
+            : 'no paragraph left within the spacing and per-section limits';
+        skipAll([target], reason);
+    }
+
+    if (planned.length < cfg.minLinks) {
+        log(`   ⚠️ Only ${planned.length}/${cfg.minLinks} internal links could be placed`);
+    }
+
+    if (dryRun || planned.length === 0) {
+        return finish(html, planned.map(p => p.link), blocks.length);
+    }
+
+    planned.forEach(p => {
+        insertLink(doc, p.placement, eligible.find(t => t.url === p.link.url)!);
+        log(`      ✅ "${p.link.anchorText}" → ${p.link.url.substring(0, 60)}`);
+    });
+    log(`   🔗 ${planned.length} internal links injected, ${skipped.length} targets skipped`);
+
+    return finish(doc.body.innerHTML, planned.map(p => p.link), blocks.length);
+}
+
+/**
+ * What `runLinkEngine` would insert, without touching the HTML.
+ */
+export function previewInternalLinks(
+    html: string,
+    linkTargets: InternalLinkTarget[],
+    options: LinkEngineOptions = {}
+): InternalLinkReport {
+    return runLinkEngine(html, linkTargets, { ...options, dryRun: true }).report;
+}
+
+export default {
+    LINK_ENGINE_VERSION,
+    DEFAULT_LINK_ENGINE_OPTIONS,
+    scoreKeywordRelevance,
+    findAnchorCandidates,
+    findAnchorText,
+    runLinkEngine,
+    previewInternalLinks
+};
@@ -0,0 +1,540 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — SITE LINK GRAPH
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Crawls the site's pages and maps how they link to each other:
+// ✅ Inbound/outbound body-link counts and inbound anchor texts per page
+// ✅ Click depth from the home page (nav and footer links count here)
+// ✅ Reports: orphan pages, over-linked hubs, broken internal links,
+//    deep pages and anchors shared by competing pages
+// ✅ Link target prioritization — orphans and under-linked pages first
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { InternalLinkTarget, LinkGraphEdge, LinkGraphNode, SiteLinkGraph } from '../types';
+
+export const LINK_GRAPH_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface LinkGraphCrawlOptions {
+    maxPages: number;
+    concurrency: number;
+    // Also crawl internal pages found in links, not just the seeds
+    followLinks: boolean;
+}
+
+export interface ExtractedLink {
+    url: string;
+    anchor: string;
+    inContent: boolean;
+}
+
+export interface CrawledPage {
+    url: string;
+    // Null when the fetch itself failed (timeout, network, proxy refusal)
+    status: number | null;
+    title: string;
+    links: ExtractedLink[];
+}
+
+export interface BrokenLink {
+    from: string;
+    fromTitle: string;
+    to: string;
+    anchor: string;
+    status: number;
+}
+
+export interface AnchorConflict {
+    anchor: string;
+    targets: Array<{ url: string; title: string; count: number }>;
+}
+
+export interface LinkGraphReport {
+    pageCount: number;
+    linkCount: number;
+    orphans: LinkGraphNode[];
+    hubs: LinkGraphNode[];
+    broken: BrokenLink[];
+    deepPages: LinkGraphNode[];
+    conflicts: AnchorConflict[];
+}
+
+type LogFunction = (msg: string) => void;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_LINK_GRAPH_CRAWL: LinkGraphCrawlOptions = {
+    maxPages: 300,
+    concurrency: 3,
+    followLinks: true
+};
+
+export const LINK_GRAPH_THRESHOLDS = {
+    // Body links out of one page before it dilutes what it passes on
+    HUB_OUTBOUND: 60,
+    // Clicks from home before a page counts as buried
+    MAX_DEPTH: 3,
+    // Fewer inbound body links than this and a page is under-linked
+    UNDERLINKED_INBOUND: 3
+} as const;
+
+// Anchors that say nothing about the target — never a cannibalization signal
+const GENERIC_ANCHORS = new Set([
+    'click here', 'here', 'read more', 'learn more', 'more', 'this', 'link', 'this post',
+    'this article', 'continue reading', 'see more', 'view more', 'home', 'next', 'previous'
+]);
+
+const NON_PAGE_PATHS = ['/wp-admin', '/wp-content', '/wp-includes', '/wp-json', '/feed', '/xmlrpc.php', '/wp-login.php'];
+
+const NON_PAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|svg|pdf|zip|mp4|mp3|css|js|xml)$/i;
+
+// Site chrome — links inside these still count for depth, not for body-link counts
+const CHROME_BLOCK = /<(header|nav|footer|aside)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+const PAGE_FETCH_TIMEOUT_MS = 15000;
+
+// corsproxy.io answers with these when it rate-limits or refuses us — not the page's status
+const PROXY_REFUSAL_STATUSES = new Set([403, 429]);
+
+const WORKER_IDLE_MS = 50;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 URL & HTML HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Identity of a page: host + path, case- and trailing-slash-insensitive
+export function linkKey(url: string): string {
+    try {
+        const u = new URL(url);
+        return `${u.hostname.replace(/^www\./, '')}${u.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+        return url.toLowerCase();
+    }
+}
+
+/**
+ * Absolute URL of an internal page link, or null for external hosts,
+ * fragments, mailto/tel, WordPress internals and files.
+ */
+export function resolveInternalUrl(href: string, pageUrl: string, siteHost: string): string | null {
+    const raw = href.trim();
+    if (!raw || raw.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(raw)) return null;
+
+    let url: URL;
+    try {
+        url = new URL(raw, pageUrl);
+    } catch {
+        return null;
+    }
+    if (!/^https?:$/.test(url.protocol)) return null;
+    if (url.hostname.replace(/^www\./, '') !== siteHost) return null;
+
+    const path = url.pathname.toLowerCase();
+    if (NON_PAGE_PATHS.some(p => path === p || path.startsWith(`${p}/`))) return null;
+    if (NON_PAGE_EXTENSIONS.test(path) || /\/feed\/?$/.test(path)) return null;
+
+    url.hash = '';
+    url.search = '';
+    return url.href;
+}
+
+function siteHostOf(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+    } catch {
+        return '';
+    }
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&#8217;|&rsquo;/g, "'")
+        .replace(/&#8211;|&ndash;/g, '–')
+        .replace(/&#8212;|&mdash;/g, '—')
+        .replace(/&quot;/g, '"')
+        .replace(/&#0?39;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+function textOf(html: string): string {
+    return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+export function normalizeAnchor(anchor: string): string {
+    return anchor.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// <title> without the " | Site Name" suffix
+function extractTitle(html: string): string {
+    const title = textOf(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '');
+    return title.split(/\s[|–—-]\s/)[0].trim();
+}
+
+/**
+ * Internal links of one page. Regex-based so it runs without a DOM;
+ * links inside header/nav/footer/aside are marked as not in content.
+ */
+export function extractPageLinks(html: string, pageUrl: string, siteHost: string = siteHostOf(pageUrl)): ExtractedLink[] {
+    const cleaned = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<(script|style|noscript)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+    const chrome: Array<[number, number]> = [];
+    let block: RegExpExecArray | null;
+    CHROME_BLOCK.lastIndex = 0;
+    while ((block = CHROME_BLOCK.exec(cleaned)) !== null) {
+        chrome.push([block.index, block.index + block[0].length]);
+    }
+
+    const links: ExtractedLink[] = [];
+    const anchorRegex = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = anchorRegex.exec(cleaned)) !== null) {
+        const href = match[1].match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+        if (!href) continue;
+        const url = resolveInternalUrl(decodeEntities(href[1] ?? href[2] ?? href[3] ?? ''), pageUrl, siteHost);
+        if (!url || linkKey(url) === linkKey(pageUrl)) continue;
+
+        const alt = match[2].match(/\balt\s*=\s*"([^"]*)"/i)?.[1] || '';
+        const at = match.index;
+        links.push({
+            url,
+            anchor: textOf(match[2]) || decodeEntities(alt).trim(),
+            inContent: !chrome.some(([start, end]) => at >= start && at < end)
+        });
+    }
+    return links;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 CRAWLING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+async function fetchWithTimeout(url: string): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PAGE_FETCH_TIMEOUT_MS);
+    try {
+        return await fetch(url, { headers: { 'Accept': 'text/html,*/*' }, signal: controller.signal });
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+// Status is kept even when not OK — a 404 is a finding, not a crawl failure.
+// Null means we never heard from the page itself, which says nothing about it.
+async function fetchPageHtml(url: string): Promise<{ status: number | null; html: string }> {
+    try {
+        const res = await fetchWithTimeout(url);
+        return { status: res.status, html: res.ok ? await res.text() : '' };
+    } catch {}
+
+    // Direct fetch blocked (CORS) — fall back to the proxy
+    try {
+        const res = await fetchWithTimeout(`https://corsproxy.io/?${encodeURIComponent(url)}`);
+        if (PROXY_REFUSAL_STATUSES.has(res.status)) return { status: null, html: '' };
+        return { status: res.status, html: res.ok ? await res.text() : '' };
+    } catch {
+        return { status: null, html: '' };
+    }
+}
+
+/**
+ * Crawls the home page and the seed URLs (usually the sitemap), following
+ * internal links until `maxPages`, and builds the graph.
+ */
+export async function crawlLinkGraph(
+    seedUrls: string[],
+    homeUrl: string,
+    options: Partial<LinkGraphCrawlOptions> = {},
+    log: LogFunction = () => {}
+): Promise<SiteLinkGraph> {
+    const cfg: LinkGraphCrawlOptions = { ...DEFAULT_LINK_GRAPH_CRAWL, ...options };
+    const siteHost = siteHostOf(homeUrl);
+    const queue: string[] = [];
+    const queued = new Set<string>();
+    const pages: CrawledPage[] = [];
+    let truncated = false;
+
+    const enqueue = (url: string) => {
+        const key = linkKey(url);
+        if (queued.has(key)) return;
+        if (queued.size >= cfg.maxPages) {
+            truncated = true;
+            return;
+        }
+        queued.add(key);
+        queue.push(url);
+    };
+
+    enqueue(homeUrl);
+    seedUrls.filter(url => siteHostOf(url) === siteHost).forEach(enqueue);
+    log(`🕸️ Crawling link graph: ${queue.length} seed page(s), limit ${cfg.maxPages}`);
+
+    // Idle workers wait while others may still discover pages
+    let active = 0;
+    const worker = async () => {
+        while (queue.length > 0 || active > 0) {
+            const url = queue.shift();
+            if (!url) {
+                await new Promise(resolve => setTimeout(resolve, WORKER_IDLE_MS));
+                continue;
+            }
+            active++;
+            try {
+                const { status, html } = await fetchPageHtml(url);
+                const links = html ? extractPageLinks(html, url, siteHost) : [];
+                pages.push({ url, status, title: html ? extractTitle(html) : '', links });
+
+                if (cfg.followLinks) links.forEach(link => enqueue(link.url));
+                if (pages.length % 25 === 0) log(`   → ${pages.length}/${queued.size} pages crawled`);
+            } finally {
+                active--;
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, cfg.concurrency) }, worker));
+
+    const graph = buildLinkGraph(pages, homeUrl, seedUrls, truncated);
+    log(`   ✅ ${graph.nodes.length} pages, ${graph.edges.length} internal links${truncated ? ' (page limit reached)' : ''}`);
+    const unreachable = pages.filter(p => p.status === null).length;
+    if (unreachable > 0) log(`   ⚠️ ${unreachable} page(s) could not be fetched — status unknown, not reported as broken`);
+    return graph;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🕸️ GRAPH
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildLinkGraph(
+    pages: CrawledPage[],
+    homeUrl: string,
+    sitemapUrls: string[] = [],
+    truncated: boolean = false
+): SiteLinkGraph {
+    const nodes = new Map<string, LinkGraphNode>();
+    const sitemapKeys = new Set(sitemapUrls.map(linkKey));
+
+    const nodeFor = (url: string): LinkGraphNode => {
+        const key = linkKey(url);
+        let node = nodes.get(key);
+        if (!node) {
+            node = { url, title: '', status: null, inSitemap: sitemapKeys.has(key), inbound: 0, outbound: 0, depth: null, anchors: [] };
+            nodes.set(key, node);
+        }
+        return node;
+    };
+
+    pages.forEach(page => {
+        const node = nodeFor(page.url);
+        node.status = page.status;
+        node.title = page.title || node.title;
+    });
+
+    // One edge per source/target/anchor — repeated menus don't inflate counts
+    const edges: LinkGraphEdge[] = [];
+    const seenEdges = new Set<string>();
+    pages.forEach(page => {
+        const from = nodeFor(page.url);
+        page.links.forEach(link => {
+            const to = nodeFor(link.url);
+            const edgeKey = `${linkKey(from.url)}→${linkKey(to.url)}→${normalizeAnchor(link.anchor)}→${link.inContent}`;
+            if (seenEdges.has(edgeKey)) return;
+            seenEdges.add(edgeKey);
+            edges.push({ from: from.url, to: to.url, anchor: link.anchor, inContent: link.inContent });
+        });
+    });
+
+    const inboundSources = new Map<string, Set<string>>();
+    const outboundTargets = new Map<string, Set<string>>();
+    edges.filter(e => e.inContent).forEach(edge => {
+        const fromKey = linkKey(edge.from);
+        const toKey = linkKey(edge.to);
+        if (!inboundSources.has(toKey)) inboundSources.set(toKey, new Set());
+        if (!outboundTargets.has(fromKey)) outboundTargets.set(fromKey, new Set());
+        inboundSources.get(toKey).add(fromKey);
+        outboundTargets.get(fromKey).add(toKey);
+
+        const node = nodes.get(toKey);
+        if (edge.anchor && !node.anchors.includes(edge.anchor)) node.anchors.push(edge.anchor);
+    });
+    nodes.forEach((node, key) => {
+        node.inbound = inboundSources.get(key)?.size || 0;
+        node.outbound = outboundTargets.get(key)?.size || 0;
+    });
+
+    // Breadth-first click depth over every link, chrome included
+    const adjacency = new Map<string, string[]>();
+    edges.forEach(edge => {
+        const fromKey = linkKey(edge.from);
+        if (!adjacency.has(fromKey)) adjacency.set(fromKey, []);
+        adjacency.get(fromKey).push(linkKey(edge.to));
+    });
+    const homeKey = linkKey(homeUrl);
+    if (nodes.has(homeKey)) {
+        nodes.get(homeKey).depth = 0;
+        const frontier = [homeKey];
+        while (frontier.length > 0) {
+            const key = frontier.shift();
+            const depth = nodes.get(key).depth;
+            (adjacency.get(key) || []).forEach(next => {
+                const node = nodes.get(next);
+                if (node.depth !== null) return;
+                node.depth = depth + 1;
+                frontier.push(next);
+            });
+        }
+    }
+
+    return {
+        builtAt: Date.now(),
+        homeUrl,
+        nodes: Array.from(nodes.values()),
+        edges,
+        truncated
+    };
+}
+
+export function findLinkGraphNode(graph: SiteLinkGraph, url: string): LinkGraphNode | undefined {
+    const key = linkKey(url);
+    return graph.nodes.find(n => linkKey(n.url) === key);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 REPORTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function isLivePage(node: LinkGraphNode): boolean {
+    return node.status !== null && node.status >= 200 && node.status < 300;
+}
+
+// Only a real HTTP error from the page counts; unknown (null) never does
+function isBrokenStatus(status: number | null): boolean {
+    return status !== null && status >= 400 && status < 600;
+}
+
+// Live pages no other page links to from its body
+export function findOrphanPages(graph: SiteLinkGraph): LinkGraphNode[] {
+    const homeKey = linkKey(graph.homeUrl);
+    return graph.nodes
+        .filter(n => isLivePage(n) && n.inbound === 0 && linkKey(n.url) !== homeKey)
+        .sort((a, b) => Number(b.inSitemap) - Number(a.inSitemap) || a.url.localeCompare(b.url));
+}
+
+export function findHubPages(graph: SiteLinkGraph, maxOutbound: number = LINK_GRAPH_THRESHOLDS.HUB_OUTBOUND): LinkGraphNode[] {
+    return graph.nodes
+        .filter(n => n.outbound > maxOutbound)
+        .sort((a, b) => b.outbound - a.outbound);
+}
+
+export function findBrokenLinks(graph: SiteLinkGraph): BrokenLink[] {
+    const byKey = new Map(graph.nodes.map(n => [linkKey(n.url), n]));
+    return graph.edges
+        .map(edge => ({ edge, target: byKey.get(linkKey(edge.to)) }))
+        .filter(({ target }) => isBrokenStatus(target?.status ?? null))
+        .map(({ edge, target }) => ({
+            from: edge.from,
+            fromTitle: byKey.get(linkKey(edge.from))?.title || '',
+            to: edge.to,
+            anchor: edge.anchor,
+            status: target.status
+        }));
+}
+
+export function findDeepPages(graph: SiteLinkGraph, maxDepth: number = LINK_GRAPH_THRESHOLDS.MAX_DEPTH): LinkGraphNode[] {
+    return graph.nodes
+        .filter(n => isLivePage(n) && n.inSitemap && (n.depth === null || n.depth > maxDepth))
+        .sort((a, b) => (b.depth ?? Infinity) - (a.depth ?? Infinity));
+}
+
+/**
+ * Body anchors that point at more than one page — the pages compete for
+ * the same phrase. Generic anchors ("read more") are ignored.
+ */
+export function findAnchorConflicts(graph: SiteLinkGraph): AnchorConflict[] {
+    const byKey = new Map(graph.nodes.map(n => [linkKey(n.url), n]));
+    const groups = new Map<string, { anchor: string; targets: Map<string, number> }>();
+
+    graph.edges.filter(e => e.inContent).forEach(edge => {
+        const norm = normalizeAnchor(edge.anchor);
+        if (norm.length < 3 || GENERIC_ANCHORS.has(norm)) return;
+        if (!groups.has(norm)) groups.set(norm, { anchor: edge.anchor, targets: new Map() });
+        const targets = groups.get(norm).targets;
+        const key = linkKey(edge.to);
+        targets.set(key, (targets.get(key) || 0) + 1);
+    });
+
+    return Array.from(groups.values())
+        .filter(group => group.targets.size > 1)
+        .map(group => ({
+            anchor: group.anchor,
+            targets: Array.from(group.targets.entries())
+                .map(([key, count]) => ({ url: byKey.get(key)?.url || key, title: byKey.get(key)?.title || '', count }))
+                .sort((a, b) => b.count - a.count)
+        }))
+        .sort((a, b) => b.targets.length - a.targets.length);
+}
+
+export function buildLinkGraphReport(graph: SiteLinkGraph): LinkGraphReport {
+    return {
+        pageCount: graph.nodes.filter(isLivePage).length,
+        linkCount: graph.edges.filter(e => e.inContent).length,
+        orphans: findOrphanPages(graph),
+        hubs: findHubPages(graph),
+        broken: findBrokenLinks(graph),
+        deepPages: findDeepPages(graph),
+        conflicts: findAnchorConflicts(graph)
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 LINK SELECTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reorders link targets for a new article: pages that answered 4xx/5xx are
+ * dropped, then orphans, then under-linked pages, then the rest — each group
+ * keeping its incoming order. Pages the graph doesn't know, or couldn't
+ * fetch, are never dropped.
+ */
+export function prioritizeLinkTargets(targets: InternalLinkTarget[], graph: SiteLinkGraph): InternalLinkTarget[] {
+    const rank = (target: InternalLinkTarget): number => {
+        const node = findLinkGraphNode(graph, target.url);
+        if (!node) return 2;
+        if (isBrokenStatus(node.status)) return -1;
+        if (node.inbound === 0) return 0;
+        if (node.inbound < LINK_GRAPH_THRESHOLDS.UNDERLINKED_INBOUND) return 1;
+        return 2;
+    };
+
+    return targets
+        .map((target, index) => ({ target, index, rank: rank(target) }))
+        .filter(t => t.rank >= 0)
+        .sort((a, b) => a.rank - b.rank || a.index - b.index)
+        .map(t => t.target);
+}
+
+export default {
+    LINK_GRAPH_VERSION,
+    DEFAULT_LINK_GRAPH_CRAWL,
+    LINK_GRAPH_THRESHOLDS,
+    linkKey,
+    resolveInternalUrl,
+    normalizeAnchor,
+    extractPageLinks,
+    crawlLinkGraph,
+    buildLinkGraph,
+    findLinkGraphNode,
+    findOrphanPages,
+    findHubPages,
+    findBrokenLinks,
+    findDeepPages,
+    findAnchorConflicts,
+    buildLinkGraphReport,
+    prioritizeLinkTargets
+};
@@ -0,0 +1,132 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — LLM ROUTING & PROVIDER FALLBACK
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Decides which provider/model answers each pipeline stage:
+// ✅ Per-stage routing rules (cheap models for outline/FAQ, strong for sections)
+// ✅ Ordered fallback chain on circuit-open, 429 or timeout
+// ✅ Providers without an API key are skipped
+// ✅ Per-stage record of the provider/model that actually answered
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AIProvider, ApiKeys, LLMRoute, LLMRoutingConfig, LLMStage, StageModelRecord } from '../types';
+
+export const LLM_ROUTER_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type StageModelMap = Partial<Record<LLMStage, StageModelRecord>>;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const LLM_STAGES: LLMStage[] = ['outline', 'sections', 'faq', 'intro', 'conclusion', 'single_shot'];
+
+export const LLM_STAGE_LABELS: Record<LLMStage, string> = {
+    outline: 'Outline',
+    sections: 'Sections',
+    faq: 'FAQ',
+    intro: 'Introduction',
+    conclusion: 'Conclusion',
+    single_shot: 'Single-shot'
+};
+
+// Empty chain and no rules = every stage uses the selected provider, as before
+export const DEFAULT_LLM_ROUTING: LLMRoutingConfig = {
+    fallbackChain: [],
+    stageRoutes: {}
+};
+
+// Model used when a route leaves the model blank
+export function defaultModelFor(provider: AIProvider, apiKeys: ApiKeys): string {
+    switch (provider) {
+        case 'google': return 'gemini-2.5-flash';
+        case 'openrouter': return apiKeys.openrouterModel || 'google/gemini-2.5-flash';
+        case 'openai': return apiKeys.openaiModel || 'gpt-4o';
+        case 'anthropic': return apiKeys.anthropicModel || 'claude-sonnet-4-20250514';
+        case 'groq': return apiKeys.groqModel || 'llama-3.3-70b-versatile';
+        case 'local': return apiKeys.localModel || '';
+        default: return '';
+    }
+}
+
+// Hosted providers need a key; a local server only needs its base URL
+export function hasProviderCredentials(provider: AIProvider, apiKeys: ApiKeys): boolean {
+    return provider === 'local' ? !!apiKeys.localBaseUrl : !!apiKeys[provider];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧭 ROUTE RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Routes to try for a stage, in order: the stage rule (or the selected
+ * provider), then the fallback chain. Providers without a key are dropped
+ * and duplicates removed; the primary is always kept so its error surfaces.
+ */
+export function resolveRouteChain(
+    stage: LLMStage,
+    primary: LLMRoute,
+    routing: LLMRoutingConfig | undefined,
+    apiKeys: ApiKeys
+): LLMRoute[] {
+    const stageRoute = routing?.stageRoutes?.[stage];
+    const first = stageRoute && hasProviderCredentials(stageRoute.provider, apiKeys) ? stageRoute : primary;
+    const candidates = [first, ...(routing?.fallbackChain || [])];
+
+    const seen = new Set<string>();
+    const chain: LLMRoute[] = [];
+    candidates.forEach((route, index) => {
+        if (index > 0 && !hasProviderCredentials(route.provider, apiKeys)) return;
+        const resolved = { provider: route.provider, model: route.model || defaultModelFor(route.provider, apiKeys) };
+        const key = `${resolved.provider}:${resolved.model}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        chain.push(resolved);
+    });
+    return chain;
+}
+
+/**
+ * Errors that mean "this provider can't answer right now" — worth trying the
+ * next one. Auth, bad request and content errors are not retried elsewhere.
+ */
+export function isFallbackError(error: unknown): boolean {
+    const e = error as { name?: string; message?: string } | null;
+    if (e?.name === 'AbortError') return true;
+    const msg = String(e?.message || '');
+    return /circuit breaker open/i.test(msg)
+        || /\b429\b/.test(msg)
+        || /resource_exhausted|rate limit/i.test(msg)
+        || /timeout|timed out|aborted/i.test(msg);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 STAGE RECORDS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Keeps the latest provider/model per stage and counts calls and fallbacks
+export function recordStageModel(map: StageModelMap, stage: LLMStage, route: LLMRoute, usedFallback: boolean): void {
+    const existing = map[stage];
+    map[stage] = {
+        provider: route.provider,
+        model: route.model,
+        calls: (existing?.calls || 0) + 1,
+        fallbacks: (existing?.fallbacks || 0) + (usedFallback ? 1 : 0)
+    };
+}
+
+export default {
+    LLM_ROUTER_VERSION,
+    LLM_STAGES,
+    LLM_STAGE_LABELS,
+    DEFAULT_LLM_ROUTING,
+    defaultModelFor,
+    hasProviderCredentials,
+    resolveRouteChain,
+    isFallbackError,
+    recordStageModel
+};
@@ -0,0 +1,219 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — LLM RESPONSE STREAMING
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Incremental text from provider streaming APIs:
+// ✅ Server-sent events reader for fetch responses
+// ✅ OpenAI-compatible (OpenAI, OpenRouter, Groq, local) and Anthropic stream formats
+// ✅ Token usage from the final stream events
+// ✅ Throttled emitter so the UI re-renders a few times a second, not per token
+// ✅ Distinct cancellation error so cancelled work is not retried or routed elsewhere
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { CancellationToken } from '../types';
+
+export const LLM_STREAM_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Receives the full text written so far, not the delta
+export type StreamTextHandler = (textSoFar: string) => void;
+
+export interface StreamedCompletion {
+    text: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface StreamEmitter {
+    push: (textSoFar: string) => void;
+    // Drops a pending update and ignores later pushes — call once the final
+    // text has been emitted or the section was cancelled
+    stop: () => void;
+}
+
+export class GenerationCancelledError extends Error {
+    constructor(reason: string = 'Cancelled') {
+        super(reason);
+        this.name = 'GenerationCancelledError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Minimum gap between UI updates for one stream
+export const STREAM_EMIT_INTERVAL_MS = 250;
+
+// How often a running section checks its cancellation token
+export const CANCELLATION_POLL_MS = 400;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📡 SERVER-SENT EVENTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Calls onData with each `data:` payload of an SSE response, in order.
+ * The OpenAI-style "[DONE]" sentinel is skipped.
+ */
+export async function readServerSentEvents(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) throw new Error('Streaming response has no body');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+        if (!line.startsWith('data:')) return;
+        const data = line.slice(5).trim();
+        if (data && data !== '[DONE]') onData(data);
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+    }
+    buffer += decoder.decode();
+    if (buffer) handleLine(buffer);
+}
+
+const parseEvent = (data: string): any => {
+    try {
+        return JSON.parse(data);
+    } catch {
+        return null;
+    }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 PROVIDER STREAM FORMATS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// choices[0].delta.content chunks; usage arrives on the last chunk (Groq puts it under x_groq)
+export async function readChatCompletionStream(response: Response, model: string, onText: StreamTextHandler): Promise<StreamedCompletion> {
+    const result: StreamedCompletion = { text: '', model, promptTokens: 0, completionTokens: 0 };
+
+    await readServerSentEvents(response, data => {
+        const event = parseEvent(data);
+        if (!event) return;
+        if (event.model) result.model = event.model;
+
+        const usage = event.usage || event.x_groq?.usage;
+        if (usage) {
+            result.promptTokens = usage.prompt_tokens || result.promptTokens;
+            result.completionTokens = usage.completion_tokens || result.completionTokens;
+        }
+
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+            result.text += delta;
+            onText(result.text);
+        }
+    });
+
+    return result;
+}
+
+// message_start carries input tokens, content_block_delta the text, message_delta the output tokens
+export async function readAnthropicStream(response: Response, model: string, onText: StreamTextHandler): Promise<StreamedCompletion> {
+    const result: StreamedCompletion = { text: '', model, promptTokens: 0, completionTokens: 0 };
+
+    await readServerSentEvents(response, data => {
+        const event = parseEvent(data);
+        if (!event) return;
+
+        switch (event.type) {
+            case 'message_start':
+                result.model = event.message?.model || result.model;
+                result.promptTokens = event.message?.usage?.input_tokens || 0;
+                break;
+            case 'content_block_delta':
+                if (event.delta?.type === 'text_delta' && event.delta.text) {
+                    result.text += event.delta.text;
+                    onText(result.text);
+                }
+                break;
+            case 'message_delta':
+                result.completionTokens = event.usage?.output_tokens || result.completionTokens;
+                break;
+            case 'error':
+                throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown'}`);
+        }
+    });
+
+    return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⏱️ THROTTLED EMITTER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createStreamEmitter(emit: (textSoFar: string) => void, intervalMs: number = STREAM_EMIT_INTERVAL_MS): StreamEmitter {
+    let latest = '';
+    let lastEmit = 0;
+    let pending: ReturnType<typeof setTimeout> | null = null;
+    // Once stopped, late chunks must not flip a cancelled section back to streaming
+    let stopped = false;
+
+    const flush = () => {
+        pending = null;
+        if (stopped) return;
+        lastEmit = Date.now();
+        emit(latest);
+    };
+
+    return {
+        push: (textSoFar: string) => {
+            if (stopped) return;
+            latest = textSoFar;
+            if (pending) return;
+            const wait = intervalMs - (Date.now() - lastEmit);
+            if (wait <= 0) flush();
+            else pending = setTimeout(flush, wait);
+        },
+        stop: () => {
+            stopped = true;
+            if (pending) clearTimeout(pending);
+            pending = null;
+        }
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⛔ CANCELLATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function isGenerationCancelledError(error: unknown): error is GenerationCancelledError {
+    return error instanceof GenerationCancelledError;
+}
+
+export function isSectionCancelled(token: CancellationToken | undefined, index: number): boolean {
+    return !!token && (token.cancelled || !!token.cancelledSections?.includes(index));
+}
+
+export function throwIfCancelled(token: CancellationToken | undefined): void {
+    if (token?.cancelled) throw new GenerationCancelledError(token.reason || 'Cancelled');
+}
+
+export default {
+    LLM_STREAM_VERSION,
+    STREAM_EMIT_INTERVAL_MS,
+    CANCELLATION_POLL_MS,
+    GenerationCancelledError,
+    readServerSentEvents,
+    readChatCompletionStream,
+    readAnthropicStream,
+    createStreamEmitter,
+    isGenerationCancelledError,
+    isSectionCancelled,
+    throwIfCancelled
+};
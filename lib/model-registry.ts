@@ -0,0 +1,169 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — MODEL REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// One table of every model the app knows, per provider:
+// ✅ Context window and max output tokens
+// ✅ Default pricing (USD per 1M tokens)
+// ✅ Model validation for the setup view
+// ✅ Per-model output token limits for callLLM
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AIProvider, ModelSpec } from '../types';
+
+export const MODEL_REGISTRY_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ModelValidation {
+    valid: boolean;
+    // Shown under the selector — an error when invalid, a note for unlisted custom models
+    message?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Output cap for models the registry doesn't list
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8000;
+
+// Providers that accept any model ID; the others are limited to the registry
+const CUSTOM_MODEL_PROVIDERS: AIProvider[] = ['openrouter', 'groq', 'local'];
+
+// Rough prompt size estimate used to keep prompt + output inside the context window
+const CHARS_PER_TOKEN = 4;
+const MIN_OUTPUT_TOKENS = 1024;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const spec = (
+    provider: AIProvider, id: string, label: string,
+    contextWindow: number, maxOutputTokens: number,
+    inputPerMillion: number, outputPerMillion: number
+): ModelSpec => ({ id, provider, label, contextWindow, maxOutputTokens, price: { inputPerMillion, outputPerMillion } });
+
+export const MODEL_REGISTRY: ModelSpec[] = [
+    // Google
+    spec('google', 'gemini-2.5-flash-preview-05-20', 'Gemini 2.5 Flash Preview', 1_048_576, 65_536, 0.30, 2.50),
+    spec('google', 'gemini-2.5-pro-preview-05-06', 'Gemini 2.5 Pro Preview', 1_048_576, 65_536, 1.25, 10.00),
+    spec('google', 'gemini-2.5-flash', 'Gemini 2.5 Flash', 1_048_576, 65_536, 0.30, 2.50),
+    spec('google', 'gemini-2.5-pro', 'Gemini 2.5 Pro', 1_048_576, 65_536, 1.25, 10.00),
+    spec('google', 'gemini-2.0-flash', 'Gemini 2.0 Flash', 1_048_576, 8_192, 0.10, 0.40),
+    spec('google', 'gemini-1.5-pro', 'Gemini 1.5 Pro', 2_097_152, 8_192, 1.25, 5.00),
+    // OpenAI
+    spec('openai', 'gpt-4o', 'GPT-4o', 128_000, 16_384, 2.50, 10.00),
+    spec('openai', 'gpt-4o-mini', 'GPT-4o mini', 128_000, 16_384, 0.15, 0.60),
+    spec('openai', 'gpt-4.1', 'GPT-4.1', 1_047_576, 32_768, 2.00, 8.00),
+    spec('openai', 'gpt-4.1-mini', 'GPT-4.1 mini', 1_047_576, 32_768, 0.40, 1.60),
+    // Anthropic
+    spec('anthropic', 'claude-sonnet-4-20250514', 'Claude Sonnet 4', 200_000, 64_000, 3.00, 15.00),
+    spec('anthropic', 'claude-opus-4-20250514', 'Claude Opus 4', 200_000, 32_000, 15.00, 75.00),
+    spec('anthropic', 'claude-3-5-haiku-20241022', 'Claude 3.5 Haiku', 200_000, 8_192, 0.80, 4.00),
+    // Groq
+    spec('groq', 'llama-3.3-70b-versatile', 'Llama 3.3 70B Versatile', 131_072, 32_768, 0.59, 0.79),
+    spec('groq', 'llama-3.1-70b-versatile', 'Llama 3.1 70B Versatile', 131_072, 8_000, 0.59, 0.79),
+    spec('groq', 'llama-3.1-8b-instant', 'Llama 3.1 8B Instant', 131_072, 8_000, 0.05, 0.08),
+    spec('groq', 'mixtral-8x7b-32768', 'Mixtral 8x7B', 32_768, 32_768, 0.24, 0.24),
+    spec('groq', 'gemma2-9b-it', 'Gemma 2 9B', 8_192, 8_192, 0.20, 0.20),
+    // OpenRouter
+    spec('openrouter', 'google/gemini-2.5-flash-preview', 'Gemini 2.5 Flash Preview', 1_048_576, 65_536, 0.30, 2.50),
+    spec('openrouter', 'google/gemini-2.5-pro-preview', 'Gemini 2.5 Pro Preview', 1_048_576, 65_536, 1.25, 10.00),
+    spec('openrouter', 'google/gemini-2.5-flash', 'Gemini 2.5 Flash', 1_048_576, 65_536, 0.30, 2.50),
+    spec('openrouter', 'google/gemini-2.5-pro', 'Gemini 2.5 Pro', 1_048_576, 65_536, 1.25, 10.00),
+    spec('openrouter', 'anthropic/claude-sonnet-4', 'Claude Sonnet 4', 200_000, 64_000, 3.00, 15.00),
+    spec('openrouter', 'anthropic/claude-opus-4', 'Claude Opus 4', 200_000, 32_000, 15.00, 75.00),
+    spec('openrouter', 'openai/gpt-4o', 'GPT-4o', 128_000, 16_384, 2.50, 10.00),
+    spec('openrouter', 'openai/gpt-4o-mini', 'GPT-4o mini', 128_000, 16_384, 0.15, 0.60),
+    spec('openrouter', 'meta-llama/llama-3.3-70b-instruct', 'Llama 3.3 70B Instruct', 131_072, 16_384, 0.13, 0.40),
+    spec('openrouter', 'deepseek/deepseek-chat', 'DeepSeek V3', 163_840, 8_192, 0.27, 1.10),
+    spec('openrouter', 'deepseek/deepseek-r1', 'DeepSeek R1', 163_840, 32_768, 0.55, 2.19),
+    spec('openrouter', 'mistralai/mistral-large', 'Mistral Large', 128_000, 8_192, 2.00, 6.00),
+    spec('openrouter', 'qwen/qwen-2.5-72b-instruct', 'Qwen 2.5 72B Instruct', 32_768, 8_192, 0.35, 0.40)
+];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔍 LOOKUP
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function getProviderModels(provider: AIProvider): ModelSpec[] {
+    return MODEL_REGISTRY.filter(m => m.provider === provider);
+}
+
+export function getModelSpec(provider: AIProvider, model: string): ModelSpec | null {
+    if (!model) return null;
+    return MODEL_REGISTRY.find(m => m.provider === provider && m.id === model) || null;
+}
+
+export function validateModelSelection(provider: AIProvider, model: string): ModelValidation {
+    const id = (model || '').trim();
+    if (!id) return { valid: false, message: `No ${provider} model selected` };
+    if (getModelSpec(provider, id)) return { valid: true };
+
+    if (!CUSTOM_MODEL_PROVIDERS.includes(provider)) {
+        const owner = MODEL_REGISTRY.find(m => m.id === id);
+        return {
+            valid: false,
+            message: owner
+                ? `"${id}" is a ${owner.provider} model, not ${provider}`
+                : `Unknown ${provider} model "${id}"`
+        };
+    }
+    if (provider === 'openrouter' && !/^[\w.-]+\/[\w.:-]+$/.test(id)) {
+        return { valid: false, message: 'OpenRouter models look like "vendor/model"' };
+    }
+    if (provider === 'local') {
+        return { valid: true, message: `Local model — output capped at ${DEFAULT_MAX_OUTPUT_TOKENS.toLocaleString()} tokens, not billed` };
+    }
+    return {
+        valid: true,
+        message: `Custom model — output capped at ${DEFAULT_MAX_OUTPUT_TOKENS.toLocaleString()} tokens, no default price`
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📏 TOKEN LIMITS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Output tokens to request: the caller's ask (or the model maximum), capped
+ * by the model's output limit and by what is left of its context window
+ * after the prompt.
+ */
+export function resolveMaxOutputTokens(
+    provider: AIProvider,
+    model: string,
+    requested: number | undefined,
+    promptChars: number
+): number {
+    const modelSpec = getModelSpec(provider, model);
+    const limit = modelSpec?.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+    let tokens = Math.min(requested ?? limit, limit);
+
+    if (modelSpec) {
+        const remaining = modelSpec.contextWindow - Math.ceil(promptChars / CHARS_PER_TOKEN);
+        tokens = Math.min(tokens, Math.max(MIN_OUTPUT_TOKENS, remaining));
+    }
+    return tokens;
+}
+
+// "128K", "1M"
+export function formatTokenCount(tokens: number): string {
+    if (tokens >= 1_000_000) return `${+(tokens / 1_000_000).toFixed(1)}M`;
+    return `${Math.round(tokens / 1000)}K`;
+}
+
+export default {
+    MODEL_REGISTRY_VERSION,
+    DEFAULT_MAX_OUTPUT_TOKENS,
+    MODEL_REGISTRY,
+    getProviderModels,
+    getModelSpec,
+    validateModelSelection,
+    resolveMaxOutputTokens,
+    formatTokenCount
+};
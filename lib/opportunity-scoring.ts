@@ -0,0 +1,233 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — PAGE OPPORTUNITY SCORING
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Ranks pages by how much they stand to gain from optimization:
+// ✅ Weighted factors — staleness, thin content, SEO gap, missing FAQ/schema,
+//    time since we last optimized, title length
+// ✅ Per-factor breakdown for the UI
+// ✅ Existing-content analysis of crawled HTML
+// ✅ No UI dependencies — safe to import from the store
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+    SitemapPage,
+    OpportunityScore,
+    OpportunityFactor,
+    OpportunityFactorKey,
+    ExistingContentAnalysis
+} from '../types';
+
+export const OPPORTUNITY_SCORING_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPPORTUNITY_WEIGHTS: Record<OpportunityFactorKey, number> = {
+    staleness: 0.30,
+    thinness: 0.25,
+    seo_gap: 0.15,
+    missing_features: 0.15,
+    recency: 0.10,
+    title: 0.05
+};
+
+// Pages at or above this many words aren't considered thin
+const TARGET_WORD_COUNT = 2500;
+// Content untouched this long scores maximum staleness
+const STALE_AFTER_DAYS = 365;
+// Pages we published this long ago are fair game again
+const REOPTIMIZE_AFTER_DAYS = 90;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 OPPORTUNITY SCORING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const clampScore = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+
+function parseTimestamp(value: string | number | null | undefined): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const ts = typeof value === 'number' ? value : Date.parse(value);
+    return isNaN(ts) ? null : ts;
+}
+
+function scoreTitle(title: string): { score: number; detail: string } {
+    if (!title) return { score: 50, detail: 'No title yet' };
+    const len = title.length;
+    if (len >= 50 && len <= 60) return { score: 0, detail: `${len} chars (ideal)` };
+    if (len >= 40 && len <= 70) return { score: 20, detail: `${len} chars (acceptable)` };
+    if (len < 30 || len > 80) return { score: 70, detail: `${len} chars (${len < 30 ? 'too short' : 'too long'})` };
+    return { score: 50, detail: `${len} chars` };
+}
+
+/**
+ * Score how much a page stands to gain from optimization, with a per-factor
+ * breakdown. Uses sitemap lastmod, crawled word count, stored SEO metrics,
+ * FAQ/schema presence in the original HTML and time since our last publish.
+ */
+export function scorePageOpportunity(
+    page: Pick<SitemapPage, 'title' | 'lastMod' | 'wordCount' | 'healthScore' | 'seoMetrics' | 'lastPublishedAt' | 'crawledContent' | 'jobState'>,
+    now: number = Date.now()
+): OpportunityScore {
+    const factors: OpportunityFactor[] = [];
+    const addFactor = (key: OpportunityFactorKey, label: string, score: number, detail: string) => {
+        factors.push({ key, label, score: clampScore(score), weight: OPPORTUNITY_WEIGHTS[key], detail });
+    };
+
+    // Parsing HTML is the expensive part — only do it when metrics don't cover a factor
+    let existing: ExistingContentAnalysis | null | undefined;
+    const getExisting = (): ExistingContentAnalysis | null => {
+        if (existing === undefined) {
+            const html = page.crawledContent || page.jobState?.originalHtml || '';
+            existing = page.jobState?.existingAnalysis || (html ? analyzeExistingContent(html) : null);
+        }
+        return existing;
+    };
+
+    // Staleness — the most recent of sitemap lastmod and our own publish
+    const lastMod = parseTimestamp(page.lastMod);
+    const lastPublished = parseTimestamp(page.lastPublishedAt);
+    const lastTouched = Math.max(lastMod ?? 0, lastPublished ?? 0) || null;
+    if (lastTouched === null) {
+        addFactor('staleness', 'Staleness', 50, 'No lastmod in sitemap');
+    } else {
+        const days = Math.max(0, Math.floor((now - lastTouched) / DAY_MS));
+        addFactor('staleness', 'Staleness', (days / STALE_AFTER_DAYS) * 100, `Updated ${days} day${days === 1 ? '' : 's'} ago`);
+    }
+
+    // Thinness — prefer measured word counts over the sitemap placeholder
+    const wordCount = page.seoMetrics?.wordCount || page.wordCount || getExisting()?.wordCount || null;
+    if (wordCount === null) {
+        addFactor('thinness', 'Thin content', 50, 'Word count unknown');
+    } else {
+        addFactor('thinness', 'Thin content', ((TARGET_WORD_COUNT - wordCount) / TARGET_WORD_COUNT) * 100,
+            `${wordCount.toLocaleString()} words (target ${TARGET_WORD_COUNT.toLocaleString()}+)`);
+    }
+
+    // SEO gap — inverse of the stored quality metrics
+    const m = page.seoMetrics;
+    if (m) {
+        const quality = (m.contentDepth + m.readability + m.headingStructure + m.aeoScore +
+            m.geoScore + m.eeatSignals + m.internalLinkScore) / 7;
+        addFactor('seo_gap', 'SEO gap', 100 - quality, `Metric average ${Math.round(quality)}/100`);
+    } else if (page.healthScore !== null && page.healthScore !== undefined) {
+        addFactor('seo_gap', 'SEO gap', 100 - page.healthScore, `Health score ${page.healthScore}/100`);
+    } else {
+        addFactor('seo_gap', 'SEO gap', 50, 'Not analyzed yet');
+    }
+
+    // Missing FAQ / schema
+    const hasFAQ = m ? (m.faqCount || 0) > 0 : getExisting()?.hasFAQ;
+    const hasSchema = m ? m.schemaDetected : getExisting()?.hasSchema;
+    if (hasFAQ === undefined && hasSchema === undefined) {
+        addFactor('missing_features', 'Missing FAQ/schema', 50, 'Content not crawled yet');
+    } else {
+        const missing = [!hasFAQ && 'FAQ', !hasSchema && 'schema'].filter(Boolean) as string[];
+        addFactor('missing_features', 'Missing FAQ/schema', missing.length * 50,
+            missing.length ? `No ${missing.join(' or ')}` : 'FAQ and schema present');
+    }
+
+    // Recency — don't keep re-optimizing pages we just published
+    if (lastPublished === null) {
+        addFactor('recency', 'Never optimized', 100, 'Not optimized by WP Optimizer yet');
+    } else {
+        const days = Math.max(0, Math.floor((now - lastPublished) / DAY_MS));
+        addFactor('recency', 'Time since optimized', (days / REOPTIMIZE_AFTER_DAYS) * 100, `Optimized ${days} day${days === 1 ? '' : 's'} ago`);
+    }
+
+    const title = scoreTitle(page.title);
+    addFactor('title', 'Title length', title.score, title.detail);
+
+    const total = clampScore(factors.reduce((sum, f) => sum + f.score * f.weight, 0));
+    const scoreOf = (key: OpportunityFactorKey) => factors.find(f => f.key === key)!.score;
+
+    // The summary fields keep their original sense (higher = better page), so
+    // they are the inverse of the matching opportunity factors
+    return {
+        total,
+        titleScore: 100 - scoreOf('title'),
+        lengthScore: 100 - scoreOf('thinness'),
+        freshness: 100 - scoreOf('staleness'),
+        factors,
+        computedAt: now
+    };
+}
+
+export function calculateOpportunityScore(
+    title: string, 
+    wordCount: number | null,
+    lastMod: string | null = null
+): OpportunityScore {
+    return scorePageOpportunity({
+        title,
+        lastMod,
+        wordCount,
+        healthScore: null,
+        crawledContent: null
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔍 EXISTING CONTENT ANALYSIS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function analyzeExistingContent(html: string): ExistingContentAnalysis {
+    if (!html) {
+        return {
+            wordCount: 0,
+            imageCount: 0,
+            hasFAQ: false,
+            hasSchema: false,
+            headingCount: 0,
+            internalLinkCount: 0,
+            externalLinkCount: 0
+        };
+    }
+    
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const text = doc.body?.textContent || '';
+    
+    const wordCount = text.split(/\s+/).filter(Boolean).length;
+    const imageCount = doc.querySelectorAll('img').length;
+    const headingCount = doc.querySelectorAll('h1, h2, h3, h4, h5, h6').length;
+    
+    const allLinks = doc.querySelectorAll('a[href]');
+    let internalLinkCount = 0;
+    let externalLinkCount = 0;
+    
+    allLinks.forEach(link => {
+        const href = link.getAttribute('href') || '';
+        if (href.startsWith('/') || href.startsWith('#')) {
+            internalLinkCount++;
+        } else if (href.startsWith('http')) {
+            externalLinkCount++;
+        }
+    });
+    
+    const hasFAQ = html.toLowerCase().includes('frequently asked') ||
+                   html.toLowerCase().includes('faq') ||
+                   html.includes('FAQPage');
+    
+    const hasSchema = html.includes('application/ld+json') ||
+                      html.includes('itemtype="https://schema.org');
+    
+    return {
+        wordCount,
+        imageCount,
+        hasFAQ,
+        hasSchema,
+        headingCount,
+        internalLinkCount,
+        externalLinkCount
+    };
+}
+
+export default {
+    OPPORTUNITY_SCORING_VERSION,
+    scorePageOpportunity,
+    calculateOpportunityScore,
+    analyzeExistingContent
+};
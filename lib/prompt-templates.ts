@@ -0,0 +1,531 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — PROMPT TEMPLATE LIBRARY
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Every generation prompt as an editable, named template:
+// ✅ Built-in template per pipeline stage, SERP block and blog generator
+// ✅ {{topic}}, {{siteContext.industry}}, {{entityGap.missingEntities|bullets}} variables
+// ✅ Per-site overrides on top of all-site overrides on top of the built-ins
+// ✅ Rendered preview with the variables a template references but doesn't get
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import {
+    EntityGapAnalysis, PromptTemplateKey, PromptTemplateOverride, PromptTemplateSet, SiteContext
+} from '../types';
+
+export const PROMPT_TEMPLATES_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type PromptVariables = Record<string, unknown>;
+
+export type PromptTemplateGroup = 'Pipeline' | 'SERP blocks' | 'Blog generator';
+
+export interface PromptTemplateDefinition {
+    label: string;
+    group: PromptTemplateGroup;
+    description: string;
+    body: string;
+    // Stage-specific values used by the preview when no run supplies them
+    sample: PromptVariables;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    // Variables the template references that had no value
+    missing: string[];
+}
+
+export interface ResolvedPromptTemplate {
+    body: string;
+    source: 'built-in' | 'all sites' | 'site';
+    version: number;
+}
+
+// Values every prompt can use, from the page being generated
+export interface PromptContext {
+    topic: string;
+    keyword?: string;
+    title?: string;
+    targetWords?: number;
+    siteContext?: SiteContext;
+    entityGap?: EntityGapAnalysis;
+    feedback?: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// siteUrl of overrides that apply to every site
+export const ALL_SITES_SCOPE = '';
+
+export const MAX_TEMPLATE_VERSIONS = 20;
+
+// {{ path.to.value }} or {{ path|filter }}
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+const FILTERS: Record<string, (items: string[]) => string> = {
+    numbered: items => items.map((item, i) => `${i + 1}. ${item}`).join('\n'),
+    bullets: items => items.map(item => `• ${item}`).join('\n'),
+    lines: items => items.join('\n'),
+    join: items => items.join(', ')
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📚 BUILT-IN TEMPLATES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateKey, PromptTemplateDefinition> = {
+    outline: {
+        label: 'Outline',
+        group: 'Pipeline',
+        description: 'Stage 1 of the staged pipeline — JSON outline of sections, FAQ topics and takeaways',
+        sample: {},
+        body: `Create a detailed content outline for: "{{topic}}"
+
+Output JSON:
+{
+  "title": "Compelling title (50-60 chars)",
+  "metaDescription": "Meta description (150-160 chars)",
+  "slug": "url-friendly-slug",
+  "sections": [
+    {
+      "heading": "H2 Section Title",
+      "keyPoints": ["Point 1", "Point 2"],
+      "subsections": [{"heading": "H3 Title", "keyPoints": ["Detail"]}]
+    }
+  ],
+  "faqTopics": ["Question 1?", "Question 2?"],
+  "keyTakeaways": ["Takeaway 1", "Takeaway 2"]
+}
+
+REQUIREMENTS:
+- 8-12 main sections (H2s)
+- 2-3 subsections (H3s) per section
+- 8-10 FAQ topics
+- 5-7 key takeaways{{feedbackBlock}}
+
+Return ONLY valid JSON.`
+    },
+    section: {
+        label: 'Section',
+        group: 'Pipeline',
+        description: 'One H2 section of the staged pipeline, rendered once per outline section',
+        sample: {
+            sectionNumber: 1,
+            section: {
+                heading: 'Why It Matters',
+                keyPoints: ['First key point', 'Second key point'],
+                subsections: ['First H3', 'Second H3']
+            }
+        },
+        body: `Write section {{sectionNumber}} for a blog post about "{{topic}}".
+
+SECTION: {{section.heading}}
+KEY POINTS: {{section.keyPoints}}
+SUBSECTIONS: {{section.subsections}}
+
+TARGET: 300-450 words.{{feedbackBlock}}
+OUTPUT: HTML only, starting with <h2>. Include H3 subsections.
+NO JSON wrapper. NO markdown.`
+    },
+    faq: {
+        label: 'FAQ',
+        group: 'Pipeline',
+        description: 'Answers for the outline FAQ topics, as a JSON object',
+        sample: { faqTopics: ['What is it?', 'How long does it take?'] },
+        body: `Write detailed FAQ answers for these questions about "{{topic}}":
+
+{{faqTopics|numbered}}
+
+OUTPUT: JSON object only:
+{"faqs": [{"question": "...", "answer": "80-150 word answer"}]}
+
+Return ONLY the JSON object.`
+    },
+    intro: {
+        label: 'Introduction',
+        group: 'Pipeline',
+        description: 'Opening paragraphs of the staged pipeline article',
+        sample: { title: 'Example Post Title' },
+        body: `Write an engaging 250-350 word introduction for a blog post titled: "{{title}}"
+Topic: {{topic}}
+
+Include:
+1. Compelling hook
+2. What the reader will learn
+3. Why this matters
+
+OUTPUT: HTML only, starting with <p>. NO heading.`
+    },
+    conclusion: {
+        label: 'Conclusion',
+        group: 'Pipeline',
+        description: 'Closing section of the staged pipeline article',
+        sample: {},
+        body: `Write a strong 200-300 word conclusion for a blog post about "{{topic}}".
+
+Include:
+1. Summary of key points
+2. Call to action
+3. Next steps
+
+OUTPUT: HTML only, starting with <h2>Conclusion</h2>.`
+    },
+    single_shot: {
+        label: 'Single-shot article',
+        group: 'Pipeline',
+        description: 'Whole article in one JSON response — used when the staged pipeline falls back',
+        sample: {},
+        body: `You're writing like Alex Hormozi meets Tim Ferriss. Punchy, personal, valuable.
+
+Write a {{targetWords}}+ word blog post about: "{{topic}}"
+
+⚠️ CRITICAL: Do NOT include FAQ section in htmlContent. We add FAQs separately.
+
+VOICE RULES:
+• Write like texting a smart friend
+• Use contractions: don't, won't, can't, you'll, here's
+• Start sentences with: Look, Here's the thing, And, But, So, Now
+• 1-3 sentences MAX per paragraph
+• Wrap ALL text in <p> tags
+
+STRUCTURE:
+• 8-12 H2 sections, each with 2-3 H3 subsections
+• NO H1 tags
+• Use proper <p>, <h2>, <h3>, <ul>, <li> tags
+
+FORBIDDEN: "In today's", "It's important to note", "Let's dive in", "Comprehensive guide", "Leverage", "Utilize"{{feedbackBlock}}
+
+OUTPUT (VALID JSON ONLY):
+{
+  "title": "Title (50-60 chars)",
+  "metaDescription": "Meta (150-160 chars)",
+  "slug": "url-slug",
+  "htmlContent": "Full HTML with <p>, <h2>, <h3>",
+  "excerpt": "2-3 sentence summary",
+  "faqs": [{"question": "...", "answer": "80-150 words"}],
+  "wordCount": number
+}
+
+⚠️ Return ONLY valid JSON.`
+    },
+    serp_snippet: {
+        label: 'Featured snippet',
+        group: 'SERP blocks',
+        description: 'Direct answer formatted for a featured snippet',
+        sample: {
+            query: 'example question',
+            format: 'paragraph',
+            numbersRequirement: 'REQUIREMENT: Include at least one specific number or statistic.',
+            formatInstructions: 'Write a single paragraph of exactly 55 words that directly answers the question. Start with a definitive statement.'
+        },
+        body: `You are a featured snippet optimization expert.
+
+QUESTION TO ANSWER: "{{query}}"
+FORMAT: {{format}}
+{{numbersRequirement}}
+
+{{formatInstructions}}
+
+RULES FOR FEATURED SNIPPETS:
+1. Start with a DIRECT answer (no "It depends" or qualifiers)
+2. Use simple, clear language (8th grade reading level)
+3. Be definitive and authoritative
+4. For lists: Use consistent formatting
+5. Don't include questions in the answer
+6. Front-load the most important information
+
+OUTPUT ONLY the answer text/HTML, nothing else.`
+    },
+    serp_paa: {
+        label: 'People Also Ask',
+        group: 'SERP blocks',
+        description: 'FAQ answers aimed at the People Also Ask box, as JSON',
+        sample: { questions: ['What is it?', 'Is it worth it?'], answerMin: 40, answerMax: 60 },
+        body: `Generate FAQ answers optimized for Google's "People Also Ask" feature.
+
+TOPIC: "{{topic}}"
+
+QUESTIONS TO ANSWER:
+{{questions|numbered}}
+
+ANSWER REQUIREMENTS:
+- Length: {{answerMin}}-{{answerMax}} words each
+- Start with a DIRECT answer in the first sentence
+- Include ONE specific fact, number, or statistic
+- End with an actionable insight or next step
+- Write for position zero extraction
+- Use simple, clear language
+- No fluff or filler words
+
+OUTPUT JSON:
+{
+  "faqs": [
+    {"question": "exact question", "answer": "comprehensive answer"}
+  ]
+}`
+    },
+    serp_comparison: {
+        label: 'Comparison table',
+        group: 'SERP blocks',
+        description: 'Feature-by-feature comparison of alternatives, as JSON',
+        sample: {
+            itemsCompared: 'Option A vs Option B',
+            features: ['Price', 'Ease of use'],
+            winnerRequirement: '5. Highlight the winner in each category'
+        },
+        body: `Create a detailed comparison table for "{{topic}}".
+
+ITEMS TO COMPARE: {{itemsCompared}}
+FEATURES TO COMPARE: {{features}}
+
+REQUIREMENTS:
+1. Rate each feature for each item (✓, ✗, or specific value)
+2. Be objective and fair
+3. Include specific numbers where possible
+4. Add a "Best For" row at the end
+{{winnerRequirement}}
+
+OUTPUT: Return ONLY a JSON object with this structure:
+{
+  "headers": ["Feature", "Item1", "Item2", ...],
+  "rows": [
+    {"feature": "Feature Name", "values": ["Value1", "Value2", ...]},
+    ...
+  ],
+  "bestFor": {"Item1": "Best for X", "Item2": "Best for Y"}
+}`
+    },
+    serp_stats: {
+        label: 'Statistics',
+        group: 'SERP blocks',
+        description: 'Four headline statistics for the stats dashboard, as JSON',
+        sample: {},
+        body: `Generate 4 impressive statistics about "{{topic}}".
+
+OUTPUT JSON:
+{
+  "stats": [
+    {"value": "87%", "label": "Success Rate", "trend": "up"},
+    {"value": "2.4x", "label": "ROI Increase", "trend": "up"},
+    {"value": "$1.2M", "label": "Average Savings", "trend": "up"},
+    {"value": "14 days", "label": "Time to Results", "trend": "down"}
+  ]
+}
+
+Use realistic, impressive but believable numbers.`
+    },
+    serp_definition: {
+        label: 'Definition',
+        group: 'SERP blocks',
+        description: 'Two to three sentence definition box',
+        sample: { term: 'example term' },
+        body: `Write a clear, authoritative definition for "{{term}}".
+
+REQUIREMENTS:
+- 2-3 sentences
+- Start with "{term} is/refers to..."
+- Include one specific example or application
+- Write at 8th grade reading level
+- Be definitive, not wishy-washy
+
+OUTPUT: Just the definition text, nothing else.`
+    },
+    blog_main_content: {
+        label: 'Main content (markdown)',
+        group: 'Blog generator',
+        description: 'Markdown body sections from the blog content generator',
+        sample: {
+            existingQA: 'Short quick-answer paragraph.',
+            config: {
+                minSections: 8, maxSections: 12,
+                minParagraphsPerSection: 2, maxParagraphsPerSection: 4,
+                minWordsPerParagraph: 120, maxWordsPerParagraph: 220
+            }
+        },
+        body: `You are an expert content creator writing an ENTERPRISE-GRADE blog post about "{{keyword}}".
+
+TITLE: {{title}}
+
+CRITICAL REQUIREMENTS:
+1. Generate EXACTLY {{config.minSections}}-{{config.maxSections}} detailed H2 sections
+2. Each H2 must have {{config.minParagraphsPerSection}}-{{config.maxParagraphsPerSection}} rich paragraphs
+3. Each paragraph must be {{config.minWordsPerParagraph}}-{{config.maxWordsPerParagraph}} words
+4. Use Alex Hormozi copywriting style: Problem-Agitate-Solve (PAS) framework
+5. Include specific examples, statistics, and actionable insights
+6. Write for SOLOPRENEURS and BUSINESS BUILDERS (not beginners)
+7. Focus on TRANSFORMATION and RESULTS, not features
+8. Include strategic internal link anchor candidates (marked with |ANCHOR:term|)
+
+CONTENT STRUCTURE:
+- Start with compelling hook that builds curiosity
+- Each section should solve ONE specific problem
+- Use transition sentences between sections
+- Include data, research, and expert opinions
+- End each section with actionable takeaway
+
+STYLE GUIDE:
+- Power words: "proven", "guaranteed", "revolutionary", "breakthrough"
+- Emotional triggers: curiosity, FOMO, aspiration
+- Voice: Direct, conversational, no fluff
+- Sentence structure: Mix short punchy sentences with detailed explanations
+- Specificity: Use exact numbers, percentages, timeframes
+
+DELIVER AS MARKDOWN with proper H2 (##) formatting.
+Each section must stand alone but also connect to the larger narrative.
+
+QUICK ANSWER CONTEXT (for reference, don't repeat):
+{{existingQA}}
+
+Now write the comprehensive main content sections.`
+    }
+};
+
+export const PROMPT_TEMPLATE_KEYS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateKey[];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 VARIABLES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Reviewer feedback from rejected drafts, appended to generation prompts
+export function buildFeedbackBlock(feedback?: string[]): string {
+    const items = (feedback || []).map(f => f.trim()).filter(Boolean);
+    if (items.length === 0) return '';
+    return `
+
+REVIEWER FEEDBACK ON PREVIOUS DRAFT (MUST ADDRESS):
+${items.map(f => `• ${f}`).join('\n')}`;
+}
+
+export function buildPromptVariables(context: PromptContext): PromptVariables {
+    return {
+        topic: context.topic,
+        keyword: context.keyword || context.topic,
+        title: context.title || context.topic,
+        targetWords: context.targetWords,
+        year: new Date().getFullYear(),
+        siteContext: context.siteContext,
+        entityGap: context.entityGap,
+        feedbackBlock: buildFeedbackBlock(context.feedback)
+    };
+}
+
+function lookup(vars: PromptVariables, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        vars
+    );
+}
+
+function formatValue(value: unknown, filter?: string): string {
+    if (Array.isArray(value)) {
+        const items = value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item)));
+        return (FILTERS[filter || 'join'] || FILTERS.join)(items);
+    }
+    if (filter === 'json' || (value !== null && typeof value === 'object')) return JSON.stringify(value, null, 2);
+    return String(value);
+}
+
+// Variable paths a template references, in order of first use
+export function extractTemplateVariables(body: string): string[] {
+    const found = new Set<string>();
+    for (const match of body.matchAll(VARIABLE_PATTERN)) found.add(match[1]);
+    return Array.from(found);
+}
+
+/**
+ * Fills {{variables}}. Unknown or empty values render as '' and are listed
+ * in `missing`; the feedback block is allowed to be empty.
+ */
+export function renderPromptTemplate(body: string, vars: PromptVariables): RenderedPrompt {
+    const missing = new Set<string>();
+    const text = body.replace(VARIABLE_PATTERN, (_, path: string, filter?: string) => {
+        const value = lookup(vars, path);
+        if (value === undefined || value === null || value === '') {
+            if (path !== 'feedbackBlock') missing.add(path);
+            return '';
+        }
+        return formatValue(value, filter);
+    });
+    return { text, missing: Array.from(missing) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎯 RESOLUTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Overrides are keyed by site origin so "https://a.com/" and "https://a.com" match
+export function normalizeSiteScope(siteUrl: string): string {
+    const trimmed = (siteUrl || '').trim();
+    if (!trimmed) return ALL_SITES_SCOPE;
+    try {
+        return new URL(trimmed).origin.toLowerCase();
+    } catch {
+        return trimmed.replace(/\/+$/, '').toLowerCase();
+    }
+}
+
+export function findPromptOverride(
+    overrides: PromptTemplateOverride[],
+    key: PromptTemplateKey,
+    siteUrl: string
+): PromptTemplateOverride | undefined {
+    const scope = normalizeSiteScope(siteUrl);
+    return overrides.find(o => o.key === key && o.siteUrl === scope && o.versions.length > 0);
+}
+
+// Site override, else the all-sites override, else the built-in template
+export function resolvePromptTemplate(
+    key: PromptTemplateKey,
+    overrides: PromptTemplateOverride[],
+    siteUrl: string
+): ResolvedPromptTemplate {
+    const site = normalizeSiteScope(siteUrl) ? findPromptOverride(overrides, key, siteUrl) : undefined;
+    if (site) return { body: site.versions[0].body, source: 'site', version: site.versions[0].version };
+
+    const global = findPromptOverride(overrides, key, ALL_SITES_SCOPE);
+    if (global) return { body: global.versions[0].body, source: 'all sites', version: global.versions[0].version };
+
+    return { body: PROMPT_TEMPLATES[key].body, source: 'built-in', version: 0 };
+}
+
+// Edited templates for a site, ready for GenerateConfig.promptTemplates
+export function resolvePromptTemplateSet(overrides: PromptTemplateOverride[], siteUrl: string): PromptTemplateSet {
+    const set: PromptTemplateSet = {};
+    PROMPT_TEMPLATE_KEYS.forEach(key => {
+        const resolved = resolvePromptTemplate(key, overrides, siteUrl);
+        if (resolved.source !== 'built-in') set[key] = resolved.body;
+    });
+    return set;
+}
+
+export function getTemplateBody(key: PromptTemplateKey, templates?: PromptTemplateSet): string {
+    return templates?.[key] ?? PROMPT_TEMPLATES[key].body;
+}
+
+// Renders a template from the set (or the built-in) — used by the generators
+export function renderPrompt(key: PromptTemplateKey, vars: PromptVariables, templates?: PromptTemplateSet): string {
+    return renderPromptTemplate(getTemplateBody(key, templates), vars).text;
+}
+
+export default {
+    PROMPT_TEMPLATES_VERSION,
+    ALL_SITES_SCOPE,
+    MAX_TEMPLATE_VERSIONS,
+    PROMPT_TEMPLATES,
+    PROMPT_TEMPLATE_KEYS,
+    buildFeedbackBlock,
+    buildPromptVariables,
+    extractTemplateVariables,
+    renderPromptTemplate,
+    normalizeSiteScope,
+    findPromptOverride,
+    resolvePromptTemplate,
+    resolvePromptTemplateSet,
+    getTemplateBody,
+    renderPrompt
+};
@@ -11,8 +11,9 @@
 
 import { GoogleGenAI } from '@google/genai';
 import { 
-    EntityGapAnalysis, FAQItem, ValidatedReference, SerpFeature, ApiKeys 
+    EntityGapAnalysis, FAQItem, ValidatedReference, SerpFeature, ApiKeys, PromptTemplateSet
 } from '../types';
+import { renderPrompt } from './prompt-templates';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -103,7 +104,8 @@ async function callAI(
 
 export async function generateFeaturedSnippetBait(
     config: SnippetConfig,
-    apiKey: string
+    apiKey: string,
+    templates?: PromptTemplateSet
 ): Promise<string> {
     const { query, format, wordLimit, includeNumbers } = config;
 
@@ -113,23 +115,12 @@ export async function generateFeaturedSnippetBait(
         table: `Create a simple 2-column comparison with 4-5 rows. Use | for column separators.`,
     };
 
-    const prompt = `You are a featured snippet optimization expert.
-
-QUESTION TO ANSWER: "${query}"
-FORMAT: ${format}
-${includeNumbers ? 'REQUIREMENT: Include at least one specific number or statistic.' : ''}
-
-${formatInstructions[format]}
-
-RULES FOR FEATURED SNIPPETS:
-1. Start with a DIRECT answer (no "It depends" or qualifiers)
-2. Use simple, clear language (8th grade reading level)
-3. Be definitive and authoritative
-4. For lists: Use consistent formatting
-5. Don't include questions in the answer
-6. Front-load the most important information
-
-OUTPUT ONLY the answer text/HTML, nothing else.`;
+    const prompt = renderPrompt('serp_snippet', {
+        query,
+        format,
+        numbersRequirement: includeNumbers ? 'REQUIREMENT: Include at least one specific number or statistic.' : '',
+        formatInstructions: formatInstructions[format],
+    }, templates);
 
     const response = await callAI(prompt, apiKey, {
         temperature: 0.5,
@@ -168,32 +159,17 @@ OUTPUT ONLY the answer text/HTML, nothing else.`;
 
 export async function generatePAATargetedFAQ(
     config: PAA_Config,
-    apiKey: string
+    apiKey: string,
+    templates?: PromptTemplateSet
 ): Promise<{ faqs: FAQItem[]; html: string }> {
     const { questions, answerLength, topic } = config;
 
-    const prompt = `Generate FAQ answers optimized for Google's "People Also Ask" feature.
-
-TOPIC: "${topic}"
-
-QUESTIONS TO ANSWER:
-${questions.map((q, i) => `${i + 1}. ${q}`).join('\n')}
-
-ANSWER REQUIREMENTS:
-- Length: ${answerLength.min}-${answerLength.max} words each
-- Start with a DIRECT answer in the first sentence
-- Include ONE specific fact, number, or statistic
-- End with an actionable insight or next step
-- Write for position zero extraction
-- Use simple, clear language
-- No fluff or filler words
-
-OUTPUT JSON:
-{
-  "faqs": [
-    {"question": "exact question", "answer": "comprehensive answer"}
-  ]
-}`;
+    const prompt = renderPrompt('serp_paa', {
+        topic,
+        questions,
+        answerMin: answerLength.min,
+        answerMax: answerLength.max,
+    }, templates);
 
     const response = await callAI(prompt, apiKey, {
         jsonMode: true,
@@ -229,31 +205,17 @@ OUTPUT JSON:
 
 export async function generateComparisonTable(
     config: ComparisonConfig,
-    apiKey: string
+    apiKey: string,
+    templates?: PromptTemplateSet
 ): Promise<string> {
     const { topic, items, features, highlightWinner } = config;
 
-    const prompt = `Create a detailed comparison table for "${topic}".
-
-ITEMS TO COMPARE: ${items.join(' vs ')}
-FEATURES TO COMPARE: ${features.join(', ')}
-
-REQUIREMENTS:
-1. Rate each feature for each item (✓, ✗, or specific value)
-2. Be objective and fair
-3. Include specific numbers where possible
-4. Add a "Best For" row at the end
-${highlightWinner ? '5. Highlight the winner in each category' : ''}
-
-OUTPUT: Return ONLY a JSON object with this structure:
-{
-  "headers": ["Feature", "Item1", "Item2", ...],
-  "rows": [
-    {"feature": "Feature Name", "values": ["Value1", "Value2", ...]},
-    ...
-  ],
-  "bestFor": {"Item1": "Best for X", "Item2": "Best for Y"}
-}`;
+    const prompt = renderPrompt('serp_comparison', {
+        topic,
+        itemsCompared: items.join(' vs '),
+        features: features.join(', '),
+        winnerRequirement: highlightWinner ? '5. Highlight the winner in each category' : '',
+    }, templates);
 
     const response = await callAI(prompt, apiKey, {
         jsonMode: true,
@@ -300,7 +262,8 @@ OUTPUT: Return ONLY a JSON object with this structure:
 
 export async function generateStatsDashboard(
     config: StatsConfig,
-    apiKey: string
+    apiKey: string,
+    templates?: PromptTemplateSet
 ): Promise<string> {
     const { topic, stats, sources } = config;
 
@@ -308,19 +271,7 @@ export async function generateStatsDashboard(
     let statsToUse = stats;
     
     if (!statsToUse || statsToUse.length === 0) {
-        const prompt = `Generate 4 impressive statistics about "${topic}".
-
-OUTPUT JSON:
-{
-  "stats": [
-    {"value": "87%", "label": "Success Rate", "trend": "up"},
-    {"value": "2.4x", "label": "ROI Increase", "trend": "up"},
-    {"value": "$1.2M", "label": "Average Savings", "trend": "up"},
-    {"value": "14 days", "label": "Time to Results", "trend": "down"}
-  ]
-}
-
-Use realistic, impressive but believable numbers.`;
+        const prompt = renderPrompt('serp_stats', { topic }, templates);
 
         const response = await callAI(prompt, apiKey, {
             jsonMode: true,
@@ -357,18 +308,10 @@ Use realistic, impressive but believable numbers.`;
 
 export async function generateDefinitionBox(
     term: string,
-    apiKey: string
+    apiKey: string,
+    templates?: PromptTemplateSet
 ): Promise<string> {
-    const prompt = `Write a clear, authoritative definition for "${term}".
-
-REQUIREMENTS:
-- 2-3 sentences
-- Start with "{term} is/refers to..."
-- Include one specific example or application
-- Write at 8th grade reading level
-- Be definitive, not wishy-washy
-
-OUTPUT: Just the definition text, nothing else.`;
+    const prompt = renderPrompt('serp_definition', { term }, templates);
 
     const response = await callAI(prompt, apiKey, {
         temperature: 0.5,
@@ -393,7 +336,8 @@ export async function generateSERPTargetedContent(
     topic: string,
     entityGapData: EntityGapAnalysis | undefined,
     apiKey: string,
-    onProgress?: (msg: string) => void
+    onProgress?: (msg: string) => void,
+    templates?: PromptTemplateSet
 ): Promise<SERPContentBlocks> {
     const blocks: SERPContentBlocks = {};
 
@@ -410,7 +354,8 @@ export async function generateSERPTargetedContent(
                     wordLimit: 55,
                     includeNumbers: true,
                 },
-                apiKey
+                apiKey,
+                templates
             );
         } catch (e) {
             console.warn('Featured snippet generation failed:', e);
@@ -428,7 +373,8 @@ export async function generateSERPTargetedContent(
                     includeSchema: true,
                     topic,
                 },
-                apiKey
+                apiKey,
+                templates
             );
             blocks.paaFAQs = paaResult.faqs;
             blocks.paaHTML = paaResult.html;
@@ -446,7 +392,8 @@ export async function generateSERPTargetedContent(
                 stats: [], // Will be auto-generated
                 sources: entityGapData?.validatedReferences,
             },
-            apiKey
+            apiKey,
+            templates
         );
     } catch (e) {
         console.warn('Stats dashboard generation failed:', e);
@@ -467,7 +414,8 @@ export async function generateSERPTargetedContent(
                     features: ['Content Quality', 'SEO Score', 'User Experience', 'Authority', 'Freshness'],
                     highlightWinner: true,
                 },
-                apiKey
+                apiKey,
+                templates
             );
         } catch (e) {
             console.warn('Comparison table generation failed:', e);
@@ -477,7 +425,7 @@ export async function generateSERPTargetedContent(
     // 5. Definition Box
     onProgress?.('   → Generating definition box...');
     try {
-        blocks.definitionBox = await generateDefinitionBox(topic, apiKey);
+        blocks.definitionBox = await generateDefinitionBox(topic, apiKey, templates);
     } catch (e) {
         console.warn('Definition box generation failed:', e);
     }
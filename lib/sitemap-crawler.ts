@@ -0,0 +1,275 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — RECURSIVE SITEMAP CRAWLER
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Walks WordPress sitemaps (core, Yoast, RankMath):
+// ✅ Recursive sitemap indexes with depth & sitemap limits
+// ✅ Gzipped sitemaps (.xml.gz)
+// ✅ lastmod / priority / changefreq per URL
+// ✅ Post-type filtering from child sitemap names
+// ✅ Include/exclude regex and a configurable URL limit
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { SitemapCrawlConfig } from '../types';
+
+export const SITEMAP_CRAWLER_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface SitemapEntry {
+    url: string;
+    lastMod: string | null;
+    priority: number | null;
+    changeFreq: string | null;
+    postType: string | null;
+    sourceSitemap: string;
+}
+
+export interface SitemapCrawlResult {
+    entries: SitemapEntry[];
+    sitemapsVisited: number;
+    sitemapsSkipped: number;
+    failedSitemaps: string[];
+    // True when maxUrls or maxSitemaps cut the crawl short
+    truncated: boolean;
+}
+
+type LogFunction = (msg: string) => void;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_SITEMAP_CRAWL_CONFIG: SitemapCrawlConfig = {
+    maxUrls: 1000,
+    maxDepth: 3,
+    maxSitemaps: 50,
+    includePattern: '',
+    excludePattern: '',
+    postTypes: []
+};
+
+const EXCLUDED_URL_PARTS = ['?', '/wp-admin', '/wp-content', '/wp-json', '/feed/', '.pdf', '.jpg', '.jpeg', '.png', '.gif', '.webp'];
+
+const CHILD_FETCH_CONCURRENCY = 3;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 FETCHING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+async function decodeBody(res: Response): Promise<string> {
+    const buffer = new Uint8Array(await res.arrayBuffer());
+
+    // Raw gzip (served as a file, not via Content-Encoding) starts with 1f 8b
+    if (buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+        if (typeof DecompressionStream === 'undefined') {
+            throw new Error('Gzip sitemaps are not supported in this browser');
+        }
+        const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+        return await new Response(stream).text();
+    }
+
+    return new TextDecoder('utf-8').decode(buffer);
+}
+
+async function fetchSitemapText(url: string): Promise<string> {
+    // Try direct fetch first
+    try {
+        const res = await fetch(url, {
+            method: 'GET',
+            headers: { 'Accept': 'application/xml, text/xml, application/gzip, */*' }
+        });
+        if (res.ok) return await decodeBody(res);
+    } catch {}
+
+    // Fallback to CORS proxy
+    const proxyRes = await fetch(`https://corsproxy.io/?${encodeURIComponent(url)}`);
+    if (!proxyRes.ok) {
+        throw new Error(`HTTP ${proxyRes.status}`);
+    }
+    return await decodeBody(proxyRes);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📄 PARSING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function childText(el: Element, tag: string): string | null {
+    const child = el.getElementsByTagName(tag)[0];
+    const text = child?.textContent?.trim();
+    return text || null;
+}
+
+function parseSitemapXml(text: string): { kind: 'index' | 'urlset'; items: Element[] } {
+    const xml = new DOMParser().parseFromString(text, 'application/xml');
+    if (xml.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Invalid sitemap XML');
+    }
+
+    const root = xml.documentElement?.localName;
+    if (root === 'sitemapindex') {
+        return { kind: 'index', items: Array.from(xml.getElementsByTagName('sitemap')) };
+    }
+    return { kind: 'urlset', items: Array.from(xml.getElementsByTagName('url')) };
+}
+
+/**
+ * Infer the post type a child sitemap lists from its file name.
+ * Core: wp-sitemap-posts-{type}-1.xml, wp-sitemap-taxonomies-{tax}-1.xml, wp-sitemap-users-1.xml
+ * Yoast / RankMath: {type}-sitemap.xml, {type}-sitemap2.xml
+ */
+export function inferPostType(sitemapUrl: string): string | null {
+    let file = '';
+    try {
+        file = new URL(sitemapUrl).pathname.split('/').pop() || '';
+    } catch {
+        file = sitemapUrl.split('/').pop() || '';
+    }
+    file = file.toLowerCase().replace(/\.gz$/, '');
+
+    const core = file.match(/^wp-sitemap-(?:posts|taxonomies)-([a-z0-9_-]+?)-\d+\.xml$/);
+    if (core) return core[1];
+    if (/^wp-sitemap-users-\d+\.xml$/.test(file)) return 'author';
+
+    const plugin = file.match(/^([a-z0-9_-]+?)-sitemap\d*\.xml$/);
+    if (plugin) return plugin[1];
+
+    return null;
+}
+
+function compilePattern(source: string, label: string): RegExp | null {
+    if (!source.trim()) return null;
+    try {
+        return new RegExp(source.trim(), 'i');
+    } catch (e: any) {
+        throw new Error(`Invalid ${label} pattern: ${e.message}`);
+    }
+}
+
+function parsePriority(value: string | null): number | null {
+    if (!value) return null;
+    const n = parseFloat(value);
+    return isNaN(n) ? null : Math.min(1, Math.max(0, n));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🚀 MAIN ENTRY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export async function crawlSitemap(
+    rootUrl: string,
+    config: Partial<SitemapCrawlConfig> = {},
+    log: LogFunction = () => {}
+): Promise<SitemapCrawlResult> {
+    const cfg: SitemapCrawlConfig = { ...DEFAULT_SITEMAP_CRAWL_CONFIG, ...config };
+    const include = compilePattern(cfg.includePattern, 'include');
+    const exclude = compilePattern(cfg.excludePattern, 'exclude');
+    const allowedTypes = new Set(cfg.postTypes.map(t => t.trim().toLowerCase()).filter(Boolean));
+
+    const queue: Array<{ url: string; depth: number }> = [{ url: rootUrl, depth: 0 }];
+    const visited = new Set<string>();
+    const seenUrls = new Set<string>();
+    const entries: SitemapEntry[] = [];
+    const failedSitemaps: string[] = [];
+    let sitemapsSkipped = 0;
+    let truncated = false;
+
+    const typeAllowed = (type: string | null) => allowedTypes.size === 0 || !type || allowedTypes.has(type);
+
+    const processSitemap = async ({ url, depth }: { url: string; depth: number }) => {
+        let parsed: ReturnType<typeof parseSitemapXml>;
+        try {
+            parsed = parseSitemapXml(await fetchSitemapText(url));
+        } catch (e: any) {
+            failedSitemaps.push(url);
+            log(`   ⚠️ ${url}: ${e.message}`);
+            return;
+        }
+
+        if (parsed.kind === 'index') {
+            log(`   🗂️ Index (depth ${depth}): ${parsed.items.length} child sitemaps`);
+            for (const item of parsed.items) {
+                const loc = childText(item, 'loc');
+                if (!loc || visited.has(loc)) continue;
+
+                if (depth + 1 > cfg.maxDepth) {
+                    sitemapsSkipped++;
+                    continue;
+                }
+                if (!typeAllowed(inferPostType(loc))) {
+                    sitemapsSkipped++;
+                    continue;
+                }
+                queue.push({ url: loc, depth: depth + 1 });
+            }
+            return;
+        }
+
+        const postType = inferPostType(url);
+        let added = 0;
+
+        for (const item of parsed.items) {
+            if (entries.length >= cfg.maxUrls) {
+                truncated = true;
+                break;
+            }
+
+            const loc = childText(item, 'loc');
+            if (!loc || !loc.startsWith('http') || seenUrls.has(loc)) continue;
+
+            const lower = loc.toLowerCase();
+            if (EXCLUDED_URL_PARTS.some(p => lower.includes(p))) continue;
+            if (/\.xml(\.gz)?$/.test(lower)) continue;
+            if (include && !include.test(loc)) continue;
+            if (exclude && exclude.test(loc)) continue;
+
+            seenUrls.add(loc);
+            entries.push({
+                url: loc,
+                lastMod: childText(item, 'lastmod'),
+                priority: parsePriority(childText(item, 'priority')),
+                changeFreq: childText(item, 'changefreq'),
+                postType,
+                sourceSitemap: url
+            });
+            added++;
+        }
+
+        log(`   📄 ${postType || 'urlset'}: ${added}/${parsed.items.length} URLs kept`);
+    };
+
+    while (queue.length > 0 && entries.length < cfg.maxUrls) {
+        const batch: Array<{ url: string; depth: number }> = [];
+        while (queue.length > 0 && batch.length < CHILD_FETCH_CONCURRENCY) {
+            const next = queue.shift()!;
+            if (visited.has(next.url)) continue;
+            if (visited.size >= cfg.maxSitemaps) {
+                truncated = true;
+                queue.length = 0;
+                break;
+            }
+            visited.add(next.url);
+            batch.push(next);
+        }
+        await Promise.all(batch.map(processSitemap));
+    }
+
+    if (queue.length > 0) truncated = true;
+
+    return {
+        entries: entries.slice(0, cfg.maxUrls),
+        sitemapsVisited: visited.size,
+        sitemapsSkipped,
+        failedSitemaps,
+        truncated
+    };
+}
+
+export default {
+    SITEMAP_CRAWLER_VERSION,
+    DEFAULT_SITEMAP_CRAWL_CONFIG,
+    crawlSitemap,
+    inferPostType
+};
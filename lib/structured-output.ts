@@ -0,0 +1,337 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — STRUCTURED LLM OUTPUT
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Typed JSON contracts for every stage that answers in JSON:
+// ✅ Schemas for the outline, outline sections, FAQ lists and the ContentContract
+// ✅ Native JSON mode / response schema where the provider supports it
+// ✅ Field-level validation errors ("sections[2].heading: required")
+// ✅ Repair prompt that sends the validation errors back to the model
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AIProvider, FAQ } from '../types';
+
+export const STRUCTURED_OUTPUT_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Subset of JSON Schema — passed as-is to OpenAI-compatible APIs
+export type JsonSchema =
+    | { type: 'string'; minLength?: number; maxLength?: number; description?: string }
+    | { type: 'number' | 'integer'; minimum?: number; description?: string }
+    | { type: 'boolean'; description?: string }
+    | { type: 'array'; items: JsonSchema; minItems?: number; maxItems?: number; description?: string }
+    | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+export interface SchemaIssue {
+    // "sections[2].subsections[0].heading", "(root)" for the value itself
+    path: string;
+    message: string;
+}
+
+export interface StructuredResult<T> {
+    success: boolean;
+    data?: T;
+    issues: SchemaIssue[];
+}
+
+export interface FAQList {
+    faqs: FAQ[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Repair round-trips after the first answer fails validation
+export const MAX_REPAIR_ROUNDS = 1;
+
+// Issues listed in a repair prompt / log line — the rest are summarised
+const MAX_REPORTED_ISSUES = 20;
+
+// json_schema needs a name matching ^[a-zA-Z0-9_-]+$
+const RESPONSE_FORMAT_NAME = 'structured_output';
+
+// How each provider is asked for JSON. Anthropic has no JSON mode and relies on the prompt + validation
+type NativeJsonMode = 'response_schema' | 'json_schema' | 'json_object' | 'none';
+
+const NATIVE_JSON_MODES: Record<AIProvider, NativeJsonMode> = {
+    google: 'response_schema',
+    openai: 'json_schema',
+    openrouter: 'json_schema',
+    groq: 'json_object',
+    local: 'json_object',
+    anthropic: 'none'
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📐 SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const text = (description?: string): JsonSchema => ({ type: 'string', minLength: 1, description });
+const textList = (minItems = 0): JsonSchema => ({ type: 'array', items: text(), minItems });
+
+export const FAQ_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        question: text(),
+        answer: { type: 'string', minLength: 20 }
+    },
+    required: ['question', 'answer']
+};
+
+export const FAQ_LIST_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: { faqs: { type: 'array', items: FAQ_SCHEMA, minItems: 1 } },
+    required: ['faqs']
+};
+
+export const SECTION_OUTLINE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        heading: text('H2 heading'),
+        keyPoints: textList(1),
+        subsections: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { heading: text('H3 heading'), keyPoints: textList() },
+                required: ['heading', 'keyPoints']
+            }
+        }
+    },
+    required: ['heading', 'keyPoints', 'subsections']
+};
+
+export const OUTLINE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: text(),
+        metaDescription: text(),
+        slug: text(),
+        sections: { type: 'array', items: SECTION_OUTLINE_SCHEMA, minItems: 3 },
+        faqTopics: textList(),
+        keyTakeaways: textList()
+    },
+    required: ['title', 'metaDescription', 'slug', 'sections', 'faqTopics', 'keyTakeaways']
+};
+
+export const CONTENT_CONTRACT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: text(),
+        metaDescription: text(),
+        slug: text(),
+        htmlContent: { type: 'string', minLength: 200, description: 'Full article HTML' },
+        excerpt: { type: 'string' },
+        faqs: { type: 'array', items: FAQ_SCHEMA },
+        wordCount: { type: 'integer', minimum: 0 }
+    },
+    required: ['title', 'metaDescription', 'slug', 'htmlContent']
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ✔️ VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = ''): SchemaIssue[] {
+    const at = path || '(root)';
+    const actual = typeOf(value);
+
+    switch (schema.type) {
+        case 'string': {
+            if (actual !== 'string') return [{ path: at, message: `expected string, got ${actual}` }];
+            const str = value as string;
+            if (schema.minLength && str.trim().length < schema.minLength) {
+                return [{ path: at, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` }];
+            }
+            if (schema.maxLength && str.length > schema.maxLength) {
+                return [{ path: at, message: `must be at most ${schema.maxLength} characters` }];
+            }
+            return [];
+        }
+        case 'number':
+        case 'integer': {
+            if (actual !== 'number' || !Number.isFinite(value)) return [{ path: at, message: `expected ${schema.type}, got ${actual}` }];
+            if (schema.type === 'integer' && !Number.isInteger(value)) return [{ path: at, message: 'expected integer' }];
+            if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+                return [{ path: at, message: `must be ≥ ${schema.minimum}` }];
+            }
+            return [];
+        }
+        case 'boolean':
+            return actual === 'boolean' ? [] : [{ path: at, message: `expected boolean, got ${actual}` }];
+        case 'array': {
+            if (actual !== 'array') return [{ path: at, message: `expected array, got ${actual}` }];
+            const items = value as unknown[];
+            const issues: SchemaIssue[] = [];
+            if (schema.minItems && items.length < schema.minItems) {
+                issues.push({ path: at, message: `must have at least ${schema.minItems} items, got ${items.length}` });
+            }
+            if (schema.maxItems && items.length > schema.maxItems) {
+                issues.push({ path: at, message: `must have at most ${schema.maxItems} items, got ${items.length}` });
+            }
+            items.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items, `${path}[${i}]`)));
+            return issues;
+        }
+        case 'object': {
+            if (actual !== 'object') return [{ path: at, message: `expected object, got ${actual}` }];
+            const obj = value as Record<string, unknown>;
+            const issues: SchemaIssue[] = [];
+            for (const [key, propSchema] of Object.entries(schema.properties)) {
+                const propPath = path ? `${path}.${key}` : key;
+                if (obj[key] === undefined || obj[key] === null) {
+                    if (schema.required?.includes(key)) issues.push({ path: propPath, message: 'required' });
+                    continue;
+                }
+                issues.push(...validateAgainstSchema(obj[key], propSchema, propPath));
+            }
+            return issues;
+        }
+    }
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[], limit: number = MAX_REPORTED_ISSUES): string[] {
+    const lines = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`);
+    if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+    return lines;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔍 PARSING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Ways a model wraps or truncates JSON, tried in order: raw, fenced, trimmed to outer brackets, trailing commas, unclosed brackets
+function jsonCandidates(raw: string): string[] {
+    const trimmed = raw.trim();
+    const candidates = [trimmed];
+
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) candidates.push(fenced[1].trim());
+
+    const base = candidates[candidates.length - 1];
+    const start = base.search(/[[{]/);
+    const end = Math.max(base.lastIndexOf('}'), base.lastIndexOf(']'));
+    const bounded = start !== -1 && end > start ? base.slice(start, end + 1) : base.slice(Math.max(start, 0));
+    candidates.push(bounded);
+
+    const noTrailingCommas = bounded.replace(/,(\s*[}\]])/g, '$1');
+    candidates.push(noTrailingCommas);
+
+    const missingBraces = (noTrailingCommas.match(/\{/g) || []).length - (noTrailingCommas.match(/\}/g) || []).length;
+    const missingBrackets = (noTrailingCommas.match(/\[/g) || []).length - (noTrailingCommas.match(/\]/g) || []).length;
+    if (missingBraces > 0 || missingBrackets > 0) {
+        candidates.push(noTrailingCommas + ']'.repeat(Math.max(missingBrackets, 0)) + '}'.repeat(Math.max(missingBraces, 0)));
+    }
+
+    return Array.from(new Set(candidates.filter(Boolean)));
+}
+
+/**
+ * Parses a model response and validates it. The first candidate that
+ * parses and validates wins; otherwise the issues of the first candidate
+ * that parsed are returned.
+ */
+export function parseStructuredOutput<T>(raw: string, schema: JsonSchema): StructuredResult<T> {
+    if (!raw?.trim()) return { success: false, issues: [{ path: '(root)', message: 'empty response' }] };
+
+    let firstIssues: SchemaIssue[] | null = null;
+    for (const candidate of jsonCandidates(raw)) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(candidate);
+        } catch {
+            continue;
+        }
+        const issues = validateAgainstSchema(parsed, schema);
+        if (issues.length === 0) return { success: true, data: parsed as T, issues };
+        firstIssues = firstIssues || issues;
+    }
+
+    return {
+        success: false,
+        issues: firstIssues || [{ path: '(root)', message: 'response is not valid JSON' }]
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 REPAIR
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function buildRepairPrompt(originalPrompt: string, previousResponse: string, issues: SchemaIssue[]): string {
+    return `${originalPrompt}
+
+═══ YOUR PREVIOUS RESPONSE ═══
+${previousResponse}
+
+═══ VALIDATION ERRORS ═══
+${formatSchemaIssues(issues).map(line => `• ${line}`).join('\n')}
+
+Fix every error above and return the complete corrected JSON. Keep the content that was valid.
+⚠️ Return ONLY valid JSON.`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 PROVIDER JSON MODES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * `response_format` for OpenAI-compatible chat APIs, or undefined when the
+ * provider has no such parameter (Gemini takes a response schema instead).
+ */
+export function toResponseFormat(provider: AIProvider, schema: JsonSchema): Record<string, unknown> | undefined {
+    switch (NATIVE_JSON_MODES[provider]) {
+        case 'json_schema':
+            return { type: 'json_schema', json_schema: { name: RESPONSE_FORMAT_NAME, schema, strict: false } };
+        case 'json_object':
+            return { type: 'json_object' };
+        default:
+            return undefined;
+    }
+}
+
+// Gemini's OpenAPI-style schema: upper-case types, counts as strings
+export function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+    const out: Record<string, unknown> = { type: schema.type.toUpperCase() };
+    if (schema.description) out.description = schema.description;
+
+    switch (schema.type) {
+        case 'array':
+            out.items = toGeminiSchema(schema.items);
+            if (schema.minItems) out.minItems = String(schema.minItems);
+            if (schema.maxItems) out.maxItems = String(schema.maxItems);
+            break;
+        case 'object':
+            out.properties = Object.fromEntries(
+                Object.entries(schema.properties).map(([key, prop]) => [key, toGeminiSchema(prop)])
+            );
+            out.propertyOrdering = Object.keys(schema.properties);
+            if (schema.required?.length) out.required = schema.required;
+            break;
+    }
+    return out;
+}
+
+export default {
+    STRUCTURED_OUTPUT_VERSION,
+    MAX_REPAIR_ROUNDS,
+    FAQ_SCHEMA,
+    FAQ_LIST_SCHEMA,
+    SECTION_OUTLINE_SCHEMA,
+    OUTLINE_SCHEMA,
+    CONTENT_CONTRACT_SCHEMA,
+    validateAgainstSchema,
+    formatSchemaIssues,
+    parseStructuredOutput,
+    buildRepairPrompt,
+    toResponseFormat,
+    toGeminiSchema
+};
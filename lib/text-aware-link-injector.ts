@@ -1,3 +1,4 @@
+import { InternalLinkTarget } from '../types';
 import { generateBlogContent, BlogContentResult } from './blog-content-generator';
 import { injectContextualLinks, validateLinkQuality } from './context-aware-link-injector';
 
@@ -24,7 +25,8 @@ interface EnhancedBlogContent {
 
 export async function generateEnhancedBlogContent(
   topic: string,
-  keywords: string[]
+  keywords: string[],
+  linkTargets: InternalLinkTarget[] = []
 ): Promise<EnhancedBlogContent> {
   try {
     // Step 1: Generate core blog content with 8-12 sections
@@ -36,8 +38,8 @@ export async function generateEnhancedBlogContent(
     blogResult.sections.forEach((section: { heading: string; content: string }) => {      fullContent += `## ${section.heading}\n${section.content}\n\n`;
           fullContent += `## ${section.heading}\n${section.content}\n\n`;});
 
-    // Step 3: Inject 15-20 contextual links
-    const linkResult = await injectContextualLinks(fullContent, topic);
+    // Step 3: Inject contextual links to the site's own pages
+    const linkResult = await injectContextualLinks(fullContent, linkTargets, { maxLinks: 20 });
     
     // Step 4: Validate link quality
     const qualityValid = validateLinkQuality(linkResult.links);
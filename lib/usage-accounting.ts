@@ -0,0 +1,106 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — TOKEN & COST ACCOUNTING
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Turns raw provider usage into dollars:
+// ✅ Per-model price table (USD per 1M tokens), user-editable
+// ✅ Prefix matching for dated / routed model IDs
+// ✅ Usage totals that add up per job, per provider and per run
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { LLMUsage, ModelPrice, ModelPriceTable, TokenUsageTotals } from '../types';
+import { MODEL_REGISTRY } from './model-registry';
+
+export const USAGE_ACCOUNTING_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 DEFAULT PRICES (USD per 1M tokens)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Seeded from the model registry's list prices
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = Object.fromEntries(
+    MODEL_REGISTRY.map(m => [m.id, { ...m.price }])
+);
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💲 PRICING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Exact model match first, then the longest key the model ID starts with
+ * (so "claude-sonnet-4-20250514" prices as "claude-sonnet-4").
+ */
+export function findModelPrice(model: string, table: ModelPriceTable): ModelPrice | null {
+    if (!model) return null;
+    if (table[model]) return table[model];
+
+    const id = model.toLowerCase();
+    let best: string | null = null;
+    for (const key of Object.keys(table)) {
+        if (id.startsWith(key.toLowerCase()) && (!best || key.length > best.length)) {
+            best = key;
+        }
+    }
+    return best ? table[best] : null;
+}
+
+// Null when the model has no price — the call is still counted, just not costed
+export function calculateCost(usage: LLMUsage, table: ModelPriceTable): number | null {
+    // Self-hosted models cost nothing per token
+    if (usage.provider === 'local') return 0;
+    const price = findModelPrice(usage.model, table);
+    if (!price) return null;
+    return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ➕ TOTALS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function createEmptyUsageTotals(): TokenUsageTotals {
+    return {
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        costUsd: 0,
+        unpricedCalls: 0
+    };
+}
+
+export function addUsage(totals: TokenUsageTotals | undefined, usage: LLMUsage, costUsd: number | null): TokenUsageTotals {
+    const base = totals || createEmptyUsageTotals();
+    return {
+        calls: base.calls + 1,
+        promptTokens: base.promptTokens + usage.promptTokens,
+        completionTokens: base.completionTokens + usage.completionTokens,
+        costUsd: base.costUsd + (costUsd ?? 0),
+        unpricedCalls: base.unpricedCalls + (costUsd === null ? 1 : 0)
+    };
+}
+
+export function sumUsageTotals(items: Array<TokenUsageTotals | undefined>): TokenUsageTotals {
+    return items.reduce<TokenUsageTotals>((sum, item) => item ? {
+        calls: sum.calls + item.calls,
+        promptTokens: sum.promptTokens + item.promptTokens,
+        completionTokens: sum.completionTokens + item.completionTokens,
+        costUsd: sum.costUsd + item.costUsd,
+        unpricedCalls: sum.unpricedCalls + item.unpricedCalls
+    } : sum, createEmptyUsageTotals());
+}
+
+export function formatCost(usd: number): string {
+    if (usd === 0) return '$0.00';
+    if (usd < 0.01) return `$${usd.toFixed(4)}`;
+    return `$${usd.toFixed(2)}`;
+}
+
+export default {
+    USAGE_ACCOUNTING_VERSION,
+    DEFAULT_MODEL_PRICES,
+    findModelPrice,
+    calculateCost,
+    createEmptyUsageTotals,
+    addUsage,
+    sumUsageTotals,
+    formatCost
+};
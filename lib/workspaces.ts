@@ -0,0 +1,143 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — MULTI-SITE WORKSPACES
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// One workspace per WordPress site:
+// ✅ Own WpConfig, API keys, Neuron project, autonomous config, page queue and stats
+// ✅ The active workspace is the store's top-level state; others are parked snapshots
+// ✅ Switching is refused while jobs or autonomous runs are in flight
+// ✅ Per-site summaries for the cross-site dashboard
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { AutonomousRunState, SitemapPage, Workspace, WorkspaceData, WorkspaceSummary } from '../types';
+
+export const WORKSPACES_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Store fields that are swapped when the active workspace changes
+export const WORKSPACE_DATA_KEYS: Array<keyof WorkspaceData> = [
+    'wpConfig',
+    'apiKeys',
+    'neuronEnabled',
+    'autonomousConfig',
+    'pages',
+    'globalStats',
+    'revisions',
+    'approvalQueue',
+    'checkpoints',
+    'linkGraph',
+    'inboundLinkProposals',
+    'pageEmbeddings',
+    'anchorUsage'
+];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function generateWorkspaceId(): string {
+    return `ws_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Host of the site URL, for naming workspaces created from an existing config
+export function workspaceNameFromUrl(url: string | undefined, fallback: string = 'Default'): string {
+    if (!url) return fallback;
+    try {
+        return new URL(url).hostname.replace(/^www\./, '') || fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+export function createWorkspace(name: string, data: WorkspaceData | null = null, id: string = generateWorkspaceId()): Workspace {
+    return { id, name: name.trim() || 'Untitled site', createdAt: Date.now(), data };
+}
+
+// Copies the workspace fields out of the store (or any object holding them)
+export function pickWorkspaceData(source: WorkspaceData): WorkspaceData {
+    const data = {} as Record<keyof WorkspaceData, unknown>;
+    WORKSPACE_DATA_KEYS.forEach(key => { data[key] = source[key]; });
+    return data as unknown as WorkspaceData;
+}
+
+/**
+ * Why the active workspace can't be swapped out right now, or null.
+ * Jobs write to the top-level pages array, so they must finish first.
+ */
+export function getWorkspaceSwitchBlocker(state: {
+    isProcessing: boolean;
+    autonomousRun: AutonomousRunState;
+    pages: SitemapPage[];
+}): string | null {
+    if (state.autonomousRun.status === 'running' || state.autonomousRun.status === 'stopping') {
+        return 'Stop the autonomous run before switching sites';
+    }
+    if (state.isProcessing || state.pages.some(p => p.jobState?.status === 'running')) {
+        return 'Wait for running jobs to finish before switching sites';
+    }
+    return null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📊 CROSS-SITE SUMMARY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export function summarizeWorkspace(workspace: Workspace, data: WorkspaceData, isActive: boolean): WorkspaceSummary {
+    const pages = data.pages || [];
+    const scored = pages.filter(p => typeof p.healthScore === 'number');
+    const avgHealthScore = scored.length > 0
+        ? Math.round(scored.reduce((sum, p) => sum + (p.healthScore || 0), 0) / scored.length)
+        : 0;
+
+    return {
+        id: workspace.id,
+        name: workspace.name,
+        siteUrl: data.wpConfig?.url || '',
+        isActive,
+        pageCount: pages.length,
+        optimizedCount: pages.filter(p => !!p.lastPublishedAt || (p.improvementHistory?.length || 0) > 0).length,
+        failedCount: pages.filter(p => p.status === 'error').length,
+        pendingApprovals: (data.approvalQueue || []).length,
+        avgHealthScore,
+        totalProcessed: data.globalStats?.totalProcessed || 0,
+        totalWordsGenerated: data.globalStats?.totalWordsGenerated || 0,
+        costUsd: data.globalStats?.usage?.costUsd || 0,
+        lastRunTime: data.globalStats?.lastRunTime || 0
+    };
+}
+
+/**
+ * Summaries for every workspace. The active one has no parked data, so its
+ * figures come from the live store fields passed in as `activeData`.
+ */
+export function summarizeWorkspaces(
+    workspaces: Workspace[],
+    activeWorkspaceId: string,
+    activeData: WorkspaceData
+): WorkspaceSummary[] {
+    return workspaces
+        .map(ws => {
+            const isActive = ws.id === activeWorkspaceId;
+            const data = isActive ? activeData : ws.data;
+            return data ? summarizeWorkspace(ws, data, isActive) : null;
+        })
+        .filter((s): s is WorkspaceSummary => s !== null);
+}
+
+export default {
+    WORKSPACES_VERSION,
+    DEFAULT_WORKSPACE_ID,
+    WORKSPACE_DATA_KEYS,
+    generateWorkspaceId,
+    workspaceNameFromUrl,
+    createWorkspace,
+    pickWorkspaceData,
+    getWorkspaceSwitchBlocker,
+    summarizeWorkspace,
+    summarizeWorkspaces
+};
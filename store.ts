@@ -9,12 +9,29 @@
 // ✅ JOB LOG SYSTEM — Per-job logs with timestamps
 // ✅ CIRCUIT BREAKER STATE — Tracks provider failures
 // ✅ BULK PROCESSING STATE — Multi-URL optimization tracking
-// ✅ IMPROVED PERSISTENCE — LocalStorage with compression
+// ✅ IMPROVED PERSISTENCE — IndexedDB with versioned migrations
 // ═══════════════════════════════════════════════════════════════════════════════
 
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
+import { createIndexedDBStorage } from './lib/idb-storage';
+import { DEFAULT_SITEMAP_CRAWL_CONFIG } from './lib/sitemap-crawler';
+import { scorePageOpportunity } from './lib/opportunity-scoring';
+import { DEFAULT_MODEL_PRICES, calculateCost, addUsage } from './lib/usage-accounting';
+import { DEFAULT_SPEND_BUDGET, currentDailySpend } from './lib/budget-guard';
+import { DEFAULT_LLM_ROUTING } from './lib/llm-router';
+import { DEFAULT_EMBEDDING_SETTINGS } from './lib/embeddings';
+import { DEFAULT_ANCHOR_DIVERSITY_SETTINGS, mergeAnchorUsage } from './lib/anchor-diversity';
+import { MAX_TEMPLATE_VERSIONS, normalizeSiteScope } from './lib/prompt-templates';
+import {
+    DEFAULT_WORKSPACE_ID, createWorkspace, pickWorkspaceData, workspaceNameFromUrl, getWorkspaceSwitchBlocker
+} from './lib/workspaces';
+import {
+    VaultSession, VaultError, CredentialBundleEntry, DEFAULT_AUTO_LOCK_MS,
+    createVaultSession, sealWithSession, openPayload, collectSecrets, applySiteSecrets,
+    stripApiKeys, stripWpConfig, stripWorkspaceSecrets, collectBundleEntries, VaultSecrets
+} from './lib/credential-vault';
 import { 
     SitemapPage, 
     WpConfig, 
@@ -24,6 +41,7 @@ import {
     QAValidationResult,
     GlobalStats,
     AutonomousConfig,
+    AutonomousRunState,
     JobState,
     ContentContract,
     EntityGapAnalysis,
@@ -31,8 +49,35 @@ import {
     GodModePhase,
     StageProgress,
     AIProvider,
+    PostRevisionSnapshot,
+    ApprovalQueueItem,
+    PublishMode,
+    ApprovalPublishStatus,
+    PipelineCheckpoint,
+    SitemapCrawlConfig,
+    LLMUsage,
+    ModelPrice,
+    ModelPriceTable,
+    RunCostSummary,
+    SpendBudget,
+    DailySpend,
+    LLMRoutingConfig,
+    PromptTemplateKey,
+    PromptTemplateOverride,
+    Workspace,
+    WorkspaceData,
+    EncryptedPayload,
+    VaultStatus,
+    SiteLinkGraph,
+    InboundLinkProposal,
+    EmbeddingSettings,
+    PageEmbeddingIndex,
+    AnchorDiversitySettings,
+    AnchorUsage,
+    AnchorUsageIndex,
     createDefaultGlobalStats,
-    createDefaultJobState
+    createDefaultJobState,
+    createDefaultAutonomousRunState
 } from './types';
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -46,6 +91,10 @@ const MAX_JOB_LOGS = 100;
 const SEMANTIC_CACHE_TTL = 2 * 60 * 60 * 1000; // 2 hours
 const MAX_TOASTS = 5;
 const TOAST_DURATION = 4000;
+const MAX_REVISIONS_PER_PAGE = 10;
+const MAX_RUN_SUMMARIES = 50;
+const VAULT_SEAL_DELAY_MS = 500;
+const PERSIST_VERSION = 44;
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🎯 STORE STATE INTERFACE
@@ -79,6 +128,27 @@ interface AppState {
     // Pages & Queue
     pages: SitemapPage[];
     
+    // Revision snapshots (pre-update post copies, keyed by page ID)
+    revisions: Record<string, PostRevisionSnapshot[]>;
+    
+    // Generated contracts waiting for human approval (publishMode 'review')
+    approvalQueue: ApprovalQueueItem[];
+    
+    // Per-phase pipeline output, so a failed job resumes instead of restarting (keyed by page ID)
+    checkpoints: Record<string, PipelineCheckpoint>;
+    
+    // Last crawl of the site's internal links
+    linkGraph: SiteLinkGraph | null;
+    
+    // Links from existing posts to newly published ones, waiting for review
+    inboundLinkProposals: InboundLinkProposal[];
+    
+    // Embedded internal link targets of the site
+    pageEmbeddings: PageEmbeddingIndex | null;
+    
+    // Anchors pointing at each page of the site, crawled and published
+    anchorUsage: AnchorUsageIndex;
+    
     // Logging
     godModeLog: string[];
     
@@ -94,9 +164,43 @@ interface AppState {
     
     // Autonomous Mode
     autonomousConfig: AutonomousConfig;
+    autonomousRun: AutonomousRunState;
+    
+    // Sitemap Crawler
+    sitemapCrawlConfig: SitemapCrawlConfig;
     
     // Publishing Mode
-    publishMode: 'draft' | 'autopublish';
+    publishMode: PublishMode;
+    // What approving a review-mode item does: publish it or save it as a draft
+    approvalPublishStatus: ApprovalPublishStatus;
+    
+    // LLM prices (USD per 1M tokens) used for cost accounting
+    modelPrices: ModelPriceTable;
+    
+    // Spend limits and today's counters they are checked against
+    spendBudget: SpendBudget;
+    dailySpend: DailySpend;
+    
+    // Per-stage provider/model rules and fallback chain
+    llmRouting: LLMRoutingConfig;
+    
+    // Embedding provider for semantic internal link ranking
+    embeddingSettings: EmbeddingSettings;
+    
+    // Target anchor mix per link target and how strictly it is enforced
+    anchorDiversitySettings: AnchorDiversitySettings;
+    
+    // Edited prompt templates per scope, newest version first
+    promptTemplateOverrides: PromptTemplateOverride[];
+    
+    // One workspace per site; the active one's data is the top-level state above
+    workspaces: Workspace[];
+    activeWorkspaceId: string;
+    
+    // Encrypted API keys and WordPress passwords; while set, persisted state holds no secrets
+    vault: EncryptedPayload | null;
+    vaultStatus: VaultStatus;
+    vaultAutoLockMs: number;
     
     // Semantic Cache (for entity gap data, etc.)
     semanticCache: Map<string, SemanticCacheEntry>;
@@ -128,6 +232,8 @@ interface AppActions {
     // Pages
     addPages: (pages: SitemapPage[]) => void;
     updatePage: (id: string, updates: Partial<SitemapPage>) => void;
+    // Recomputes opportunity scores — all pages when no ids are given
+    rescoreOpportunities: (ids?: string[]) => void;
     removePage: (id: string) => void;
     clearPages: () => void;
     
@@ -137,6 +243,30 @@ interface AppActions {
     addJobLog: (pageId: string, message: string) => void;
     clearJobState: (pageId: string) => void;
     
+    // Revisions
+    addRevision: (pageId: string, snapshot: PostRevisionSnapshot) => void;
+    markRevisionRestored: (pageId: string, revisionId: string) => void;
+    removeRevision: (pageId: string, revisionId: string) => void;
+    getRevisions: (pageId: string) => PostRevisionSnapshot[];
+    
+    // Approval Queue
+    enqueueApproval: (item: ApprovalQueueItem) => void;
+    updateApprovalItem: (id: string, updates: Partial<ApprovalQueueItem>) => void;
+    removeApprovalItem: (id: string) => void;
+    
+    // Pipeline Checkpoints
+    saveCheckpoint: (pageId: string, updates: Partial<PipelineCheckpoint>, completedPhase?: GodModePhase) => void;
+    clearCheckpoint: (pageId: string) => void;
+    
+    // Link Graph
+    setLinkGraph: (graph: SiteLinkGraph | null) => void;
+    
+    // Inbound Links
+    addInboundLinkProposals: (proposals: InboundLinkProposal[]) => void;
+    updateInboundLinkProposal: (id: string, updates: Partial<InboundLinkProposal>) => void;
+    removeInboundLinkProposal: (id: string) => void;
+    clearAppliedInboundLinks: () => void;
+    
     // Logging
     addGodLog: (message: string) => void;
     clearGodLog: () => void;
@@ -155,9 +285,58 @@ interface AppActions {
     
     // Autonomous Config
     setAutonomousConfig: (config: Partial<AutonomousConfig>) => void;
+    updateAutonomousRun: (updates: Partial<AutonomousRunState>) => void;
+    
+    // Sitemap Crawler
+    setSitemapCrawlConfig: (config: Partial<SitemapCrawlConfig>) => void;
     
     // Publishing
-    setPublishMode: (mode: 'draft' | 'autopublish') => void;
+    setPublishMode: (mode: PublishMode) => void;
+    setApprovalPublishStatus: (status: ApprovalPublishStatus) => void;
+    
+    // Cost Accounting
+    // Attributes usage to the page's job (when given) and to global stats
+    recordUsage: (pageId: string | null, usage: LLMUsage) => void;
+    addRunSummary: (summary: RunCostSummary) => void;
+    setModelPrice: (model: string, price: ModelPrice | null) => void;
+    resetModelPrices: () => void;
+    
+    // Spend Budgets
+    setSpendBudget: (budget: Partial<SpendBudget>) => void;
+    recordSerperQuery: () => void;
+    
+    // LLM Routing
+    setLLMRouting: (routing: Partial<LLMRoutingConfig>) => void;
+    
+    // Semantic Linking
+    setEmbeddingSettings: (settings: Partial<EmbeddingSettings>) => void;
+    setPageEmbeddings: (index: PageEmbeddingIndex | null) => void;
+    
+    // Anchor Diversity
+    setAnchorDiversitySettings: (settings: Partial<AnchorDiversitySettings>) => void;
+    recordAnchorUsage: (usage: AnchorUsageIndex, replace?: { sourceUrl?: string; origin?: AnchorUsage['origin'] }) => void;
+    clearAnchorUsage: () => void;
+    
+    // Prompt Templates
+    savePromptTemplate: (key: PromptTemplateKey, siteUrl: string, body: string, note?: string) => void;
+    revertPromptTemplate: (key: PromptTemplateKey, siteUrl: string, version: number) => void;
+    resetPromptTemplate: (key: PromptTemplateKey, siteUrl: string) => void;
+    
+    // Workspaces
+    createWorkspace: (name: string, copyApiKeys?: boolean) => string;
+    switchWorkspace: (id: string) => boolean;
+    renameWorkspace: (id: string, name: string) => void;
+    deleteWorkspace: (id: string) => void;
+    
+    // Credential Vault
+    enableVault: (passphrase: string) => Promise<void>;
+    unlockVault: (passphrase: string) => Promise<void>;
+    lockVault: () => Promise<void>;
+    disableVault: () => void;
+    sealVault: () => Promise<void>;
+    setVaultAutoLockMs: (ms: number) => void;
+    getCredentialEntries: () => CredentialBundleEntry[];
+    importCredentials: (entries: CredentialBundleEntry[]) => number;
     
     // Semantic Cache
     getSemanticCache: (type: string, key: string, maxAgeMs?: number) => any | null;
@@ -210,7 +389,12 @@ const defaultApiKeys: ApiKeys = {
     neuronwriter: '',
     neuronProject: '',
     openrouterModel: 'google/gemini-2.5-flash-preview',
-    groqModel: 'llama-3.3-70b-versatile'
+    groqModel: 'llama-3.3-70b-versatile',
+    openaiModel: 'gpt-4o',
+    anthropicModel: 'claude-sonnet-4-20250514',
+    local: '',
+    localBaseUrl: '',
+    localModel: ''
 };
 
 const defaultAutonomousConfig: AutonomousConfig = {
@@ -219,9 +403,29 @@ const defaultAutonomousConfig: AutonomousConfig = {
     maxParallel: 3,
     minInterval: 30000,
     maxRuntime: 3600000,
-    stopOnError: false
+    stopOnError: false,
+    skipRecentMs: 7 * 24 * 60 * 60 * 1000
 };
 
+// A new site starts empty, optionally sharing the current site's API keys
+function createBlankWorkspaceData(apiKeys: ApiKeys = defaultApiKeys): WorkspaceData {
+    return {
+        wpConfig: { ...defaultWpConfig },
+        apiKeys: { ...apiKeys },
+        neuronEnabled: false,
+        autonomousConfig: { ...defaultAutonomousConfig },
+        pages: [],
+        globalStats: createDefaultGlobalStats(),
+        revisions: {},
+        approvalQueue: [],
+        checkpoints: {},
+        linkGraph: null,
+        inboundLinkProposals: [],
+        pageEmbeddings: null,
+        anchorUsage: {}
+    };
+}
+
 const initialState: AppState = {
     storeVersion: STORE_VERSION,
     activeView: 'setup',
@@ -232,19 +436,209 @@ const initialState: AppState = {
     selectedProvider: 'google',
     selectedModel: 'gemini-2.5-flash-preview-05-20',
     pages: [],
+    revisions: {},
+    approvalQueue: [],
+    checkpoints: {},
+    linkGraph: null,
+    inboundLinkProposals: [],
+    pageEmbeddings: null,
+    anchorUsage: {},
     godModeLog: [],
     toasts: [],
     neuronEnabled: false,
     neuronTerms: [],
     globalStats: createDefaultGlobalStats(),
     autonomousConfig: defaultAutonomousConfig,
+    autonomousRun: createDefaultAutonomousRunState(),
+    sitemapCrawlConfig: DEFAULT_SITEMAP_CRAWL_CONFIG,
     publishMode: 'draft',
+    approvalPublishStatus: 'draft',
+    modelPrices: DEFAULT_MODEL_PRICES,
+    spendBudget: DEFAULT_SPEND_BUDGET,
+    dailySpend: currentDailySpend(undefined),
+    llmRouting: DEFAULT_LLM_ROUTING,
+    embeddingSettings: DEFAULT_EMBEDDING_SETTINGS,
+    anchorDiversitySettings: DEFAULT_ANCHOR_DIVERSITY_SETTINGS,
+    promptTemplateOverrides: [],
+    workspaces: [createWorkspace('Default', null, DEFAULT_WORKSPACE_ID)],
+    activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+    vault: null,
+    vaultStatus: 'disabled',
+    vaultAutoLockMs: DEFAULT_AUTO_LOCK_MS,
     semanticCache: new Map(),
     currentStageProgress: null,
     cancellationRequested: false,
     cancellationReason: null
 };
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💾 PERSISTENCE — STORAGE & MIGRATIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const persistStorage = createIndexedDBStorage<Partial<AppState>>();
+
+// Each step upgrades persisted state from (version - 1) to version
+const PERSIST_MIGRATIONS: Record<number, (state: any) => any> = {
+    // v28: state moved to IndexedDB — pages (job state, contracts, logs) and the semantic cache are persisted
+    28: (state) => ({
+        ...state,
+        pages: Array.isArray(state.pages) ? state.pages : [],
+        revisions: state.revisions || {},
+        approvalQueue: Array.isArray(state.approvalQueue) ? state.approvalQueue : [],
+        semanticCache: state.semanticCache instanceof Map ? state.semanticCache : new Map()
+    }),
+    // v29: resumable pipeline checkpoints
+    29: (state) => ({
+        ...state,
+        checkpoints: state.checkpoints || {}
+    }),
+    // v30: configurable sitemap crawler
+    30: (state) => ({
+        ...state,
+        sitemapCrawlConfig: { ...DEFAULT_SITEMAP_CRAWL_CONFIG, ...(state.sitemapCrawlConfig || {}) }
+    }),
+    // v31: autonomous scheduler skips recently optimized pages
+    31: (state) => ({
+        ...state,
+        autonomousConfig: { ...defaultAutonomousConfig, ...(state.autonomousConfig || {}) }
+    }),
+    // v32: token & cost accounting
+    32: (state) => ({
+        ...state,
+        modelPrices: state.modelPrices || DEFAULT_MODEL_PRICES
+    }),
+    // v33: spend budgets
+    33: (state) => ({
+        ...state,
+        spendBudget: { ...DEFAULT_SPEND_BUDGET, ...(state.spendBudget || {}) },
+        dailySpend: currentDailySpend(state.dailySpend)
+    }),
+    // v34: per-stage LLM routing and provider fallback
+    34: (state) => ({
+        ...state,
+        llmRouting: { ...DEFAULT_LLM_ROUTING, ...(state.llmRouting || {}) }
+    }),
+    // v35: selectable OpenAI / Anthropic models
+    35: (state) => ({
+        ...state,
+        apiKeys: { ...defaultApiKeys, ...(state.apiKeys || {}) }
+    }),
+    // v36: local OpenAI-compatible provider
+    36: (state) => ({
+        ...state,
+        apiKeys: { ...defaultApiKeys, ...(state.apiKeys || {}) }
+    }),
+    // v37: prompt template library
+    37: (state) => ({
+        ...state,
+        promptTemplateOverrides: Array.isArray(state.promptTemplateOverrides) ? state.promptTemplateOverrides : []
+    }),
+    // v38: multi-site workspaces — the existing site becomes the first workspace
+    38: (state) => {
+        const workspaces = Array.isArray(state.workspaces) && state.workspaces.length > 0
+            ? state.workspaces
+            : [createWorkspace(workspaceNameFromUrl(state.wpConfig?.url), null, DEFAULT_WORKSPACE_ID)];
+        const activeWorkspaceId = workspaces.some((w: Workspace) => w.id === state.activeWorkspaceId)
+            ? state.activeWorkspaceId
+            : workspaces[0].id;
+        return { ...state, workspaces, activeWorkspaceId };
+    },
+    // v39: encrypted credential vault
+    39: (state) => ({
+        ...state,
+        vault: state.vault || null,
+        vaultAutoLockMs: state.vaultAutoLockMs || DEFAULT_AUTO_LOCK_MS
+    }),
+    // v40: site link graph — parked workspaces get one too, so a switch never shows another site's graph
+    40: (state) => ({
+        ...state,
+        linkGraph: state.linkGraph || null,
+        workspaces: (state.workspaces || []).map((ws: Workspace) =>
+            ws.data ? { ...ws, data: { ...ws.data, linkGraph: ws.data.linkGraph || null } } : ws)
+    }),
+    // v41: inbound link proposals, per site like the approval queue
+    41: (state) => ({
+        ...state,
+        inboundLinkProposals: Array.isArray(state.inboundLinkProposals) ? state.inboundLinkProposals : [],
+        workspaces: (state.workspaces || []).map((ws: Workspace) =>
+            ws.data ? { ...ws, data: { ...ws.data, inboundLinkProposals: ws.data.inboundLinkProposals || [] } } : ws)
+    }),
+    // v42: embedding settings (global) and the per-site page embedding index
+    42: (state) => ({
+        ...state,
+        embeddingSettings: { ...DEFAULT_EMBEDDING_SETTINGS, ...(state.embeddingSettings || {}) },
+        pageEmbeddings: state.pageEmbeddings || null,
+        workspaces: (state.workspaces || []).map((ws: Workspace) =>
+            ws.data ? { ...ws, data: { ...ws.data, pageEmbeddings: ws.data.pageEmbeddings || null } } : ws)
+    }),
+    // v43: anchor diversity settings (global) and the per-site anchor usage index
+    43: (state) => ({
+        ...state,
+        anchorDiversitySettings: { ...DEFAULT_ANCHOR_DIVERSITY_SETTINGS, ...(state.anchorDiversitySettings || {}) },
+        anchorUsage: state.anchorUsage || {},
+        workspaces: (state.workspaces || []).map((ws: Workspace) =>
+            ws.data ? { ...ws, data: { ...ws.data, anchorUsage: ws.data.anchorUsage || {} } } : ws)
+    }),
+    // v44: approval items carry the status they are written with — queued ones become drafts
+    44: (state) => {
+        const withStatus = (queue: ApprovalQueueItem[] = []) =>
+            queue.map(item => ({ ...item, publishStatus: item.publishStatus || 'draft' }));
+        return {
+            ...state,
+            approvalPublishStatus: state.approvalPublishStatus || 'draft',
+            approvalQueue: withStatus(state.approvalQueue),
+            workspaces: (state.workspaces || []).map((ws: Workspace) =>
+                ws.data ? { ...ws, data: { ...ws.data, approvalQueue: withStatus(ws.data.approvalQueue) } } : ws)
+        };
+    }
+};
+
+function migratePersistedState(persistedState: any, fromVersion: number): Partial<AppState> {
+    let state: any;
+    let version = fromVersion;
+    
+    if (version < 27) {
+        // Pre-v27 snapshots predate the current schema — keep only connection settings
+        state = {
+            wpConfig: { ...defaultWpConfig, ...(persistedState?.wpConfig || {}) },
+            apiKeys: { ...defaultApiKeys, ...(persistedState?.apiKeys || {}) }
+        };
+        version = 27;
+    } else {
+        state = { ...(persistedState || {}) };
+    }
+    
+    for (let v = version + 1; v <= PERSIST_VERSION; v++) {
+        const step = PERSIST_MIGRATIONS[v];
+        if (step) state = step(state);
+    }
+    
+    return state;
+}
+
+// The unlocked vault's key lives only in memory — a reload always starts locked
+let vaultSession: VaultSession | null = null;
+let vaultSealSeq = 0;
+// Debounced re-seal after secrets change (see the subscription at the bottom)
+let vaultSealTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Jobs that were mid-run when the tab closed can't continue — surface them as failed
+function markInterruptedJobs(pages: SitemapPage[]): SitemapPage[] {
+    return pages.map(page => {
+        if (page.jobState?.status !== 'running') return page;
+        return {
+            ...page,
+            status: 'error',
+            jobState: {
+                ...page.jobState,
+                status: 'failed',
+                phase: 'failed',
+                error: 'Interrupted by page reload'
+            }
+        };
+    });
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🏪 ZUSTAND STORE
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -316,6 +710,15 @@ export const useAppStore = create<AppStore>()(
                 }
             }),
             
+            rescoreOpportunities: (ids) => set(state => {
+                const targets = ids ? new Set(ids) : null;
+                const now = Date.now();
+                state.pages.forEach(page => {
+                    if (targets && !targets.has(page.id)) return;
+                    page.opportunity = scorePageOpportunity(page, now);
+                });
+            }),
+            
             removePage: (id) => set(state => {
                 state.pages = state.pages.filter(p => p.id !== id);
             }),
@@ -380,6 +783,120 @@ export const useAppStore = create<AppStore>()(
                 }
             }),
             
+            // ═══════════════════════════════════════════════════════════════
+            // REVISIONS
+            // ═══════════════════════════════════════════════════════════════
+            
+            addRevision: (pageId, snapshot) => set(state => {
+                if (!state.revisions[pageId]) {
+                    state.revisions[pageId] = [];
+                }
+                state.revisions[pageId].unshift(snapshot);
+                
+                // Keep only the newest snapshots per page
+                if (state.revisions[pageId].length > MAX_REVISIONS_PER_PAGE) {
+                    state.revisions[pageId] = state.revisions[pageId].slice(0, MAX_REVISIONS_PER_PAGE);
+                }
+            }),
+            
+            markRevisionRestored: (pageId, revisionId) => set(state => {
+                const revision = state.revisions[pageId]?.find(r => r.id === revisionId);
+                if (revision) {
+                    revision.restoredAt = Date.now();
+                }
+            }),
+            
+            removeRevision: (pageId, revisionId) => set(state => {
+                if (state.revisions[pageId]) {
+                    state.revisions[pageId] = state.revisions[pageId].filter(r => r.id !== revisionId);
+                }
+            }),
+            
+            getRevisions: (pageId) => {
+                return get().revisions[pageId] || [];
+            },
+            
+            // ═══════════════════════════════════════════════════════════════
+            // APPROVAL QUEUE
+            // ═══════════════════════════════════════════════════════════════
+            
+            enqueueApproval: (item) => set(state => {
+                // One pending item per page — a newer generation supersedes the old one
+                state.approvalQueue = state.approvalQueue.filter(i => i.pageId !== item.pageId);
+                state.approvalQueue.push(item);
+            }),
+            
+            updateApprovalItem: (id, updates) => set(state => {
+                const item = state.approvalQueue.find(i => i.id === id);
+                if (item) {
+                    Object.assign(item, updates);
+                }
+            }),
+            
+            removeApprovalItem: (id) => set(state => {
+                state.approvalQueue = state.approvalQueue.filter(i => i.id !== id);
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // PIPELINE CHECKPOINTS
+            // ═══════════════════════════════════════════════════════════════
+            
+            saveCheckpoint: (pageId, updates, completedPhase) => set(state => {
+                if (!state.checkpoints[pageId]) {
+                    state.checkpoints[pageId] = {
+                        pageId,
+                        createdAt: Date.now(),
+                        updatedAt: Date.now(),
+                        completedPhases: []
+                    };
+                }
+                const checkpoint = state.checkpoints[pageId];
+                Object.assign(checkpoint, updates);
+                if (completedPhase && !checkpoint.completedPhases.includes(completedPhase)) {
+                    checkpoint.completedPhases.push(completedPhase);
+                }
+                checkpoint.updatedAt = Date.now();
+            }),
+            
+            clearCheckpoint: (pageId) => set(state => {
+                delete state.checkpoints[pageId];
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // LINK GRAPH
+            // ═══════════════════════════════════════════════════════════════
+            
+            setLinkGraph: (graph) => set(state => {
+                state.linkGraph = graph;
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // INBOUND LINKS
+            // ═══════════════════════════════════════════════════════════════
+            
+            addInboundLinkProposals: (proposals) => set(state => {
+                // A fresh proposal for the same source → target pair replaces an unapplied one
+                const incoming = new Set(proposals.map(p => `${p.sourcePostId}|${p.targetUrl}`));
+                state.inboundLinkProposals = state.inboundLinkProposals.filter(p =>
+                    p.status === 'applied' || !incoming.has(`${p.sourcePostId}|${p.targetUrl}`));
+                state.inboundLinkProposals.push(...proposals);
+            }),
+            
+            updateInboundLinkProposal: (id, updates) => set(state => {
+                const proposal = state.inboundLinkProposals.find(p => p.id === id);
+                if (proposal) {
+                    Object.assign(proposal, updates);
+                }
+            }),
+            
+            removeInboundLinkProposal: (id) => set(state => {
+                state.inboundLinkProposals = state.inboundLinkProposals.filter(p => p.id !== id);
+            }),
+            
+            clearAppliedInboundLinks: () => set(state => {
+                state.inboundLinkProposals = state.inboundLinkProposals.filter(p => p.status !== 'applied');
+            }),
+            
             // ═══════════════════════════════════════════════════════════════
             // LOGGING
             // ═══════════════════════════════════════════════════════════════
@@ -461,6 +978,18 @@ export const useAppStore = create<AppStore>()(
                 Object.assign(state.autonomousConfig, config);
             }),
             
+            updateAutonomousRun: (updates) => set(state => {
+                Object.assign(state.autonomousRun, updates);
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // SITEMAP CRAWLER
+            // ═══════════════════════════════════════════════════════════════
+            
+            setSitemapCrawlConfig: (config) => set(state => {
+                Object.assign(state.sitemapCrawlConfig, config);
+            }),
+            
             // ═══════════════════════════════════════════════════════════════
             // PUBLISHING
             // ═══════════════════════════════════════════════════════════════
@@ -469,6 +998,307 @@ export const useAppStore = create<AppStore>()(
                 state.publishMode = mode;
             }),
             
+            setApprovalPublishStatus: (status) => set(state => {
+                state.approvalPublishStatus = status;
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // COST ACCOUNTING
+            // ═══════════════════════════════════════════════════════════════
+            
+            recordUsage: (pageId, usage) => set(state => {
+                const cost = calculateCost(usage, state.modelPrices);
+                
+                if (pageId) {
+                    const page = state.pages.find(p => p.id === pageId);
+                    if (page) {
+                        if (!page.jobState) page.jobState = createDefaultJobState();
+                        page.jobState.usage = addUsage(page.jobState.usage, usage, cost);
+                    }
+                }
+                
+                state.globalStats.usage = addUsage(state.globalStats.usage, usage, cost);
+                if (!state.globalStats.usageByProvider) state.globalStats.usageByProvider = {};
+                state.globalStats.usageByProvider[usage.provider] = addUsage(
+                    state.globalStats.usageByProvider[usage.provider], usage, cost
+                );
+                
+                const daily = currentDailySpend(state.dailySpend);
+                state.dailySpend = { ...daily, costUsd: daily.costUsd + (cost ?? 0) };
+            }),
+            
+            addRunSummary: (summary) => set(state => {
+                state.globalStats.recentRuns = [summary, ...(state.globalStats.recentRuns || [])].slice(0, MAX_RUN_SUMMARIES);
+            }),
+            
+            setModelPrice: (model, price) => set(state => {
+                if (price) {
+                    state.modelPrices[model] = price;
+                } else {
+                    delete state.modelPrices[model];
+                }
+            }),
+            
+            resetModelPrices: () => set(state => {
+                state.modelPrices = { ...DEFAULT_MODEL_PRICES };
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // SPEND BUDGETS
+            // ═══════════════════════════════════════════════════════════════
+            
+            setSpendBudget: (budget) => set(state => {
+                state.spendBudget = { ...state.spendBudget, ...budget };
+            }),
+            
+            recordSerperQuery: () => set(state => {
+                const daily = currentDailySpend(state.dailySpend);
+                state.dailySpend = { ...daily, serperQueries: daily.serperQueries + 1 };
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // LLM ROUTING
+            // ═══════════════════════════════════════════════════════════════
+            
+            setLLMRouting: (routing) => set(state => {
+                state.llmRouting = { ...state.llmRouting, ...routing };
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // SEMANTIC LINKING
+            // ═══════════════════════════════════════════════════════════════
+            
+            setEmbeddingSettings: (settings) => set(state => {
+                state.embeddingSettings = { ...state.embeddingSettings, ...settings };
+            }),
+            
+            setPageEmbeddings: (index) => set(state => {
+                state.pageEmbeddings = index;
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // ANCHOR DIVERSITY
+            // ═══════════════════════════════════════════════════════════════
+            
+            setAnchorDiversitySettings: (settings) => set(state => {
+                state.anchorDiversitySettings = { ...state.anchorDiversitySettings, ...settings };
+            }),
+            
+            recordAnchorUsage: (usage, replace) => set(state => {
+                state.anchorUsage = mergeAnchorUsage(state.anchorUsage, usage, replace);
+            }),
+            
+            clearAnchorUsage: () => set(state => {
+                state.anchorUsage = {};
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // PROMPT TEMPLATES
+            // ═══════════════════════════════════════════════════════════════
+            
+            savePromptTemplate: (key, siteUrl, body, note) => set(state => {
+                const scope = normalizeSiteScope(siteUrl);
+                let override = state.promptTemplateOverrides.find(o => o.key === key && o.siteUrl === scope);
+                if (!override) {
+                    override = { key, siteUrl: scope, versions: [] };
+                    state.promptTemplateOverrides.push(override);
+                }
+                
+                const latest = override.versions[0];
+                if (latest && latest.body === body) return;
+                
+                override.versions.unshift({
+                    version: (latest?.version || 0) + 1,
+                    body,
+                    savedAt: Date.now(),
+                    note: note?.trim() || undefined
+                });
+                if (override.versions.length > MAX_TEMPLATE_VERSIONS) {
+                    override.versions.length = MAX_TEMPLATE_VERSIONS;
+                }
+            }),
+            
+            // Reverting saves the old body as a new version so history stays linear
+            revertPromptTemplate: (key, siteUrl, version) => {
+                const scope = normalizeSiteScope(siteUrl);
+                const override = get().promptTemplateOverrides.find(o => o.key === key && o.siteUrl === scope);
+                const target = override?.versions.find(v => v.version === version);
+                if (!target) return;
+                get().savePromptTemplate(key, scope, target.body, `Reverted to v${version}`);
+            },
+            
+            resetPromptTemplate: (key, siteUrl) => set(state => {
+                const scope = normalizeSiteScope(siteUrl);
+                state.promptTemplateOverrides = state.promptTemplateOverrides.filter(
+                    o => !(o.key === key && o.siteUrl === scope)
+                );
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // WORKSPACES
+            // ═══════════════════════════════════════════════════════════════
+            
+            createWorkspace: (name, copyApiKeys = false) => {
+                const workspace = createWorkspace(name, createBlankWorkspaceData(copyApiKeys ? get().apiKeys : defaultApiKeys));
+                set(state => {
+                    state.workspaces.push(workspace);
+                });
+                return workspace.id;
+            },
+            
+            // Parks the active site's data in its workspace and loads the target's
+            switchWorkspace: (id) => {
+                const current = get();
+                const target = current.workspaces.find(w => w.id === id);
+                if (!target || id === current.activeWorkspaceId) return false;
+                
+                const blocker = getWorkspaceSwitchBlocker(current);
+                if (blocker) {
+                    get().addToast(blocker, 'warning');
+                    return false;
+                }
+                
+                const parked = pickWorkspaceData(current);
+                const incoming = target.data || createBlankWorkspaceData();
+                
+                set(state => {
+                    state.workspaces.forEach(ws => {
+                        if (ws.id === current.activeWorkspaceId) ws.data = parked;
+                        if (ws.id === id) ws.data = null;
+                    });
+                    Object.assign(state, incoming);
+                    // Runs never resume on their own after a switch, same as after a reload
+                    state.autonomousConfig = { ...incoming.autonomousConfig, enabled: false };
+                    state.activeWorkspaceId = id;
+                    state.neuronTerms = [];
+                    state.currentStageProgress = null;
+                });
+                return true;
+            },
+            
+            renameWorkspace: (id, name) => set(state => {
+                const workspace = state.workspaces.find(w => w.id === id);
+                if (workspace && name.trim()) workspace.name = name.trim();
+            }),
+            
+            // The active workspace can't be deleted — switch away first
+            deleteWorkspace: (id) => set(state => {
+                if (id === state.activeWorkspaceId) return;
+                state.workspaces = state.workspaces.filter(w => w.id !== id);
+            }),
+            
+            // ═══════════════════════════════════════════════════════════════
+            // CREDENTIAL VAULT
+            // ═══════════════════════════════════════════════════════════════
+            
+            enableVault: async (passphrase) => {
+                if (get().vault) throw new VaultError('The vault is already enabled');
+                vaultSession = await createVaultSession(passphrase);
+                const { apiKeys, wpConfig, workspaces, activeWorkspaceId } = get();
+                const vault = await sealWithSession(collectSecrets({ apiKeys, wpConfig }, workspaces, activeWorkspaceId), vaultSession);
+                set(state => {
+                    state.vault = vault;
+                    state.vaultStatus = 'unlocked';
+                });
+            },
+            
+            unlockVault: async (passphrase) => {
+                const { vault } = get();
+                if (!vault) throw new VaultError('The vault is not enabled');
+                const { data: secrets, session } = await openPayload<VaultSecrets>(vault, passphrase);
+                vaultSession = session;
+                set(state => {
+                    const active = applySiteSecrets({ apiKeys: state.apiKeys, wpConfig: state.wpConfig }, secrets[state.activeWorkspaceId]);
+                    state.apiKeys = active.apiKeys;
+                    state.wpConfig = active.wpConfig;
+                    state.workspaces.forEach(ws => {
+                        if (!ws.data) return;
+                        const parked = applySiteSecrets(ws.data, secrets[ws.id]);
+                        ws.data.apiKeys = parked.apiKeys;
+                        ws.data.wpConfig = parked.wpConfig;
+                    });
+                    state.vaultStatus = 'unlocked';
+                });
+            },
+            
+            // Drops the key and every decrypted secret from memory — after sealing
+            // any edits the debounced re-seal hasn't written yet
+            lockVault: async () => {
+                if (get().vaultStatus !== 'unlocked') return;
+                if (vaultSealTimer) {
+                    clearTimeout(vaultSealTimer);
+                    vaultSealTimer = null;
+                }
+                try {
+                    await get().sealVault();
+                } catch (e: any) {
+                    console.error('[Vault] Failed to seal before locking:', e?.message || e);
+                }
+                if (get().vaultStatus !== 'unlocked') return;
+                vaultSession = null;
+                set(state => {
+                    state.apiKeys = stripApiKeys(state.apiKeys);
+                    state.wpConfig = stripWpConfig(state.wpConfig);
+                    state.workspaces = stripWorkspaceSecrets(state.workspaces);
+                    state.vaultStatus = 'locked';
+                });
+            },
+            
+            // Secrets go back to being persisted in plain text
+            disableVault: () => {
+                if (get().vaultStatus !== 'unlocked') return;
+                vaultSession = null;
+                set(state => {
+                    state.vault = null;
+                    state.vaultStatus = 'disabled';
+                });
+            },
+            
+            sealVault: async () => {
+                if (get().vaultStatus !== 'unlocked' || !vaultSession) return;
+                const seq = ++vaultSealSeq;
+                const { apiKeys, wpConfig, workspaces, activeWorkspaceId } = get();
+                const vault = await sealWithSession(collectSecrets({ apiKeys, wpConfig }, workspaces, activeWorkspaceId), vaultSession);
+                // A newer seal or a lock happened meanwhile
+                if (seq !== vaultSealSeq || get().vaultStatus !== 'unlocked') return;
+                set(state => {
+                    state.vault = vault;
+                });
+            },
+            
+            setVaultAutoLockMs: (ms) => set(state => {
+                state.vaultAutoLockMs = ms;
+            }),
+            
+            getCredentialEntries: () => {
+                const { apiKeys, wpConfig, workspaces, activeWorkspaceId } = get();
+                return collectBundleEntries({ apiKeys, wpConfig }, workspaces, activeWorkspaceId);
+            },
+            
+            // Matching workspaces get the imported settings; unknown ones are added as new sites
+            importCredentials: (entries) => {
+                if (get().vaultStatus === 'locked') throw new VaultError('Unlock the vault before importing credentials');
+                set(state => {
+                    entries.forEach(entry => {
+                        const apiKeys = { ...defaultApiKeys, ...entry.apiKeys };
+                        const wpConfig = { ...defaultWpConfig, ...entry.wpConfig };
+                        if (entry.workspaceId === state.activeWorkspaceId) {
+                            state.apiKeys = apiKeys;
+                            state.wpConfig = wpConfig;
+                            return;
+                        }
+                        const workspace = state.workspaces.find(w => w.id === entry.workspaceId);
+                        if (workspace?.data) {
+                            workspace.data.apiKeys = apiKeys;
+                            workspace.data.wpConfig = wpConfig;
+                        } else if (!workspace) {
+                            state.workspaces.push(createWorkspace(entry.name, { ...createBlankWorkspaceData(apiKeys), wpConfig }, entry.workspaceId));
+                        }
+                    });
+                });
+                return entries.length;
+            },
+            
             // ═══════════════════════════════════════════════════════════════
             // SEMANTIC CACHE
             // ═══════════════════════════════════════════════════════════════
@@ -552,36 +1382,83 @@ export const useAppStore = create<AppStore>()(
             // ═══════════════════════════════════════════════════════════════
             
             resetStore: () => set(state => {
+                vaultSession = null;
                 Object.assign(state, initialState);
                 state.semanticCache = new Map();
             })
         })),
         {
             name: 'wp-optimizer-pro-v27',
-            version: 27,
-            storage: createJSONStorage(() => localStorage),
+            version: PERSIST_VERSION,
+            storage: persistStorage,
             partialize: (state) => ({
-                wpConfig: state.wpConfig,
-                apiKeys: state.apiKeys,
+                pages: state.pages,
+                // With the vault enabled, keys and passwords are only stored encrypted
+                wpConfig: state.vault ? stripWpConfig(state.wpConfig) : state.wpConfig,
+                apiKeys: state.vault ? stripApiKeys(state.apiKeys) : state.apiKeys,
                 selectedProvider: state.selectedProvider,
                 selectedModel: state.selectedModel,
                 neuronEnabled: state.neuronEnabled,
                 autonomousConfig: state.autonomousConfig,
+                sitemapCrawlConfig: state.sitemapCrawlConfig,
                 publishMode: state.publishMode,
+                approvalPublishStatus: state.approvalPublishStatus,
+                modelPrices: state.modelPrices,
+                spendBudget: state.spendBudget,
+                dailySpend: state.dailySpend,
+                llmRouting: state.llmRouting,
+                embeddingSettings: state.embeddingSettings,
+                anchorDiversitySettings: state.anchorDiversitySettings,
+                promptTemplateOverrides: state.promptTemplateOverrides,
+                workspaces: state.vault ? stripWorkspaceSecrets(state.workspaces) : state.workspaces,
+                activeWorkspaceId: state.activeWorkspaceId,
+                vault: state.vault,
+                vaultAutoLockMs: state.vaultAutoLockMs,
                 globalStats: state.globalStats,
-                // Don't persist pages, logs, or cache
+                revisions: state.revisions,
+                approvalQueue: state.approvalQueue,
+                checkpoints: state.checkpoints,
+                linkGraph: state.linkGraph,
+                inboundLinkProposals: state.inboundLinkProposals,
+                pageEmbeddings: state.pageEmbeddings,
+                anchorUsage: state.anchorUsage,
+                semanticCache: state.semanticCache,
+                // Global log, toasts and transient UI state are not persisted
             }),
-            migrate: (persistedState: any, version: number) => {
-                if (version < 27) {
-                    // Reset to defaults on major version change
-                    return initialState;
+            migrate: (persistedState: any, version: number) => migratePersistedState(persistedState, version) as AppStore,
+            // Storage holds every write after a failed read, so nothing is lost — but nothing is saved either
+            onRehydrateStorage: () => (_state, error) => {
+                if (error) {
+                    useAppStore.getState().addToast('Saved data could not be loaded — changes will not be saved until you reload', 'error');
                 }
-                return persistedState as AppState;
-            }
+            },
+            merge: (persistedState: any, currentState) => ({
+                ...currentState,
+                ...(persistedState || {}),
+                pages: markInterruptedJobs(persistedState?.pages || currentState.pages),
+                vaultStatus: persistedState?.vault ? 'locked' : 'disabled',
+                // A reload ends any autonomous run — the scheduler lives in the page
+                autonomousConfig: {
+                    ...currentState.autonomousConfig,
+                    ...(persistedState?.autonomousConfig || {}),
+                    enabled: false
+                }
+            })
         }
     )
 );
 
+// Re-seal the vault shortly after keys or passwords change while it is unlocked
+useAppStore.subscribe((state, prev) => {
+    if (state.vaultStatus !== 'unlocked') return;
+    if (state.apiKeys === prev.apiKeys && state.wpConfig === prev.wpConfig && state.workspaces === prev.workspaces) return;
+    if (vaultSealTimer) clearTimeout(vaultSealTimer);
+    vaultSealTimer = setTimeout(() => {
+        vaultSealTimer = null;
+        useAppStore.getState().sealVault();
+    }, VAULT_SEAL_DELAY_MS);
+});
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📤 EXPORTS
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -594,7 +1471,10 @@ export {
     defaultAutonomousConfig,
     initialState,
     MAX_LOG_ENTRIES,
-    SEMANTIC_CACHE_TTL
+    MAX_REVISIONS_PER_PAGE,
+    SEMANTIC_CACHE_TTL,
+    PERSIST_VERSION,
+    persistStorage
 };
 
 export type { AppState, AppActions, AppStore };
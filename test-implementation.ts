@@ -2,10 +2,12 @@
 // WP OPTIMIZER PRO v27.0 — IMPLEMENTATION VALIDATION SCRIPT
 // ═══════════════════════════════════════════════════════════════════════════════
 // 
-// Run with: npx ts-node test-implementation.ts
-// Or add to package.json: "test:impl": "ts-node test-implementation.ts"
+// Run with: npm run test:impl
+// happy-dom supplies the DOMParser the SEO metrics and link engine tests need
 // ═══════════════════════════════════════════════════════════════════════════════
 
+import './testing/dom-environment';
+
 import { 
     createDefaultSeoMetrics,
     countWords,
@@ -25,9 +27,14 @@ import {
     APP_VERSION,
     ContentContract,
     SeoMetrics,
-    InternalLinkTarget
+    InternalLinkTarget,
+    InboundLinkProposal
 } from './types';
 
+import { runLinkEngine } from './lib/link-engine';
+import { AnchorGuard, DEFAULT_ANCHOR_DIVERSITY_SETTINGS, chooseAnchor, findGenericAnchors } from './lib/anchor-diversity';
+import { insertInboundLink } from './lib/inbound-links';
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🎯 TEST SUITE
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -167,6 +174,120 @@ test('injectInternalLinks adds links', () => {
     return result.totalLinks >= 0; // May or may not match depending on content
 });
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧭 LINK ENGINE TESTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const FILLER = 'keeps every loaf consistent from one weekend bake to the next with very little extra effort';
+
+function linkTarget(title: string): InternalLinkTarget {
+    const slug = sanitizeSlug(title);
+    return { url: `https://site.test/${slug}/`, title, slug };
+}
+
+function sectionHtml(heading: string, titles: string[]): string {
+    return `<h2>${heading}</h2>` + titles.map(t => `<p>The ${t.toLowerCase()} ${FILLER}.</p>`).join('');
+}
+
+test('Link engine never links inside headings or existing links', () => {
+    const html = '<h2>Sourdough Starter and Rye Flour</h2>'
+        + '<p>Feeding a sourdough starter every day keeps the culture lively and the bread rising well.</p>'
+        + '<p>Our notes on <a href="https://site.test/baking-notes/">rye flour blends</a> cover the rest of the method.</p>';
+    const starter = linkTarget('Sourdough Starter');
+    const rye = linkTarget('Rye Flour');
+    const result = runLinkEngine(html, [starter, rye], { minDistanceBetweenLinks: 0 });
+    const doc = new DOMParser().parseFromString(result.html, 'text/html');
+
+    if (doc.querySelectorAll('h2 a').length > 0) return 'a link was placed inside the heading';
+    if (doc.querySelectorAll('a a').length > 0) return 'a link was nested inside an existing link';
+    if (!doc.querySelector(`p a[href="${starter.url}"]`)) return 'the paragraph mention was not linked';
+    if (doc.querySelector(`a[href="${rye.url}"]`)) return 'a target only mentioned in a heading or link was linked';
+    return result.report.skipped.some(s => s.url === rye.url) || 'the unlinkable target is missing from the report';
+});
+
+test('Link engine caps links per section', () => {
+    const first = ['Oven Spring', 'Bread Scoring', 'Dough Hydration'];
+    const second = ['Proofing Basket', 'Bench Scraper', 'Steam Tray'];
+    const html = sectionHtml('Shaping', first) + sectionHtml('Baking', second);
+    const { report } = runLinkEngine(html, [...first, ...second].map(linkTarget), {
+        maxLinksPerSection: 1,
+        minDistanceBetweenLinks: 0
+    });
+    const sections = report.planned.map(l => l.sectionIndex);
+    if (report.planned.length !== 2) return `expected 2 links, planned ${report.planned.length}`;
+    return new Set(sections).size === 2 || `both links went into section ${sections[0]}`;
+});
+
+test('Link engine keeps linked paragraphs the minimum word distance apart', () => {
+    const titles = ['Oven Spring', 'Bread Scoring', 'Dough Hydration', 'Proofing Basket', 'Bench Scraper'];
+    const html = sectionHtml('Method', titles);
+    const targets = titles.map(linkTarget);
+    const unspaced = runLinkEngine(html, targets, { maxLinksPerSection: 10, minDistanceBetweenLinks: 0 }).report.planned;
+    const spaced = runLinkEngine(html, targets, { maxLinksPerSection: 10, minDistanceBetweenLinks: 40 }).report.planned;
+
+    if (unspaced.length !== titles.length) return `expected ${titles.length} links without spacing, planned ${unspaced.length}`;
+    if (spaced.length < 2 || spaced.length >= unspaced.length) return `spacing should drop some links, planned ${spaced.length}`;
+    const tooClose = spaced.slice(1).find((link, i) => link.position - spaced[i].position < 40);
+    return !tooClose || `"${tooClose.anchorText}" is ${tooClose.position} words in, too close to the previous link`;
+});
+
+test('chooseAnchor rejects anchors that would over-optimize a profile', () => {
+    const target = linkTarget('Sourdough Starter');
+    const guard: AnchorGuard = {
+        settings: DEFAULT_ANCHOR_DIVERSITY_SETTINGS,
+        brand: 'Crumb Club',
+        usage: {
+            'site.test/sourdough-starter': {
+                url: target.url,
+                title: target.title,
+                anchors: Array.from({ length: 5 }, (_, i) => ({
+                    sourceUrl: `https://site.test/post-${i}/`,
+                    anchor: 'sourdough starter',
+                    type: 'exact' as const,
+                    origin: 'published' as const,
+                    recordedAt: i
+                }))
+            }
+        }
+    };
+
+    if (chooseAnchor(['Sourdough Starter'], target, guard) !== null) return 'accepted a sixth exact-match anchor';
+    const choice = chooseAnchor(['Sourdough Starter', 'starter feeding schedule'], target, guard);
+    return (choice?.anchor === 'starter feeding schedule' && choice.type === 'partial')
+        || `expected the partial anchor, got ${choice ? `"${choice.anchor}" (${choice.type})` : 'none'}`;
+});
+
+test('Generic anchors skip phrases that name the page they sit on', () => {
+    const found = findGenericAnchors('This guide and this post cover the basics. Read more about rye flour blends.');
+    return (found.length === 1 && found[0] === 'Read more') || `found ${JSON.stringify(found)}`;
+});
+
+test('insertInboundLink links the reviewed paragraph and nothing else', () => {
+    const proposal: InboundLinkProposal = {
+        id: 'inb-test',
+        createdAt: 0,
+        status: 'pending',
+        targetUrl: 'https://site.test/sourdough-starter/',
+        targetTitle: 'Sourdough Starter',
+        sourcePostId: 7,
+        sourceUrl: 'https://site.test/rye-bread/',
+        sourceTitle: 'Rye Bread',
+        anchor: 'sourdough starter',
+        context: 'Keep your sourdough starter warm and feed it on schedule.',
+        relevance: 60
+    };
+    const html = '<h2>Sourdough starter</h2>'
+        + '<p>See our <a href="https://site.test/notes/">sourdough starter</a> notes.</p>'
+        + '<p>Keep your sourdough starter warm and feed it on schedule.</p>';
+    const expected = '<h2>Sourdough starter</h2>'
+        + '<p>See our <a href="https://site.test/notes/">sourdough starter</a> notes.</p>'
+        + `<p>Keep your <a href="${proposal.targetUrl}">sourdough starter</a> warm and feed it on schedule.</p>`;
+
+    const result = insertInboundLink(html, proposal);
+    if (result !== expected) return `unexpected HTML: ${result}`;
+    return insertInboundLink('<p>Nothing about bread here.</p>', proposal) === null || 'linked a post without the anchor text';
+});
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // ✅ QA SWARM TESTS
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,47 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — OFFLINE PIPELINE FIXTURE RUN
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Runs every recorded fixture through God Mode's synthesis and publish phases
+// with the mock LLM transport, a fake Serper and a fake WordPress REST API.
+// No network, no API keys; exits 1 when any check fails.
+//
+// Run with: npm run test:pipeline
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { PipelineFixture, runPipelineFixtures } from './testing/pipeline-harness';
+import stagedCreate from './fixtures/pipeline/staged-create.json';
+import syntheticUpdate from './fixtures/pipeline/synthetic-update.json';
+
+const FIXTURES = [stagedCreate, syntheticUpdate] as PipelineFixture[];
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📋 RUN & PRINT RESULTS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+async function main(): Promise<void> {
+    console.log('\n🧪 WP OPTIMIZER PRO v27.0 — PIPELINE FIXTURES\n');
+    console.log('═'.repeat(60));
+
+    const runs = await runPipelineFixtures(FIXTURES);
+    let failedRuns = 0;
+
+    runs.forEach(run => {
+        console.log(`\n${run.passed ? '✅' : '❌'} ${run.fixture}`);
+        console.log(`   ${run.llmCalls.length} LLM calls, ${run.requests.length} HTTP requests`);
+        run.checks.forEach(check => {
+            console.log(`   ${check.passed ? '✓' : '✗'} ${check.name}${check.detail && !check.passed ? ` — ${check.detail}` : ''}`);
+        });
+        if (!run.passed) {
+            failedRuns++;
+            console.log('   └─ Last log lines:');
+            run.logs.slice(-8).forEach(line => console.log(`      ${line}`));
+        }
+    });
+
+    console.log('\n' + '═'.repeat(60));
+    console.log(`\n📈 SUMMARY: ${runs.length - failedRuns}/${runs.length} fixtures passed\n`);
+    process.exit(failedRuns > 0 ? 1 : 0);
+}
+
+main();
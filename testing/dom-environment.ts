@@ -0,0 +1,19 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — DOM ENVIRONMENT FOR NODE TEST RUNS
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Import first: utils and the link engine parse HTML with the browser's
+// DOMParser, which Node doesn't have.
+// ✅ happy-dom's DOMParser, registered as a global
+// ✅ Parses fragments into <body> the way browsers do
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { Window } from 'happy-dom';
+
+export const DOM_ENVIRONMENT_VERSION = "27.0.0";
+
+const window = new Window();
+
+if (typeof globalThis.DOMParser === 'undefined') {
+    globalThis.DOMParser = window.DOMParser as unknown as typeof DOMParser;
+}
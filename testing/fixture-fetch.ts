@@ -0,0 +1,346 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — FIXTURE FETCH (FAKE SERPER + FAKE WORDPRESS)
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Replaces the global fetch so the pipeline runs without a network:
+// ✅ Fake Serper — recorded search/video results, matched by endpoint and query
+// ✅ Fake WordPress REST — in-memory posts, categories and tags with Basic auth
+// ✅ Every request is logged; every post write keeps its exact payload
+// ✅ Unexpected hosts fail loudly instead of reaching the real network
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const FIXTURE_FETCH_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type SerperEndpoint = 'search' | 'videos' | 'news' | 'images';
+
+export interface SerperFixture {
+    endpoint: SerperEndpoint;
+    // Only replayed when the query contains this text (case-insensitive)
+    match?: string;
+    response: Record<string, unknown>;
+}
+
+export interface FakeWpPostSeed {
+    id: number;
+    slug: string;
+    title: string;
+    content?: string;
+    excerpt?: string;
+    status?: string;
+    categories?: number[];
+    tags?: number[];
+    featured_media?: number;
+}
+
+export interface FakeWpTerm {
+    id: number;
+    name: string;
+    slug: string;
+    count?: number;
+}
+
+export interface FakeWordPressOptions {
+    baseUrl: string;
+    siteName?: string;
+    // When both are set, writes and status=any reads need matching Basic auth
+    username?: string;
+    password?: string;
+    posts?: FakeWpPostSeed[];
+    categories?: FakeWpTerm[];
+    tags?: FakeWpTerm[];
+}
+
+// REST shape of a post — rendered fields are objects, like the real API
+export interface FakeWpPost {
+    id: number;
+    slug: string;
+    link: string;
+    status: string;
+    title: { rendered: string; raw: string };
+    content: { rendered: string; raw: string };
+    excerpt: { rendered: string; raw: string };
+    categories: number[];
+    tags: number[];
+    featured_media: number;
+    meta: Record<string, unknown>;
+}
+
+export interface FakeWpWrite {
+    postId: number;
+    created: boolean;
+    payload: Record<string, any>;
+}
+
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    body?: unknown;
+    // 0 = no fixture handles the host; the request was rejected
+    status: number;
+}
+
+export interface FixtureFetchOptions {
+    serper?: SerperFixture[];
+    wordpress?: FakeWordPressOptions;
+}
+
+export interface FixtureServer {
+    fetch: typeof fetch;
+    requests: RecordedRequest[];
+    wordpress: FakeWordPress | null;
+    // Swaps globalThis.fetch; returns the restore function
+    install(): () => void;
+}
+
+export class FixtureFetchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FixtureFetchError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SERPER_HOST = 'google.serper.dev';
+
+const WP_REST_PREFIX = '/wp-json';
+
+// Key of the result list in each Serper endpoint's response
+const SERPER_RESULT_KEYS: Record<SerperEndpoint, string> = {
+    search: 'organic',
+    videos: 'videos',
+    news: 'news',
+    images: 'images'
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function jsonResponse(status: number, data: unknown): Response {
+    return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function readHeader(headers: HeadersInit | undefined, name: string): string {
+    if (!headers) return '';
+    return new Headers(headers).get(name) || '';
+}
+
+function parseBody(body: BodyInit | null | undefined): any {
+    if (typeof body !== 'string') return undefined;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+function rendered(value: string): { rendered: string; raw: string } {
+    return { rendered: value, raw: value };
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/<[^>]+>/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'post';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔍 FAKE SERPER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function handleSerper(url: URL, init: RequestInit, fixtures: SerperFixture[]): Response {
+    if (!readHeader(init.headers, 'X-API-KEY')) {
+        return jsonResponse(403, { message: 'Unauthorized.', statusCode: 403 });
+    }
+
+    const endpoint = (url.pathname.replace(/^\/+/, '') || 'search') as SerperEndpoint;
+    const query = String(parseBody(init.body)?.q || '').toLowerCase();
+    const fixture = fixtures.find(f =>
+        f.endpoint === endpoint && (!f.match || query.includes(f.match.toLowerCase())));
+
+    return jsonResponse(200, fixture?.response || { [SERPER_RESULT_KEYS[endpoint] || 'organic']: [] });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🌐 FAKE WORDPRESS REST
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export class FakeWordPress {
+    readonly baseUrl: string;
+    readonly posts = new Map<number, FakeWpPost>();
+    readonly writes: FakeWpWrite[] = [];
+    private readonly options: FakeWordPressOptions;
+    private nextId: number;
+
+    constructor(options: FakeWordPressOptions) {
+        this.options = options;
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        (options.posts || []).forEach(seed => this.posts.set(seed.id, this.toPost(seed)));
+        this.nextId = Math.max(100, ...Array.from(this.posts.keys())) + 1;
+    }
+
+    handles(url: URL): boolean {
+        return url.origin === new URL(this.baseUrl).origin && url.pathname.startsWith(WP_REST_PREFIX);
+    }
+
+    // Last write to a post, or the last write overall
+    lastWrite(postId?: number): FakeWpWrite | undefined {
+        const writes = postId === undefined ? this.writes : this.writes.filter(w => w.postId === postId);
+        return writes[writes.length - 1];
+    }
+
+    handle(url: URL, init: RequestInit): Response {
+        const method = (init.method || 'GET').toUpperCase();
+        const route = url.pathname.slice(WP_REST_PREFIX.length).replace(/\/+$/, '');
+        const needsAuth = method !== 'GET' || url.searchParams.get('status') === 'any';
+
+        if (needsAuth && !this.isAuthorized(init)) {
+            return jsonResponse(401, { code: 'rest_not_logged_in', message: 'You are not currently logged in.' });
+        }
+
+        if (route === '') {
+            return jsonResponse(200, { name: this.options.siteName || 'Fixture Site', url: this.baseUrl });
+        }
+        if (route === '/wp/v2/categories') return jsonResponse(200, this.options.categories || []);
+        if (route === '/wp/v2/tags') return jsonResponse(200, this.options.tags || []);
+
+        if (route === '/wp/v2/posts') {
+            if (method === 'POST') return this.createPost(parseBody(init.body) || {});
+            return jsonResponse(200, this.listPosts(url.searchParams));
+        }
+
+        const postMatch = route.match(/^\/wp\/v2\/posts\/(\d+)$/);
+        if (postMatch) {
+            const id = Number(postMatch[1]);
+            if (!this.posts.has(id)) {
+                return jsonResponse(404, { code: 'rest_post_invalid_id', message: 'Invalid post ID.' });
+            }
+            if (method === 'POST') return this.updatePost(id, parseBody(init.body) || {});
+            return jsonResponse(200, this.posts.get(id));
+        }
+
+        return jsonResponse(404, { code: 'rest_no_route', message: 'No route was found matching the URL and request method.' });
+    }
+
+    private isAuthorized(init: RequestInit): boolean {
+        const { username, password } = this.options;
+        if (!username || !password) return true;
+        return readHeader(init.headers, 'Authorization') === `Basic ${btoa(`${username}:${password}`)}`;
+    }
+
+    private toPost(seed: FakeWpPostSeed): FakeWpPost {
+        return {
+            id: seed.id,
+            slug: seed.slug,
+            link: `${this.baseUrl}/${seed.slug}/`,
+            status: seed.status || 'publish',
+            title: rendered(seed.title),
+            content: rendered(seed.content || ''),
+            excerpt: rendered(seed.excerpt || ''),
+            categories: seed.categories || [],
+            tags: seed.tags || [],
+            featured_media: seed.featured_media || 0,
+            meta: {}
+        };
+    }
+
+    private listPosts(params: URLSearchParams): FakeWpPost[] {
+        const slug = params.get('slug');
+        const search = params.get('search')?.toLowerCase();
+        const perPage = Number(params.get('per_page')) || 10;
+        return Array.from(this.posts.values())
+            .filter(p => !slug || p.slug === slug)
+            .filter(p => !search || p.title.raw.toLowerCase().includes(search))
+            .slice(0, perPage);
+    }
+
+    private applyPayload(post: FakeWpPost, payload: Record<string, any>): void {
+        if (payload.title !== undefined) post.title = rendered(String(payload.title));
+        if (payload.content !== undefined) post.content = rendered(String(payload.content));
+        if (payload.excerpt !== undefined) post.excerpt = rendered(String(payload.excerpt));
+        if (payload.status !== undefined) post.status = payload.status;
+        if (payload.slug !== undefined) {
+            post.slug = payload.slug;
+            post.link = `${this.baseUrl}/${payload.slug}/`;
+        }
+        if (payload.categories !== undefined) post.categories = payload.categories;
+        if (payload.tags !== undefined) post.tags = payload.tags;
+        if (payload.featured_media !== undefined) post.featured_media = payload.featured_media;
+        if (payload.meta !== undefined) post.meta = { ...post.meta, ...payload.meta };
+    }
+
+    private createPost(payload: Record<string, any>): Response {
+        const id = this.nextId++;
+        const post = this.toPost({ id, slug: payload.slug || slugify(String(payload.title || id)), title: '', status: 'draft' });
+        this.applyPayload(post, payload);
+        this.posts.set(id, post);
+        this.writes.push({ postId: id, created: true, payload });
+        return jsonResponse(201, post);
+    }
+
+    private updatePost(id: number, payload: Record<string, any>): Response {
+        const post = this.posts.get(id);
+        this.applyPayload(post, payload);
+        this.writes.push({ postId: id, created: false, payload });
+        return jsonResponse(200, post);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 FETCH ROUTER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A fetch that answers Serper and WordPress from fixtures and rejects
+ * anything else with FixtureFetchError, so nothing leaks to the network.
+ */
+export function createFixtureServer(options: FixtureFetchOptions = {}): FixtureServer {
+    const requests: RecordedRequest[] = [];
+    const wordpress = options.wordpress ? new FakeWordPress(options.wordpress) : null;
+
+    const route = (url: URL, init: RequestInit): Response => {
+        if (url.hostname === SERPER_HOST) return handleSerper(url, init, options.serper || []);
+        if (wordpress?.handles(url)) return wordpress.handle(url, init);
+        throw new FixtureFetchError(`Unexpected network request: ${(init.method || 'GET').toUpperCase()} ${url.href}`);
+    };
+
+    const fixtureFetch = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+        const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+        const method = (init.method || 'GET').toUpperCase();
+        if (init.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+
+        // Callers often swallow fetch errors, so rejected requests are logged too
+        let response: Response;
+        try {
+            response = route(url, init);
+        } catch (error) {
+            requests.push({ method, url: url.href, body: parseBody(init.body), status: 0 });
+            throw error;
+        }
+        requests.push({ method, url: url.href, body: parseBody(init.body), status: response.status });
+        return response;
+    }) as typeof fetch;
+
+    return {
+        fetch: fixtureFetch,
+        requests,
+        wordpress,
+        install() {
+            const original = globalThis.fetch;
+            globalThis.fetch = fixtureFetch;
+            return () => { globalThis.fetch = original; };
+        }
+    };
+}
+
+export default {
+    FIXTURE_FETCH_VERSION,
+    FixtureFetchError,
+    FakeWordPress,
+    createFixtureServer
+};
@@ -0,0 +1,298 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — MOCK LLM PROVIDER
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Offline stand-in for the provider APIs, plugged into the orchestrator's
+// test-only LLM transport — never part of the app bundle:
+// ✅ Deterministic synthetic answers for every pipeline stage
+// ✅ Replay of recorded per-stage fixtures, in call order
+// ✅ Call log of every request and the answer it got
+// ✅ Call logs convert back into fixtures, so a run can be recorded once
+// ✅ Streams in chunks like a real provider when a handler is attached
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { LLMStage } from '../types';
+import { LLMCallResult, LLMTransportRequest, setLLMTransport } from '../lib/ai-orchestrator';
+import { StreamTextHandler } from '../lib/llm-stream';
+
+export const MOCK_PROVIDER_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// stage is undefined for calls made outside the routed pipeline
+export type MockLLMRequest = LLMTransportRequest;
+
+export type MockResponder = (request: MockLLMRequest) => string | Promise<string>;
+
+export interface LLMFixture {
+    stage: LLMStage;
+    // Only replayed when the user prompt contains this text
+    match?: string;
+    // JSON stages may be recorded as objects — they are serialized on replay
+    response: string | Record<string, unknown>;
+}
+
+export interface MockCallRecord {
+    request: MockLLMRequest;
+    response: string;
+}
+
+export class MockProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MockProviderError';
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export const MOCK_MODEL = 'mock-deterministic';
+
+const CHARS_PER_TOKEN = 4;
+
+const STREAM_CHUNK_CHARS = 80;
+
+const FALLBACK_TOPIC = 'the topic';
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 PROMPT HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Every built-in pipeline template quotes the topic (or title) first
+function extractQuoted(prompt: string): string {
+    return prompt.match(/"([^"\n]{3,120})"/)?.[1]?.trim() || FALLBACK_TOPIC;
+}
+
+function extractLine(prompt: string, label: string): string {
+    return prompt.match(new RegExp(`^${label}:\\s*(.+)$`, 'm'))?.[1]?.trim() || '';
+}
+
+function extractNumbered(prompt: string): string[] {
+    return Array.from(prompt.matchAll(/^\s*\d+\.\s+(.+\?)\s*$/gm), m => m[1].trim());
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'post';
+}
+
+function titleCase(text: string): string {
+    return text.replace(/\b\w/g, c => c.toUpperCase());
+}
+
+function paragraph(topic: string, focus: string, n: number): string {
+    return `<p>${titleCase(focus)} is where most people get ${topic} wrong. Point ${n}: start with a clear goal, `
+        + `measure one thing at a time and change a single variable per week. Small, steady adjustments beat `
+        + `large rewrites because you can see which change moved the result.</p>`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🤖 SYNTHETIC RESPONDER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SYNTHETIC_SECTION_HEADINGS = [
+    'What It Is and Why It Matters',
+    'Getting Started Step by Step',
+    'Common Mistakes to Avoid',
+    'Advanced Techniques',
+    'Measuring Results'
+];
+
+function syntheticOutline(topic: string): Record<string, unknown> {
+    const title = `${titleCase(topic)}: A Practical Guide`;
+    return {
+        title,
+        metaDescription: `Learn ${topic} with a practical, step-by-step guide covering the basics, common mistakes, advanced techniques and how to measure results.`,
+        slug: slugify(topic),
+        sections: SYNTHETIC_SECTION_HEADINGS.map(heading => ({
+            heading,
+            keyPoints: [`${heading} for ${topic}`, 'A worked example'],
+            subsections: [
+                { heading: 'The Basics', keyPoints: ['Definition'] },
+                { heading: 'In Practice', keyPoints: ['Example'] }
+            ]
+        })),
+        faqTopics: [
+            `How long does ${topic} take?`,
+            `Is ${topic} worth it for beginners?`,
+            `What tools help with ${topic}?`
+        ],
+        keyTakeaways: [
+            `Start ${topic} with one measurable goal`,
+            'Change one variable at a time',
+            'Review results weekly'
+        ]
+    };
+}
+
+function syntheticSection(topic: string, heading: string): string {
+    return [
+        `<h2>${heading}</h2>`,
+        paragraph(topic, heading, 1),
+        '<h3>The Basics</h3>',
+        paragraph(topic, 'the basics', 2),
+        '<h3>In Practice</h3>',
+        paragraph(topic, 'practice', 3),
+        '<ul><li>Write the goal down</li><li>Track it for two weeks</li><li>Keep what works</li></ul>'
+    ].join('\n');
+}
+
+function syntheticFaqs(topic: string, questions: string[]): Record<string, unknown> {
+    const list = questions.length > 0 ? questions : [`What is ${topic}?`];
+    return {
+        faqs: list.map(question => ({
+            question,
+            answer: `It depends on your starting point, but most people see the first results from ${topic} within a few weeks of consistent practice.`
+        }))
+    };
+}
+
+function syntheticContract(topic: string): Record<string, unknown> {
+    const outline = syntheticOutline(topic);
+    const htmlContent = SYNTHETIC_SECTION_HEADINGS.map(h => syntheticSection(topic, h)).join('\n\n');
+    return {
+        title: outline.title,
+        metaDescription: outline.metaDescription,
+        slug: outline.slug,
+        htmlContent,
+        excerpt: outline.metaDescription,
+        faqs: (syntheticFaqs(topic, outline.faqTopics as string[]).faqs as unknown[]),
+        wordCount: htmlContent.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length
+    };
+}
+
+/**
+ * Answers every pipeline stage with fixed, schema-valid content built from
+ * the topic in the prompt. The same prompt always gets the same answer.
+ */
+export function createSyntheticResponder(): MockResponder {
+    return ({ stage, userPrompt }) => {
+        const topic = extractQuoted(userPrompt);
+        switch (stage) {
+            case 'outline':
+                return JSON.stringify(syntheticOutline(topic));
+            case 'sections':
+                return syntheticSection(topic, extractLine(userPrompt, 'SECTION') || titleCase(topic));
+            case 'faq':
+                return JSON.stringify(syntheticFaqs(topic, extractNumbered(userPrompt)));
+            case 'intro':
+                return `${paragraph(topic, 'getting started', 1)}\n${paragraph(topic, 'this guide', 2)}`;
+            case 'conclusion':
+                return `<h2>Conclusion</h2>\n${paragraph(topic, 'the next step', 1)}`;
+            case 'single_shot':
+                return JSON.stringify(syntheticContract(topic));
+            default:
+                return paragraph(topic, 'this', 1);
+        }
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📼 FIXTURE REPLAY
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Replays recorded answers. Each stage's fixtures are used in call order and
+ * the last one repeats, so one section fixture can answer every section.
+ * Calls with no fixture go to `fallback`, or throw MockProviderError.
+ */
+export function createFixtureResponder(fixtures: LLMFixture[], fallback?: MockResponder): MockResponder {
+    const used = new Map<LLMStage, number>();
+
+    return request => {
+        const candidates = fixtures.filter(f =>
+            f.stage === request.stage && (!f.match || request.userPrompt.includes(f.match)));
+        if (candidates.length === 0) {
+            if (fallback) return fallback(request);
+            throw new MockProviderError(`No recorded fixture for stage "${request.stage || 'unrouted'}"`);
+        }
+
+        const n = used.get(request.stage) || 0;
+        used.set(request.stage, n + 1);
+        const fixture = candidates[Math.min(n, candidates.length - 1)];
+        return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    };
+}
+
+// Turns a call log into fixtures — run once against the synthetic (or a wrapped real) responder, then replay
+export function toLLMFixtures(calls: MockCallRecord[]): LLMFixture[] {
+    return calls
+        .filter(call => call.request.stage)
+        .map(call => ({ stage: call.request.stage, response: call.response }));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔌 ACTIVE RESPONDER & CALLER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+let activeResponder: MockResponder = createSyntheticResponder();
+const callLog: MockCallRecord[] = [];
+
+// Null restores the synthetic responder
+export function setMockResponder(responder: MockResponder | null): void {
+    activeResponder = responder || createSyntheticResponder();
+}
+
+export function getMockResponder(): MockResponder {
+    return activeResponder;
+}
+
+export function getMockCalls(): MockCallRecord[] {
+    return [...callLog];
+}
+
+export function resetMockCalls(): void {
+    callLog.length = 0;
+}
+
+export async function callMockProvider(
+    request: MockLLMRequest,
+    onStream?: StreamTextHandler
+): Promise<LLMCallResult> {
+    const text = await activeResponder(request);
+    callLog.push({ request, response: text });
+
+    if (onStream) {
+        for (let end = STREAM_CHUNK_CHARS; end < text.length + STREAM_CHUNK_CHARS; end += STREAM_CHUNK_CHARS) {
+            onStream(text.slice(0, end));
+        }
+    }
+
+    return {
+        text,
+        model: request.model,
+        promptTokens: Math.ceil((request.userPrompt.length + request.systemPrompt.length) / CHARS_PER_TOKEN),
+        completionTokens: Math.ceil(text.length / CHARS_PER_TOKEN)
+    };
+}
+
+/**
+ * Routes every orchestrator LLM call to the mock with this responder.
+ * Returns the function that puts the real providers back.
+ */
+export function installMockProvider(responder: MockResponder | null): () => void {
+    setMockResponder(responder);
+    setLLMTransport(callMockProvider);
+    return () => {
+        setLLMTransport(null);
+        setMockResponder(null);
+    };
+}
+
+export default {
+    MOCK_PROVIDER_VERSION,
+    MOCK_MODEL,
+    MockProviderError,
+    createSyntheticResponder,
+    createFixtureResponder,
+    toLLMFixtures,
+    setMockResponder,
+    getMockResponder,
+    getMockCalls,
+    resetMockCalls,
+    callMockProvider,
+    installMockProvider
+};
@@ -0,0 +1,320 @@
+// ═══════════════════════════════════════════════════════════════════════════════
+// WP OPTIMIZER PRO v27.0 — OFFLINE PIPELINE HARNESS
+// ═══════════════════════════════════════════════════════════════════════════════
+//
+// Runs outline → sections → QA → publish end to end against recorded fixtures:
+// ✅ Runs God Mode's own phases from lib/god-mode.ts — existing post, synthesis, publish
+// ✅ LLM answers from the mock provider (replayed fixtures or synthetic)
+// ✅ Serper and WordPress REST answered by the fixture fetch
+// ✅ Assertions on the ContentContract, the QA swarm and the published payload
+// ✅ Fails any run that tried to reach the real network
+// ═══════════════════════════════════════════════════════════════════════════════
+
+import { ApiKeys, BrandVoiceProfile, ContentContract, GenerateConfig, SiteContext } from '../types';
+import { GenerationResult } from '../lib/ai-orchestrator';
+import {
+    EMPTY_PRESERVATION, PreserveOptions, loadExistingPost, publishToWordPress, synthesizeContent
+} from '../lib/god-mode';
+import { QASwarmResult } from '../utils';
+import {
+    LLMFixture, MockCallRecord, MOCK_MODEL,
+    createFixtureResponder, createSyntheticResponder, getMockCalls, installMockProvider, resetMockCalls
+} from './mock-provider';
+import { FakeWordPressOptions, FakeWpWrite, RecordedRequest, SerperFixture, createFixtureServer } from './fixture-fetch';
+
+export const PIPELINE_HARNESS_VERSION = "27.0.0";
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📌 TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface PipelineExpectations {
+    generationMethod?: GenerationResult['generationMethod'];
+    title?: string;
+    slug?: string;
+    minWords?: number;
+    // H2 headings in the assembled article
+    minSections?: number;
+    faqCount?: number;
+    references?: number;
+    youtube?: boolean;
+    contains?: string[];
+    notContains?: string[];
+    // QA agents that must report 'passed'
+    qaPassedAgents?: string[];
+    minQaScore?: number;
+    publish?: {
+        created?: boolean;
+        status?: string;
+        // Payload keys that must be absent (e.g. slug when updating)
+        omits?: string[];
+        // Final slug of the post on the fake site
+        slug?: string;
+    };
+}
+
+export interface PipelineFixture {
+    name: string;
+    topic: string;
+    targetKeyword?: string;
+    status?: 'draft' | 'publish';
+    // Update this post instead of creating one
+    existingPostId?: number;
+    // God Mode's preservation toggles; all on by default, as in the app
+    preserve?: Partial<PreserveOptions>;
+    // Recorded answers, replayed strictly; omit for the synthetic responder
+    llm?: LLMFixture[];
+    serper?: SerperFixture[];
+    wordpress: FakeWordPressOptions;
+    brandVoice?: BrandVoiceProfile;
+    expect: PipelineExpectations;
+}
+
+export interface HarnessCheck {
+    name: string;
+    passed: boolean;
+    detail: string;
+}
+
+export interface PipelineRunResult {
+    fixture: string;
+    passed: boolean;
+    checks: HarnessCheck[];
+    generation: GenerationResult | null;
+    // The contract as published — after God Mode's cleanup
+    contract: ContentContract | null;
+    qa: QASwarmResult | null;
+    published: FakeWpWrite | null;
+    llmCalls: MockCallRecord[];
+    requests: RecordedRequest[];
+    logs: string[];
+    error?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const FIXTURE_SERPER_KEY = 'fixture-serper-key';
+
+// Calls never leave the process — the mock transport answers them
+const FIXTURE_LLM_BASE_URL = 'http://mock-llm.invalid';
+
+const DEFAULT_PRESERVE: PreserveOptions = {
+    featuredImage: true,
+    contentImages: true,
+    categories: true,
+    tags: true
+};
+
+const BLANK_API_KEYS: ApiKeys = {
+    google: '', openrouter: '', openai: '', anthropic: '', groq: '', serper: '',
+    neuronwriter: '', neuronProject: '',
+    openrouterModel: '', groqModel: '', openaiModel: '', anthropicModel: '',
+    local: '', localBaseUrl: '', localModel: ''
+};
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧩 HELPERS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function buildGenerateConfig(fixture: PipelineFixture): GenerateConfig {
+    const siteContext: SiteContext = {
+        orgName: fixture.wordpress.siteName || 'Fixture Site',
+        url: fixture.wordpress.baseUrl,
+        authorName: 'Fixture Author',
+        brandVoice: fixture.brandVoice
+    };
+    return {
+        prompt: fixture.topic,
+        topic: fixture.topic,
+        mode: 'writer',
+        siteContext,
+        model: MOCK_MODEL,
+        provider: 'local',
+        apiKeys: {
+            ...BLANK_API_KEYS,
+            localBaseUrl: FIXTURE_LLM_BASE_URL,
+            localModel: MOCK_MODEL,
+            serper: fixture.serper ? FIXTURE_SERPER_KEY : ''
+        },
+        targetKeyword: fixture.targetKeyword || fixture.topic,
+        useStagedPipeline: true
+    };
+}
+
+function countMatches(html: string, pattern: RegExp): number {
+    return (html.match(pattern) || []).length;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ✔️ ASSERTIONS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function evaluate(
+    fixture: PipelineFixture,
+    generation: GenerationResult,
+    contract: ContentContract,
+    qa: QASwarmResult,
+    published: FakeWpWrite | null,
+    finalSlug: string | undefined,
+    requests: RecordedRequest[]
+): HarnessCheck[] {
+    const expect = fixture.expect;
+    const html = contract.htmlContent || '';
+    const checks: HarnessCheck[] = [];
+    const check = (name: string, passed: boolean, detail: string) => checks.push({ name, passed, detail });
+
+    const offline = requests.filter(r => r.status === 0);
+    check('No real network requests', offline.length === 0,
+        offline.length === 0 ? 'all requests answered by fixtures' : offline.map(r => `${r.method} ${r.url}`).join(', '));
+
+    check('No H1 in content', countMatches(html, /<h1[\s>]/gi) === 0, `${countMatches(html, /<h1[\s>]/gi)} H1 tag(s)`);
+    check('Contract has title, slug and meta description',
+        !!contract.title && !!contract.slug && !!contract.metaDescription,
+        `title="${contract.title}" slug="${contract.slug}"`);
+
+    if (expect.generationMethod) {
+        check('Generation method', generation.generationMethod === expect.generationMethod, generation.generationMethod);
+    }
+    if (expect.title !== undefined) check('Title', contract.title === expect.title, contract.title);
+    if (expect.slug !== undefined) check('Slug', contract.slug === expect.slug, contract.slug);
+    if (expect.minWords !== undefined) {
+        check(`At least ${expect.minWords} words`, contract.wordCount >= expect.minWords, `${contract.wordCount} words`);
+    }
+    if (expect.minSections !== undefined) {
+        const h2 = countMatches(html, /<h2[\s>]/gi);
+        check(`At least ${expect.minSections} H2 sections`, h2 >= expect.minSections, `${h2} H2 tags`);
+    }
+    if (expect.faqCount !== undefined) {
+        const faqs = contract.faqs?.length || 0;
+        check('FAQ count', faqs === expect.faqCount, `${faqs} FAQs`);
+    }
+    if (expect.references !== undefined) {
+        const refs = generation.references?.length || 0;
+        check('Reference count', refs === expect.references, `${refs} references`);
+    }
+    if (expect.youtube !== undefined) {
+        const embedded = !!generation.youtubeVideo?.videoId;
+        check('YouTube embed', embedded === expect.youtube, embedded ? generation.youtubeVideo.videoId : 'none');
+    }
+    (expect.contains || []).forEach(text => check(`Contains "${text}"`, html.includes(text), ''));
+    (expect.notContains || []).forEach(text => check(`Does not contain "${text}"`, !html.includes(text), ''));
+
+    (expect.qaPassedAgents || []).forEach(agent => {
+        const result = qa.results.find(r => r.agent === agent);
+        check(`QA: ${agent}`, result?.status === 'passed', result ? `${result.status} — ${result.feedback}` : 'agent did not run');
+    });
+    if (expect.minQaScore !== undefined) {
+        check(`QA score ≥ ${expect.minQaScore}`, qa.score >= expect.minQaScore, `score ${qa.score}`);
+    }
+
+    check('Content published', !!published, published ? `post ${published.postId}` : 'no content write reached WordPress');
+    if (published && expect.publish) {
+        const { payload } = published;
+        check('Published content matches contract', payload.content === contract.htmlContent && payload.title === contract.title, '');
+        if (expect.publish.created !== undefined) {
+            check(expect.publish.created ? 'Created a new post' : 'Updated the existing post',
+                published.created === expect.publish.created, `post ${published.postId}`);
+        }
+        if (expect.publish.status !== undefined) {
+            check('Publish status', payload.status === expect.publish.status, String(payload.status));
+        }
+        (expect.publish.omits || []).forEach(key =>
+            check(`Payload omits "${key}"`, !(key in payload), `keys: ${Object.keys(payload).join(', ')}`));
+        if (expect.publish.slug !== undefined) {
+            check('Final post slug', finalSlug === expect.publish.slug, String(finalSlug));
+        }
+    }
+
+    return checks;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🚀 RUNNER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Runs one fixture through God Mode's phases with the global fetch and the
+ * LLM transport swapped out, then restores both.
+ * Never throws — a crashed run comes back as a failed result.
+ */
+export async function runPipelineFixture(fixture: PipelineFixture): Promise<PipelineRunResult> {
+    const logs: string[] = [];
+    const log = (msg: string) => logs.push(msg);
+    const server = createFixtureServer({ serper: fixture.serper, wordpress: fixture.wordpress });
+    const restoreFetch = server.install();
+
+    resetMockCalls();
+    const restoreProvider = installMockProvider(fixture.llm ? createFixtureResponder(fixture.llm) : createSyntheticResponder());
+
+    const result: PipelineRunResult = {
+        fixture: fixture.name,
+        passed: false,
+        checks: [],
+        generation: null,
+        contract: null,
+        qa: null,
+        published: null,
+        llmCalls: [],
+        requests: server.requests,
+        logs
+    };
+
+    try {
+        const { baseUrl, username = '', password = '' } = fixture.wordpress;
+        const auth = { u: username, p: password };
+        const preserve = { ...DEFAULT_PRESERVE, ...fixture.preserve };
+        const postId = fixture.existingPostId || null;
+
+        const existing = postId ? await loadExistingPost(baseUrl, postId, auth, fixture.name, preserve) : null;
+
+        const synthesis = await synthesizeContent(buildGenerateConfig(fixture), { log, brandVoice: fixture.brandVoice });
+        result.generation = synthesis.generation;
+        result.contract = synthesis.contract;
+        result.qa = synthesis.qa;
+
+        const published = await publishToWordPress({
+            wpUrl: baseUrl,
+            auth,
+            contract: synthesis.contract,
+            status: fixture.status || 'draft',
+            postId,
+            preservation: existing?.preservation || EMPTY_PRESERVATION,
+            preserve,
+            focusKeyword: fixture.targetKeyword || fixture.topic,
+            revisionSnapshot: existing?.revisionSnapshot,
+            pageId: fixture.name,
+            log
+        });
+        result.published = server.wordpress.writes.filter(w => w.postId === published.postId && 'content' in w.payload).pop() || null;
+
+        const finalSlug = server.wordpress.posts.get(published.postId)?.slug;
+        result.checks = evaluate(fixture, result.generation, result.contract, result.qa, result.published, finalSlug, server.requests);
+        result.passed = result.checks.every(c => c.passed);
+    } catch (error: any) {
+        result.error = error.message;
+        result.checks.push({ name: 'Pipeline completed', passed: false, detail: error.message });
+    } finally {
+        result.llmCalls = getMockCalls();
+        restoreProvider();
+        restoreFetch();
+    }
+
+    return result;
+}
+
+export async function runPipelineFixtures(fixtures: PipelineFixture[]): Promise<PipelineRunResult[]> {
+    const results: PipelineRunResult[] = [];
+    // Sequential — every run swaps the global fetch
+    for (const fixture of fixtures) {
+        results.push(await runPipelineFixture(fixture));
+    }
+    return results;
+}
+
+export default {
+    PIPELINE_HARNESS_VERSION,
+    runPipelineFixture,
+    runPipelineFixtures
+};
@@ -28,9 +28,13 @@ export const TYPES_VERSION = "27.0.0";
 
 export type OptimizationMode = 'surgical' | 'full_rewrite' | 'writer';
 
-export type PublishMode = 'draft' | 'autopublish';
+export type PublishMode = 'draft' | 'autopublish' | 'review';
 
-export type AIProvider = 'google' | 'openrouter' | 'openai' | 'anthropic' | 'groq';
+// WordPress status an approved review-mode item is written with
+export type ApprovalPublishStatus = 'publish' | 'draft';
+
+// 'local' = any OpenAI-compatible server (Ollama, llama.cpp, vLLM)
+export type AIProvider = 'google' | 'openrouter' | 'openai' | 'anthropic' | 'groq' | 'local';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📊 GOD MODE PHASE TRACKING
@@ -64,6 +68,7 @@ export type GodModePhase =
     | 'schema_generation'
     | 'final_polish'
     | 'publishing'
+    | 'awaiting_approval'
     | 'completed'
     | 'failed';
 
@@ -85,10 +90,10 @@ export interface ContentOutline {
 
 export interface SectionOutline {
     heading: string;
-    type: 'h2';
+    type?: 'h2';
     keyPoints: string[];
     subsections: SubsectionOutline[];
-    visualComponents: VisualComponentType[];
+    visualComponents?: VisualComponentType[];
     targetWordCount?: number;
 }
 
@@ -119,6 +124,13 @@ export interface GeneratedSection {
     error?: string;
 }
 
+// Partial staged-generation output, saved so a failed run can resume
+export interface GenerationCheckpoint {
+    outline?: ContentOutline;
+    // Successfully generated sections only — failed ones are regenerated on resume
+    sections?: GeneratedSection[];
+}
+
 export interface StageProgress {
     stage: 'outline' | 'sections' | 'merge' | 'polish' | 'validation';
     progress: number;
@@ -127,6 +139,24 @@ export interface StageProgress {
     totalSections?: number;
 }
 
+export type SectionStreamStatus = 'streaming' | 'done' | 'failed' | 'cancelled';
+
+// Live section HTML as the model writes it
+export interface SectionStreamUpdate {
+    index: number;
+    heading: string;
+    html: string;
+    status: SectionStreamStatus;
+}
+
+// Shared with a running generation and mutated in place — the pipeline polls it
+export interface CancellationToken {
+    cancelled: boolean;
+    reason?: string;
+    // Section indexes to stop mid-stream and leave out of the article
+    cancelledSections?: number[];
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📝 CONTENT CONTRACT — THE CORE OUTPUT TYPE
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -149,6 +179,8 @@ export interface ContentContract {
     
     // Internal linking
     internalLinks?: InternalLinkResult[];
+    // Link engine report: links written and every skipped target with its reason
+    internalLinkReport?: InternalLinkReport;
     
     // Schema markup
     schemaMarkup?: string;
@@ -168,6 +200,9 @@ export interface ContentContract {
     
     // YouTube integration
     youtubeVideo?: YouTubeVideoData;
+    
+    // Provider/model that answered each LLM stage
+    stageModels?: Partial<Record<LLMStage, StageModelRecord>>;
 }
 
 export interface FAQ {
@@ -200,16 +235,44 @@ export interface InternalLinkInjectionOptions {
     minLinks?: number;
     maxLinks?: number;
     minRelevance?: number;
+    // Measured in words between linked paragraphs
     minDistanceBetweenLinks?: number;
     maxLinksPerSection?: number;
     excludeUrls?: string[];
 }
 
+export interface PlannedInternalLink extends InternalLinkResult {
+    title: string;
+    // Why this target was paired with this paragraph
+    reason: string;
+    // Set when the anchor diversity guard chose the anchor
+    anchorType?: AnchorType;
+    // Plain text of the paragraph the link goes into
+    context: string;
+}
+
+export interface SkippedLinkTarget {
+    url: string;
+    title: string;
+    reason: string;
+}
+
+export interface InternalLinkReport {
+    // True when nothing was written — `planned` is what would be inserted
+    dryRun: boolean;
+    planned: PlannedInternalLink[];
+    skipped: SkippedLinkTarget[];
+    eligibleParagraphs: number;
+    // Fewer links than minLinks even after the relaxed pass
+    belowMinimum: boolean;
+}
+
 export interface InternalLinkInjectionResult {
     html: string;
     linksAdded: InternalLinkResult[];
     totalLinks: number;
     skippedReasons?: Map<string, string>;
+    report?: InternalLinkReport;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -347,7 +410,7 @@ export interface NLPInjectionResult {
 // ✅ QA VALIDATION TYPES
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export type QACategory = 'critical' | 'seo' | 'aeo' | 'geo' | 'enhancement';
+export type QACategory = 'critical' | 'seo' | 'aeo' | 'geo' | 'voice' | 'enhancement';
 export type QAStatus = 'passed' | 'failed' | 'warning';
 
 export interface QAValidationResult {
@@ -398,6 +461,10 @@ export interface SitemapPage {
     title: string;
     slug: string;
     lastMod: string | null;
+    priority?: number | null;
+    changeFreq?: string | null;
+    // Inferred from the child sitemap name (post, page, product, ...)
+    postType?: string | null;
     wordCount: number | null;
     crawledContent: string | null;
     healthScore: number | null;
@@ -426,13 +493,34 @@ export type PageStatus =
     | 'analyzed' 
     | 'optimizing' 
     | 'publishing' 
+    | 'awaiting_approval'
     | 'error';
 
+export type OpportunityFactorKey =
+    | 'staleness'
+    | 'thinness'
+    | 'seo_gap'
+    | 'missing_features'
+    | 'recency'
+    | 'title';
+
+export interface OpportunityFactor {
+    key: OpportunityFactorKey;
+    label: string;
+    // 0-100, higher = more to gain from optimizing
+    score: number;
+    weight: number;
+    detail: string;
+}
+
+// Higher total = better optimization candidate
 export interface OpportunityScore {
     total: number;
     titleScore: number;
     lengthScore: number;
     freshness: number;
+    factors?: OpportunityFactor[];
+    computedAt?: number;
 }
 
 export interface ImprovementRecord {
@@ -442,6 +530,100 @@ export interface ImprovementRecord {
     wordCount?: number;
     qaScore?: number;
     version?: string;
+    revisionId?: string;
+    // LLM usage for this rewrite, including failed attempts before it
+    usage?: TokenUsageTotals;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⏪ REVISION SNAPSHOT TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type RevisionReason = 'pre-optimization' | 'pre-rollback' | 'pre-inbound-link';
+
+export interface PostSeoMetaSnapshot {
+    title?: string;
+    description?: string;
+    focusKeyword?: string;
+}
+
+export interface PostRevisionSnapshot {
+    id: string;
+    pageId: string;
+    postId: number;
+    capturedAt: number;
+    reason: RevisionReason;
+    
+    // Original post fields (raw, as stored in WordPress)
+    title: string;
+    content: string;
+    excerpt: string;
+    status: string;
+    slug: string;
+    link?: string;
+    
+    // SEO plugin meta at capture time
+    seoMeta: PostSeoMetaSnapshot;
+    
+    // Taxonomy & media preservation data
+    preservation: PostPreservationData;
+    
+    wordCount?: number;
+    restoredAt?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💾 PIPELINE CHECKPOINT TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface PipelineCheckpoint {
+    pageId: string;
+    createdAt: number;
+    updatedAt: number;
+    completedPhases: GodModePhase[];
+    
+    // PHASE 1 — resolved post
+    topic?: string;
+    postId?: number | null;
+    originalContent?: string;
+    preservation?: PostPreservationData;
+    
+    // PHASES 2–4 — analysis
+    entityGapData?: EntityGapAnalysis;
+    neuronData?: NeuronAnalysisResult;
+    internalLinks?: InternalLinkTarget[];
+    
+    // PHASE 5 — staged generation progress, then the finished contract
+    generation?: GenerationCheckpoint;
+    contract?: ContentContract;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 👀 APPROVAL QUEUE TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface ApprovalQueueItem {
+    id: string;
+    pageId: string;
+    topic: string;
+    createdAt: number;
+    
+    // WordPress target (null = create a new post on approval)
+    postId: number | null;
+    preservation: PostPreservationData;
+    
+    // Generated content awaiting a decision
+    contract: ContentContract;
+    qaResult: QASwarmResult;
+    
+    // Status written to WordPress when approved, fixed when the item is queued
+    publishStatus: ApprovalPublishStatus;
+    
+    // Set when the approver edits the contract before publishing
+    editedAt?: number;
+    
+    // Number of reject → regenerate cycles that produced this item
+    regenerations: number;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -460,6 +642,7 @@ export interface JobState {
     
     // Post data
     postId?: number;
+    originalHtml?: string;
     
     // Analysis data
     existingAnalysis?: ExistingContentAnalysis;
@@ -475,6 +658,12 @@ export interface JobState {
     // Improvement feedback
     allFeedback?: string[];
     
+    // LLM usage since the last publish (failed attempts count toward the next rewrite)
+    usage?: TokenUsageTotals;
+    
+    // Set when the job was halted by a spend budget rather than a failure
+    budgetExceeded?: BudgetViolation;
+    
     // Job logs
     logs?: string[];
     
@@ -557,6 +746,59 @@ export interface GenerateConfig {
     previousAttempts?: number;
     allFeedback?: string[];
     maxTokens?: number;
+    
+    // Resumable staged generation
+    resumeFrom?: GenerationCheckpoint;
+    onCheckpoint?: (checkpoint: GenerationCheckpoint) => void;
+    
+    // Called after every LLM response with the provider-reported token counts
+    onUsage?: (usage: LLMUsage) => void;
+    // Called before every LLM request — throws BudgetExceededError to refuse it
+    beforeLLMCall?: () => void;
+    
+    // Per-stage routing and provider fallback chain
+    routing?: LLMRoutingConfig;
+
+    // Streams section HTML while it is written; sections are not streamed without it
+    onSectionStream?: (update: SectionStreamUpdate) => void;
+    // Whole-job and per-section cancellation
+    cancellation?: CancellationToken;
+    
+    // Edited prompt templates for the target site
+    promptTemplates?: PromptTemplateSet;
+    
+    // Embedded link targets — internal links are ranked per section by similarity when set
+    semanticLinking?: { settings: EmbeddingSettings; index: PageEmbeddingIndex };
+    // Site-wide anchor history, so Stage 7 keeps each target's anchor mix healthy
+    anchorDiversity?: { settings: AnchorDiversitySettings; usage: AnchorUsageIndex; brand: string };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧭 LLM ROUTING TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Pipeline steps that call an LLM
+export type LLMStage = 'outline' | 'sections' | 'faq' | 'intro' | 'conclusion' | 'single_shot';
+
+export interface LLMRoute {
+    provider: AIProvider;
+    // Empty = the provider's default model
+    model: string;
+}
+
+export interface LLMRoutingConfig {
+    // Tried in order after a stage's route on circuit-open, 429 or timeout
+    fallbackChain: LLMRoute[];
+    // Stages without a rule use the selected provider and model
+    stageRoutes: Partial<Record<LLMStage, LLMRoute>>;
+}
+
+export interface StageModelRecord {
+    provider: AIProvider;
+    model: string;
+    calls: number;
+    // Calls answered by a fallback instead of the stage's own route
+    fallbacks: number;
 }
 
 export interface SiteContext {
@@ -567,6 +809,7 @@ export interface SiteContext {
     authorPageUrl?: string;
     industry?: string;
     targetAudience?: string;
+    brandVoice?: BrandVoiceProfile;
 }
 
 export interface ApiKeys {
@@ -580,6 +823,12 @@ export interface ApiKeys {
     neuronProject: string;
     openrouterModel: string;
     groqModel: string;
+    openaiModel: string;
+    anthropicModel: string;
+    // Local OpenAI-compatible server — the key (apiKeys.local) is optional
+    local: string;
+    localBaseUrl: string;
+    localModel: string;
     [key: string]: string;
 }
 
@@ -601,6 +850,7 @@ export interface WpConfig {
     authorPageUrl?: string;
     industry?: string;
     targetAudience?: string;
+    brandVoice?: BrandVoiceProfile;
 }
 
 export interface AutonomousConfig {
@@ -610,6 +860,38 @@ export interface AutonomousConfig {
     minInterval: number;
     maxRuntime: number;
     stopOnError: boolean;
+    // Pages published within this window (ms) are skipped
+    skipRecentMs: number;
+}
+
+export type AutonomousRunStatus = 'idle' | 'running' | 'stopping' | 'stopped';
+
+// Live scheduler state — not persisted
+export interface AutonomousRunState {
+    status: AutonomousRunStatus;
+    startedAt: number | null;
+    endedAt: number | null;
+    stopReason: string | null;
+    activeJobs: string[];
+    processed: number;
+    succeeded: number;
+    failed: number;
+    lastError: string | null;
+    // Earliest time the next job may start (minInterval)
+    nextStartAt: number | null;
+    costUsd: number;
+    tokens: number;
+}
+
+export interface SitemapCrawlConfig {
+    maxUrls: number;
+    maxDepth: number;
+    maxSitemaps: number;
+    // Regex sources matched against page URLs (empty = no filter)
+    includePattern: string;
+    excludePattern: string;
+    // Allowed post types, e.g. ['post', 'page'] (empty = all)
+    postTypes: string[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -625,6 +907,347 @@ export interface GlobalStats {
     lastRunTime: number;
     successRate: number;
     sessionStartTime?: number;
+    usage?: TokenUsageTotals;
+    usageByProvider?: Record<string, TokenUsageTotals>;
+    // Most recent bulk / autonomous runs, newest first
+    recentRuns?: RunCostSummary[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 💲 TOKEN & COST ACCOUNTING TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface LLMUsage {
+    provider: AIProvider;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface TokenUsageTotals {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    // Calls whose model had no entry in the price table
+    unpricedCalls: number;
+}
+
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export interface ModelSpec {
+    id: string;
+    provider: AIProvider;
+    label: string;
+    // Tokens, prompt + completion
+    contextWindow: number;
+    maxOutputTokens: number;
+    // Default list price, seeds the editable price table
+    price: ModelPrice;
+}
+
+export interface RunCostSummary {
+    id: string;
+    kind: 'bulk' | 'autonomous';
+    startedAt: number;
+    endedAt: number;
+    jobs: number;
+    succeeded: number;
+    failed: number;
+    costUsd: number;
+    tokens: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🛑 SPEND BUDGET TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// All limits: 0 = no limit
+export interface SpendBudget {
+    maxCostPerArticle: number;
+    maxCostPerDay: number;
+    // Applies to bulk and autonomous runs
+    maxCostPerRun: number;
+    maxSerperQueriesPerDay: number;
+}
+
+export interface DailySpend {
+    // Local date, YYYY-MM-DD
+    date: string;
+    costUsd: number;
+    serperQueries: number;
+}
+
+export type BudgetScope = 'article' | 'day' | 'run' | 'serper_day';
+
+export interface BudgetViolation {
+    scope: BudgetScope;
+    limit: number;
+    spent: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 📝 PROMPT TEMPLATE TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Prompts that can be edited in the template library
+export type PromptTemplateKey =
+    | 'outline' | 'section' | 'faq' | 'intro' | 'conclusion' | 'single_shot'
+    | 'serp_snippet' | 'serp_paa' | 'serp_comparison' | 'serp_stats' | 'serp_definition'
+    | 'blog_main_content';
+
+export interface PromptTemplateVersion {
+    version: number;
+    body: string;
+    savedAt: number;
+    note?: string;
+}
+
+// A custom template. siteUrl '' applies to every site; a site's own override wins over it
+export interface PromptTemplateOverride {
+    key: PromptTemplateKey;
+    siteUrl: string;
+    // Newest first — versions[0] is the active body
+    versions: PromptTemplateVersion[];
+}
+
+// Template bodies resolved for one site — keys left out use the built-in template
+export type PromptTemplateSet = Partial<Record<PromptTemplateKey, string>>;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🎙️ BRAND VOICE TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type SpellingLocale = 'en-US' | 'en-GB' | 'en-AU' | 'en-CA';
+
+export interface PreferredTerm {
+    avoid: string;
+    use: string;
+}
+
+// How one site writes — added to every generation prompt and checked by QA
+export interface BrandVoiceProfile {
+    tone: string;
+    // Target Flesch-Kincaid grade
+    readingLevel: number;
+    bannedTerms: string[];
+    preferredTerms: PreferredTerm[];
+    spellingLocale: SpellingLocale;
+    formattingRules: string[];
+    // Example paragraphs in the house style
+    sampleParagraphs: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🕸️ LINK GRAPH TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export interface LinkGraphEdge {
+    from: string;
+    to: string;
+    anchor: string;
+    // In the article body — not header, nav, footer or sidebar
+    inContent: boolean;
+}
+
+export interface LinkGraphNode {
+    url: string;
+    title: string;
+    // HTTP status of the crawl; null = unknown (fetch failed, or linked but not crawled)
+    status: number | null;
+    inSitemap: boolean;
+    // Body links from other pages / to other site pages
+    inbound: number;
+    outbound: number;
+    // Clicks from the home page over any link; null = not reachable
+    depth: number | null;
+    // Distinct anchor texts of inbound body links
+    anchors: string[];
+}
+
+// Crawled internal link structure of one site
+export interface SiteLinkGraph {
+    builtAt: number;
+    homeUrl: string;
+    nodes: LinkGraphNode[];
+    edges: LinkGraphEdge[];
+    // True when the page limit stopped the crawl
+    truncated: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🧲 EMBEDDING TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// 'local' = OpenAI-compatible /v1/embeddings on the local server; 'mock' = offline hashing
+export type EmbeddingProvider = 'google' | 'openai' | 'local' | 'mock';
+
+export interface EmbeddingSettings {
+    // Rank link targets by meaning instead of keyword overlap
+    enabled: boolean;
+    provider: EmbeddingProvider;
+    // Blank = provider default
+    model: string;
+    // Cosine similarity a target needs to be linked from a section, 0–1
+    minSimilarity: number;
+}
+
+export interface PageEmbedding {
+    url: string;
+    title: string;
+    // Hash of the embedded text — the page is re-embedded when it changes
+    textHash: string;
+    // Unit length, so cosine similarity is a dot product
+    vector: number[];
+}
+
+// Embedded link targets of one site, for one provider and model
+export interface PageEmbeddingIndex {
+    provider: EmbeddingProvider;
+    model: string;
+    dimensions: number;
+    updatedAt: number;
+    // Keyed by page URL
+    entries: Record<string, PageEmbedding>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ⚓ ANCHOR PROFILE TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// exact = the target's keyword or title; partial = shares words with them;
+// branded = names the site; generic = neither ("learn more", "read more")
+export type AnchorType = 'exact' | 'partial' | 'branded' | 'generic';
+
+export type AnchorMix = Record<AnchorType, number>;
+
+export interface AnchorDiversitySettings {
+    // Pick anchors that keep each target's profile close to targetMix
+    enabled: boolean;
+    // Share of each anchor type a target should have, 0–1
+    targetMix: AnchorMix;
+    // How far a type may go over its share before its anchors are refused
+    tolerance: number;
+    // The same exact-match anchor text at most this many times per target
+    maxExactRepeats: number;
+}
+
+export interface AnchorUsage {
+    // Page the link is on
+    sourceUrl: string;
+    anchor: string;
+    type: AnchorType;
+    // 'crawl' = found by the link graph crawl; 'published' = placed by this app
+    origin: 'crawl' | 'published';
+    recordedAt: number;
+}
+
+export interface TargetAnchorUsage {
+    url: string;
+    title: string;
+    anchors: AnchorUsage[];
+}
+
+// Anchors pointing at each page of the site, keyed by linkKey of the target URL
+export type AnchorUsageIndex = Record<string, TargetAnchorUsage>;
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ↩️ INBOUND LINK TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type InboundLinkStatus = 'pending' | 'applied' | 'failed';
+
+// A link from an existing post to a freshly published one, waiting for review
+export interface InboundLinkProposal {
+    id: string;
+    createdAt: number;
+    status: InboundLinkStatus;
+    
+    // The published article that should receive the link
+    targetUrl: string;
+    targetTitle: string;
+    
+    // The existing post the link goes into
+    sourcePostId: number;
+    sourceUrl: string;
+    sourceTitle: string;
+    
+    // Exact text in the source paragraph that becomes the anchor
+    anchor: string;
+    // Plain text of that paragraph, shown for review and used to find it again
+    context: string;
+    // calculateRelevanceScore of source vs target, 0–100
+    relevance: number;
+    
+    appliedAt?: number;
+    error?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🏢 WORKSPACE TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// Everything that belongs to one WordPress site
+export interface WorkspaceData {
+    wpConfig: WpConfig;
+    apiKeys: ApiKeys;
+    neuronEnabled: boolean;
+    autonomousConfig: AutonomousConfig;
+    pages: SitemapPage[];
+    globalStats: GlobalStats;
+    revisions: Record<string, PostRevisionSnapshot[]>;
+    approvalQueue: ApprovalQueueItem[];
+    checkpoints: Record<string, PipelineCheckpoint>;
+    linkGraph: SiteLinkGraph | null;
+    inboundLinkProposals: InboundLinkProposal[];
+    pageEmbeddings: PageEmbeddingIndex | null;
+    anchorUsage: AnchorUsageIndex;
+}
+
+export interface Workspace {
+    id: string;
+    name: string;
+    createdAt: number;
+    // Parked data of an inactive workspace — the active one lives at the top level of the store
+    data: WorkspaceData | null;
+}
+
+// One row of the cross-site dashboard
+export interface WorkspaceSummary {
+    id: string;
+    name: string;
+    siteUrl: string;
+    isActive: boolean;
+    pageCount: number;
+    optimizedCount: number;
+    failedCount: number;
+    pendingApprovals: number;
+    avgHealthScore: number;
+    totalProcessed: number;
+    totalWordsGenerated: number;
+    costUsd: number;
+    lastRunTime: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔐 CREDENTIAL VAULT TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+// AES-GCM ciphertext with the PBKDF2 parameters needed to re-derive its key
+export interface EncryptedPayload {
+    version: 1;
+    iterations: number;
+    // Base64
+    salt: string;
+    iv: string;
+    ciphertext: string;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -667,6 +1290,8 @@ export interface BulkProcessingState {
     totalTime: number;
     avgScore: number;
     totalWords: number;
+    totalCostUsd?: number;
+    totalTokens?: number;
 }
 
 export interface BulkResult {
@@ -789,6 +1414,23 @@ export function createDefaultJobState(): JobState {
     };
 }
 
+export function createDefaultAutonomousRunState(): AutonomousRunState {
+    return {
+        status: 'idle',
+        startedAt: null,
+        endedAt: null,
+        stopReason: null,
+        activeJobs: [],
+        processed: 0,
+        succeeded: 0,
+        failed: 0,
+        lastError: null,
+        nextStartAt: null,
+        costUsd: 0,
+        tokens: 0
+    };
+}
+
 export function createDefaultGlobalStats(): GlobalStats {
     return {
         totalProcessed: 0,
@@ -22,10 +22,18 @@ import {
     EntityGapAnalysis, 
     NeuronTerm,
     InternalLinkTarget,
-    InternalLinkResult,
+    InternalLinkInjectionOptions,
+    InternalLinkInjectionResult,
     ValidatedReference,
-    FAQ
+    FAQ,
+    BrandVoiceProfile
 } from './types';
+import { runBrandVoiceAgent } from './lib/brand-voice';
+import { runLinkEngine } from './lib/link-engine';
+import { scorePageOpportunity, calculateOpportunityScore, analyzeExistingContent } from './lib/opportunity-scoring';
+
+// Scoring lives in lib/ so the store can use it without pulling in this module
+export { scorePageOpportunity, calculateOpportunityScore, analyzeExistingContent };
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📌 VERSION
@@ -68,6 +76,18 @@ export function countWords(text: string): number {
 
 export function stripHtml(html: string): string {
     if (!html) return '';
+    // No DOM outside the browser (offline pipeline harness) — strip tags instead
+    if (typeof DOMParser === 'undefined') {
+        return html
+            .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+            .replace(/<[^>]*>/g, '')
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&#39;/g, "'")
+            .replace(/&amp;/g, '&');
+    }
     const doc = new DOMParser().parseFromString(html, 'text/html');
     return doc.body?.textContent || '';
 }
@@ -135,38 +155,6 @@ export function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// 📊 OPPORTUNITY SCORING
-// ═══════════════════════════════════════════════════════════════════════════════
-
-export function calculateOpportunityScore(
-    title: string, 
-    wordCount: number | null
-): { total: number; titleScore: number; lengthScore: number; freshness: number } {
-    let titleScore = 50;
-    let lengthScore = 50;
-    let freshness = 50;
-    
-    if (title) {
-        const titleLength = title.length;
-        if (titleLength >= 50 && titleLength <= 60) titleScore = 100;
-        else if (titleLength >= 40 && titleLength <= 70) titleScore = 80;
-        else if (titleLength < 30 || titleLength > 80) titleScore = 30;
-    }
-    
-    if (wordCount !== null) {
-        if (wordCount >= 4000) lengthScore = 100;
-        else if (wordCount >= 2500) lengthScore = 80;
-        else if (wordCount >= 1500) lengthScore = 60;
-        else if (wordCount >= 800) lengthScore = 40;
-        else lengthScore = 20;
-    }
-    
-    const total = Math.round((titleScore * 0.3) + (lengthScore * 0.5) + (freshness * 0.2));
-    
-    return { total, titleScore, lengthScore, freshness };
-}
-
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔥 H1 TAG REMOVAL — CRITICAL
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -321,210 +309,28 @@ export function calculateSeoMetrics(
     return metrics;
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// 🔍 EXISTING CONTENT ANALYSIS
-// ═══════════════════════════════════════════════════════════════════════════════
-
-export interface ExistingContentAnalysis {
-    wordCount: number;
-    imageCount: number;
-    hasFAQ: boolean;
-    hasSchema: boolean;
-    headingCount: number;
-    internalLinkCount: number;
-    externalLinkCount: number;
-    readabilityScore?: number;
-}
-
-export function analyzeExistingContent(html: string): ExistingContentAnalysis {
-    if (!html) {
-        return {
-            wordCount: 0,
-            imageCount: 0,
-            hasFAQ: false,
-            hasSchema: false,
-            headingCount: 0,
-            internalLinkCount: 0,
-            externalLinkCount: 0
-        };
-    }
-    
-    const doc = new DOMParser().parseFromString(html, 'text/html');
-    const text = doc.body?.textContent || '';
-    
-    const wordCount = text.split(/\s+/).filter(Boolean).length;
-    const imageCount = doc.querySelectorAll('img').length;
-    const headingCount = doc.querySelectorAll('h1, h2, h3, h4, h5, h6').length;
-    
-    const allLinks = doc.querySelectorAll('a[href]');
-    let internalLinkCount = 0;
-    let externalLinkCount = 0;
-    
-    allLinks.forEach(link => {
-        const href = link.getAttribute('href') || '';
-        if (href.startsWith('/') || href.startsWith('#')) {
-            internalLinkCount++;
-        } else if (href.startsWith('http')) {
-            externalLinkCount++;
-        }
-    });
-    
-    const hasFAQ = html.toLowerCase().includes('frequently asked') ||
-                   html.toLowerCase().includes('faq') ||
-                   html.includes('FAQPage');
-    
-    const hasSchema = html.includes('application/ld+json') ||
-                      html.includes('itemtype="https://schema.org');
-    
-    return {
-        wordCount,
-        imageCount,
-        hasFAQ,
-        hasSchema,
-        headingCount,
-        internalLinkCount,
-        externalLinkCount
-    };
-}
-
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🔗 INTERNAL LINK INJECTION
 // ═══════════════════════════════════════════════════════════════════════════════
 
-export interface InternalLinkInjectionOptions {
-    minLinks?: number;
-    maxLinks?: number;
-    minRelevance?: number;
-    minDistanceBetweenLinks?: number;
-    maxLinksPerSection?: number;
-}
-
-export interface InternalLinkInjectionResult {
-    html: string;
-    linksAdded: InternalLinkResult[];
-    totalLinks: number;
-}
-
+/**
+ * Adds internal links to `html` through the shared link engine, skipping
+ * `currentUrl`. See lib/link-engine.ts for the placement rules.
+ *
+ * Unset options fall back to DEFAULT_LINK_ENGINE_OPTIONS: minLinks 0,
+ * maxLinks 15, minRelevance 0.3, minDistanceBetweenLinks 150 and
+ * maxLinksPerSection 2. These replaced this function's own defaults
+ * (10 / 20 / 0.5 / 400). Spacing is now counted in words of article text
+ * between linked paragraphs, not characters of HTML, so a distance passed
+ * in the old unit should be divided by about six.
+ */
 export function injectInternalLinks(
     html: string,
     linkTargets: InternalLinkTarget[],
     currentUrl: string,
     options: InternalLinkInjectionOptions = {}
 ): InternalLinkInjectionResult {
-    const {
-        minLinks = 10,
-        maxLinks = 20,
-        minRelevance = 0.5,
-        minDistanceBetweenLinks = 400,
-        maxLinksPerSection = 2
-    } = options;
-    
-    if (!html || !linkTargets || linkTargets.length === 0) {
-        return { html, linksAdded: [], totalLinks: 0 };
-    }
-    
-    const linksAdded: InternalLinkResult[] = [];
-    let modifiedHtml = html;
-    let lastLinkPosition = 0;
-    
-    const availableTargets = linkTargets.filter(t => 
-        t.url !== currentUrl && 
-        !t.url.includes(extractSlugFromUrl(currentUrl))
-    );
-    
-    const paragraphRegex = /<p[^>]*>([^<]{100,})<\/p>/gi;
-    const paragraphs: Array<{ match: string; text: string; index: number }> = [];
-    let match;
-    
-    while ((match = paragraphRegex.exec(html)) !== null) {
-        paragraphs.push({
-            match: match[0],
-            text: match[1],
-            index: match.index
-        });
-    }
-    
-    for (const target of availableTargets) {
-        if (linksAdded.length >= maxLinks) break;
-        
-        for (const para of paragraphs) {
-            if (para.index - lastLinkPosition < minDistanceBetweenLinks) continue;
-            
-            const relevance = calculateLinkRelevance(para.text, target);
-            
-            if (relevance >= minRelevance) {
-                const anchorText = generateAnchorText(para.text, target);
-                
-                if (anchorText && anchorText.split(/\s+/).length >= 3) {
-                    if (para.text.toLowerCase().includes(anchorText.toLowerCase())) {
-                        const link = `<a href="${target.url}" title="${escapeHtml(target.title)}">${anchorText}</a>`;
-                        
-                        const escapedAnchor = anchorText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                        const anchorRegex = new RegExp(`\\b${escapedAnchor}\\b`, 'i');
-                        
-                        const newPara = para.match.replace(anchorRegex, link);
-                        
-                        if (newPara !== para.match) {
-                            modifiedHtml = modifiedHtml.replace(para.match, newPara);
-                            
-                            linksAdded.push({
-                                url: target.url,
-                                anchorText,
-                                relevanceScore: relevance,
-                                position: para.index
-                            });
-                            
-                            lastLinkPosition = para.index;
-                            break;
-                        }
-                    }
-                }
-            }
-        }
-    }
-    
-    return {
-        html: modifiedHtml,
-        linksAdded,
-        totalLinks: linksAdded.length
-    };
-}
-
-function calculateLinkRelevance(paragraphText: string, target: InternalLinkTarget): number {
-    const textLower = paragraphText.toLowerCase();
-    const titleLower = target.title.toLowerCase();
-    const slugWords = target.slug.replace(/-/g, ' ').toLowerCase().split(/\s+/);
-    
-    let score = 0;
-    
-    const titleWords = titleLower.split(/\s+/).filter(w => w.length > 3);
-    const matchingTitleWords = titleWords.filter(w => textLower.includes(w));
-    score += (matchingTitleWords.length / Math.max(1, titleWords.length)) * 0.5;
-    
-    const matchingSlugWords = slugWords.filter(w => w.length > 3 && textLower.includes(w));
-    score += (matchingSlugWords.length / Math.max(1, slugWords.length)) * 0.3;
-    
-    if (target.keywords) {
-        const matchingKeywords = target.keywords.filter(k => textLower.includes(k.toLowerCase()));
-        score += (matchingKeywords.length / Math.max(1, target.keywords.length)) * 0.2;
-    }
-    
-    return Math.min(1, score);
-}
-
-function generateAnchorText(paragraphText: string, target: InternalLinkTarget): string {
-    const titleWords = target.title.split(/\s+/);
-    
-    for (let len = 5; len >= 3; len--) {
-        for (let start = 0; start <= titleWords.length - len; start++) {
-            const phrase = titleWords.slice(start, start + len).join(' ');
-            if (paragraphText.toLowerCase().includes(phrase.toLowerCase())) {
-                return phrase;
-            }
-        }
-    }
-    
-    return titleWords.slice(0, 4).join(' ');
+    return runLinkEngine(html, linkTargets, { ...options, currentUrl });
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -541,7 +347,8 @@ export interface QASwarmResult {
 export function runQASwarm(
     contract: ContentContract,
     entityGapData?: EntityGapAnalysis,
-    neuronTerms?: NeuronTerm[]
+    neuronTerms?: NeuronTerm[],
+    brandVoice?: BrandVoiceProfile
 ): QASwarmResult {
     const results: QAValidationResult[] = [];
     
@@ -714,6 +521,11 @@ export function runQASwarm(
         fixSuggestion: !hasReferences ? 'Add authoritative references section' : undefined
     });
     
+    // BRAND VOICE RULES
+    if (brandVoice) {
+        results.push(...runBrandVoiceAgent(stripHtml(html), brandVoice));
+    }
+    
     // Calculate overall score
     const totalScore = results.reduce((sum, r) => sum + r.score, 0);
     const avgScore = Math.round(totalScore / results.length);
@@ -760,6 +572,7 @@ export default {
     sanitizeTitle,
     formatDuration,
     sleep,
+    scorePageOpportunity,
     calculateOpportunityScore,
     removeAllH1Tags,
     validateNoH1,